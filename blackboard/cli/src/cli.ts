@@ -14,6 +14,8 @@ import {
   updateStepStatusHook,
   promptReflect,
   loadThread,
+  postCommitHook,
+  installGitHook,
 } from "./hooks/mod.ts";
 import {
   statusCommand,
@@ -27,28 +29,56 @@ import {
   threadListCommand,
   threadStatusCommand,
   threadPlanCommand,
+  threadDependCommand,
+  threadPriorityCommand,
+  threadVerifyCommand,
+  threadPlanHistoryCommand,
+  threadPlanDiffCommand,
+  threadExportCommand,
+  threadImportCommand,
   workersCommand,
   logsCommand,
   killCommand,
+  reviewCommand,
   drainCommand,
   farmCommand,
+  farmListCommand,
+  farmStatusCommand,
   dashboardCommand,
+  serveCommand,
+  mcpCommand,
   workCommand,
+  workerRunThreadCommand,
+  workerRunDroneCommand,
   stepListCommand,
   stepAddCommand,
   stepUpdateCommand,
   stepRemoveCommand,
   stepReorderCommand,
+  stepDependCommand,
   initWorkerCommand,
   droneNewCommand,
   droneListCommand,
   droneShowCommand,
   droneEditCommand,
+  droneBudgetCommand,
   droneArchiveCommand,
   droneDeleteCommand,
   droneStartCommand,
   droneStopCommand,
   droneLogsCommand,
+  droneScheduleCommand,
+  droneSchedulerCommand,
+  droneTriggerCommand,
+  droneWatchCommand,
+  dbMigrateCommand,
+  configListCommand,
+  configGetCommand,
+  configSetCommand,
+  configUnsetCommand,
+  searchCommand,
+  DEFAULT_MAX_PITFALLS,
+  DEFAULT_CONTEXT_MAX_TOKENS,
 } from "./commands/mod.ts";
 
 /**
@@ -62,6 +92,13 @@ const threadCommand = new Command()
     console.log("  list            List all threads");
     console.log("  status [name]   Show thread status");
     console.log("  plan <name>     Edit or create a plan for a thread");
+    console.log("  plan-history <name>  List revisions of a thread's plan");
+    console.log("  plan-diff <name> [rev1] [rev2]  Diff two plan revisions");
+    console.log("  depend <name> --on <other>  Hold a thread until another is completed");
+    console.log("  priority <name> <n>  Set a thread's farm priority (higher runs sooner)");
+    console.log("  verify <name> [commands...]  Set commands that must pass before the plan completes");
+    console.log("  export <name> [--out file]  Export a thread as a JSON bundle");
+    console.log("  import <file>   Import a thread bundle");
     console.log("\nTo work on a thread, use: blackboard work <name>");
   })
   .command("new", "Create a new thread")
@@ -83,7 +120,8 @@ const threadCommand = new Command()
   .command("status", "Show thread status")
   .arguments("[name:string]")
   .option("-b, --brief", "Brief output (no plan markdown)")
-  .action(async (options: { brief?: boolean }, name?: string) => {
+  .option("--max-tokens <n:number>", "Token budget for --json context (trims plan, crumbs and bugs by priority)")
+  .action(async (options: { brief?: boolean; maxTokens?: number }, name?: string) => {
     await threadStatusCommand(name, options);
   })
   .reset()
@@ -91,8 +129,56 @@ const threadCommand = new Command()
   .arguments("<name:string> [file:string]")
   .option("-d, --db <path:string>", "Database path")
   .option("-q, --quiet", "Suppress non-essential output")
-  .action(async (options: { db?: string; quiet?: boolean }, name: string, file?: string) => {
+  .option("--reason <text:string>", "Why the plan is changing (recorded in plan history)")
+  .action(async (options: { db?: string; quiet?: boolean; reason?: string }, name: string, file?: string) => {
     await threadPlanCommand(name, { ...options, file });
+  })
+  .reset()
+  .command("plan-history", "List revisions of a thread's plan")
+  .arguments("<name:string>")
+  .action(async (options: { db?: string; quiet?: boolean; json?: boolean }, name: string) => {
+    await threadPlanHistoryCommand(name, options);
+  })
+  .reset()
+  .command("plan-diff", "Show a unified diff between two plan revisions")
+  .arguments("<name:string> [rev1:number] [rev2:number]")
+  .action(async (options: { db?: string; quiet?: boolean; json?: boolean }, name: string, rev1?: number, rev2?: number) => {
+    await threadPlanDiffCommand(name, rev1, rev2, options);
+  })
+  .reset()
+  .command("depend", "Make a thread wait until another thread is completed")
+  .arguments("<name:string>")
+  .option("--on <thread:string>", "Thread it depends on", { required: true })
+  .option("--remove", "Remove the dependency instead")
+  .action(async (options: { on: string; remove?: boolean }, name: string) => {
+    await threadDependCommand(name, options);
+  })
+  .reset()
+  .command("priority", "Set a thread's farm priority (higher runs sooner, default 0)")
+  .arguments("<name:string> <priority:integer>")
+  .action(async (options: { db?: string; quiet?: boolean; json?: boolean }, name: string, priority: number) => {
+    await threadPriorityCommand(name, priority, options);
+  })
+  .reset()
+  .command("verify", "Set the commands (tests, type-check, lint) that must pass before the thread's plan counts as completed; shows them if none are given")
+  .arguments("<name:string> [...commands:string]")
+  .option("--clear", "Remove the thread's commands (the verify config key applies again)")
+  .action(async (options: { db?: string; quiet?: boolean; json?: boolean; clear?: boolean }, name: string, ...commands: string[]) => {
+    await threadVerifyCommand(name, commands, options);
+  })
+  .reset()
+  .command("export", "Export a thread and its history as a JSON bundle")
+  .arguments("<name:string>")
+  .option("-o, --out <file:string>", "Write the bundle to a file instead of stdout")
+  .action(async (options: { out?: string; db?: string; quiet?: boolean }, name: string) => {
+    await threadExportCommand(name, options);
+  })
+  .reset()
+  .command("import", "Import a thread bundle (safe to repeat)")
+  .arguments("<file:string>")
+  .option("--name <name:string>", "Name for the imported thread")
+  .action(async (options: { name?: string; db?: string; quiet?: boolean; json?: boolean }, file: string) => {
+    await threadImportCommand(file, options);
   });
 
 /**
@@ -106,6 +192,11 @@ const droneCommand = new Command()
     console.log("  list               List all drones");
     console.log("  show <name>        Show drone details and recent sessions");
     console.log("  edit <name>        Edit drone prompt in $EDITOR");
+    console.log("  budget <name>      Show or set the per-session budget");
+    console.log("  schedule <name>    Show or set a cron schedule");
+    console.log("  scheduler          Run scheduled drones when they are due");
+    console.log("  trigger <name>     List or add event triggers");
+    console.log("  watch              Run drones when their triggers fire");
     console.log("  start <name>       Start a drone session");
     console.log("  stop <name>        Stop a running drone session");
     console.log("  logs <name>        View logs for a running drone");
@@ -119,13 +210,17 @@ const droneCommand = new Command()
   .option("--max-iterations <n:number>", "Max iterations per session", { default: 100 })
   .option("--timeout <minutes:number>", "Session timeout in minutes", { default: 60 })
   .option("--cooldown <seconds:number>", "Cooldown between iterations", { default: 60 })
-  .action(async (options: { prompt?: string; file?: string; maxIterations: number; timeout: number; cooldown: number; json?: boolean; quiet?: boolean }, name: string) => {
+  .option("--max-cost <usd:number>", "Stop a session once it has cost this much (USD)")
+  .option("--max-tokens <n:number>", "Stop a session once it has used this many tokens")
+  .action(async (options: { prompt?: string; file?: string; maxIterations: number; timeout: number; cooldown: number; maxCost?: number; maxTokens?: number; json?: boolean; quiet?: boolean }, name: string) => {
     await droneNewCommand(name, {
       prompt: options.prompt,
       file: options.file,
       maxIterations: options.maxIterations,
       timeout: options.timeout,
       cooldown: options.cooldown,
+      maxCost: options.maxCost,
+      maxTokens: options.maxTokens,
       json: options.json,
       quiet: options.quiet,
     });
@@ -155,6 +250,53 @@ const droneCommand = new Command()
     await droneEditCommand(name, {});
   })
   .reset()
+  .command("budget", "Show or set a drone's per-session budget")
+  .arguments("<name:string>")
+  .option("--max-cost <usd:number>", "Per-session cost limit (USD)")
+  .option("--max-tokens <n:number>", "Per-session token limit")
+  .option("--clear", "Remove both limits")
+  .action((options: { maxCost?: number; maxTokens?: number; clear?: boolean; json?: boolean; quiet?: boolean }, name: string) => {
+    droneBudgetCommand(name, options);
+  })
+  .reset()
+  .command("schedule", "Show or set a drone's schedule (cron expression or interval)")
+  .arguments("<name:string> [expression:string]")
+  .option("--clear", "Remove the schedule")
+  .action((options: { clear?: boolean; json?: boolean; quiet?: boolean }, name: string, expression?: string) => {
+    droneScheduleCommand(name, expression, options);
+  })
+  .reset()
+  .command("scheduler", "Run scheduled drones when they are due")
+  .option("--interval <seconds:number>", "Seconds between checks", { default: 30 })
+  .option("--once", "Check once and exit")
+  .option("--api-key <key:string>", "Anthropic API key")
+  .option("--repo <path:string>", "Git workspace to mount")
+  .option("--memory <size:string>", "Container memory limit (config: drone.memory, default 1g)")
+  .option("--image <name:string>", "Worker image (config: image, default blackboard-worker:latest)")
+  .option("--runtime <name:string>", "Container runtime: docker, podman, nerdctl, or process (default: BLACKBOARD_RUNTIME, then config, then docker)")
+  .action(async (options: { interval?: number; once?: boolean; apiKey?: string; repo?: string; memory?: string; image?: string; runtime?: string; quiet?: boolean; json?: boolean }) => {
+    await droneSchedulerCommand(options);
+  })
+  .reset()
+  .command("trigger", "List or add a drone's event triggers (bug, thread, commit)")
+  .arguments("<name:string> [kind:string] [filter:string]")
+  .option("--remove <id:number>", "Remove a trigger by ID")
+  .action((options: { remove?: number; json?: boolean; quiet?: boolean }, name: string, kind?: string, filter?: string) => {
+    droneTriggerCommand(name, kind, filter, options);
+  })
+  .reset()
+  .command("watch", "Run drones when their triggers fire")
+  .option("--interval <seconds:number>", "Seconds between checks", { default: 15 })
+  .option("--once", "Check once and exit")
+  .option("--api-key <key:string>", "Anthropic API key")
+  .option("--repo <path:string>", "Git workspace to mount and watch for commits")
+  .option("--memory <size:string>", "Container memory limit (config: drone.memory, default 1g)")
+  .option("--image <name:string>", "Worker image (config: image, default blackboard-worker:latest)")
+  .option("--runtime <name:string>", "Container runtime: docker, podman, nerdctl, or process (default: BLACKBOARD_RUNTIME, then config, then docker)")
+  .action(async (options: { interval?: number; once?: boolean; apiKey?: string; repo?: string; memory?: string; image?: string; runtime?: string; quiet?: boolean; json?: boolean }) => {
+    await droneWatchCommand(options);
+  })
+  .reset()
   .command("archive", "Archive a drone (soft delete)")
   .arguments("<name:string>")
   .action(async (_options: void, name: string) => {
@@ -170,24 +312,30 @@ const droneCommand = new Command()
   .reset()
   .command("start", "Start a drone session")
   .arguments("<name:string>")
-  .option("--max-iterations <n:number>", "Override max iterations")
+  .option("--max-iterations <n:number>", "Override max iterations (config: drone.max_iterations)")
   .option("--cooldown <seconds:number>", "Override cooldown seconds")
+  .option("--max-cost <usd:number>", "Override the drone's cost budget for this session (USD)")
+  .option("--max-tokens <n:number>", "Override the drone's token budget for this session")
   .option("--auth <mode:string>", "Auth mode: oauth, env, or config (auto-detects if omitted)")
   .option("--api-key <key:string>", "Anthropic API key")
-  .option("--repo <path:string>", "Git workspace to mount")
-  .option("--memory <size:string>", "Container memory limit", { default: "1g" })
-  .option("--image <name:string>", "Worker image", { default: "blackboard-worker:latest" })
+  .option("--repo <path:string>", "Git workspace to mount (config: repo)")
+  .option("--memory <size:string>", "Container memory limit (config: drone.memory, default 1g)")
+  .option("--image <name:string>", "Worker image (config: image, default blackboard-worker:latest)")
   .option("--build", "Build worker image before spawning")
-  .action(async (options: { maxIterations?: number; cooldown?: number; auth?: string; apiKey?: string; repo?: string; memory?: string; image?: string; build?: boolean; quiet?: boolean }, name: string) => {
+  .option("--runtime <name:string>", "Container runtime: docker, podman, nerdctl, or process (default: BLACKBOARD_RUNTIME, then config, then docker)")
+  .action(async (options: { maxIterations?: number; cooldown?: number; maxCost?: number; maxTokens?: number; auth?: string; apiKey?: string; repo?: string; memory?: string; image?: string; build?: boolean; runtime?: string; quiet?: boolean }, name: string) => {
     await droneStartCommand(name, {
       maxIterations: options.maxIterations,
       cooldownSeconds: options.cooldown,
+      maxCost: options.maxCost,
+      maxTokens: options.maxTokens,
       auth: options.auth,
       apiKey: options.apiKey,
       repo: options.repo,
       memory: options.memory,
       image: options.image,
       build: options.build,
+      runtime: options.runtime,
       quiet: options.quiet,
     });
   })
@@ -223,16 +371,21 @@ const stepCommand = new Command()
     console.log("Step subcommand - use one of the available commands:");
     console.log("  list [thread-or-plan]  List steps for a plan");
     console.log("  add <description>      Add a new step");
-    console.log("  update <step-id>       Update step status or description");
+    console.log("  update <step-id>       Update step status, description, acceptance or verify command");
     console.log("  remove <step-id>       Remove a step");
     console.log("  reorder <step-id>      Reorder a step to a new position");
+    console.log("  depend <step> --on <step>  Make a step wait for another step");
   })
   .command("list", "List steps for a thread or plan")
   .arguments("[thread-or-plan:string]")
   .option("--status <status:string>", "Filter by status (pending|in_progress|completed|failed|skipped)")
-  .action(async (options: { status?: string }, threadOrPlan?: string) => {
+  .option("--ready", "Only pending steps whose dependencies are complete")
+  .action(async (options: { status?: string; ready?: boolean; json?: boolean; quiet?: boolean }, threadOrPlan?: string) => {
     const listOptions = {
       status: options.status as "pending" | "in_progress" | "completed" | "failed" | "skipped" | undefined,
+      ready: options.ready,
+      json: options.json,
+      quiet: options.quiet,
     };
     await stepListCommand(threadOrPlan, listOptions);
   })
@@ -241,22 +394,30 @@ const stepCommand = new Command()
   .arguments("<description:string>")
   .option("--status <status:string>", "Step status (default: pending)")
   .option("--position <n:number>", "Insert at specific position (1-indexed)")
-  .action(async (options: { status?: string; position?: number }, description: string) => {
+  .option("--acceptance <text:string>", "What done looks like (default: an Acceptance: line under the step in the plan)")
+  .option("--verify <command:string>", "Command that must pass before the step is completed (default: a Verify: line in the plan)")
+  .action(async (options: { status?: string; position?: number; acceptance?: string; verify?: string }, description: string) => {
     const addOptions = {
       status: options.status as "pending" | "in_progress" | "completed" | "failed" | "skipped" | undefined,
       position: options.position,
+      acceptance: options.acceptance,
+      verify: options.verify,
     };
     await stepAddCommand(description, addOptions);
   })
   .reset()
-  .command("update", "Update a step's status or description")
+  .command("update", "Update a step's status, description, acceptance criteria or verify command")
   .arguments("<step-id:string>")
   .option("--status <status:string>", "New status")
   .option("--description <text:string>", "New description")
-  .action(async (options: { status?: string; description?: string }, stepId: string) => {
+  .option("--acceptance <text:string>", "New acceptance criteria (\"\" clears)")
+  .option("--verify <command:string>", "New verify command (\"\" clears)")
+  .action(async (options: { status?: string; description?: string; acceptance?: string; verify?: string }, stepId: string) => {
     const updateOptions = {
       status: options.status as "pending" | "in_progress" | "completed" | "failed" | "skipped" | undefined,
       description: options.description,
+      acceptance: options.acceptance,
+      verify: options.verify,
     };
     await stepUpdateCommand(stepId, updateOptions);
   })
@@ -273,6 +434,142 @@ const stepCommand = new Command()
   .option("--position <n:number>", "New position (1-indexed)", { required: true })
   .action(async (options: { position: number }, stepId: string) => {
     await stepReorderCommand(stepId, options);
+  })
+  .reset()
+  .command("depend", "Make a step wait until another step is complete")
+  .arguments("<step:string>")
+  .option("--on <step:string>", "Step it depends on (ID or position)", { required: true })
+  .option("--remove", "Remove the dependency instead")
+  .action(async (options: { on: string; remove?: boolean }, step: string) => {
+    await stepDependCommand(step, options);
+  });
+
+/**
+ * Db subcommand group - database maintenance.
+ */
+const dbCommand = new Command()
+  .description("Database maintenance")
+  .action(() => {
+    console.log("Db subcommand - use one of the available commands:");
+    console.log("  migrate              Apply pending schema migrations");
+    console.log("  migrate --status     Show applied and pending migrations");
+    console.log("  migrate --dry-run    List migrations that would be applied");
+  })
+  .command("migrate", "Apply pending schema migrations")
+  .option("--status", "Show applied and pending migrations")
+  .option("--dry-run", "List pending migrations without applying them")
+  .action(async (options: { status?: boolean; dryRun?: boolean; db?: string; quiet?: boolean; json?: boolean }) => {
+    await dbMigrateCommand(options);
+  });
+
+/**
+ * Farm subcommand group - run workers across threads, and inspect past runs.
+ * `farm` on its own starts (or with --resume, continues) a run.
+ */
+const farmGroupCommand = new Command()
+  .description("Spawn and monitor workers for multiple threads")
+  .option("--threads <names:string>", "Comma-separated thread names")
+  .option("--concurrency <n:number>", "Max simultaneous workers (config: farm.concurrency, default 3)")
+  .option("--auth <mode:string>", "Auth mode: oauth, env, or config (config: auth; auto-detects if unset)")
+  .option("--api-key <key:string>", "Anthropic API key")
+  .option("--repo <path:string>", "Git workspace to mount (config: repo)")
+  .option("--max-iterations <n:number>", "Max iterations per worker (config: worker.max_iterations, default 50)")
+  .option("--max-cost <usd:number>", "Total cost budget across all workers (USD)")
+  .option("--max-tokens <n:number>", "Total token budget across all workers")
+  .option("--memory <size:string>", "Container memory limit (config: worker.memory, default 512m)")
+  .option("--image <name:string>", "Worker image (config: image, default blackboard-worker:latest)")
+  .option("--build", "Build worker image before starting")
+  .option("--runtime <name:string>", "Container runtime: docker, podman, nerdctl, or process (default: BLACKBOARD_RUNTIME, then config, then docker)")
+  .option("--strategy <name:string>", "Queue order: priority (weighs priority, pending steps, waiting time and failures), fifo, or shortest-first (config: farm.strategy, default priority)")
+  .option("--resume <run-id:string>", "Continue an interrupted run with its original options, reattaching to its running workers")
+  .action(async (options: { threads?: string; concurrency?: number; auth?: string; apiKey?: string; repo?: string; maxIterations?: number; maxCost?: number; maxTokens?: number; memory?: string; image?: string; build?: boolean; runtime?: string; resume?: string; strategy?: string; db?: string; quiet?: boolean; json?: boolean }) => {
+    await farmCommand(options);
+  })
+  .command("list", "List farm runs, newest first")
+  .option("--limit <n:number>", "Maximum runs to show", { default: 20 })
+  .action((options: { limit?: number; quiet?: boolean; json?: boolean }) => {
+    farmListCommand(options);
+  })
+  .reset()
+  .command("status", "Show a farm run's options, usage and per-thread outcomes")
+  .arguments("<run-id:string>")
+  .action((options: { quiet?: boolean; json?: boolean }, runId: string) => {
+    farmStatusCommand(runId, options);
+  });
+
+/**
+ * Config subcommand group - defaults for work, farm and drones.
+ */
+const configCommand = new Command()
+  .description("Show or change defaults in .claude/blackboard.toml and the user config file")
+  .action(() => {
+    console.log("Config subcommand - use one of the available commands:");
+    console.log("  list                 Show every key, its value and where it came from");
+    console.log("  get <key>            Print a key's value");
+    console.log("  set <key> <value>    Set a key in the project file (--user for the user file)");
+    console.log("  unset <key>          Remove a key from the project file (--user for the user file)");
+  })
+  .command("list", "Show every key, its value and where it came from")
+  .action((options: { quiet?: boolean; json?: boolean }) => {
+    configListCommand(options);
+  })
+  .reset()
+  .command("get", "Print a key's effective value")
+  .arguments("<key:string>")
+  .action((options: { quiet?: boolean; json?: boolean }, key: string) => {
+    configGetCommand(key, options);
+  })
+  .reset()
+  .command("set", "Set a key in the project file")
+  .arguments("<key:string> <value:string>")
+  .option("--user", "Write the user config file instead")
+  .action((options: { user?: boolean; quiet?: boolean; json?: boolean }, key: string, value: string) => {
+    configSetCommand(key, value, options);
+  })
+  .reset()
+  .command("unset", "Remove a key from the project file")
+  .arguments("<key:string>")
+  .option("--user", "Change the user config file instead")
+  .action((options: { user?: boolean; quiet?: boolean; json?: boolean }, key: string) => {
+    configUnsetCommand(key, options);
+  });
+
+/**
+ * Worker-run subcommand group - the worker loop, as run by the container entrypoints.
+ */
+const workerRunCommand = new Command()
+  .description("Run the worker loop for an existing worker (used by worker containers)")
+  .action(() => {
+    console.log("Worker-run subcommand - use one of:");
+    console.log("  thread <name>   Work through a thread's plan");
+    console.log("  drone <name>    Run a drone session");
+  })
+  .command("thread", "Run a thread worker's loop in the current checkout")
+  .arguments("<thread-name:string>")
+  .option("--worker <id:string>", "Worker ID", { required: true })
+  .option("--max-iterations <n:number>", "Max iterations", { default: 50 })
+  .option("--context-max-tokens <n:number>", "Approximate token budget for each iteration's context packet", {
+    default: DEFAULT_CONTEXT_MAX_TOKENS,
+  })
+  .option("--dir <path:string>", "Checkout to run Claude in (default: current directory)")
+  .option("--push", "Push the branch to origin after each successful iteration")
+  .option("--timeout <seconds:number>", "Stop an iteration's Claude process after this long", { default: 600 })
+  .action(async (options: { worker: string; maxIterations: number; contextMaxTokens: number; dir?: string; push?: boolean; timeout: number; db?: string; quiet?: boolean; json?: boolean }, threadName: string) => {
+    await workerRunThreadCommand(threadName, options);
+  })
+  .reset()
+  .command("drone", "Run a drone session's loop in the current checkout")
+  .arguments("<drone-name:string>")
+  .option("--worker <id:string>", "Worker ID", { required: true })
+  .option("--session <id:string>", "Drone session ID", { required: true })
+  .option("--prompt <text:string>", "The drone's prompt, including any trigger context", { required: true })
+  .option("--max-iterations <n:number>", "Max iterations", { default: 100 })
+  .option("--cooldown <seconds:number>", "Pause between iterations", { default: 60 })
+  .option("--dir <path:string>", "Checkout to run Claude in (default: current directory)")
+  .option("--push", "Push the branch to origin after each successful iteration")
+  .option("--timeout <seconds:number>", "Stop an iteration's Claude process after this long", { default: 600 })
+  .action(async (options: { worker: string; session: string; prompt: string; maxIterations: number; cooldown: number; dir?: string; push?: boolean; timeout: number; db?: string; quiet?: boolean; json?: boolean }, droneName: string) => {
+    await workerRunDroneCommand(droneName, options);
   });
 
 /**
@@ -290,6 +587,8 @@ const hookCommand = new Command()
     console.log("  update-step-status   Mark step complete");
     console.log("  prompt-reflect       Suggest reflection");
     console.log("  load-thread          Load thread context packet");
+    console.log("  post-commit          Link new commits to the blackboard (git)");
+    console.log("  install-git-hook     Install the git post-commit hook");
   })
   .command("init-db", "Initialize database (SessionStart)")
   .action(async () => {
@@ -331,8 +630,25 @@ const hookCommand = new Command()
   .reset()
   .command("load-thread", "Load thread context packet")
   .arguments("[name:string]")
-  .action(async (_options, name) => {
-    await loadThread(name);
+  .option("--max-pitfalls <n:number>", "Maximum known pitfalls (past corrections) to include, 0 to disable", {
+    default: DEFAULT_MAX_PITFALLS,
+  })
+  .option("--max-tokens <n:number>", "Approximate token budget for the context packet", {
+    default: DEFAULT_CONTEXT_MAX_TOKENS,
+  })
+  .action(async (options: { maxPitfalls: number; maxTokens: number }, name?: string) => {
+    await loadThread(name, { maxPitfalls: options.maxPitfalls, maxTokens: options.maxTokens });
+  })
+  .reset()
+  .command("post-commit", "Link new commits to threads, steps and workers (git post-commit)")
+  .option("--range <range:string>", "Record every commit in a revision range (e.g. abc123..HEAD) instead of HEAD")
+  .action((options: { range?: string; db?: string }) => {
+    postCommitHook(options);
+  })
+  .reset()
+  .command("install-git-hook", "Install the post-commit hook into the current git repository")
+  .action(async (options: { db?: string; quiet?: boolean }) => {
+    await installGitHook(options);
   });
 
 /**
@@ -363,6 +679,23 @@ export const cli = new Command()
   })
   .reset()
 
+  .command("serve", "Serve a local HTTP API over the blackboard database")
+  .option("-p, --port <n:number>", "Port to listen on", { default: 7878 })
+  .option("--host <addr:string>", "Address to bind", { default: "127.0.0.1" })
+  .option("--cors <origin:string>", "Allow browser requests from this origin")
+  .action(async (options: { port: number; host: string; cors?: string; db?: string; quiet?: boolean }) => {
+    await serveCommand(options);
+  })
+  .reset()
+
+  .command("mcp", "Run an MCP server (stdio) exposing blackboard tools")
+  .option("--thread <name:string>", "Thread tools act on when a call doesn't name one")
+  .option("--verify-dir <dir:string>", "Checkout verify commands run in (default: CLAUDE_PROJECT_DIR, else the current directory)")
+  .action(async (options: { thread?: string; verifyDir?: string; db?: string }) => {
+    await mcpCommand(options);
+  })
+  .reset()
+
   .command("install", "Show installation and update instructions")
   .action((options) => {
     installCommand(options);
@@ -376,6 +709,17 @@ export const cli = new Command()
   })
   .reset()
 
+  .command("search", "Full-text search across plans, crumbs, reflections, corrections, bugs and next-ups")
+  .arguments("<terms:string>")
+  .option("-t, --type <list:string>", "Comma-separated types: plan, crumb, reflection, correction, bug, next-up")
+  .option("--thread <name:string>", "Only results from this thread")
+  .option("--since <when:string>", "Only results created since (e.g. 30m, 24h, 7d, 2026-01-25)")
+  .option("-l, --limit <n:number>", "Maximum results", { default: 20 })
+  .action(async (options: { type?: string; thread?: string; since?: string; limit?: number; db?: string; quiet?: boolean; json?: boolean }, terms: string) => {
+    await searchCommand(terms, options);
+  })
+  .reset()
+
   .command("crumb", "Record a breadcrumb")
   .arguments("<summary:string>")
   .option("-s, --step <id:string>", "Step ID")
@@ -383,6 +727,7 @@ export const cli = new Command()
   .option("-i, --issues <text:string>", "Issues encountered")
   .option("-n, --next <text:string>", "Context for next agent")
   .option("-a, --agent <type:string>", "Agent type (default: implementer)")
+  .option("-c, --commit [sha:string]", "Link a git commit to this breadcrumb and its step (default: HEAD)")
   .action(async (options, summary) => {
     await crumbCommand(summary, options);
   })
@@ -443,21 +788,42 @@ export const cli = new Command()
   })
   .reset()
 
+  .command("review", "Review a worker or drone branch, then merge, rebase or discard it")
+  .arguments("<thread-or-drone-session:string>")
+  .option("--merge", "Fast-forward the current branch to the reviewed branch")
+  .option("--squash", "With --merge: squash into a single commit instead")
+  .option("--rebase", "Rebase the branch onto the current branch, then fast-forward")
+  .option("--discard", "Delete the branch without merging")
+  .option("--verify <command:string>", "Run a command against the branch first (e.g. \"deno task test\")")
+  .option("--force", "Act even if verification fails")
+  .option("--keep-conflicts", "With --merge --squash: leave conflicts in the working tree to resolve")
+  .action(async (options: { merge?: boolean; squash?: boolean; rebase?: boolean; discard?: boolean; verify?: string; force?: boolean; keepConflicts?: boolean; db?: string; quiet?: boolean; json?: boolean }, target: string) => {
+    await reviewCommand(target, options);
+  })
+  .reset()
+
   .command("work", "Work on a thread (spawns isolated container by default)")
   .arguments("<thread-name:string>")
   .option("--local", "Run locally instead of in container (modifies local repo)")
-  .option("--auth <mode:string>", "Auth mode: oauth, env, or config (auto-detects if omitted)")
+  .option("--worktree", "Run the worker loop on the host in a git worktree on threads/<name> (no Docker needed)")
+  .option("--auth <mode:string>", "Auth mode: oauth, env, or config (config: auth; auto-detects if unset)")
   .option("--api-key <key:string>", "Anthropic API key")
-  .option("--repo <path:string>", "Git workspace to mount")
-  .option("--max-iterations <n:number>", "Max iterations", { default: 50 })
-  .option("--memory <size:string>", "Container memory limit", { default: "512m" })
-  .option("--image <name:string>", "Worker image", { default: "blackboard-worker:latest" })
+  .option("--repo <path:string>", "Git workspace to mount, or to add the worktree to (config: repo)")
+  .option("--max-iterations <n:number>", "Max iterations (config: worker.max_iterations, default 50)")
+  .option("--max-cost <usd:number>", "Stop the worker once it has cost this much (USD)")
+  .option("--max-tokens <n:number>", "Stop the worker once it has used this many tokens")
+  .option("--memory <size:string>", "Container memory limit (config: worker.memory, default 512m)")
+  .option("--image <name:string>", "Worker image (config: image, default blackboard-worker:latest)")
   .option("--build", "Build worker image before spawning")
+  .option("--runtime <name:string>", "Container runtime: docker, podman, nerdctl, or process (default: BLACKBOARD_RUNTIME, then config, then docker)")
   .action(async (options, threadName) => {
     await workCommand(threadName, options);
   })
   .reset()
 
+  .command("worker-run", workerRunCommand)
+  .reset()
+
   .command("drain", "Stop all running worker containers")
   .option("--force", "Force kill immediately")
   .option("--timeout <seconds:number>", "Grace period before force kill", { default: 30 })
@@ -466,19 +832,8 @@ export const cli = new Command()
   })
   .reset()
 
-  .command("farm", "Spawn and monitor workers for multiple threads")
-  .option("--threads <names:string>", "Comma-separated thread names")
-  .option("--concurrency <n:number>", "Max simultaneous workers", { default: 3 })
-  .option("--auth <mode:string>", "Auth mode: oauth, env, or config (auto-detects if omitted)")
-  .option("--api-key <key:string>", "Anthropic API key")
-  .option("--repo <path:string>", "Git workspace to mount")
-  .option("--max-iterations <n:number>", "Max iterations per worker", { default: 50 })
-  .option("--memory <size:string>", "Container memory limit", { default: "512m" })
-  .option("--image <name:string>", "Worker image", { default: "blackboard-worker:latest" })
-  .option("--build", "Build worker image before starting")
-  .action(async (options) => {
-    await farmCommand(options);
-  })
+  // Farm subcommand group
+  .command("farm", farmGroupCommand)
   .reset()
 
   .command("init-worker", "Create a project-specific Dockerfile.worker template")
@@ -500,5 +855,13 @@ export const cli = new Command()
   .command("drone", droneCommand)
   .reset()
 
+  // Db subcommand group
+  .command("db", dbCommand)
+  .reset()
+
+  // Config subcommand group
+  .command("config", configCommand)
+  .reset()
+
   // Hook subcommand group
   .command("hook", hookCommand);
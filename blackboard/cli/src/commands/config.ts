@@ -0,0 +1,117 @@
+/**
+ * Config commands - Show and change the defaults in .claude/blackboard.toml
+ * and the user config file.
+ */
+
+import { formatTable } from "../output/table.ts";
+import { outputJson, quietLog } from "../utils/command.ts";
+import {
+  isConfigKey,
+  listConfig,
+  parseConfigValue,
+  projectConfigPath,
+  userConfigPath,
+  writeConfigValue,
+  type ConfigEntry,
+  type ConfigScope,
+} from "../utils/config.ts";
+
+interface ConfigOptions {
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface ConfigWriteOptions extends ConfigOptions {
+  user?: boolean;
+}
+
+/**
+ * Lists the config, exiting on an invalid config file.
+ */
+function entriesOrExit(): ConfigEntry[] {
+  try {
+    return listConfig();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * List every key with its effective value and where it came from.
+ */
+export function configListCommand(options: ConfigOptions): void {
+  const entries = entriesOrExit();
+
+  if (options.json) {
+    outputJson({
+      files: { project: projectConfigPath(), user: userConfigPath() },
+      values: entries,
+    });
+    return;
+  }
+
+  const rows = entries.map((e) => [e.key, e.value === null ? "" : String(e.value), e.source ?? "", e.description]);
+  console.log(formatTable(["KEY", "VALUE", "SOURCE", "DESCRIPTION"], rows));
+  quietLog(`\nProject file: ${projectConfigPath() ?? "(not in a project)"}`, options.quiet);
+  quietLog(`User file:    ${userConfigPath()}`, options.quiet);
+}
+
+/**
+ * Print a key's effective value (nothing if unset).
+ */
+export function configGetCommand(key: string, options: ConfigOptions): void {
+  if (!isConfigKey(key)) {
+    console.error(`Error: Unknown config key "${key}"`);
+    Deno.exit(1);
+  }
+  const entry = entriesOrExit().find((e) => e.key === key)!;
+
+  if (options.json) {
+    outputJson({ key: entry.key, value: entry.value, source: entry.source });
+  } else if (entry.value !== null) {
+    console.log(String(entry.value));
+  }
+}
+
+/**
+ * Set a key in the project file (or the user file with --user).
+ */
+export function configSetCommand(key: string, value: string, options: ConfigWriteOptions): void {
+  const scope: ConfigScope = options.user ? "user" : "project";
+  try {
+    const parsed = parseConfigValue(key, value);
+    const path = writeConfigValue(scope, parsed.key, parsed.value);
+    if (options.json) {
+      outputJson({ key: parsed.key, value: parsed.value, scope, file: path });
+    } else {
+      quietLog(`Set ${parsed.key} = ${parsed.value} in ${path}`, options.quiet);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Remove a key from the project file (or the user file with --user).
+ */
+export function configUnsetCommand(key: string, options: ConfigWriteOptions): void {
+  const scope: ConfigScope = options.user ? "user" : "project";
+  if (!isConfigKey(key)) {
+    console.error(`Error: Unknown config key "${key}"`);
+    Deno.exit(1);
+  }
+
+  try {
+    const path = writeConfigValue(scope, key, undefined);
+    if (options.json) {
+      outputJson({ key, scope, file: path });
+    } else {
+      quietLog(`Removed ${key} from ${path}`, options.quiet);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+}
@@ -4,6 +4,10 @@
  */
 
 import { getDb } from "../db/connection.ts";
+import { getCurrentThread } from "../db/queries.ts";
+import { recordCommitLink } from "../db/commit-queries.ts";
+import { resolveCommit } from "../services/commit-links.ts";
+import { getCurrentGitBranch } from "../utils/git.ts";
 import { getTargetPlanId, quietLog } from "../utils/command.ts";
 import { generateId } from "../utils/id.ts";
 
@@ -15,6 +19,7 @@ interface CrumbOptions {
   issues?: string;
   next?: string;
   agent?: string;
+  commit?: string | boolean;
 }
 
 /**
@@ -36,6 +41,14 @@ export async function crumbCommand(
     Deno.exit(1);
   }
 
+  // Resolve the commit before recording anything; a bare --commit means HEAD
+  const revision = options.commit === true ? "HEAD" : options.commit || null;
+  const commit = revision ? resolveCommit(revision) : null;
+  if (revision && !commit) {
+    console.error(`Error: Unknown commit "${revision}"`);
+    Deno.exit(1);
+  }
+
   // Generate ID
   const crumbId = generateId();
 
@@ -62,5 +75,18 @@ export async function crumbCommand(
     next_context: options.next ?? null,
   });
 
-  quietLog(`Breadcrumb ${crumbId} recorded`, options.quiet);
+  if (commit) {
+    const branch = getCurrentGitBranch();
+    recordCommitLink({
+      ...commit,
+      thread_id: getCurrentThread()?.id ?? null,
+      plan_id: planId,
+      step_id: options.step ?? null,
+      breadcrumb_id: crumbId,
+      branch: branch && branch !== "HEAD" ? branch : null,
+    });
+    quietLog(`Breadcrumb ${crumbId} recorded (commit ${commit.sha.slice(0, 7)})`, options.quiet);
+  } else {
+    quietLog(`Breadcrumb ${crumbId} recorded`, options.quiet);
+  }
 }
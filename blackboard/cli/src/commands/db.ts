@@ -0,0 +1,95 @@
+/**
+ * Database commands - Inspect and apply schema migrations.
+ */
+
+import { getDb, initializeDatabase } from "../db/connection.ts";
+import { getMigrationStatus, MigrationError } from "../db/migrations/mod.ts";
+import { formatTable } from "../output/table.ts";
+import { outputJson, quietLog } from "../utils/command.ts";
+
+interface DbMigrateOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+  status?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Apply pending migrations, or report on them with --status/--dry-run.
+ *
+ * @param options - Command options
+ */
+export async function dbMigrateCommand(
+  options: DbMigrateOptions
+): Promise<void> {
+  // Open without migrating so --status/--dry-run see the database as-is
+  const db = getDb(options.db, { skipMigrations: true });
+  const migrations = getMigrationStatus(db);
+  const pending = migrations.filter((m) => !m.applied);
+
+  if (options.status) {
+    if (options.json) {
+      outputJson(migrations);
+      return;
+    }
+
+    const rows = migrations.map((m) => [
+      m.id,
+      m.applied ? (m.modified ? "modified" : "applied") : "pending",
+      m.applied_at ?? "",
+      m.description,
+    ]);
+    console.log(formatTable(["ID", "STATUS", "APPLIED AT", "DESCRIPTION"], rows));
+
+    if (migrations.some((m) => m.modified)) {
+      console.log("\nWarning: some applied migrations have changed since they were recorded");
+    }
+    quietLog(`\n${migrations.length - pending.length} applied, ${pending.length} pending`, options.quiet);
+    return;
+  }
+
+  if (options.dryRun) {
+    if (options.json) {
+      outputJson({ pending: pending.map((m) => m.id) });
+      return;
+    }
+
+    if (pending.length === 0) {
+      quietLog("Database is up to date", options.quiet);
+      return;
+    }
+    console.log("Would apply:");
+    for (const m of pending) {
+      console.log(`  ${m.id}  ${m.description}`);
+    }
+    return;
+  }
+
+  let applied: string[];
+  try {
+    applied = initializeDatabase(db);
+  } catch (error) {
+    if (error instanceof MigrationError) {
+      console.error(`Error: ${error.message}`);
+      console.error("The failed migration was rolled back; earlier migrations remain applied.");
+    } else {
+      console.error("Error:", error instanceof Error ? error.message : String(error));
+    }
+    Deno.exit(1);
+  }
+
+  if (options.json) {
+    outputJson({ applied });
+    return;
+  }
+
+  if (applied.length === 0) {
+    quietLog("Database is up to date", options.quiet);
+    return;
+  }
+  for (const id of applied) {
+    quietLog(`Applied ${id}`, options.quiet);
+  }
+  quietLog(`\n${applied.length} migration(s) applied`, options.quiet);
+}
@@ -3,7 +3,7 @@
  * Updates worker status to 'killed' in the database.
  */
 
-import { getActiveWorkers, updateWorkerStatus } from "../db/worker-queries.ts";
+import { getActiveWorkers, isWorktreeWorker, updateWorkerStatus } from "../db/worker-queries.ts";
 import { dockerKill, dockerStop } from "../docker/client.ts";
 
 export interface DrainOptions {
@@ -57,11 +57,13 @@ export async function drainCommand(options: DrainOptions): Promise<void> {
     };
 
     try {
-      // Stop or kill the container
-      if (options.force) {
-        await dockerKill(worker.container_id);
+      // Stop or kill the container (worktree workers stop themselves once marked killed)
+      if (isWorktreeWorker(worker)) {
+        // No container
+      } else if (options.force) {
+        await dockerKill(worker.container_id, worker.runtime);
       } else {
-        await dockerStop(worker.container_id, timeout);
+        await dockerStop(worker.container_id, timeout, worker.runtime);
       }
 
       // Update worker status in database
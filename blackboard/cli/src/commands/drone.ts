@@ -11,10 +11,22 @@ import {
   archiveDrone,
   deleteDrone,
   listDroneSessions,
+  listScheduleRuns,
+  setDroneSchedule,
+  createDroneTrigger,
+  deleteDroneTrigger,
+  listDroneTriggers,
+  listTriggerFirings,
 } from "../db/drone-queries.ts";
-import type { DroneStatus } from "../types/schema.ts";
-import { relativeTime, formatLocalTime } from "../utils/time.ts";
-import { outputJson } from "../utils/command.ts";
+import { getUsageByDroneSession, getUsageForDrone } from "../db/usage-queries.ts";
+import { runSchedulerTick } from "../services/drone-scheduler.ts";
+import { describeTrigger, runTriggerTick } from "../services/drone-triggers.ts";
+import type { DroneStatus, DroneTriggerKind, ThreadStatus } from "../types/schema.ts";
+import { relativeTime, formatLocalTime, formatLocalDateTime, toDbTimestamp } from "../utils/time.ts";
+import { nextRunAfter, parseSchedule, ScheduleError } from "../utils/schedule.ts";
+import { getCommitSha } from "../utils/git.ts";
+import { budgetError, budgetFromRow, formatBudget, formatUsage } from "../utils/usage.ts";
+import { outputJson, quietLog } from "../utils/command.ts";
 
 interface DroneNewOptions {
   prompt?: string;
@@ -22,6 +34,8 @@ interface DroneNewOptions {
   maxIterations?: number;
   timeout?: number;
   cooldown?: number;
+  maxCost?: number;
+  maxTokens?: number;
   quiet?: boolean;
   json?: boolean;
 }
@@ -37,6 +51,14 @@ interface DroneShowOptions {
   json?: boolean;
 }
 
+interface DroneBudgetOptions {
+  maxCost?: number;
+  maxTokens?: number;
+  clear?: boolean;
+  quiet?: boolean;
+  json?: boolean;
+}
+
 interface DroneEditOptions {
   quiet?: boolean;
 }
@@ -128,6 +150,12 @@ export async function droneNewCommand(
     Deno.exit(1);
   }
 
+  const budgetProblem = budgetError({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens });
+  if (budgetProblem) {
+    console.error(`Error: ${budgetProblem}`);
+    Deno.exit(1);
+  }
+
   let prompt: string;
 
   // Get prompt from file or option
@@ -150,6 +178,8 @@ export async function droneNewCommand(
     maxIterations: options.maxIterations,
     timeoutMinutes: options.timeout,
     cooldownSeconds: options.cooldown,
+    maxCostUsd: options.maxCost,
+    maxTokens: options.maxTokens,
   });
 
   if (options.json) {
@@ -160,6 +190,7 @@ export async function droneNewCommand(
     console.log(`Max iterations: ${options.maxIterations ?? 100}`);
     console.log(`Timeout: ${options.timeout ?? 60} minutes`);
     console.log(`Cooldown: ${options.cooldown ?? 60} seconds`);
+    console.log(`Budget per session: ${formatBudget({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens })}`);
   }
 }
 
@@ -203,6 +234,10 @@ export function droneListCommand(options: DroneListOptions): void {
     console.log(
       `     ${d.max_iterations} iterations, ${d.timeout_minutes}min timeout, ${d.cooldown_seconds}s cooldown - ${relativeTime(d.updated_at)}`
     );
+    if (d.schedule) {
+      const next = d.next_run_at ? formatLocalDateTime(d.next_run_at) : "not scheduled";
+      console.log(`     schedule: ${d.schedule} (next run: ${next})`);
+    }
   }
 }
 
@@ -216,9 +251,15 @@ export function droneShowCommand(name: string, options: DroneShowOptions): void
     Deno.exit(1);
   }
 
+  const usageBySession = getUsageByDroneSession();
+
   if (options.json) {
     const sessions = listDroneSessions(name, 10);
-    outputJson({ ...drone, recent_sessions: sessions });
+    outputJson({
+      ...drone,
+      usage: getUsageForDrone(drone.id),
+      recent_sessions: sessions.map((s) => ({ ...s, usage: usageBySession.get(s.id) ?? null })),
+    });
     return;
   }
 
@@ -232,8 +273,23 @@ export function droneShowCommand(name: string, options: DroneShowOptions): void
   console.log(`Max iterations: ${drone.max_iterations}`);
   console.log(`Timeout: ${drone.timeout_minutes} minutes`);
   console.log(`Cooldown: ${drone.cooldown_seconds} seconds`);
+  console.log(`Budget per session: ${formatBudget(budgetFromRow(drone))}`);
+  if (drone.schedule) {
+    const next = drone.next_run_at ? formatLocalDateTime(drone.next_run_at) : "not scheduled";
+    console.log(`Schedule: ${drone.schedule} (next run: ${next})`);
+  }
+  for (const trigger of listDroneTriggers(drone.id)) {
+    console.log(`Trigger #${trigger.id}: ${describeTrigger(trigger)}`);
+  }
   console.log();
 
+  const usage = getUsageForDrone(drone.id);
+  if (usage.iterations > 0) {
+    console.log("## Usage");
+    console.log(`Total: ${formatUsage(usage)} over ${usage.iterations} iterations`);
+    console.log();
+  }
+
   console.log("## Prompt");
   console.log(drone.prompt);
   console.log();
@@ -249,9 +305,11 @@ export function droneShowCommand(name: string, options: DroneShowOptions): void
       const branch = session.git_branch ? ` on ${session.git_branch}` : "";
       const time = formatLocalTime(session.started_at);
       const stopInfo = session.stop_reason ? ` (${session.stop_reason})` : "";
+      const sessionUsage = usageBySession.get(session.id);
+      const usageInfo = sessionUsage ? ` - ${formatUsage(sessionUsage)}` : "";
 
       console.log(
-        `  ${statusIcon} ${session.id} - ${session.iteration} iterations${branch} - ${time}${stopInfo}`
+        `  ${statusIcon} ${session.id} - ${session.iteration} iterations${branch} - ${time}${stopInfo}${usageInfo}`
       );
     }
   } else {
@@ -297,6 +355,37 @@ export async function droneEditCommand(
   }
 }
 
+/**
+ * Show or change a drone's default per-session budget.
+ * `drone start --max-cost/--max-tokens` overrides it for a single session.
+ */
+export function droneBudgetCommand(name: string, options: DroneBudgetOptions): void {
+  const drone = getDrone(name);
+  if (!drone) {
+    console.error(`Error: Drone "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  const budgetProblem = budgetError({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens });
+  if (budgetProblem) {
+    console.error(`Error: ${budgetProblem}`);
+    Deno.exit(1);
+  }
+
+  if (options.clear) {
+    updateDrone(drone.id, { max_cost_usd: null, max_tokens: null });
+  } else if (options.maxCost !== undefined || options.maxTokens !== undefined) {
+    updateDrone(drone.id, { max_cost_usd: options.maxCost, max_tokens: options.maxTokens });
+  }
+
+  const updated = getDrone(drone.id)!;
+  if (options.json) {
+    outputJson({ name: updated.name, max_cost_usd: updated.max_cost_usd, max_tokens: updated.max_tokens });
+  } else if (!options.quiet) {
+    console.log(`Drone "${updated.name}" budget per session: ${formatBudget(budgetFromRow(updated))}`);
+  }
+}
+
 /**
  * Archive a drone (soft delete).
  */
@@ -354,18 +443,23 @@ export function droneDeleteCommand(name: string, options: DroneDeleteOptions): v
 
 import { getCurrentSession } from "../db/drone-queries.ts";
 import { launchDrone, stopDrone } from "../services/drone-ops.ts";
+import { useRuntime } from "../docker/runtime.ts";
+import { loadConfig } from "../utils/config.ts";
 import { getWorkerEvents } from "../db/worker-queries.ts";
 
 interface DroneStartOptions {
   quiet?: boolean;
   maxIterations?: number;
   cooldownSeconds?: number;
+  maxCost?: number;
+  maxTokens?: number;
   auth?: string;
   apiKey?: string;
   repo?: string;
   memory?: string;
   image?: string;
   build?: boolean;
+  runtime?: string;
 }
 
 interface DroneStopOptions {
@@ -387,15 +481,24 @@ export async function droneStartCommand(
   name: string,
   options: DroneStartOptions
 ): Promise<void> {
+  const budgetProblem = budgetError({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens });
+  if (budgetProblem) {
+    console.error(`Error: ${budgetProblem}`);
+    Deno.exit(1);
+  }
+
   try {
     const result = await launchDrone(name, {
       maxIterations: options.maxIterations,
       cooldownSeconds: options.cooldownSeconds,
+      maxCostUsd: options.maxCost,
+      maxTokens: options.maxTokens,
       apiKey: options.apiKey,
       image: options.image,
       memory: options.memory,
       repoDir: options.repo,
       build: options.build,
+      runtime: options.runtime,
       quiet: options.quiet,
       onStatus: options.quiet ? undefined : console.log,
     });
@@ -532,3 +635,390 @@ export async function droneLogsCommand(
     }
   }
 }
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+interface DroneScheduleOptions {
+  clear?: boolean;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface DroneSchedulerOptions {
+  interval?: number;
+  once?: boolean;
+  apiKey?: string;
+  repo?: string;
+  memory?: string;
+  image?: string;
+  runtime?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Show, set or clear a drone's schedule.
+ * Schedules only take effect while `blackboard drone scheduler` is running.
+ */
+export function droneScheduleCommand(
+  name: string,
+  expression: string | undefined,
+  options: DroneScheduleOptions
+): void {
+  const drone = getDrone(name);
+  if (!drone) {
+    console.error(`Error: Drone "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  if (options.clear) {
+    setDroneSchedule(drone.id, null, null);
+    if (options.json) {
+      outputJson({ name: drone.name, schedule: null, next_run_at: null });
+    } else if (!options.quiet) {
+      console.log(`Schedule cleared for drone "${drone.name}"`);
+    }
+    return;
+  }
+
+  if (expression !== undefined) {
+    let nextRunAt: string;
+    try {
+      nextRunAt = toDbTimestamp(nextRunAfter(parseSchedule(expression), new Date()));
+    } catch (error) {
+      if (error instanceof ScheduleError) {
+        console.error(`Error: ${error.message}`);
+        console.error('Examples: "0 3 * * *" (3am daily), "30 9 * * mon-fri", "@weekly", "every 6h"');
+        Deno.exit(1);
+      }
+      throw error;
+    }
+
+    setDroneSchedule(drone.id, expression.trim(), nextRunAt);
+    if (options.json) {
+      outputJson({ name: drone.name, schedule: expression.trim(), next_run_at: nextRunAt });
+    } else if (!options.quiet) {
+      console.log(`Drone "${drone.name}" scheduled: ${expression.trim()}`);
+      console.log(`Next run: ${formatLocalDateTime(nextRunAt)}`);
+      console.log("\nScheduled drones run while 'blackboard drone scheduler' is running.");
+    }
+    return;
+  }
+
+  // No expression: show the schedule and recent scheduler activity
+  const runs = listScheduleRuns(drone.id, 10);
+  if (options.json) {
+    outputJson({ name: drone.name, schedule: drone.schedule, next_run_at: drone.next_run_at, recent_runs: runs });
+    return;
+  }
+
+  if (!drone.schedule) {
+    console.log(`Drone "${drone.name}" has no schedule`);
+    console.log(`\nSet one with: blackboard drone schedule ${drone.name} "0 3 * * *"`);
+    return;
+  }
+
+  console.log(`Schedule: ${drone.schedule}`);
+  console.log(`Next run: ${drone.next_run_at ? formatLocalDateTime(drone.next_run_at) : "not scheduled"}`);
+  if (runs.length > 0) {
+    console.log("\nRecent runs:");
+    for (const run of runs) {
+      const session = run.session_id ? ` session ${run.session_id.slice(0, 8)}` : "";
+      const detail = run.detail ? ` - ${run.detail}` : "";
+      console.log(`  ${formatLocalDateTime(run.scheduled_for)}  ${run.outcome}${session}${detail}`);
+    }
+  }
+}
+
+/**
+ * Call a tick function every interval until Ctrl+C (or once with --once).
+ * Errors are logged rather than fatal, since the database may be briefly
+ * locked by workers; the next tick tries again.
+ */
+async function pollUntilInterrupted(
+  intervalSeconds: number,
+  once: boolean | undefined,
+  tick: () => Promise<void>
+): Promise<void> {
+  let stopping = false;
+  let wake: (() => void) | null = null;
+
+  if (!once) {
+    Deno.addSignalListener("SIGINT", () => {
+      stopping = true;
+      wake?.();
+    });
+  }
+
+  while (!stopping) {
+    try {
+      await tick();
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (once) {
+      break;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, intervalSeconds * 1000);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
+
+function timestamp(): string {
+  return new Date().toLocaleTimeString("en-US", { hour12: false });
+}
+
+/**
+ * Run the drone scheduler until interrupted, starting drones as they fall due.
+ */
+export async function droneSchedulerCommand(options: DroneSchedulerOptions): Promise<void> {
+  const intervalSeconds = options.interval ?? 30;
+  if (intervalSeconds < 1) {
+    console.error("Error: --interval must be at least 1 second");
+    Deno.exit(1);
+  }
+
+  try {
+    useRuntime(options.runtime);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+
+  const launchOptions = {
+    apiKey: options.apiKey,
+    repoDir: options.repo,
+    memory: options.memory,
+    image: options.image,
+    runtime: options.runtime,
+  };
+
+  if (!options.once) {
+    const scheduled = listDrones({ status: "active" }).filter((d) => d.schedule);
+    quietLog(`Drone scheduler started: ${scheduled.length} scheduled drone(s), checking every ${intervalSeconds}s`, options.quiet);
+    for (const d of scheduled) {
+      const next = d.next_run_at ? formatLocalDateTime(d.next_run_at) : "not scheduled";
+      quietLog(`  ${d.name}: ${d.schedule} (next run: ${next})`, options.quiet);
+    }
+    quietLog("Press Ctrl+C to stop", options.quiet);
+  }
+
+  await pollUntilInterrupted(intervalSeconds, options.once, async () => {
+    const results = await runSchedulerTick(new Date(), launchOptions);
+    for (const result of results) {
+      if (options.json) {
+        outputJson({
+          drone: result.drone.name,
+          scheduled_for: result.scheduledFor,
+          outcome: result.outcome,
+          session_id: result.sessionId ?? null,
+          detail: result.detail ?? null,
+          missed: result.missed,
+          next_run_at: result.nextRunAt,
+        });
+        continue;
+      }
+
+      const missed = result.missed > 0 ? ` (${result.missed} missed run(s) recorded)` : "";
+      const session = result.sessionId ? ` session ${result.sessionId.slice(0, 8)}` : "";
+      const detail = result.detail ? `: ${result.detail}` : "";
+      const next = result.nextRunAt ? ` - next run ${formatLocalDateTime(result.nextRunAt)}` : "";
+      const line = `[${timestamp()}] ${result.drone.name} ${result.outcome}${session}${detail}${missed}${next}`;
+      if (result.outcome === "failed") {
+        console.error(line);
+      } else {
+        quietLog(line, options.quiet);
+      }
+    }
+  });
+}
+
+// ============================================================================
+// Triggers
+// ============================================================================
+
+interface DroneTriggerOptions {
+  remove?: number;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+const TRIGGER_KINDS: DroneTriggerKind[] = ["bug", "thread", "commit"];
+const THREAD_STATUSES: ThreadStatus[] = ["active", "paused", "completed", "archived"];
+
+/**
+ * List, add or remove a drone's event triggers.
+ * Triggers only fire while `blackboard drone watch` is running.
+ */
+export function droneTriggerCommand(
+  name: string,
+  kind: string | undefined,
+  filter: string | undefined,
+  options: DroneTriggerOptions
+): void {
+  const drone = getDrone(name);
+  if (!drone) {
+    console.error(`Error: Drone "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  if (options.remove !== undefined) {
+    if (!deleteDroneTrigger(drone.id, options.remove)) {
+      console.error(`Error: Drone "${drone.name}" has no trigger #${options.remove}`);
+      Deno.exit(1);
+    }
+    if (options.json) {
+      outputJson({ name: drone.name, removed: options.remove });
+    } else if (!options.quiet) {
+      console.log(`Removed trigger #${options.remove} from drone "${drone.name}"`);
+    }
+    return;
+  }
+
+  if (kind !== undefined) {
+    if (!TRIGGER_KINDS.includes(kind as DroneTriggerKind)) {
+      console.error(`Error: Unknown trigger "${kind}". Use one of: ${TRIGGER_KINDS.join(", ")}`);
+      Deno.exit(1);
+    }
+
+    let cursor: string | null = null;
+    if (kind === "thread" && filter !== undefined && !THREAD_STATUSES.includes(filter as ThreadStatus)) {
+      console.error(`Error: Invalid thread status "${filter}". Use one of: ${THREAD_STATUSES.join(", ")}`);
+      Deno.exit(1);
+    }
+    if (kind === "commit") {
+      if (!filter) {
+        console.error("Error: A commit trigger needs a branch, e.g. blackboard drone trigger <name> commit main");
+        Deno.exit(1);
+      }
+      // Start from the branch's current commit so only new commits fire it
+      cursor = getCommitSha(filter);
+    }
+
+    const triggerId = createDroneTrigger(drone.id, kind as DroneTriggerKind, filter ?? null, cursor);
+    const trigger = listDroneTriggers(drone.id).find((t) => t.id === triggerId)!;
+    if (options.json) {
+      outputJson(trigger);
+    } else if (!options.quiet) {
+      console.log(`Drone "${drone.name}" will start on ${describeTrigger(trigger)} (trigger #${triggerId})`);
+      console.log("\nTriggers fire while 'blackboard drone watch' is running.");
+    }
+    return;
+  }
+
+  // No kind: list triggers and recent firings
+  const triggers = listDroneTriggers(drone.id);
+  const firings = listTriggerFirings(drone.id, 10);
+  if (options.json) {
+    outputJson({ name: drone.name, triggers, recent_firings: firings });
+    return;
+  }
+
+  if (triggers.length === 0) {
+    console.log(`Drone "${drone.name}" has no triggers`);
+    console.log(`\nAdd one with: blackboard drone trigger ${drone.name} bug "flaky"`);
+    return;
+  }
+
+  console.log("Triggers:");
+  for (const t of triggers) {
+    console.log(`  #${t.id}  ${describeTrigger(t)}`);
+  }
+  if (firings.length > 0) {
+    console.log("\nRecent firings:");
+    for (const f of firings) {
+      const session = f.session_id ? ` session ${f.session_id.slice(0, 8)}` : "";
+      const detail = f.detail ? ` - ${f.detail}` : "";
+      const entity = f.kind === "commit" ? f.entity_id.slice(0, 10) : f.entity_id;
+      console.log(`  ${formatLocalDateTime(f.fired_at)}  ${f.kind} ${entity}  ${f.outcome}${session}${detail}`);
+    }
+  }
+}
+
+interface DroneWatchOptions {
+  interval?: number;
+  once?: boolean;
+  apiKey?: string;
+  repo?: string;
+  memory?: string;
+  image?: string;
+  runtime?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Watch for trigger events until interrupted, starting drones as they fire.
+ */
+export async function droneWatchCommand(options: DroneWatchOptions): Promise<void> {
+  const intervalSeconds = options.interval ?? 15;
+  if (intervalSeconds < 1) {
+    console.error("Error: --interval must be at least 1 second");
+    Deno.exit(1);
+  }
+
+  // Commit triggers watch the configured workspace too
+  let repoDir = options.repo;
+  try {
+    useRuntime(options.runtime);
+    repoDir ??= loadConfig().repo;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+
+  const launchOptions = {
+    apiKey: options.apiKey,
+    repoDir,
+    memory: options.memory,
+    image: options.image,
+    runtime: options.runtime,
+  };
+
+  if (!options.once) {
+    const triggers = listDroneTriggers();
+    quietLog(`Drone watcher started: ${triggers.length} trigger(s), checking every ${intervalSeconds}s`, options.quiet);
+    for (const t of triggers) {
+      const drone = getDrone(t.drone_id);
+      quietLog(`  ${drone?.name ?? t.drone_id}: ${describeTrigger(t)}`, options.quiet);
+    }
+    quietLog("Press Ctrl+C to stop", options.quiet);
+  }
+
+  await pollUntilInterrupted(intervalSeconds, options.once, async () => {
+    const results = await runTriggerTick(launchOptions);
+    for (const result of results) {
+      if (options.json) {
+        outputJson({
+          drone: result.drone.name,
+          trigger_id: result.trigger.id,
+          kind: result.trigger.kind,
+          entity_id: result.entityId,
+          event: result.event,
+          outcome: result.outcome,
+          session_id: result.sessionId ?? null,
+          detail: result.detail ?? null,
+        });
+        continue;
+      }
+
+      const session = result.sessionId ? ` session ${result.sessionId.slice(0, 8)}` : "";
+      const detail = result.detail ? `: ${result.detail}` : "";
+      const line = `[${timestamp()}] ${result.drone.name} ${result.outcome} for ${result.event}${session}${detail}`;
+      if (result.outcome === "failed") {
+        console.error(line);
+      } else {
+        quietLog(line, options.quiet);
+      }
+    }
+  });
+}
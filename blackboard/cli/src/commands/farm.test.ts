@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { rankQueue, type QueueCandidate } from "./farm.ts";
+
+const candidate = (name: string, fields: Partial<QueueCandidate> = {}) => ({
+  name,
+  priority: 0,
+  pendingSteps: 3,
+  waitingMinutes: 0,
+  failures: 0,
+  workersStarted: 0,
+  ...fields,
+});
+
+Deno.test("rankQueue - strategies order the farm queue", () => {
+  const queue = [
+    candidate("long", { pendingSteps: 20 }),
+    candidate("urgent", { priority: 2 }),
+    candidate("short", { pendingSteps: 1 }),
+  ];
+  const names = (strategy: "priority" | "fifo" | "shortest-first") =>
+    rankQueue(queue, strategy).map((c) => c.name);
+
+  assertEquals(names("fifo"), ["long", "urgent", "short"]);
+  assertEquals(names("shortest-first"), ["short", "urgent", "long"]);
+  assertEquals(names("priority"), ["urgent", "short", "long"]);
+});
+
+Deno.test("rankQueue - waiting ages threads past priority; failures and prior workers push them back", () => {
+  const ranked = (queue: ReturnType<typeof candidate>[]) => rankQueue(queue, "priority").map((c) => c.name);
+
+  assertEquals(ranked([candidate("urgent", { priority: 1 }), candidate("old", { waitingMinutes: 30 })]), ["old", "urgent"]);
+  assertEquals(ranked([candidate("flaky", { failures: 2 }), candidate("fresh")]), ["fresh", "flaky"]);
+  assertEquals(ranked([candidate("busy", { workersStarted: 3 }), candidate("waiting")]), ["waiting", "busy"]);
+  assertEquals(ranked([candidate("a"), candidate("b")]), ["a", "b"]);
+});
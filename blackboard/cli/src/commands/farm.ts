@@ -1,17 +1,43 @@
 /**
  * Farm command - Orchestrate multiple containerized workers across threads.
  * Monitors and manages a fleet of workers, respawning failed ones automatically.
+ * Threads that depend on other threads are held until those are completed,
+ * and the queue is ordered by a scheduling strategy (see rankQueue).
+ * Each run's queue is kept in the database so an interrupted farm can be
+ * resumed with --resume, and listed with `farm list` / `farm status`.
  */
 
 import { dirname, fromFileUrl, join } from "jsr:@std/path";
 import { resolveDbPath } from "../db/connection.ts";
-import { listThreads, getStepsForPlan, resolveThread, getPendingSteps } from "../db/queries.ts";
+import {
+  listThreads,
+  getStepsForPlan,
+  getThreadById,
+  resolveThread,
+  getPendingSteps,
+  getThreadPrerequisites,
+  updateThread,
+} from "../db/queries.ts";
 import {
   insertWorker,
   getActiveWorkers,
   getStaleWorkers,
+  getWorker,
   updateWorkerStatus,
 } from "../db/worker-queries.ts";
+import {
+  createFarmRun,
+  getFarmRun,
+  getFarmRunHeartbeatAge,
+  getFarmRunThreads,
+  getFarmRunWorkerCounts,
+  getFarmRunWorkerIds,
+  listFarmRuns,
+  recordFarmRunWorker,
+  setFarmRunStatus,
+  touchFarmRun,
+  updateFarmRunThread,
+} from "../db/farm-queries.ts";
 import {
   isDockerAvailable,
   dockerImageExists,
@@ -19,13 +45,22 @@ import {
   dockerRun,
   dockerRm,
   cleanupOrphans,
+  reconcileWorkers,
   resolveDockerfile,
   type ContainerOptions,
 } from "../docker/client.ts";
+import { getRuntime, runtimeUnavailableMessage, useRuntime, type ContainerRuntime } from "../docker/runtime.ts";
+import { getUsageForWorkers } from "../db/usage-queries.ts";
 import { generateId } from "../utils/id.ts";
 import { extractAndValidateOAuthToken } from "../utils/oauth.ts";
-import type { Thread } from "../types/schema.ts";
-
+import { budgetError, formatBudget, formatUsage, remainingBudget, type BudgetLimits } from "../utils/usage.ts";
+import { loadConfig, type ConfigValues } from "../utils/config.ts";
+import { formatTable } from "../output/table.ts";
+import { outputJson } from "../utils/command.ts";
+import { formatLocalDateTime, relativeTime, utcToLocal } from "../utils/time.ts";
+import type { FarmRun, FarmRunSummary, Thread, Worker } from "../types/schema.ts";
+
+/** Unset options come from the config files (see utils/config.ts) */
 export interface FarmOptions {
   db?: string;
   quiet?: boolean;
@@ -36,21 +71,82 @@ export interface FarmOptions {
   apiKey?: string;
   repo?: string;
   maxIterations?: number;
+  maxCost?: number;
+  maxTokens?: number;
   memory?: string;
   image?: string;
   build?: boolean;
+  runtime?: string;
+  resume?: string;
+  strategy?: string;
 }
 
+/** Options kept with a run and reused by --resume (never the API key) */
+type FarmRunOptions = Pick<
+  FarmOptions,
+  | "threads"
+  | "concurrency"
+  | "auth"
+  | "repo"
+  | "maxIterations"
+  | "maxCost"
+  | "maxTokens"
+  | "memory"
+  | "image"
+  | "runtime"
+  | "strategy"
+>;
+
+/**
+ * A running farm updates its heartbeat every monitor tick (10s); one that
+ * hasn't for this long is taken to have been stopped and can be resumed.
+ */
+const FARM_RUN_STALE_SECONDS = 120;
+
 interface WorkQueueItem {
   thread: Thread;
   retries: number;
+  queuedAt: number;  // ms since epoch; how long it has waited ages it up the queue
+}
+
+export const FARM_STRATEGIES = ["priority", "fifo", "shortest-first"] as const;
+export type FarmStrategy = typeof FARM_STRATEGIES[number];
+
+/** What the scheduler weighs for a queued thread */
+export interface QueueCandidate {
+  priority: number;
+  pendingSteps: number;
+  waitingMinutes: number;
+  /** Failed workers and failed spawns for the thread in this run */
+  failures: number;
+  /** Workers the thread has already had in this run */
+  workersStarted: number;
 }
 
+// Weights for the priority strategy, in minutes of waiting: one priority
+// level is worth ten minutes, so low-priority threads still age their way
+// to the front instead of starving.
+const PRIORITY_WEIGHT = 10;
+const PENDING_STEP_PENALTY = 0.5;
+const FAILURE_PENALTY = 5;
+const WORKER_SHARE_PENALTY = 2;
+
 interface FarmStats {
   active: number;
   completed: number;
   failed: number;
   remaining: number;
+  budgetExhausted: boolean;
+}
+
+/** In-memory state of a run; every change is also written to the database */
+interface FarmState {
+  workQueue: WorkQueueItem[];
+  // Track worker -> thread mapping for failure handling
+  workerThreadMap: Map<string, Thread>;
+  // Every worker this farm has started, for the global budget
+  spawnedWorkerIds: string[];
+  stats: FarmStats;
 }
 
 /**
@@ -70,13 +166,16 @@ async function spawnWorker(
   thread: Thread,
   options: FarmOptions,
   dbDir: string,
-  resolvedAuth: ResolvedAuth
+  resolvedAuth: ResolvedAuth,
+  budget: BudgetLimits
 ): Promise<string | null> {
   const workerId = generateId();
   const imageName = options.image || "blackboard-worker:latest";
+  const baseBranch = resolveBaseBranch(thread);
 
   if (!options.quiet) {
-    console.log(`  Spawning worker for thread "${thread.name}" (${workerId.substring(0, 8)})`);
+    const from = baseBranch ? ` from ${baseBranch}` : "";
+    console.log(`  Spawning worker for thread "${thread.name}" (${workerId.substring(0, 8)})${from}`);
   }
 
   const containerOptions: ContainerOptions = {
@@ -90,6 +189,7 @@ async function spawnWorker(
     maxIterations: options.maxIterations || 50,
     memory: options.memory || "512m",
     workerId,
+    baseBranch,
   };
 
   let containerId: string;
@@ -111,6 +211,9 @@ async function spawnWorker(
       auth_mode: resolvedAuth.authMode,
       iteration: 0,
       max_iterations: options.maxIterations || 50,
+      max_cost_usd: budget.maxCostUsd,
+      max_tokens: budget.maxTokens,
+      runtime: getRuntime().name,
     });
   } catch (error) {
     console.error(
@@ -135,6 +238,155 @@ function hasPendingWork(thread: Thread): boolean {
   return pendingSteps.length > 0;
 }
 
+/**
+ * Get the prerequisites of a thread that haven't been completed yet.
+ */
+function getUnmetPrerequisites(thread: Thread): Thread[] {
+  return getThreadPrerequisites(thread.id).filter(t => t.status !== "completed");
+}
+
+/**
+ * Branch a thread should start from if its own branch doesn't exist yet.
+ * Threads with prerequisites build on the most recently updated
+ * prerequisite's branch; others use the repo's default branch.
+ */
+export function resolveBaseBranch(thread: Thread): string | undefined {
+  const prerequisites = getThreadPrerequisites(thread.id);
+  if (prerequisites.length === 0) {
+    return undefined;
+  }
+
+  const latest = prerequisites.reduce((a, b) => (b.updated_at > a.updated_at ? b : a));
+  return `threads/${latest.name}`;
+}
+
+/**
+ * Score used by the priority strategy: priority plus time spent waiting,
+ * less pending steps (long threads shouldn't block short urgent ones),
+ * prior failures, and workers the thread has already had (a fair share for
+ * threads that haven't had a turn yet).
+ */
+function schedulingScore(candidate: QueueCandidate): number {
+  return candidate.priority * PRIORITY_WEIGHT +
+    candidate.waitingMinutes -
+    candidate.pendingSteps * PENDING_STEP_PENALTY -
+    candidate.failures * FAILURE_PENALTY -
+    candidate.workersStarted * WORKER_SHARE_PENALTY;
+}
+
+/**
+ * Order queued candidates for a strategy. fifo keeps queue order,
+ * shortest-first takes the fewest pending steps first, and priority sorts
+ * by schedulingScore. Ties keep queue order.
+ */
+export function rankQueue<T extends QueueCandidate>(candidates: T[], strategy: FarmStrategy): T[] {
+  const keyed = candidates.map((candidate, index) => ({ candidate, index }));
+  const compare = strategy === "shortest-first"
+    ? (a: QueueCandidate, b: QueueCandidate) => a.pendingSteps - b.pendingSteps
+    : strategy === "priority"
+    ? (a: QueueCandidate, b: QueueCandidate) => schedulingScore(b) - schedulingScore(a)
+    : () => 0;
+  keyed.sort((a, b) => compare(a.candidate, b.candidate) || a.index - b.index);
+  return keyed.map(k => k.candidate);
+}
+
+/**
+ * Take the best queued thread, by strategy, whose prerequisites are all
+ * completed. Threads waiting on a prerequisite this farm isn't running
+ * (not queued, not active) can never start, so they are dropped and
+ * counted as failed.
+ */
+function takeRunnableItem(
+  runId: string,
+  strategy: FarmStrategy,
+  workQueue: WorkQueueItem[],
+  runningThreads: Iterable<Thread>,
+  stats: FarmStats
+): WorkQueueItem | null {
+  const scheduledIds = new Set([
+    ...workQueue.map(item => item.thread.id),
+    ...Array.from(runningThreads, t => t.id),
+  ]);
+
+  // Priority is read fresh so `thread priority` applies to a running farm
+  const workerCounts = getFarmRunWorkerCounts(runId);
+  const now = Date.now();
+  const ranked = rankQueue(
+    workQueue.map(item => {
+      const counts = workerCounts.get(item.thread.id);
+      return {
+        item,
+        priority: getThreadById(item.thread.id)?.priority ?? item.thread.priority,
+        pendingSteps: item.thread.current_plan_id ? getPendingSteps(item.thread.current_plan_id).length : 0,
+        waitingMinutes: (now - item.queuedAt) / 60000,
+        failures: item.retries + (counts?.failed ?? 0),
+        workersStarted: counts?.workers ?? 0,
+      };
+    }),
+    strategy
+  );
+
+  for (const { item } of ranked) {
+    const unmet = getUnmetPrerequisites(item.thread);
+
+    if (unmet.length === 0) {
+      workQueue.splice(workQueue.indexOf(item), 1);
+      return item;
+    }
+
+    const stranded = unmet.find(t => !scheduledIds.has(t.id));
+    if (stranded) {
+      console.error(
+        `  Thread "${item.thread.name}" depends on "${stranded.name}" (${stranded.status}), which this farm isn't running - skipping`
+      );
+      updateFarmRunThread(runId, item.thread.id, {
+        state: "failed",
+        detail: `depends on "${stranded.name}" (${stranded.status}), which the farm isn't running`,
+      });
+      workQueue.splice(workQueue.indexOf(item), 1);
+      scheduledIds.delete(item.thread.id);
+      stats.failed++;
+      stats.remaining--;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Budget left for the next worker, given what the farm's workers have spent.
+ * Each worker is capped at whatever remains when it starts, so running
+ * workers also stop once the farm budget runs out. When the budget is spent
+ * the queue is dropped and null is returned, ending the farm.
+ */
+function takeFarmBudget(
+  runId: string,
+  options: FarmOptions,
+  spawnedWorkerIds: string[],
+  workQueue: WorkQueueItem[],
+  stats: FarmStats
+): BudgetLimits | null {
+  const limits: BudgetLimits = { maxCostUsd: options.maxCost, maxTokens: options.maxTokens };
+  const spent = getUsageForWorkers(spawnedWorkerIds);
+  const remaining = remainingBudget(limits, spent);
+  if (remaining) {
+    return remaining;
+  }
+
+  if (!stats.budgetExhausted) {
+    console.error(
+      `  Farm budget of ${formatBudget(limits)} spent (${formatUsage(spent)}) - not spawning more workers`
+    );
+    stats.budgetExhausted = true;
+  }
+  for (const item of workQueue) {
+    updateFarmRunThread(runId, item.thread.id, { state: "skipped", detail: "farm budget spent" });
+  }
+  stats.remaining -= workQueue.length;
+  workQueue.length = 0;
+  return null;
+}
+
 /**
  * Resolve thread list based on options.
  */
@@ -169,6 +421,77 @@ function resolveThreadList(options: FarmOptions): Thread[] {
   }
 }
 
+/**
+ * Look up a run for --resume, exiting if it's finished or another farm
+ * process is still driving it.
+ */
+function resumableRunOrExit(id: string): FarmRun {
+  const run = getFarmRun(id);
+  if (!run) {
+    console.error(`Error: Farm run "${id}" not found`);
+    Deno.exit(1);
+  }
+  if (run.status === "completed") {
+    console.error(`Error: Farm run ${run.id} has already completed`);
+    Deno.exit(1);
+  }
+  const heartbeatAge = getFarmRunHeartbeatAge(run.id) ?? Infinity;
+  if (run.status === "running" && heartbeatAge < FARM_RUN_STALE_SECONDS) {
+    console.error(
+      `Error: Farm run ${run.id} is still running (last seen ${Math.round(heartbeatAge)}s ago)`
+    );
+    Deno.exit(1);
+  }
+  return run;
+}
+
+/**
+ * Rebuild a run's queue from the database. Workers it left running are
+ * reconciled first - any whose container has gone are marked failed - and
+ * the rest are reattached, so the monitor loop picks up their threads as
+ * they finish.
+ */
+async function restoreFarmRun(runId: string, quiet?: boolean): Promise<FarmState> {
+  const rows = getFarmRunThreads(runId);
+
+  const workers = rows
+    .filter(row => row.state === "running" && row.worker_id)
+    .map(row => getWorker(row.worker_id!))
+    .filter((worker): worker is Worker => worker?.status === "running");
+  const { updated } = await reconcileWorkers(workers, updateWorkerStatus);
+
+  const state: FarmState = {
+    workQueue: [],
+    workerThreadMap: new Map(),
+    spawnedWorkerIds: getFarmRunWorkerIds(runId),
+    stats: { active: 0, completed: 0, failed: 0, remaining: 0, budgetExhausted: false },
+  };
+
+  for (const row of rows) {
+    const thread = getThreadById(row.thread_id);
+    if (!thread) continue;
+
+    if (row.state === "queued") {
+      state.workQueue.push({ thread, retries: row.retries, queuedAt: utcToLocal(row.updated_at).getTime() });
+      state.stats.remaining++;
+    } else if (row.state === "running" && row.worker_id) {
+      state.workerThreadMap.set(row.worker_id, thread);
+      state.stats.active++;
+    } else if (row.state === "completed") {
+      state.stats.completed++;
+    } else if (row.state === "failed") {
+      state.stats.failed++;
+    }
+  }
+
+  if (!quiet) {
+    console.log(
+      `Reattached to ${workers.length - updated} running worker(s); ${state.stats.remaining} thread(s) still queued`
+    );
+  }
+  return state;
+}
+
 /**
  * Print status line.
  */
@@ -184,25 +507,85 @@ function printStatus(stats: FarmStats, quiet: boolean): void {
  * Farm command - orchestrate multiple workers.
  */
 export async function farmCommand(options: FarmOptions): Promise<void> {
+  // A resumed run keeps the options it was started with
+  let resumed: FarmRun | null = null;
+  if (options.resume) {
+    if (options.threads) {
+      console.error("Error: --threads can't be combined with --resume; the run keeps its own threads");
+      Deno.exit(1);
+    }
+    resumed = resumableRunOrExit(options.resume);
+    options = {
+      ...(JSON.parse(resumed.options) as FarmRunOptions),
+      db: options.db,
+      quiet: options.quiet,
+      json: options.json,
+      apiKey: options.apiKey,
+      build: options.build,
+    };
+  } else {
+    let config: ConfigValues;
+    try {
+      config = loadConfig();
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      Deno.exit(1);
+    }
+    options = {
+      ...options,
+      concurrency: options.concurrency ?? config["farm.concurrency"],
+      strategy: options.strategy ?? config["farm.strategy"],
+      auth: options.auth ?? config.auth,
+      repo: options.repo ?? config.repo,
+      maxIterations: options.maxIterations ?? config["worker.max_iterations"],
+      memory: options.memory ?? config["worker.memory"],
+      image: options.image ?? config.image,
+    };
+  }
+
   const concurrency = options.concurrency || 3;
+  const strategy = (options.strategy ?? "priority") as FarmStrategy;
+  if (!FARM_STRATEGIES.includes(strategy)) {
+    console.error(`Error: Unknown strategy "${strategy}". Use one of: ${FARM_STRATEGIES.join(", ")}`);
+    Deno.exit(1);
+  }
   const imageName = options.image || "blackboard-worker:latest";
 
-  // 1. Check Docker is available
+  const budgetProblem = budgetError({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens });
+  if (budgetProblem) {
+    console.error(`Error: ${budgetProblem}`);
+    Deno.exit(1);
+  }
+
+  // 1. Check the container runtime is available
+  let runtime: ContainerRuntime;
+  try {
+    runtime = useRuntime(options.runtime);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+
   if (!options.quiet) {
-    console.log("Checking Docker availability...");
+    console.log(`Checking ${runtime.label} availability...`);
   }
 
   const dockerAvailable = await isDockerAvailable();
   if (!dockerAvailable) {
-    console.error(
-      "Error: Docker is not available. Please ensure Docker is installed and running."
-    );
-    console.error(
-      "Supported Docker environments: Docker Desktop, OrbStack, Colima"
-    );
+    console.error(`Error: ${runtimeUnavailableMessage(runtime)}`);
+    if (runtime.name === "docker") {
+      console.error(
+        "Supported Docker environments: Docker Desktop, OrbStack, Colima"
+      );
+    }
     Deno.exit(1);
   }
 
+  // The process runtime uses the host's tools; there is no image to build
+  if (runtime.name === "process") {
+    options.build = false;
+  }
+
   // 2. Auto-build image if missing
   if (!options.build) {
     const imageExists = await dockerImageExists(imageName);
@@ -269,7 +652,7 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
   const activeWorkerIds = activeWorkers.map(w => w.id);
 
   try {
-    const orphansRemoved = await cleanupOrphans(activeWorkerIds);
+    const orphansRemoved = await cleanupOrphans(activeWorkerIds, runtime.name);
     if (!options.quiet && orphansRemoved > 0) {
       console.log(`Removed ${orphansRemoved} orphaned container(s)`);
     }
@@ -279,23 +662,26 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
     );
   }
 
-  // 4. Resolve thread list
-  const threads = resolveThreadList(options);
+  // 4. Resolve thread list (a resumed run already has its queue)
+  const threads = resumed ? [] : resolveThreadList(options);
 
-  if (threads.length === 0) {
+  if (!resumed && threads.length === 0) {
     if (!options.quiet) {
       console.log("No threads with pending work found.");
     }
     return;
   }
 
-  if (!options.quiet) {
+  if (!resumed && !options.quiet) {
     console.log(`Found ${threads.length} thread(s) with pending work:`);
     for (const thread of threads) {
       const pendingCount = thread.current_plan_id
         ? getPendingSteps(thread.current_plan_id).length
         : 0;
-      console.log(`  - ${thread.name} (${pendingCount} pending steps)`);
+      const waitingOn = getUnmetPrerequisites(thread).map(t => t.name);
+      const waiting = waitingOn.length > 0 ? `, waiting on ${waitingOn.join(", ")}` : "";
+      const priority = thread.priority !== 0 ? `, priority ${thread.priority}` : "";
+      console.log(`  - ${thread.name} (${pendingCount} pending steps${priority}${waiting})`);
     }
   }
 
@@ -355,48 +741,87 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
     }
   }
 
-  // 6. Initialize work queue
-  const workQueue: WorkQueueItem[] = threads.map(thread => ({
-    thread,
-    retries: 0,
-  }));
-
+  // 6. Record the run, or pick the resumed one back up
   const dbPath = resolveDbPath();
   const dbDir = dirname(dbPath);
 
-  const stats: FarmStats = {
-    active: 0,
-    completed: 0,
-    failed: 0,
-    remaining: workQueue.length,
+  let runId: string;
+  let state: FarmState;
+  if (resumed) {
+    runId = resumed.id;
+    setFarmRunStatus(runId, "running");
+    state = await restoreFarmRun(runId, options.quiet);
+  } else {
+    runId = generateId();
+    const runOptions: FarmRunOptions = {
+      threads: options.threads,
+      concurrency,
+      auth: options.auth,
+      repo: options.repo,
+      maxIterations: options.maxIterations,
+      maxCost: options.maxCost,
+      maxTokens: options.maxTokens,
+      memory: options.memory,
+      image: imageName,
+      runtime: runtime.name,
+      strategy,
+    };
+    createFarmRun(runId, runOptions, threads.map(t => t.id));
+    state = {
+      workQueue: threads.map(thread => ({ thread, retries: 0, queuedAt: Date.now() })),
+      workerThreadMap: new Map(),
+      spawnedWorkerIds: [],
+      stats: { active: 0, completed: 0, failed: 0, remaining: threads.length, budgetExhausted: false },
+    };
+  }
+  const { workQueue, workerThreadMap, spawnedWorkerIds, stats } = state;
+
+  // Ctrl+C stops the farm but leaves its workers running for --resume
+  let interrupted = false;
+  let wake: (() => void) | null = null;
+  const onInterrupt = () => {
+    interrupted = true;
+    wake?.();
   };
-
-  // Track worker -> thread mapping for failure handling
-  const workerThreadMap = new Map<string, Thread>();
+  Deno.addSignalListener("SIGINT", onInterrupt);
 
   if (!options.quiet) {
-    console.log(`\nStarting farm with concurrency=${concurrency}`);
-    console.log("Press Ctrl+C to stop gracefully\n");
+    console.log(`\n${resumed ? "Resuming" : "Starting"} farm run ${runId} with concurrency=${concurrency}, strategy=${strategy}`);
+    if (options.maxCost !== undefined || options.maxTokens !== undefined) {
+      console.log(`Budget: ${formatBudget({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens })} across all workers`);
+    }
+    console.log("Press Ctrl+C to stop; running workers carry on and --resume picks the run back up\n");
   }
 
-  // 7. Spawn initial batch of workers
-  while (workQueue.length > 0 && stats.active < concurrency) {
-    const item = workQueue.shift()!;
-    const workerId = await spawnWorker(item.thread, options, dbDir, resolvedAuth);
+  // 7. Spawn initial batch of workers (threads wait for their prerequisites)
+  while (!interrupted && stats.active < concurrency) {
+    const budget = takeFarmBudget(runId, options, spawnedWorkerIds, workQueue, stats);
+    if (!budget) break;
+    const item = takeRunnableItem(runId, strategy, workQueue, workerThreadMap.values(), stats);
+    if (!item) break;
+    const workerId = await spawnWorker(item.thread, options, dbDir, resolvedAuth, budget);
 
     if (workerId) {
       stats.active++;
       stats.remaining--;
       workerThreadMap.set(workerId, item.thread);
+      spawnedWorkerIds.push(workerId);
+      recordFarmRunWorker(runId, workerId, item.thread.id);
     } else {
       // Failed to spawn, put back in queue if retries available
       item.retries++;
       if (item.retries < 3) {
         workQueue.push(item);
+        updateFarmRunThread(runId, item.thread.id, { state: "queued", retries: item.retries });
       } else {
         console.error(`  Max retries exceeded for thread "${item.thread.name}"`);
         stats.failed++;
         stats.remaining--;
+        updateFarmRunThread(runId, item.thread.id, {
+          state: "failed",
+          retries: item.retries,
+          detail: "no worker could be started",
+        });
       }
     }
   }
@@ -404,9 +829,18 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
   printStatus(stats, options.quiet || false);
 
   // 8. Monitor loop
-  while (stats.active > 0 || workQueue.length > 0) {
+  while (!interrupted && (stats.active > 0 || workQueue.length > 0)) {
+    touchFarmRun(runId);
+
     // Sleep 10 seconds
-    await new Promise(resolve => setTimeout(resolve, 10000));
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, 10000);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    if (interrupted) break;
 
     // Check for stale workers (30 second timeout)
     const staleWorkers = getStaleWorkers(30);
@@ -418,7 +852,7 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
 
       // Try to remove the container
       try {
-        await dockerRm(worker.container_id);
+        await dockerRm(worker.container_id, worker.runtime);
       } catch (error) {
         console.error(
           `  Warning: Failed to remove stale container ${worker.container_id}: ${error instanceof Error ? error.message : String(error)}`
@@ -434,11 +868,14 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
       const thread = workerThreadMap.get(worker.id);
       if (thread && hasPendingWork(thread)) {
         // Re-add to work queue
-        workQueue.push({ thread, retries: 0 });
+        workQueue.push({ thread, retries: 0, queuedAt: Date.now() });
         stats.remaining++;
+        updateFarmRunThread(runId, thread.id, { state: "queued", retries: 0 });
         if (!options.quiet) {
           console.log(`  Re-queuing thread "${thread.name}"`);
         }
+      } else if (thread) {
+        updateFarmRunThread(runId, thread.id, { state: "failed", detail: "worker stopped sending heartbeats" });
       }
 
       workerThreadMap.delete(worker.id);
@@ -462,41 +899,57 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
       // Check if thread still has pending work
       if (hasPendingWork(thread)) {
         if (!options.quiet) {
-          console.log(`\nWorker ${workerId.substring(0, 8)} completed, but thread "${thread.name}" has more work`);
+          const outcome = getWorker(workerId)?.stop_reason === "budget_exhausted" ? "ran out of budget" : "completed";
+          console.log(`\nWorker ${workerId.substring(0, 8)} ${outcome}, but thread "${thread.name}" has more work`);
         }
         // Note: Worker already marked completed/failed, don't adjust stats.active
         // We'll spawn a new worker below if capacity allows
-        workQueue.push({ thread, retries: 0 });
+        workQueue.push({ thread, retries: 0, queuedAt: Date.now() });
         stats.remaining++;
+        updateFarmRunThread(runId, thread.id, { state: "queued", retries: 0 });
       } else {
         if (!options.quiet) {
           console.log(`\nWorker ${workerId.substring(0, 8)} completed thread "${thread.name}"`);
         }
+        // Mark the thread completed so threads that depend on it can start
+        updateThread(thread.id, { status: "completed" });
         stats.completed++;
+        updateFarmRunThread(runId, thread.id, { state: "completed" });
       }
 
       stats.active--;
       workerThreadMap.delete(workerId);
     }
 
-    // Spawn more workers if we have capacity and work
-    while (workQueue.length > 0 && stats.active < concurrency) {
-      const item = workQueue.shift()!;
-      const workerId = await spawnWorker(item.thread, options, dbDir, resolvedAuth);
+    // Spawn more workers if we have capacity and runnable work
+    while (!interrupted && stats.active < concurrency) {
+      const budget = takeFarmBudget(runId, options, spawnedWorkerIds, workQueue, stats);
+      if (!budget) break;
+      const item = takeRunnableItem(runId, strategy, workQueue, workerThreadMap.values(), stats);
+      if (!item) break;
+      const workerId = await spawnWorker(item.thread, options, dbDir, resolvedAuth, budget);
 
       if (workerId) {
         stats.active++;
         stats.remaining--;
         workerThreadMap.set(workerId, item.thread);
+        spawnedWorkerIds.push(workerId);
+        recordFarmRunWorker(runId, workerId, item.thread.id);
       } else {
         // Failed to spawn
         item.retries++;
         if (item.retries < 3) {
           workQueue.push(item);
+          updateFarmRunThread(runId, item.thread.id, { state: "queued", retries: item.retries });
         } else {
           console.error(`  Max retries exceeded for thread "${item.thread.name}"`);
           stats.failed++;
           stats.remaining--;
+          updateFarmRunThread(runId, item.thread.id, {
+            state: "failed",
+            retries: item.retries,
+            detail: "no worker could be started",
+          });
         }
       }
     }
@@ -504,17 +957,133 @@ export async function farmCommand(options: FarmOptions): Promise<void> {
     printStatus(stats, options.quiet || false);
   }
 
+  Deno.removeSignalListener("SIGINT", onInterrupt);
+  if (interrupted) {
+    setFarmRunStatus(runId, "interrupted");
+  } else {
+    setFarmRunStatus(runId, "completed", stats.budgetExhausted ? "budget_exhausted" : null);
+  }
+
   // 9. Final summary
+  const totalThreads = getFarmRunThreads(runId).length;
   if (options.json) {
     console.log(JSON.stringify({
+      run_id: runId,
+      status: interrupted ? "interrupted" : "completed",
       completed: stats.completed,
       failed: stats.failed,
-      total_threads: threads.length,
+      active: stats.active,
+      total_threads: totalThreads,
+      budget_exhausted: stats.budgetExhausted,
+      usage: getUsageForWorkers(spawnedWorkerIds),
     }));
   } else if (!options.quiet) {
-    console.log("\nFarm completed!");
+    console.log(interrupted ? `\nFarm run ${runId} interrupted` : `\nFarm run ${runId} completed!`);
     console.log(`  Threads completed: ${stats.completed}`);
     console.log(`  Threads failed: ${stats.failed}`);
-    console.log(`  Total threads: ${threads.length}`);
+    console.log(`  Total threads: ${totalThreads}`);
+    console.log(`  Usage: ${formatUsage(getUsageForWorkers(spawnedWorkerIds))}`);
+    if (stats.budgetExhausted) {
+      console.log("  Stopped early: farm budget spent");
+    }
+    if (interrupted) {
+      console.log(`  Workers still running: ${stats.active}`);
+      console.log(`\nResume with: blackboard farm --resume ${runId}`);
+    }
+  }
+}
+
+interface FarmRunsOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+  limit?: number;
+}
+
+/**
+ * A run's status for display: "running" runs whose farm process has
+ * stopped checking in (killed, or the machine went down) show as "stale".
+ */
+function runStatusLabel(run: FarmRun, heartbeatAge: number): string {
+  return run.status === "running" && heartbeatAge >= FARM_RUN_STALE_SECONDS ? "stale" : run.status;
+}
+
+/**
+ * List farm runs, newest first.
+ */
+export function farmListCommand(options: FarmRunsOptions): void {
+  const runs = listFarmRuns(options.limit ?? 20);
+
+  if (options.json) {
+    outputJson(runs.map((run: FarmRunSummary) => ({
+      ...run,
+      options: JSON.parse(run.options),
+      status: runStatusLabel(run, run.heartbeat_age_seconds),
+    })));
+    return;
+  }
+
+  if (runs.length === 0) {
+    if (!options.quiet) {
+      console.log("No farm runs yet");
+      console.log("\nStart one with: blackboard farm");
+    }
+    return;
+  }
+
+  const rows = runs.map((run) => [
+    run.id,
+    runStatusLabel(run, run.heartbeat_age_seconds),
+    `${run.completed}/${run.threads}`,
+    String(run.failed),
+    String(run.running),
+    String(run.queued),
+    relativeTime(run.created_at),
+  ]);
+  console.log(formatTable(["ID", "STATUS", "COMPLETED", "FAILED", "RUNNING", "QUEUED", "STARTED"], rows));
+}
+
+/**
+ * Show a farm run's options, usage and per-thread outcomes.
+ */
+export function farmStatusCommand(runId: string, options: FarmRunsOptions): void {
+  const run = getFarmRun(runId);
+  if (!run) {
+    console.error(`Error: Farm run "${runId}" not found`);
+    Deno.exit(1);
+  }
+
+  const status = runStatusLabel(run, getFarmRunHeartbeatAge(run.id) ?? Infinity);
+  const runOptions = JSON.parse(run.options) as FarmRunOptions;
+  const threads = getFarmRunThreads(run.id);
+  const usage = getUsageForWorkers(getFarmRunWorkerIds(run.id));
+
+  if (options.json) {
+    outputJson({ ...run, status, options: runOptions, threads, usage });
+    return;
+  }
+
+  console.log(`## Farm run: ${run.id}`);
+  const ended = run.finished_at
+    ? `${run.status === "interrupted" ? "Stopped" : "Finished"}: ${formatLocalDateTime(run.finished_at)}`
+    : `Last seen: ${relativeTime(run.heartbeat_at)}`;
+  console.log(`Status: ${status}${run.stop_reason ? ` (${run.stop_reason})` : ""} | Started: ${formatLocalDateTime(run.created_at)} | ${ended}`);
+  console.log(
+    `Concurrency: ${runOptions.concurrency} | Strategy: ${runOptions.strategy ?? "priority"} | Runtime: ${runOptions.runtime} | Image: ${runOptions.image} | Max iterations: ${runOptions.maxIterations}`
+  );
+  console.log(`Budget: ${formatBudget({ maxCostUsd: runOptions.maxCost, maxTokens: runOptions.maxTokens })} | Usage: ${formatUsage(usage)}`);
+  console.log();
+
+  const rows = threads.map((t) => [
+    t.thread_name,
+    t.state,
+    String(t.retries),
+    t.worker_id ? t.worker_id.substring(0, 8) : "",
+    t.detail ?? "",
+  ]);
+  console.log(formatTable(["THREAD", "STATE", "RETRIES", "WORKER", "DETAIL"], rows));
+
+  if (status !== "completed" && status !== "running") {
+    console.log(`\nResume with: blackboard farm --resume ${run.id}`);
   }
 }
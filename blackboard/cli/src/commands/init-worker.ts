@@ -15,8 +15,8 @@ const DOCKERFILE_TEMPLATE = `# Project-specific worker Dockerfile
 
 FROM node:22-slim
 
-# Install system dependencies (git, curl, unzip needed for Deno installer, xxd for entrypoint)
-RUN apt-get update && apt-get install -y git curl unzip sudo xxd && rm -rf /var/lib/apt/lists/*
+# Install system dependencies (git, curl, unzip needed for Deno installer)
+RUN apt-get update && apt-get install -y git curl unzip sudo && rm -rf /var/lib/apt/lists/*
 
 # Install Deno (as root, then move to shared location)
 RUN curl -fsSL https://deno.land/install.sh | sh
@@ -30,12 +30,11 @@ RUN npm install -g @anthropic-ai/claude-code
 COPY blackboard/cli /app/blackboard-cli
 COPY blackboard/schema.sql /app/schema.sql
 
-# Copy entrypoint and parser scripts
+# Copy entrypoint scripts
 COPY blackboard/docker/entrypoint.sh /app/entrypoint.sh
 COPY blackboard/docker/drone-entrypoint.sh /app/drone-entrypoint.sh
-COPY blackboard/docker/parse-worker-events.ts /app/parse-worker-events.ts
 COPY blackboard/docker/cache-sqlite.ts /app/cache-sqlite.ts
-RUN chmod +x /app/entrypoint.sh /app/drone-entrypoint.sh /app/parse-worker-events.ts /app/cache-sqlite.ts
+RUN chmod +x /app/entrypoint.sh /app/drone-entrypoint.sh /app/cache-sqlite.ts
 
 # Set up .claude directory structure with subagent definitions
 RUN mkdir -p /app/claude-config/agents
@@ -85,9 +84,6 @@ RUN /home/worker/.deno/bin/deno task install
 # This downloads the native .so file to Deno's cache
 RUN /home/worker/.deno/bin/deno run --allow-net --allow-ffi --allow-read --allow-write --allow-env /app/cache-sqlite.ts
 
-# Also cache the parser script's dependencies
-RUN /home/worker/.deno/bin/deno cache /app/parse-worker-events.ts
-
 ENV CLAUDE_PROJECT_DIR=/app/work
 ENV CLAUDE_PLUGIN_ROOT=/app
 ENV DENO_INSTALL="/home/worker/.deno"
@@ -11,7 +11,7 @@ interface InstallOptions {
  */
 export function installCommand(options: InstallOptions): void {
   if (options.quiet) {
-    console.log("deno install -g --force --name blackboard --config deno.json --allow-read --allow-write --allow-env --allow-ffi --allow-net=github.com,objects.githubusercontent.com --allow-run=docker,git,claude,open,security mod.ts");
+    console.log("deno install -g --force --name blackboard --config deno.json --allow-read --allow-write --allow-env --allow-ffi --allow-net=github.com,objects.githubusercontent.com,127.0.0.1 --allow-run=docker,podman,nerdctl,git,claude,open,security,sh,ps mod.ts");
     return;
   }
 
@@ -29,8 +29,8 @@ This runs:
   deno install -g --force --name blackboard \\
     --config deno.json \\
     --allow-read --allow-write --allow-env --allow-ffi \\
-    --allow-net=github.com,objects.githubusercontent.com \\
-    --allow-run=docker,git,claude,open,security \\
+    --allow-net=github.com,objects.githubusercontent.com,127.0.0.1 \\
+    --allow-run=docker,podman,nerdctl,git,claude,open,security,sh,ps \\
     mod.ts
 
 After installation, the 'blackboard' command will be available globally.
@@ -3,7 +3,7 @@
  * Accepts either a worker ID or thread name.
  */
 
-import { getActiveWorkers, getWorkersForThread, updateWorkerStatus } from "../db/worker-queries.ts";
+import { getActiveWorkers, getWorkersForThread, isWorktreeWorker, updateWorkerStatus } from "../db/worker-queries.ts";
 import { resolveThread } from "../db/queries.ts";
 import { dockerKill, isContainerRunning } from "../docker/client.ts";
 
@@ -22,6 +22,8 @@ export interface KillOptions {
  * 3. If still no match, error out
  *
  * Once resolved, calls dockerKill() and updates worker status to 'killed'.
+ * Worktree workers have no container: they are marked killed and stop
+ * themselves at their next heartbeat.
  */
 export async function killCommand(
   workerIdOrThreadName: string,
@@ -102,24 +104,40 @@ export async function killCommand(
     Deno.exit(1);
   }
 
+  if (isWorktreeWorker(targetWorker)) {
+    updateWorkerStatus(targetWorker.id, 'killed');
+    if (options.json) {
+      console.log(JSON.stringify({
+        success: true,
+        worker_id: targetWorker.id,
+        container_id: targetWorker.container_id,
+        thread_name: targetWorker.thread_name,
+        status: 'killed'
+      }, null, 2));
+    } else if (!options.quiet) {
+      console.log(`Worker ${targetWorker.id} (thread: ${targetWorker.thread_name}) marked as killed - it stops within a few seconds`);
+    }
+    return;
+  }
+
   // Kill the container
   try {
-    await dockerKill(targetWorker.container_id);
+    await dockerKill(targetWorker.container_id, targetWorker.runtime);
     if (!options.quiet) {
       if (!options.json) {
         console.log(`Container ${targetWorker.container_id} killed successfully`);
       }
     }
   } catch (error) {
-    // If docker kill fails (container already dead), we still update the status
+    // If the kill fails (container already dead), we still update the status
     if (!options.quiet && !options.json) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(`Warning: Docker kill failed (container may already be dead): ${errorMessage}`);
+      console.warn(`Warning: Kill failed (container may already be dead): ${errorMessage}`);
     }
   }
 
   // Verify container is actually stopped before marking as killed
-  const stillRunning = await isContainerRunning(targetWorker.container_id);
+  const stillRunning = await isContainerRunning(targetWorker.container_id, targetWorker.runtime);
   if (stillRunning === true) {
     if (options.json) {
       console.log(JSON.stringify({
@@ -0,0 +1,33 @@
+/**
+ * MCP command - Serve blackboard tools to Claude sessions over stdio.
+ */
+
+import { getDb } from "../db/connection.ts";
+import { resolveThread } from "../db/queries.ts";
+import { runStdioServer } from "../mcp/server.ts";
+import { createBlackboardTools } from "../mcp/tools.ts";
+import denoConfig from "../../deno.json" with { type: "json" };
+
+interface McpOptions {
+  db?: string;
+  thread?: string;
+  verifyDir?: string;
+}
+
+/**
+ * Run the MCP server until the client closes stdin.
+ * Nothing but protocol messages may be written to stdout.
+ */
+export async function mcpCommand(options: McpOptions): Promise<void> {
+  getDb(options.db);
+
+  if (options.thread && !resolveThread(options.thread)) {
+    console.error(`Error: Thread "${options.thread}" not found`);
+    Deno.exit(1);
+  }
+
+  await runStdioServer(
+    { name: "blackboard", version: denoConfig.version },
+    createBlackboardTools(options.thread, options.verifyDir)
+  );
+}
@@ -15,21 +15,36 @@ export {
   threadStatusCommand,
   threadWorkCommand,
   threadPlanCommand,
+  threadDependCommand,
+  threadPriorityCommand,
+  threadVerifyCommand,
+  threadPlanHistoryCommand,
+  threadPlanDiffCommand,
+  threadExportCommand,
+  threadImportCommand,
   generateContextPacket,
+  generateContextJson,
+  DEFAULT_MAX_PITFALLS,
+  DEFAULT_CONTEXT_MAX_TOKENS,
 } from "./thread.ts";
 export { workersCommand } from "./workers.ts";
 export { logsCommand } from "./logs.ts";
 export { killCommand } from "./kill.ts";
+export { reviewCommand } from "./review.ts";
 export { drainCommand } from "./drain.ts";
-export { farmCommand } from "./farm.ts";
+export { farmCommand, farmListCommand, farmStatusCommand } from "./farm.ts";
 export { dashboardCommand } from "./dashboard.ts";
+export { serveCommand } from "./serve.ts";
+export { mcpCommand } from "./mcp.ts";
 export { workCommand } from "./work.ts";
+export { workerRunThreadCommand, workerRunDroneCommand } from "./worker-run.ts";
 export {
   stepListCommand,
   stepAddCommand,
   stepUpdateCommand,
   stepRemoveCommand,
   stepReorderCommand,
+  stepDependCommand,
 } from "./step.ts";
 export { initWorkerCommand } from "./init-worker.ts";
 export {
@@ -37,9 +52,17 @@ export {
   droneListCommand,
   droneShowCommand,
   droneEditCommand,
+  droneBudgetCommand,
   droneArchiveCommand,
   droneDeleteCommand,
   droneStartCommand,
   droneStopCommand,
   droneLogsCommand,
+  droneScheduleCommand,
+  droneSchedulerCommand,
+  droneTriggerCommand,
+  droneWatchCommand,
 } from "./drone.ts";
+export { dbMigrateCommand } from "./db.ts";
+export { configListCommand, configGetCommand, configSetCommand, configUnsetCommand } from "./config.ts";
+export { searchCommand } from "./search.ts";
@@ -0,0 +1,205 @@
+/**
+ * Review command - Review a worker or drone branch and bring it back.
+ * Shows the branch's commits and diff stat against the current branch,
+ * optionally runs a verification command, then merges, rebases or discards.
+ */
+
+import { listDroneSessionReviews, listThreadReviews } from "../db/review-queries.ts";
+import {
+  discardReviewBranch,
+  mergeReviewBranch,
+  rebaseReviewBranch,
+  recordFailedVerification,
+  resolveReviewTarget,
+  ReviewError,
+  summarizeBranch,
+  verifyBranch,
+  type ReviewActionResult,
+  type ReviewTarget,
+  type VerificationResult,
+} from "../services/review.ts";
+import { getCurrentGitBranch } from "../utils/git.ts";
+import { formatLocalDateTime } from "../utils/time.ts";
+import { outputJson } from "../utils/command.ts";
+
+interface ReviewOptions {
+  merge?: boolean;
+  squash?: boolean;
+  rebase?: boolean;
+  discard?: boolean;
+  verify?: string;
+  force?: boolean;
+  keepConflicts?: boolean;
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+// Lines of verification output shown when a command fails
+const VERIFY_TAIL_LINES = 20;
+
+/**
+ * Review a thread's or drone session's branch.
+ *
+ * @param nameOrId - Thread name/ID, drone name, or drone session ID (prefix)
+ * @param options - Action and verification options
+ */
+export async function reviewCommand(nameOrId: string, options: ReviewOptions): Promise<void> {
+  const actions = [options.merge, options.rebase, options.discard].filter(Boolean).length;
+  if (actions > 1) {
+    console.error("Error: Choose one of --merge, --rebase or --discard");
+    Deno.exit(1);
+  }
+  if (options.squash && !options.merge) {
+    console.error("Error: --squash only applies to --merge");
+    Deno.exit(1);
+  }
+
+  const base = getCurrentGitBranch();
+  if (!base || base === "HEAD") {
+    console.error("Error: Not on a git branch - check out the branch to merge into first");
+    Deno.exit(1);
+  }
+
+  let target: ReviewTarget;
+  try {
+    target = resolveReviewTarget(nameOrId);
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      console.error(`Error: ${error.message}`);
+      Deno.exit(1);
+    }
+    throw error;
+  }
+
+  if (target.branch === base) {
+    console.error(`Error: ${target.branch} is checked out - switch to the branch to merge into first`);
+    Deno.exit(1);
+  }
+
+  const summary = summarizeBranch(target.branch, base);
+  const reviews = target.kind === "thread"
+    ? listThreadReviews(target.thread.id, 5)
+    : listDroneSessionReviews(target.session.id, 5);
+
+  if (!options.json) {
+    console.log(`Reviewing ${target.label}: ${target.branch} → ${base}\n`);
+    console.log(`${summary.commits.length} commit(s) ahead, ${summary.behind} behind`);
+    for (const c of summary.commits) {
+      console.log(`  ${c.sha.slice(0, 10)} ${c.subject} (${c.author})`);
+    }
+    if (summary.diffStat) {
+      console.log(`\n${summary.diffStat}`);
+    }
+    if (reviews.length > 0) {
+      console.log("\nPrevious reviews:");
+      for (const r of reviews) {
+        const detail = r.detail ? ` - ${r.detail}` : "";
+        console.log(`  ${formatLocalDateTime(r.reviewed_at)}  ${r.outcome} into ${r.base_branch}${detail}`);
+      }
+    }
+  }
+
+  let verification: VerificationResult | undefined;
+  if (options.verify) {
+    if (!options.json) {
+      console.log(`\nRunning: ${options.verify}`);
+    }
+    verification = await verifyBranch(target.branch, options.verify);
+    if (!options.json) {
+      if (verification.passed) {
+        console.log("✓ Verification passed");
+      } else {
+        console.log(`✗ Verification failed (exit ${verification.exitCode})`);
+        const tail = verification.output.split("\n").slice(-VERIFY_TAIL_LINES);
+        for (const line of tail) {
+          console.log(`  ${line}`);
+        }
+      }
+    }
+  }
+
+  let result: ReviewActionResult | undefined;
+  if (actions > 0) {
+    if (verification && !verification.passed && !options.force) {
+      result = recordFailedVerification(target, base, verification);
+    } else {
+      try {
+        if (options.merge) {
+          result = mergeReviewBranch(target, base, {
+            squash: options.squash,
+            keepConflicts: options.keepConflicts,
+            verification,
+          });
+        } else if (options.rebase) {
+          result = await rebaseReviewBranch(target, base, { verification });
+        } else {
+          result = discardReviewBranch(target, base);
+        }
+      } catch (error) {
+        if (error instanceof ReviewError) {
+          console.error(`Error: ${error.message}`);
+          Deno.exit(1);
+        }
+        throw error;
+      }
+    }
+  }
+
+  if (options.json) {
+    outputJson({
+      target: target.kind === "thread"
+        ? { kind: "thread", name: target.thread.name }
+        : { kind: "drone-session", drone: target.drone.name, session_id: target.session.id },
+      branch: target.branch,
+      base,
+      head_sha: summary.headSha,
+      commits: summary.commits,
+      behind: summary.behind,
+      diff_stat: summary.diffStat,
+      verification: verification
+        ? { command: verification.command, passed: verification.passed, exit_code: verification.exitCode }
+        : null,
+      outcome: result?.outcome ?? null,
+      detail: result?.detail ?? null,
+      conflicts: result?.conflicts ?? [],
+    });
+  } else if (result) {
+    console.log();
+    switch (result.outcome) {
+      case "merged":
+        console.log(`✓ Fast-forwarded ${base} to ${target.branch}`);
+        break;
+      case "squashed":
+        console.log(`✓ Squashed ${target.branch} into ${base}`);
+        break;
+      case "rebased":
+        console.log(`✓ Rebased ${target.branch} onto ${base} and fast-forwarded ${base}`);
+        break;
+      case "discarded":
+        console.log(`✓ ${result.detail}`);
+        break;
+      case "verify_failed":
+        console.error("Error: Verification failed - nothing was merged (use --force to merge anyway)");
+        break;
+      case "conflict":
+        console.error(`Error: ${result.detail}`);
+        if (!options.keepConflicts && options.merge) {
+          console.error("Use --keep-conflicts to resolve them in the working tree, or try --rebase");
+        }
+        break;
+    }
+    if (target.kind === "thread" && ["merged", "squashed", "rebased"].includes(result.outcome)) {
+      console.log(`Archived thread "${target.thread.name}"`);
+    }
+  } else if (!options.quiet) {
+    console.log("\nUse --merge [--squash], --rebase or --discard to act on this branch");
+  }
+
+  if (result && (result.outcome === "conflict" || result.outcome === "verify_failed")) {
+    Deno.exit(1);
+  }
+  if (verification && !verification.passed && actions === 0) {
+    Deno.exit(1);
+  }
+}
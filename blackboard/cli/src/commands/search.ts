@@ -0,0 +1,122 @@
+/**
+ * Search command - Full-text search across plans, breadcrumbs, reflections,
+ * corrections, bug reports and next-ups.
+ */
+
+import { getDb } from "../db/connection.ts";
+import { resolveThread } from "../db/queries.ts";
+import {
+  searchBlackboard,
+  SEARCH_ENTITY_TYPES,
+  type SearchEntityType,
+} from "../db/search-queries.ts";
+import { outputJson, quietLog } from "../utils/command.ts";
+import { parseSince, relativeTime } from "../utils/time.ts";
+
+interface SearchOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+  type?: string;
+  thread?: string;
+  since?: string;
+  limit?: number;
+}
+
+// ANSI bold for highlighting matches on a terminal
+const BOLD = "\x1b[1m";
+const RESET_BOLD = "\x1b[22m";
+
+/**
+ * Search the blackboard and print ranked results with snippets.
+ *
+ * @param terms - Search terms
+ * @param options - Command options
+ */
+export async function searchCommand(
+  terms: string,
+  options: SearchOptions
+): Promise<void> {
+  getDb(options.db);
+
+  // Parse --type (comma-separated)
+  let types: SearchEntityType[] | undefined;
+  if (options.type) {
+    const requested = options.type.split(",").map((t) => t.trim()).filter(Boolean);
+    const invalid = requested.filter(
+      (t) => !SEARCH_ENTITY_TYPES.includes(t as SearchEntityType)
+    );
+    if (invalid.length > 0) {
+      console.error(`Error: Unknown type(s): ${invalid.join(", ")}`);
+      console.error(`Valid types: ${SEARCH_ENTITY_TYPES.join(", ")}`);
+      Deno.exit(1);
+    }
+    types = requested as SearchEntityType[];
+  }
+
+  // Resolve --thread
+  let threadId: string | undefined;
+  if (options.thread) {
+    const thread = resolveThread(options.thread);
+    if (!thread) {
+      console.error(`Error: Thread "${options.thread}" not found`);
+      Deno.exit(1);
+    }
+    threadId = thread.id;
+  }
+
+  // Parse --since
+  let since: string | undefined;
+  if (options.since) {
+    const parsed = parseSince(options.since);
+    if (!parsed) {
+      console.error(`Error: Invalid --since value "${options.since}" (use e.g. 30m, 24h, 7d, 2026-01-25)`);
+      Deno.exit(1);
+    }
+    since = parsed;
+  }
+
+  // Bold matches on a terminal, markdown-style markers otherwise
+  const highlight = !options.json && Deno.stdout.isTerminal()
+    ? { open: BOLD, close: RESET_BOLD }
+    : { open: "**", close: "**" };
+
+  let results;
+  try {
+    results = searchBlackboard(terms, {
+      types,
+      threadId,
+      since,
+      limit: options.limit,
+      highlight,
+    });
+  } catch (error) {
+    console.error("Search error:", error instanceof Error ? error.message : String(error));
+    Deno.exit(1);
+  }
+
+  if (options.json) {
+    outputJson(results);
+    return;
+  }
+
+  if (results.length === 0) {
+    quietLog("No matches found", options.quiet);
+    return;
+  }
+
+  for (const result of results) {
+    const title = result.title.split("\n")[0];
+    const context = [
+      result.thread_name ? `thread: ${result.thread_name}` : null,
+      relativeTime(result.created_at),
+    ].filter(Boolean).join(", ");
+
+    console.log(`[${result.type}] ${title}  (${context})`);
+    console.log(`  ${result.snippet.replace(/\s*\n\s*/g, " ")}`);
+    console.log(`  id: ${result.id}`);
+    console.log();
+  }
+
+  quietLog(`${results.length} result(s)`, options.quiet);
+}
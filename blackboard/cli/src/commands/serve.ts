@@ -0,0 +1,72 @@
+/**
+ * Serve command - Expose the blackboard database as a local HTTP API.
+ */
+
+import { getDb } from "../db/connection.ts";
+import { createRouter } from "../server/router.ts";
+import { createApiRoutes } from "../server/routes.ts";
+import { quietLog } from "../utils/command.ts";
+
+interface ServeOptions {
+  db?: string;
+  quiet?: boolean;
+  port?: number;
+  host?: string;
+  cors?: string;
+}
+
+/**
+ * Start the HTTP API server and run until interrupted.
+ */
+export async function serveCommand(options: ServeOptions): Promise<void> {
+  getDb(options.db);
+
+  const port = options.port ?? 7878;
+  const hostname = options.host ?? "127.0.0.1";
+  // Only answer requests addressed to this machine (or the address given
+  // with --host), so DNS rebinding can't point a web page at the API
+  const router = createRouter(createApiRoutes(), {
+    allowedHosts: [...new Set(["localhost", "127.0.0.1", "[::1]", hostname])],
+  });
+
+  // CORS is opt-in: the API can write to the database, so only origins
+  // named with --cors may call it from a browser
+  const handler = async (request: Request): Promise<Response> => {
+    if (!options.cors) {
+      return await router(request);
+    }
+
+    const response = request.method === "OPTIONS"
+      ? new Response(null, { status: 204 })
+      : await router(request);
+    response.headers.set("access-control-allow-origin", options.cors);
+    response.headers.set("access-control-allow-methods", "GET, POST, PUT, PATCH, DELETE");
+    response.headers.set("access-control-allow-headers", "content-type, last-event-id");
+    return response;
+  };
+
+  const server = Deno.serve({
+    port,
+    hostname,
+    onListen: ({ hostname, port }) => {
+      quietLog(`Blackboard API listening on http://${hostname}:${port}/api`, options.quiet);
+      if (options.db) {
+        quietLog(`Database: ${options.db}`, options.quiet);
+      }
+      quietLog("Press Ctrl+C to stop", options.quiet);
+    },
+    onError: (error) => {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      return new Response(JSON.stringify({ error: "Internal server error" }), {
+        status: 500,
+        headers: { "content-type": "application/json" },
+      });
+    },
+  }, handler);
+
+  Deno.addSignalListener("SIGINT", () => {
+    server.shutdown();
+  });
+
+  await server.finished;
+}
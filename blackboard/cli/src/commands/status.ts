@@ -10,8 +10,10 @@ import {
   getOpenBugReports,
   getCurrentThread,
 } from "../db/queries.ts";
+import { getDailyUsage, getUsageByThread, type UsageTotals } from "../db/usage-queries.ts";
 import { formatTable } from "../output/table.ts";
 import { formatLocalTime, relativeTime } from "../utils/time.ts";
+import { formatCost, formatUsage } from "../utils/usage.ts";
 import { getTasksForThreadWithHistory } from "../utils/tasks.ts";
 import { outputJson } from "../utils/command.ts";
 
@@ -29,6 +31,7 @@ interface ThreadWithProgress {
   current_plan_id: string | null;
   completedSteps: number;
   totalSteps: number;
+  usage: UsageTotals | null;
 }
 
 /**
@@ -39,6 +42,7 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
 
   // Get recent threads (last 10)
   const threads = listThreads(undefined, 10);
+  const usageByThread = getUsageByThread();
 
   // Get step progress for each thread
   const threadsWithProgress: ThreadWithProgress[] = threads.map(thread => {
@@ -59,6 +63,7 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
       current_plan_id: thread.current_plan_id,
       completedSteps,
       totalSteps,
+      usage: usageByThread.get(thread.id) ?? null,
     };
   });
 
@@ -76,6 +81,11 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
     LIMIT 5
   `);
 
+  // Worker spend: today and the last 7 days
+  const dailyUsage = getDailyUsage(7);
+  const usageToday = getDailyUsage(1)[0] ?? null;
+  const usageWeek = dailyUsage.length > 0 ? sumUsage(dailyUsage) : null;
+
   if (options.json) {
     // JSON mode - return structured data
     const data = {
@@ -86,6 +96,7 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
         stepsTotal: t.totalSteps,
         lastActivity: t.updated_at,
         relativeTime: relativeTime(t.updated_at),
+        usage: t.usage,
       })),
       currentThread: currentThread ? {
         name: currentThread.name,
@@ -101,6 +112,11 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
         agent_type: b.agent_type || 'unknown',
         summary: b.summary,
       })),
+      usage: {
+        today: usageToday,
+        last7Days: usageWeek,
+        daily: dailyUsage,
+      },
     };
     outputJson(data);
     return;
@@ -141,12 +157,13 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
         `${indicator} ${t.name}`,
         `[${t.status}]`,
         progress,
+        t.usage ? formatCost(t.usage.cost_usd) : '-',
         time,
       ];
     });
 
     console.log(formatTable(
-      ["Thread", "Status", "Progress", "Last Activity"],
+      ["Thread", "Status", "Progress", "Cost", "Last Activity"],
       threadRows
     ));
   } else {
@@ -175,6 +192,14 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
     console.log();
   }
 
+  // Worker Usage
+  if (usageWeek) {
+    console.log("Worker Usage:");
+    console.log(`  Today: ${usageToday ? formatUsage(usageToday) : 'none'}`);
+    console.log(`  Last 7 days: ${formatUsage(usageWeek)}`);
+    console.log();
+  }
+
   // Quick Actions
   console.log("Quick Actions:");
   console.log("  /blackboard:thread <name>    Load thread context interactively");
@@ -217,6 +242,25 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
   console.log();
 }
 
+// Sum several usage rollups into one
+function sumUsage(rows: UsageTotals[]): UsageTotals {
+  return rows.reduce((acc, u) => ({
+    input_tokens: acc.input_tokens + u.input_tokens,
+    output_tokens: acc.output_tokens + u.output_tokens,
+    cache_creation_tokens: acc.cache_creation_tokens + u.cache_creation_tokens,
+    cache_read_tokens: acc.cache_read_tokens + u.cache_read_tokens,
+    cost_usd: acc.cost_usd + u.cost_usd,
+    iterations: acc.iterations + u.iterations,
+  }), {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_tokens: 0,
+    cache_read_tokens: 0,
+    cost_usd: 0,
+    iterations: 0,
+  });
+}
+
 // Helper function for querying
 function queryAll(db: any, sql: string): any[] {
   const stmt = db.prepare(sql);
@@ -11,17 +11,25 @@ import {
   deleteStep,
   updateStepStatus,
   updateStepDescription,
+  updateStepCriteria,
+  fillStepCriteriaFromPlan,
   getMaxStepOrder,
   getPlanById,
+  getStepDependencies,
+  addStepDependency,
+  removeStepDependency,
 } from "../db/queries.ts";
 import { getTargetPlanIdFromArg, quietLog, outputJson } from "../utils/command.ts";
-import type { StepStatus } from "../types/schema.ts";
+import { computeStepReadiness, findDependencyCycle } from "../utils/step-graph.ts";
+import { completeStep, defaultVerifyDir, describeVerificationFailure } from "../services/verification.ts";
+import type { PlanStep, StepStatus } from "../types/schema.ts";
 
 interface StepListOptions {
   db?: string;
   quiet?: boolean;
   json?: boolean;
   status?: StepStatus;
+  ready?: boolean;
 }
 
 interface StepAddOptions {
@@ -29,6 +37,8 @@ interface StepAddOptions {
   quiet?: boolean;
   status?: StepStatus;
   position?: number;
+  acceptance?: string;
+  verify?: string;
 }
 
 interface StepUpdateOptions {
@@ -36,6 +46,10 @@ interface StepUpdateOptions {
   quiet?: boolean;
   status?: StepStatus;
   description?: string;
+  /** Empty string clears */
+  acceptance?: string;
+  /** Empty string clears */
+  verify?: string;
 }
 
 interface StepRemoveOptions {
@@ -50,6 +64,13 @@ interface StepReorderOptions {
   position: number;
 }
 
+interface StepDependOptions {
+  db?: string;
+  quiet?: boolean;
+  on: string;
+  remove?: boolean;
+}
+
 /**
  * Formats a status indicator for display.
  */
@@ -89,13 +110,21 @@ export async function stepListCommand(
   }
 
   // Get steps
-  let steps = getStepsForPlan(planId);
+  const allSteps = getStepsForPlan(planId);
+  const readiness = computeStepReadiness(allSteps, getStepDependencies(planId));
+  const orderById = new Map(allSteps.map((s) => [s.id, s.step_order]));
+  let steps = allSteps;
 
   // Filter by status if requested
   if (options.status) {
     steps = steps.filter(s => s.status === options.status);
   }
 
+  // Only steps that can start now
+  if (options.ready) {
+    steps = steps.filter(s => readiness.get(s.id)?.ready);
+  }
+
   if (steps.length === 0) {
     if (options.json) {
       outputJson([]);
@@ -106,7 +135,15 @@ export async function stepListCommand(
   }
 
   if (options.json) {
-    outputJson(steps);
+    outputJson(steps.map((step) => {
+      const state = readiness.get(step.id)!;
+      return {
+        ...step,
+        depends_on: state.dependsOn,
+        ready: state.ready,
+        blocked_by: state.blockedBy,
+      };
+    }));
     return;
   }
 
@@ -121,7 +158,21 @@ export async function stepListCommand(
     const statusSuffix = step.status !== 'completed' && step.status !== 'pending'
       ? ` (${step.status})`
       : '';
-    console.log(`${step.step_order}. ${indicator} ${step.description}${statusSuffix}`);
+    const state = readiness.get(step.id)!;
+    let readySuffix = '';
+    if (state.blockedBy.length > 0 && step.status !== 'completed') {
+      const positions = state.blockedBy.map((id) => orderById.get(id)).join(', ');
+      readySuffix = ` (blocked by ${positions})`;
+    } else if (state.ready && state.dependsOn.length > 0) {
+      readySuffix = ' (ready)';
+    }
+    console.log(`${step.step_order}. ${indicator} ${step.description}${statusSuffix}${readySuffix}`);
+    if (step.acceptance_criteria) {
+      console.log(`     Acceptance: ${step.acceptance_criteria.replace(/\n/g, "\n                 ")}`);
+    }
+    if (step.verify_command) {
+      console.log(`     Verify: ${step.verify_command}`);
+    }
   }
 }
 
@@ -145,6 +196,10 @@ export async function stepAddCommand(
   }
 
   const status = options.status ?? 'pending';
+  const criteria = {
+    acceptance_criteria: options.acceptance || null,
+    verify_command: options.verify || null,
+  };
 
   // If position is specified, we need to reorder existing steps
   if (options.position !== undefined) {
@@ -165,7 +220,7 @@ export async function stepAddCommand(
 
     try {
       // Insert new step at position
-      const stepId = insertStep(planId, { description, status, step_order: position });
+      const stepId = insertStep(planId, { description, status, step_order: position, ...criteria });
 
       // Renumber steps that come after
       const updateStmt = db.prepare(`
@@ -186,20 +241,23 @@ export async function stepAddCommand(
     }
   } else {
     // Append at end
-    const stepId = insertStep(planId, { description, status });
+    const stepId = insertStep(planId, { description, status, ...criteria });
 
     if (!options.quiet) {
       const maxOrder = getMaxStepOrder(planId);
       console.log(`Step added at position ${maxOrder}: ${description}`);
     }
   }
+
+  // Options not given can come from Acceptance:/Verify: lines in the plan
+  fillStepCriteriaFromPlan(planId);
 }
 
 /**
- * Update a step's status or description.
+ * Update a step's status, description, acceptance criteria or verify command.
  *
  * @param stepId - Step ID
- * @param options - Command options (must provide at least one of status or description)
+ * @param options - Command options (must provide at least one field)
  */
 export async function stepUpdateCommand(
   stepId: string,
@@ -208,8 +266,8 @@ export async function stepUpdateCommand(
   const db = getDb(options.db);
 
   // Validate that at least one option is provided
-  if (!options.status && !options.description) {
-    console.error("Error: Must provide at least one of --status or --description");
+  if (!options.status && !options.description && options.acceptance === undefined && options.verify === undefined) {
+    console.error("Error: Must provide at least one of --status, --description, --acceptance or --verify");
     Deno.exit(1);
   }
 
@@ -220,18 +278,33 @@ export async function stepUpdateCommand(
     Deno.exit(1);
   }
 
-  // Update fields
-  if (options.status) {
-    updateStepStatus(stepId, options.status);
-  }
+  // Update fields (status last, so a new verify command applies to it)
   if (options.description) {
     updateStepDescription(stepId, options.description);
   }
+  if (options.acceptance !== undefined || options.verify !== undefined) {
+    updateStepCriteria(stepId, {
+      acceptance_criteria: options.acceptance === undefined ? undefined : options.acceptance || null,
+      verify_command: options.verify === undefined ? undefined : options.verify || null,
+    });
+  }
+  if (options.status === "completed") {
+    // Completed only once the step's verify command passes
+    const verification = await completeStep(getStepById(stepId)!, defaultVerifyDir());
+    if (verification && !verification.passed) {
+      console.error(`Error: Step ${stepId} marked failed. ${describeVerificationFailure(verification)}`);
+      Deno.exit(1);
+    }
+  } else if (options.status) {
+    updateStepStatus(stepId, options.status);
+  }
 
   if (!options.quiet) {
     const updates: string[] = [];
     if (options.status) updates.push(`status: ${options.status}`);
     if (options.description) updates.push(`description: ${options.description}`);
+    if (options.acceptance !== undefined) updates.push(`acceptance: ${options.acceptance || "(cleared)"}`);
+    if (options.verify !== undefined) updates.push(`verify: ${options.verify || "(cleared)"}`);
     console.log(`Step ${stepId} updated (${updates.join(', ')})`);
   }
 }
@@ -350,3 +423,74 @@ export async function stepReorderCommand(
     throw error;
   }
 }
+
+/**
+ * Resolves a step reference: a step ID, or a 1-indexed position in a plan.
+ */
+function resolveStepRef(ref: string, planId: string | null): PlanStep | null {
+  const step = getStepById(ref);
+  if (step) {
+    return step;
+  }
+  if (planId && /^\d+$/.test(ref)) {
+    const position = parseInt(ref, 10);
+    return getStepsForPlan(planId).find((s) => s.step_order === position) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Make a step depend on another step in the same plan (or remove the dependency).
+ * Steps can be given by ID or by position in the current thread's plan.
+ *
+ * @param stepRef - Step that depends on the other
+ * @param options - Command options (requires --on)
+ */
+export async function stepDependCommand(
+  stepRef: string,
+  options: StepDependOptions
+): Promise<void> {
+  getDb(options.db);
+
+  const step = resolveStepRef(stepRef, getTargetPlanIdFromArg());
+  if (!step) {
+    console.error(`Error: Step "${stepRef}" not found`);
+    Deno.exit(1);
+  }
+
+  // Resolve the prerequisite within the same plan
+  const prerequisite = resolveStepRef(options.on, step.plan_id);
+  if (!prerequisite) {
+    console.error(`Error: Step "${options.on}" not found`);
+    Deno.exit(1);
+  }
+  if (prerequisite.plan_id !== step.plan_id) {
+    console.error("Error: Steps must belong to the same plan");
+    Deno.exit(1);
+  }
+
+  if (options.remove) {
+    if (!removeStepDependency(step.id, prerequisite.id)) {
+      console.error(`Error: Step ${step.step_order} does not depend on step ${prerequisite.step_order}`);
+      Deno.exit(1);
+    }
+    quietLog(`Step ${step.step_order} no longer depends on step ${prerequisite.step_order}`, options.quiet);
+    return;
+  }
+
+  // Reject dependencies that would create a cycle
+  const dependencies = getStepDependencies(step.plan_id);
+  const cycle = findDependencyCycle(dependencies, step.id, prerequisite.id);
+  if (cycle) {
+    const orderById = new Map(getStepsForPlan(step.plan_id).map((s) => [s.id, s.step_order]));
+    console.error("Error: Dependency would create a cycle");
+    console.error(`Cycle: ${cycle.map((id) => orderById.get(id)).join(" -> ")}`);
+    Deno.exit(1);
+  }
+
+  addStepDependency(step.id, prerequisite.id);
+  quietLog(
+    `Step ${step.step_order} (${step.description}) now depends on step ${prerequisite.step_order} (${prerequisite.description})`,
+    options.quiet
+  );
+}
@@ -8,6 +8,8 @@ import {
   resolveThread,
   insertThread,
   updateThread,
+  setThreadPriority,
+  setThreadVerifyCommands,
   touchThread,
   listThreads,
   getStepsForPlan,
@@ -16,12 +18,53 @@ import {
   getPlanById,
   updatePlanMarkdown,
   insertPlan,
+  getPlanIdsForThread,
+  getStepDependencies,
+  getFilesTouchedByPlan,
+  listCorrections,
+  listCorrectionTags,
+  getThreadDependencies,
+  getThreadPrerequisites,
+  addThreadDependency,
+  removeThreadDependency,
+  getPlanRevisionsForThread,
 } from "../db/queries.ts";
+import {
+  exportThreadBundle,
+  importThreadBundle,
+  validateThreadBundle,
+} from "../db/bundle-queries.ts";
+import { getCommitsByStep } from "../db/commit-queries.ts";
+import { getThreadVerifyCommands, resolveVerifyCommands } from "../services/verification.ts";
 import { generateId } from "../utils/id.ts";
 import { getCurrentGitBranch } from "../utils/git.ts";
-import { relativeTime, formatLocalTime } from "../utils/time.ts";
-import { outputJson } from "../utils/command.ts";
-import type { Thread, ThreadStatus } from "../types/schema.ts";
+import { relativeTime, formatLocalTime, formatLocalDateTime } from "../utils/time.ts";
+import { outputJson, quietLog } from "../utils/command.ts";
+import { detectAuthor } from "../utils/author.ts";
+import { diffStats, unifiedDiff } from "../utils/diff.ts";
+import { extractKeywords, parseFileList, rankPitfalls } from "../utils/pitfalls.ts";
+import {
+  computeStepReadiness,
+  findDependencyCycle,
+  type StepReadiness,
+} from "../utils/step-graph.ts";
+import {
+  estimateTokens,
+  fitSections,
+  TRUNCATION_MARKER_TOKENS,
+  type FittedSection,
+} from "../utils/token-budget.ts";
+import type {
+  Breadcrumb,
+  BugReport,
+  CommitLink,
+  Correction,
+  Plan,
+  PlanRevision,
+  PlanStep,
+  Thread,
+  ThreadStatus,
+} from "../types/schema.ts";
 
 interface ThreadNewOptions {
   db?: string;
@@ -41,6 +84,7 @@ interface ThreadStatusOptions {
   quiet?: boolean;
   json?: boolean;
   brief?: boolean;
+  maxTokens?: number;
 }
 
 interface ThreadWorkOptions {
@@ -52,8 +96,73 @@ interface ThreadPlanOptions {
   db?: string;
   quiet?: boolean;
   file?: string;
+  reason?: string;
+}
+
+interface ThreadPlanHistoryOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface ThreadPlanDiffOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface ThreadDependOptions {
+  db?: string;
+  quiet?: boolean;
+  on: string;
+  remove?: boolean;
+}
+
+interface ThreadPriorityOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+}
+
+interface ThreadVerifyOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+  clear?: boolean;
+}
+
+interface ThreadExportOptions {
+  db?: string;
+  quiet?: boolean;
+  out?: string;
+}
+
+interface ThreadImportOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+  name?: string;
+}
+
+export interface ContextPacketOptions {
+  /** Maximum number of known pitfalls (relevant past corrections) to include; 0 disables */
+  maxPitfalls?: number;
+  /** Approximate token budget for the packet; omitted means no limit */
+  maxTokens?: number;
 }
 
+/** Default cap on known pitfalls in the context packet */
+export const DEFAULT_MAX_PITFALLS = 5;
+
+/** Default token budget for context packets loaded into a session */
+export const DEFAULT_CONTEXT_MAX_TOKENS = 8000;
+
+// How many recent corrections to consider when looking for pitfalls
+const PITFALL_CANDIDATE_LIMIT = 500;
+
+// Most recent commits listed under each step in `thread status`
+const STATUS_COMMITS_PER_STEP = 5;
+
 /**
  * Validates that a thread name is kebab-case.
  */
@@ -168,8 +277,9 @@ export async function threadListCommand(
         : "◌";
 
     const pendingStr = pendingCount > 0 ? ` (${pendingCount} pending)` : "";
+    const priorityStr = t.priority !== 0 ? ` - priority ${t.priority}` : "";
     console.log(
-      `  ${statusIcon} ${t.name}${pendingStr} - ${planSummary} - ${relativeTime(t.updated_at)}`
+      `  ${statusIcon} ${t.name}${pendingStr} - ${planSummary}${priorityStr} - ${relativeTime(t.updated_at)}`
     );
   }
 }
@@ -201,30 +311,24 @@ export async function threadStatusCommand(
   }
 
   if (options.json) {
-    const result: Record<string, unknown> = { ...thread };
-
-    if (thread.current_plan_id) {
-      const plan = getPlanById(thread.current_plan_id);
-      const steps = getStepsForPlan(thread.current_plan_id);
-      const breadcrumbs = getRecentBreadcrumbs(thread.current_plan_id, 5);
-      result.plan_content = plan?.plan_markdown || null;
-      result.steps = steps;
-      result.recent_breadcrumbs = breadcrumbs;
-    }
-
-    const bugs = getOpenBugReports(5);
-    result.open_bugs = bugs;
-
-    outputJson(result);
+    outputJson(generateContextJson(thread, { maxTokens: options.maxTokens }));
     return;
   }
 
   // Text output
   console.log(`## Thread: ${thread.name}`);
-  console.log(`Status: ${thread.status} | ID: ${thread.id}`);
+  console.log(`Status: ${thread.status} | Priority: ${thread.priority} | ID: ${thread.id}`);
+  const verifyCommands = getThreadVerifyCommands(thread);
+  if (verifyCommands.length > 0) {
+    console.log(`Verify: ${verifyCommands.join(" && ")}`);
+  }
   if (thread.git_branches) {
     console.log(`Git branches: ${thread.git_branches}`);
   }
+  const prerequisites = getThreadPrerequisites(thread.id);
+  if (prerequisites.length > 0) {
+    console.log(`Depends on: ${prerequisites.map((t) => `${t.name} (${t.status})`).join(", ")}`);
+  }
   console.log(`Last updated: ${relativeTime(thread.updated_at)}`);
   console.log();
 
@@ -253,6 +357,7 @@ export async function threadStatusCommand(
   // Steps
   const steps = getStepsForPlan(thread.current_plan_id);
   if (steps.length > 0) {
+    const stepCommits = getCommitsByStep(thread.current_plan_id);
     console.log("## Steps");
     const currentStep = steps.find(
       (s) => s.status === "pending" || s.status === "in_progress"
@@ -265,6 +370,13 @@ export async function threadStatusCommand(
           ? ` (${step.status})`
           : "";
       console.log(`- ${check} ${step.description}${statusSuffix}${current}`);
+      const commits = stepCommits.get(step.id) ?? [];
+      for (const commit of commits.slice(-STATUS_COMMITS_PER_STEP)) {
+        console.log(`    ↳ ${commit.sha.slice(0, 7)} ${commit.subject ?? ""}`.trimEnd());
+      }
+      if (commits.length > STATUS_COMMITS_PER_STEP) {
+        console.log(`    ↳ (${commits.length - STATUS_COMMITS_PER_STEP} earlier commit(s))`);
+      }
     }
     console.log();
   }
@@ -438,9 +550,9 @@ export async function threadPlanCommand(
 
   // Update existing plan or create new one
   if (thread.current_plan_id) {
-    updatePlanMarkdown(thread.current_plan_id, result);
+    const changed = updatePlanMarkdown(thread.current_plan_id, result, detectAuthor(options.reason));
     if (!options.quiet) {
-      console.log(`Plan updated for thread "${name}"`);
+      console.log(changed ? `Plan updated for thread "${name}"` : "No changes made");
     }
   } else {
     // Create new plan
@@ -454,7 +566,7 @@ export async function threadPlanCommand(
       plan_markdown: result,
       session_id: null,
       thread_id: thread.id,
-    });
+    }, detectAuthor(options.reason));
 
     updateThread(thread.id, { current_plan_id: planId });
 
@@ -465,71 +577,722 @@ export async function threadPlanCommand(
 }
 
 /**
- * Generate context packet for a thread (used by /blackboard:thread skill).
+ * Describes who made a plan revision, e.g. "human (ben)" or "worker (1a2b3c4d)".
  */
-export function generateContextPacket(thread: Thread): string {
-  const db = getDb();
-  const lines: string[] = [];
+function formatRevisionAuthor(revision: PlanRevision): string {
+  if (!revision.author) return revision.author_type;
+  const name = revision.author_type === "human" ? revision.author : revision.author.substring(0, 8);
+  return `${revision.author_type} (${name})`;
+}
 
-  lines.push(`## Thread: ${thread.name}`);
-  lines.push(`Status: ${thread.status} | Git branches: ${thread.git_branches || "none"}`);
-  lines.push("");
+/**
+ * Show every revision of a thread's plan, newest first.
+ * Revisions are numbered from 1 across all plans the thread has had.
+ */
+export async function threadPlanHistoryCommand(
+  name: string,
+  options: ThreadPlanHistoryOptions
+): Promise<void> {
+  getDb(options.db);
 
-  // Current Plan
-  lines.push("## Current Plan");
-  if (!thread.current_plan_id) {
-    lines.push("No plan yet - use planning mode to create one");
+  const thread = resolveThread(name);
+  if (!thread) {
+    console.error(`Error: Thread "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  const revisions = getPlanRevisionsForThread(thread.id);
+
+  const entries = revisions.map((revision, index) => ({
+    revision: index + 1,
+    ...revision,
+    ...diffStats(index > 0 ? revisions[index - 1].plan_markdown : "", revision.plan_markdown),
+  })).reverse();
+
+  if (options.json) {
+    outputJson(entries.map(({ plan_markdown: _markdown, ...entry }) => entry));
+    return;
+  }
+
+  if (entries.length === 0) {
+    if (!options.quiet) {
+      console.log(`No plan revisions for thread "${thread.name}"`);
+    }
+    return;
+  }
+
+  console.log(`Plan history for thread "${thread.name}" (${entries.length} revision${entries.length === 1 ? "" : "s"})\n`);
+  for (const entry of entries) {
+    const changes = `+${entry.added} -${entry.removed}`;
+    const reason = entry.reason ? `  ${entry.reason}` : "";
+    console.log(
+      `  #${String(entry.revision).padEnd(4)}${formatLocalDateTime(entry.created_at)}  ${formatRevisionAuthor(entry).padEnd(20)}${changes.padEnd(10)}plan ${entry.plan_id.substring(0, 8)}${reason}`
+    );
+  }
+}
+
+// ANSI colors for diff output on a terminal
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const CYAN = "\x1b[36m";
+const RESET = "\x1b[0m";
+
+/**
+ * Colors a unified diff for terminal display.
+ */
+function colorizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) return line;
+      if (line.startsWith("+")) return `${GREEN}${line}${RESET}`;
+      if (line.startsWith("-")) return `${RED}${line}${RESET}`;
+      if (line.startsWith("@@")) return `${CYAN}${line}${RESET}`;
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Show a unified diff between two revisions of a thread's plan.
+ * Defaults to the latest revision against the one before it; with only
+ * rev1, compares rev1 against the latest.
+ */
+export async function threadPlanDiffCommand(
+  name: string,
+  rev1: number | undefined,
+  rev2: number | undefined,
+  options: ThreadPlanDiffOptions
+): Promise<void> {
+  getDb(options.db);
+
+  const thread = resolveThread(name);
+  if (!thread) {
+    console.error(`Error: Thread "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  const revisions = getPlanRevisionsForThread(thread.id);
+
+  if (revisions.length === 0) {
+    console.error(`Error: Thread "${thread.name}" has no plan revisions`);
+    Deno.exit(1);
+  }
+
+  // Revision 0 is the empty plan before the first revision
+  const to = rev2 ?? revisions.length;
+  const from = rev1 ?? to - 1;
+  const inRange = (rev: number, min: number) =>
+    Number.isInteger(rev) && rev >= min && rev <= revisions.length;
+  if (!inRange(from, 0) || !inRange(to, 1)) {
+    console.error(`Error: Revision must be between 1 and ${revisions.length}`);
+    Deno.exit(1);
+  }
+
+  const label = (rev: number) => {
+    if (rev === 0) return "/dev/null";
+    const revision = revisions[rev - 1];
+    return `rev ${rev} (${formatLocalDateTime(revision.created_at)}, ${formatRevisionAuthor(revision)})`;
+  };
+  const markdown = (rev: number) => (rev === 0 ? "" : revisions[rev - 1].plan_markdown);
+  const diff = unifiedDiff(markdown(from), markdown(to), {
+    oldLabel: label(from),
+    newLabel: label(to),
+  });
+
+  if (options.json) {
+    outputJson({ thread: thread.name, from, to, diff });
+    return;
+  }
+
+  if (!diff) {
+    if (!options.quiet) {
+      console.log(`No differences between revision ${from} and ${to}`);
+    }
+    return;
+  }
+
+  const output = Deno.stdout.isTerminal() ? colorizeDiff(diff) : diff;
+  console.log(output.replace(/\n$/, ""));
+}
+
+/**
+ * Make a thread wait until another thread is completed.
+ * The farm holds dependent threads and branches them off the prerequisite.
+ */
+export async function threadDependCommand(
+  name: string,
+  options: ThreadDependOptions
+): Promise<void> {
+  getDb(options.db);
+
+  const thread = resolveThread(name);
+  if (!thread) {
+    console.error(`Error: Thread "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  const prerequisite = resolveThread(options.on);
+  if (!prerequisite) {
+    console.error(`Error: Thread "${options.on}" not found`);
+    Deno.exit(1);
+  }
+
+  if (options.remove) {
+    if (!removeThreadDependency(thread.id, prerequisite.id)) {
+      console.error(`Error: Thread "${thread.name}" does not depend on "${prerequisite.name}"`);
+      Deno.exit(1);
+    }
+    quietLog(`Thread "${thread.name}" no longer depends on "${prerequisite.name}"`, options.quiet);
+    return;
+  }
+
+  // Reject dependencies that would create a cycle (same search as for steps)
+  const edges = getThreadDependencies().map((d) => ({
+    step_id: d.thread_id,
+    depends_on: d.depends_on,
+  }));
+  const cycle = findDependencyCycle(edges, thread.id, prerequisite.id);
+  if (cycle) {
+    const nameById = new Map(listThreads(undefined, 10000).map((t) => [t.id, t.name]));
+    console.error("Error: Dependency would create a cycle");
+    console.error(`Cycle: ${cycle.map((id) => nameById.get(id) ?? id).join(" -> ")}`);
+    Deno.exit(1);
+  }
+
+  addThreadDependency(thread.id, prerequisite.id);
+  quietLog(`Thread "${thread.name}" now depends on "${prerequisite.name}"`, options.quiet);
+  if (prerequisite.status !== "completed") {
+    quietLog(`It will be held until "${prerequisite.name}" is completed`, options.quiet);
+  }
+}
+
+/**
+ * Set a thread's priority. The farm starts higher-priority threads first.
+ */
+export async function threadPriorityCommand(
+  name: string,
+  priority: number,
+  options: ThreadPriorityOptions
+): Promise<void> {
+  getDb(options.db);
+
+  const thread = resolveThread(name);
+  if (!thread) {
+    console.error(`Error: Thread "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  if (!Number.isInteger(priority)) {
+    console.error(`Error: Priority must be an integer, got ${priority}`);
+    Deno.exit(1);
+  }
+
+  setThreadPriority(thread.id, priority);
+  if (options.json) {
+    outputJson({ thread: thread.name, priority, previous: thread.priority });
   } else {
-    const stmt = db.prepare("SELECT * FROM plans WHERE id = :id");
-    const plans = stmt.all({ id: thread.current_plan_id }) as Array<{
-      plan_markdown: string;
-    }>;
-    if (plans[0]) {
-      lines.push(plans[0].plan_markdown);
+    quietLog(`Thread "${thread.name}" priority: ${thread.priority} -> ${priority}`, options.quiet);
+  }
+}
+
+/**
+ * Set, clear or show the commands that must pass before a thread's plan
+ * counts as completed. With no commands and no --clear, shows the current
+ * ones (falling back to the `verify` config key).
+ */
+export async function threadVerifyCommand(
+  name: string,
+  commands: string[],
+  options: ThreadVerifyOptions
+): Promise<void> {
+  getDb(options.db);
+
+  const thread = resolveThread(name);
+  if (!thread) {
+    console.error(`Error: Thread "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  if (options.clear && commands.length > 0) {
+    console.error("Error: Give commands or --clear, not both");
+    Deno.exit(1);
+  }
+
+  if (commands.length === 0 && !options.clear) {
+    const own = getThreadVerifyCommands(thread);
+    let effective = own;
+    try {
+      effective = resolveVerifyCommands(thread);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      Deno.exit(1);
+    }
+    if (options.json) {
+      outputJson({ thread: thread.name, commands: own, effective });
+    } else if (own.length > 0) {
+      console.log(own.join("\n"));
+    } else if (effective.length > 0) {
+      console.log(`${effective[0]} (from config)`);
+    } else {
+      console.log("No verification commands");
     }
+    return;
   }
-  lines.push("");
 
-  // Steps
+  setThreadVerifyCommands(thread.id, options.clear ? null : commands);
+  if (options.json) {
+    outputJson({ thread: thread.name, commands: options.clear ? [] : commands });
+  } else if (options.clear) {
+    quietLog(`Cleared verification commands for thread "${thread.name}"`, options.quiet);
+  } else {
+    quietLog(`Thread "${thread.name}" verification: ${commands.join(" && ")}`, options.quiet);
+  }
+}
+
+/**
+ * Export a thread and everything attached to it as a JSON bundle.
+ * Writes to --out, or stdout when no file is given.
+ */
+export async function threadExportCommand(
+  name: string,
+  options: ThreadExportOptions
+): Promise<void> {
+  getDb(options.db);
+
+  const thread = resolveThread(name);
+  if (!thread) {
+    console.error(`Error: Thread "${name}" not found`);
+    Deno.exit(1);
+  }
+
+  const bundle = exportThreadBundle(thread);
+  const json = JSON.stringify(bundle, null, 2);
+
+  if (!options.out) {
+    console.log(json);
+    return;
+  }
+
+  await Deno.writeTextFile(options.out, json + "\n");
+  quietLog(
+    `Exported thread "${thread.name}" to ${options.out} (${bundle.plans.length} plan(s), ${bundle.steps.length} step(s), ${bundle.breadcrumbs.length} breadcrumb(s))`,
+    options.quiet
+  );
+}
+
+/**
+ * Import a thread bundle written by `thread export`.
+ * Re-importing the same bundle only adds what is new since the last import.
+ */
+export async function threadImportCommand(
+  file: string,
+  options: ThreadImportOptions
+): Promise<void> {
+  getDb(options.db);
+
+  let result;
+  try {
+    const bundle = validateThreadBundle(JSON.parse(await Deno.readTextFile(file)));
+    result = importThreadBundle(bundle, { name: options.name });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: Could not import ${file}: ${message}`);
+    Deno.exit(1);
+  }
+
+  if (options.json) {
+    outputJson(result);
+    return;
+  }
+
+  const total = Object.values(result.inserted).reduce((sum, n) => sum + n, 0);
+  const summary = Object.entries(result.inserted)
+    .map(([section, n]) => `${n} ${section}`)
+    .join(", ");
+
+  if (result.created) {
+    quietLog(`Imported thread "${result.threadName}" (${summary || "empty"})`, options.quiet);
+  } else if (total > 0) {
+    quietLog(`Updated thread "${result.threadName}" from earlier import (${summary})`, options.quiet);
+  } else {
+    quietLog(`Thread "${result.threadName}" is already up to date`, options.quiet);
+  }
+}
+
+/**
+ * Find past corrections relevant to a thread, matched on tags, files shared
+ * with the thread's breadcrumbs, and keyword overlap with its plan and steps.
+ */
+function getKnownPitfalls(thread: Thread, limit: number): Correction[] {
+  if (limit <= 0) return [];
+
+  const filesByPlan = getFilesTouchedByPlan();
+  const filesForPlan = (planId: string) =>
+    (filesByPlan.get(planId) ?? []).flatMap(parseFileList);
+
+  const planIds = getPlanIdsForThread(thread.id);
+  const text = [thread.name];
   if (thread.current_plan_id) {
-    const steps = getStepsForPlan(thread.current_plan_id);
-    if (steps.length > 0) {
-      lines.push("## Steps");
-      const currentStep = steps.find(
-        (s) => s.status === "pending" || s.status === "in_progress"
-      );
-      for (const step of steps) {
-        const check = step.status === "completed" ? "[x]" : "[ ]";
-        const current = step.id === currentStep?.id ? " ← CURRENT" : "";
-        lines.push(`- ${check} ${step.description}${current}`);
-      }
-      lines.push("");
+    const plan = getPlanById(thread.current_plan_id);
+    if (plan) {
+      text.push(plan.description ?? "", plan.plan_markdown);
     }
+    text.push(...getStepsForPlan(thread.current_plan_id).map((s) => s.description));
+  }
 
-    // Recent breadcrumbs
-    const breadcrumbs = getRecentBreadcrumbs(thread.current_plan_id, 5);
-    if (breadcrumbs.length > 0) {
-      lines.push("## Recent Breadcrumbs");
-      for (const crumb of breadcrumbs.reverse()) {
-        const time = formatLocalTime(crumb.created_at);
-        const stepRef = crumb.step_id ? `[step]` : "";
-        lines.push(`- ${time} ${stepRef}: ${crumb.summary}`);
-      }
-      lines.push("");
+  const context = {
+    planIds: new Set(planIds),
+    files: new Set(planIds.flatMap(filesForPlan)),
+    keywords: extractKeywords(text.join("\n")),
+  };
+  // The newest corrections, plus older ones carrying a tag the thread matches
+  const corrections = new Map(listCorrections(undefined, PITFALL_CANDIDATE_LIMIT).map((c) => [c.id, c]));
+  const files = [...context.files].map((f) => f.toLowerCase());
+  for (const tag of listCorrectionTags()) {
+    const lower = tag.toLowerCase();
+    if (!context.keywords.has(lower) && !files.some((f) => f.includes(lower))) continue;
+    for (const correction of listCorrections(tag, PITFALL_CANDIDATE_LIMIT)) {
+      corrections.set(correction.id, correction);
     }
   }
+  const candidates = [...corrections.values()].map((correction) => ({
+    correction,
+    files: correction.plan_id ? filesForPlan(correction.plan_id) : [],
+  }));
 
-  // Open bugs
-  const bugs = getOpenBugReports(5);
-  if (bugs.length > 0) {
-    lines.push("## Open Issues");
-    for (const bug of bugs) {
-      lines.push(`- ${bug.id}: ${bug.title}`);
+  return rankPitfalls(candidates, context, limit).map((p) => p.correction);
+}
+
+/**
+ * Everything that can go into a thread's context packet, before budgeting.
+ */
+interface ContextData {
+  plan: Plan | null;
+  steps: PlanStep[];
+  readiness: Map<string, StepReadiness>;
+  /** Commits linked to each step, oldest first */
+  stepCommits: Map<string, CommitLink[]>;
+  currentStep: PlanStep | null;
+  /** Most recent first */
+  breadcrumbs: Breadcrumb[];
+  bugs: BugReport[];
+  pitfalls: Correction[];
+}
+
+/**
+ * Load the plan, steps, breadcrumbs, bugs and pitfalls for a thread.
+ */
+function loadContextData(thread: Thread, options: ContextPacketOptions): ContextData {
+  const plan = thread.current_plan_id ? getPlanById(thread.current_plan_id) : null;
+  const steps = thread.current_plan_id ? getStepsForPlan(thread.current_plan_id) : [];
+  const readiness = computeStepReadiness(
+    steps,
+    thread.current_plan_id ? getStepDependencies(thread.current_plan_id) : []
+  );
+
+  return {
+    plan,
+    steps,
+    readiness,
+    stepCommits: thread.current_plan_id ? getCommitsByStep(thread.current_plan_id) : new Map(),
+    // First step being worked on or ready to start; blocked steps come last
+    currentStep: steps.find(
+      (s) => s.status === "in_progress" || readiness.get(s.id)?.ready
+    ) ?? steps.find((s) => s.status === "pending") ?? null,
+    breadcrumbs: thread.current_plan_id ? getRecentBreadcrumbs(thread.current_plan_id, 5) : [],
+    bugs: getOpenBugReports(5),
+    pitfalls: getKnownPitfalls(thread, options.maxPitfalls ?? DEFAULT_MAX_PITFALLS),
+  };
+}
+
+/**
+ * A packet section split into units that can be dropped from the end to fit
+ * the token budget.
+ */
+interface PacketSection {
+  name: string;
+  heading: string;
+  units: string[];
+  /** Line added when some units were dropped */
+  marker: (dropped: number) => string;
+  /** Reorder kept units for display (e.g. oldest breadcrumb first) */
+  display?: (kept: string[]) => string[];
+}
+
+// Sections in budget priority order: what the worker needs most comes first.
+// The step checklist is compact, so it goes ahead of the full plan text.
+const SECTION_PRIORITY = ["step", "crumbs", "steps", "plan", "pitfalls", "bugs"];
+
+// Order sections appear in the packet
+const SECTION_DISPLAY_ORDER = ["plan", "steps", "step", "crumbs", "bugs", "pitfalls"];
+
+/**
+ * Flatten multi-line text onto one line.
+ */
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Build the text sections of a context packet.
+ */
+function buildTextSections(thread: Thread, data: ContextData): PacketSection[] {
+  const omitted = (label: string) => (dropped: number) =>
+    `[… ${dropped} more ${label} omitted to fit the context budget]`;
+
+  const sections: PacketSection[] = [];
+
+  sections.push({
+    name: "plan",
+    heading: "## Current Plan",
+    units: data.plan
+      ? data.plan.plan_markdown.split("\n")
+      : ["No plan yet - use planning mode to create one"],
+    marker: (dropped) =>
+      `[… plan truncated to fit the context budget: ${dropped} more lines. Full plan: blackboard thread status ${thread.name}]`,
+  });
+
+  sections.push({
+    name: "steps",
+    heading: "## Steps",
+    units: data.steps.map((step) => {
+      const check = step.status === "completed" ? "[x]" : "[ ]";
+      const current = step.id === data.currentStep?.id ? " ← CURRENT" : "";
+      const blockedBy = step.status === "completed"
+        ? []
+        : (data.readiness.get(step.id)?.blockedBy ?? []);
+      const blocked = blockedBy.length > 0
+        ? ` (blocked by ${blockedBy.map((id) => data.steps.find((s) => s.id === id)?.step_order).join(", ")})`
+        : "";
+      return `- ${check} ${step.description}${blocked}${current}`;
+    }),
+    marker: omitted("steps"),
+  });
+
+  sections.push({
+    name: "step",
+    heading: "## Current Step",
+    units: data.currentStep
+      ? [
+        [
+          data.currentStep.description,
+          `Step ID: ${data.currentStep.id} | Status: ${data.currentStep.status}`,
+          data.currentStep.acceptance_criteria && `Acceptance: ${data.currentStep.acceptance_criteria}`,
+          data.currentStep.verify_command && `Verify: ${data.currentStep.verify_command} (must pass before the step counts as completed)`,
+        ].filter(Boolean).join("\n"),
+      ]
+      : [],
+    marker: omitted("lines"),
+  });
+
+  sections.push({
+    name: "crumbs",
+    heading: "## Recent Breadcrumbs",
+    units: data.breadcrumbs.map((crumb) => {
+      const time = formatLocalTime(crumb.created_at);
+      const stepRef = crumb.step_id ? `[step]` : "";
+      return `- ${time} ${stepRef}: ${crumb.summary}`;
+    }),
+    marker: omitted("breadcrumbs"),
+    // Kept most-recent-first, shown oldest-first
+    display: (kept) => [...kept].reverse(),
+  });
+
+  sections.push({
+    name: "bugs",
+    heading: "## Open Issues",
+    units: data.bugs.map((bug) => `- ${bug.id}: ${bug.title}`),
+    marker: omitted("open issues"),
+  });
+
+  sections.push({
+    name: "pitfalls",
+    heading:
+      "## Known Pitfalls\nMistakes recorded in earlier sessions that relate to this thread - avoid repeating them:",
+    units: data.pitfalls.map((pitfall) => {
+      const tags = pitfall.tags ? ` [${pitfall.tags}]` : "";
+      const lines = [`- ${oneLine(pitfall.mistake)}${tags}`];
+      if (pitfall.symptoms) {
+        lines.push(`  - Symptoms: ${oneLine(pitfall.symptoms)}`);
+      }
+      if (pitfall.resolution) {
+        lines.push(`  - Resolution: ${oneLine(pitfall.resolution)}`);
+      }
+      return lines.join("\n");
+    }),
+    marker: omitted("pitfalls"),
+  });
+
+  return sections;
+}
+
+/**
+ * Fit sections into a token budget in priority order.
+ */
+function fitPacketSections(
+  sections: Array<{ name: string; heading: string; units: string[] }>,
+  maxTokens: number
+): Map<string, FittedSection> {
+  const byName = new Map(sections.map((s) => [s.name, s]));
+  const prioritized = SECTION_PRIORITY
+    .map((name) => byName.get(name))
+    .filter((s): s is NonNullable<typeof s> => s !== undefined);
+
+  const fitted = fitSections(
+    prioritized.map((section) => ({
+      name: section.name,
+      overhead: estimateTokens(section.heading + "\n\n"),
+      costs: section.units.map((unit) => estimateTokens(unit + "\n")),
+    })),
+    maxTokens
+  );
+  return new Map(fitted.map((f) => [f.name, f]));
+}
+
+/**
+ * Generate context packet for a thread (used by /blackboard:thread skill).
+ * With maxTokens set, sections are fitted by priority (current step, recent
+ * breadcrumbs, steps, plan, pitfalls, open issues) and cut short with markers.
+ */
+export function generateContextPacket(
+  thread: Thread,
+  options: ContextPacketOptions = {}
+): string {
+  const data = loadContextData(thread, options);
+
+  const header = [
+    `## Thread: ${thread.name}`,
+    `Status: ${thread.status} | Git branches: ${thread.git_branches || "none"}`,
+    "",
+  ];
+  const footer = orchestrationLines(thread);
+
+  // The header, orchestration instructions and an "omitted" note are always included
+  const fixedTokens = estimateTokens([...header, ...footer].join("\n")) + TRUNCATION_MARKER_TOKENS;
+  const sections = buildTextSections(thread, data);
+  const fitted = fitPacketSections(sections, (options.maxTokens ?? Infinity) - fixedTokens);
+
+  const lines: string[] = [...header];
+  const omittedSections: string[] = [];
+
+  for (const name of SECTION_DISPLAY_ORDER) {
+    const section = sections.find((s) => s.name === name);
+    const fit = fitted.get(name);
+    if (!section || !fit || fit.total === 0) continue;
+
+    if (fit.kept === 0) {
+      omittedSections.push(section.heading.split("\n")[0].replace(/^## /, ""));
+      continue;
+    }
+
+    const kept = section.units.slice(0, fit.kept);
+    lines.push(section.heading);
+    lines.push(...(section.display ? section.display(kept) : kept));
+    if (fit.kept < fit.total) {
+      lines.push(section.marker(fit.total - fit.kept));
     }
     lines.push("");
   }
 
-  // Orchestration instructions
+  if (omittedSections.length > 0) {
+    lines.push(`[Omitted to fit the context budget: ${omittedSections.join(", ")}]`);
+    lines.push("");
+  }
+
+  lines.push(...footer);
+  return lines.join("\n");
+}
+
+/**
+ * Build the JSON context for a thread (used by `thread status --json`).
+ * With maxTokens set, lists are trimmed and the plan truncated by the same
+ * priorities as the text packet, and a context_budget summary is added.
+ */
+export function generateContextJson(
+  thread: Thread,
+  options: ContextPacketOptions = {}
+): Record<string, unknown> {
+  const data = loadContextData(thread, options);
+  const result: Record<string, unknown> = { ...thread };
+
+  const planLines = data.plan ? data.plan.plan_markdown.split("\n") : [];
+  const sections = thread.current_plan_id
+    ? [
+      { name: "step", key: "current_step", items: data.currentStep ? [data.currentStep] : [] },
+      { name: "crumbs", key: "recent_breadcrumbs", items: data.breadcrumbs },
+      { name: "plan", key: "plan_content", items: planLines },
+      {
+        name: "steps",
+        key: "steps",
+        items: data.steps.map((step) => ({
+          ...step,
+          depends_on: data.readiness.get(step.id)?.dependsOn ?? [],
+          ready: data.readiness.get(step.id)?.ready ?? false,
+          ...(data.stepCommits.has(step.id) && {
+            commits: data.stepCommits.get(step.id)!.map((c) => ({ sha: c.sha.slice(0, 10), subject: c.subject })),
+          }),
+        })),
+      },
+      { name: "pitfalls", key: "known_pitfalls", items: data.pitfalls },
+      { name: "bugs", key: "open_bugs", items: data.bugs },
+    ]
+    : [
+      { name: "pitfalls", key: "known_pitfalls", items: data.pitfalls },
+      { name: "bugs", key: "open_bugs", items: data.bugs },
+    ];
+
+  const fixedTokens = estimateTokens(JSON.stringify(thread));
+  const fitted = fitPacketSections(
+    sections.map((s) => ({
+      name: s.name,
+      heading: `"${s.key}": `,
+      units: s.items.map((item) => typeof item === "string" ? item : JSON.stringify(item)),
+    })),
+    (options.maxTokens ?? Infinity) - fixedTokens
+  );
+
+  let estimatedTokens = fixedTokens;
+  const truncated: string[] = [];
+  const omitted: string[] = [];
+
+  for (const section of sections) {
+    const fit = fitted.get(section.name)!;
+    estimatedTokens += fit.tokens;
+    if (fit.total > 0 && fit.kept === 0) omitted.push(section.key);
+    else if (fit.kept < fit.total) truncated.push(section.key);
+
+    const kept = section.items.slice(0, fit.kept);
+    if (section.key === "plan_content") {
+      let content = (kept as string[]).join("\n");
+      if (fit.kept < fit.total) {
+        content += `\n[… plan truncated to fit the context budget: ${fit.total - fit.kept} more lines]`;
+      }
+      result.plan_content = data.plan ? content : null;
+    } else if (section.key === "current_step") {
+      result.current_step = kept[0] ?? null;
+    } else {
+      result[section.key] = kept;
+    }
+  }
+
+  if (options.maxTokens !== undefined) {
+    result.context_budget = {
+      max_tokens: options.maxTokens,
+      estimated_tokens: estimatedTokens,
+      truncated,
+      omitted,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Orchestration instructions appended to every context packet.
+ */
+function orchestrationLines(thread: Thread): string[] {
+  const lines: string[] = [];
   lines.push("---");
   lines.push("");
   lines.push("## Orchestration");
@@ -566,5 +1329,5 @@ export function generateContextPacket(thread: Thread): string {
   lines.push("");
   lines.push("Continue with the current thread now.");
 
-  return lines.join("\n");
+  return lines;
 }
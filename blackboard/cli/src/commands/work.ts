@@ -2,13 +2,14 @@
  * Work command - Start working on a thread.
  *
  * By default, spawns an isolated container worker.
+ * Use --worktree to run the worker loop in a git worktree on the host (no Docker needed).
  * Use --local to run Claude directly in the current environment (modifies local repo).
  */
 
-import { dirname, fromFileUrl, join } from "jsr:@std/path";
+import { dirname, fromFileUrl, join, resolve } from "jsr:@std/path";
 import { getDb, resolveDbPath } from "../db/connection.ts";
 import { resolveThread, touchThread, updateThread } from "../db/queries.ts";
-import { insertWorker } from "../db/worker-queries.ts";
+import { insertWorker, updateWorkerStatus, WORKTREE_CONTAINER_PREFIX } from "../db/worker-queries.ts";
 import {
   isDockerAvailable,
   dockerImageExists,
@@ -17,9 +18,21 @@ import {
   resolveDockerfile,
   type ContainerOptions,
 } from "../docker/client.ts";
+import { runtimeUnavailableMessage, useRuntime, type ContainerRuntime } from "../docker/runtime.ts";
+import {
+  prepareThreadWorktree,
+  removeThreadWorktree,
+  WorktreeError,
+  type ThreadWorktree,
+} from "../services/worktree.ts";
+import { runWorkerLoop, type WorkerLoopResult } from "../services/worker-loop.ts";
+import { threadJob } from "../services/worker-jobs.ts";
+import { resolveBaseBranch } from "./farm.ts";
 import { generateId } from "../utils/id.ts";
 import { extractAndValidateOAuthToken } from "../utils/oauth.ts";
 import { getCurrentGitBranch } from "../utils/git.ts";
+import { budgetError, formatBudget } from "../utils/usage.ts";
+import { loadConfig, type ConfigValues } from "../utils/config.ts";
 
 export interface WorkOptions {
   db?: string;
@@ -27,18 +40,23 @@ export interface WorkOptions {
   json?: boolean;
   // Isolation mode
   local?: boolean;
-  // Container options (when not --local)
+  worktree?: boolean;
+  // Container options (when not --local; --repo, --max-iterations and budgets also apply to --worktree).
+  // Unset options come from the config files (see utils/config.ts).
   auth?: string;
   apiKey?: string;
   repo?: string;
   maxIterations?: number;
+  maxCost?: number;
+  maxTokens?: number;
   memory?: string;
   image?: string;
   build?: boolean;
+  runtime?: string;
 }
 
 /**
- * Work on a thread - either in an isolated container (default) or locally.
+ * Work on a thread - in an isolated container (default), a git worktree, or locally.
  */
 export async function workCommand(
   threadName: string,
@@ -50,9 +68,50 @@ export async function workCommand(
     Deno.exit(1);
   }
 
+  const budgetProblem = budgetError({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens });
+  if (budgetProblem) {
+    console.error(`Error: ${budgetProblem}`);
+    Deno.exit(1);
+  }
+
+  let config: ConfigValues;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+  options = {
+    ...options,
+    auth: options.auth ?? config.auth,
+    repo: options.repo ?? config.repo,
+    maxIterations: options.maxIterations ?? config["worker.max_iterations"],
+    memory: options.memory ?? config["worker.memory"],
+    image: options.image ?? config.image,
+  };
+
+  if (options.local && options.worktree) {
+    console.error("Error: Choose one of --local or --worktree");
+    Deno.exit(1);
+  }
+
+  // Usage is only recorded by the worker loops, so a local run can't be held to a budget
+  if (options.local && (options.maxCost !== undefined || options.maxTokens !== undefined)) {
+    console.error("Error: --max-cost and --max-tokens only apply to container and worktree workers, not --local");
+    Deno.exit(1);
+  }
+
+  if ((options.local || options.worktree) && options.runtime) {
+    console.error("Error: --runtime only applies to container workers, not --local or --worktree");
+    Deno.exit(1);
+  }
+
   if (options.local) {
     // Local mode: run Claude directly (modifies local repo)
     await runLocalWorker(threadName, options);
+  } else if (options.worktree) {
+    // Worktree mode: run the worker loop on the host in a per-thread git worktree
+    await runWorktreeWorker(threadName, options);
   } else {
     // Default: spawn isolated container
     await spawnContainerWorker(threadName, options);
@@ -82,25 +141,38 @@ async function spawnContainerWorker(
     Deno.exit(1);
   }
 
-  // 2. Check Docker is available
+  // 2. Check the container runtime is available
+  let runtime: ContainerRuntime;
+  try {
+    runtime = useRuntime(options.runtime);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+
   if (!options.quiet) {
-    console.log("Checking Docker availability...");
+    console.log(`Checking ${runtime.label} availability...`);
   }
 
   const dockerAvailable = await isDockerAvailable();
   if (!dockerAvailable) {
-    console.error(
-      "Error: Docker is not available. Please ensure Docker is installed and running."
-    );
-    console.error(
-      "Supported Docker environments: Docker Desktop, OrbStack, Colima"
-    );
+    console.error(`Error: ${runtimeUnavailableMessage(runtime)}`);
+    if (runtime.name === "docker") {
+      console.error(
+        "Supported Docker environments: Docker Desktop, OrbStack, Colima"
+      );
+    }
     Deno.exit(1);
   }
 
   // 3. If --build flag, build the worker image
   const imageName = options.image || "blackboard-worker:latest";
 
+  // The process runtime uses the host's tools; there is no image to build
+  if (runtime.name === "process") {
+    options.build = false;
+  }
+
   // Auto-build image if missing (unless --build already requested)
   if (!options.build) {
     const imageExists = await dockerImageExists(imageName);
@@ -261,6 +333,9 @@ async function spawnContainerWorker(
       auth_mode: authMode,
       iteration: 0,
       max_iterations: options.maxIterations || 50,
+      max_cost_usd: options.maxCost,
+      max_tokens: options.maxTokens,
+      runtime: runtime.name,
     });
   } catch (error) {
     console.error(
@@ -285,12 +360,143 @@ async function spawnContainerWorker(
     console.log(`  Worker ID:    ${workerId}`);
     console.log(`  Container ID: ${containerId}`);
     console.log(`  Thread:       ${threadName}`);
+    if (options.maxCost !== undefined || options.maxTokens !== undefined) {
+      console.log(`  Budget:       ${formatBudget({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens })}`);
+    }
     console.log(
       `\nMonitor with: blackboard workers status ${workerId}`
     );
   }
 }
 
+/**
+ * Run a worker in a git worktree on threads/<name>, in the foreground.
+ * Same iteration loop as the container worker, with heartbeats, logs, events
+ * and usage recorded against a worker row. Ctrl-C stops it. The worktree is
+ * removed when the worker finishes; the branch is kept for review.
+ */
+async function runWorktreeWorker(
+  threadName: string,
+  options: WorkOptions
+): Promise<void> {
+  getDb(options.db);
+
+  const thread = resolveThread(threadName);
+  if (!thread) {
+    console.error(`Error: Thread "${threadName}" not found`);
+    Deno.exit(1);
+  }
+
+  if (thread.status !== "active" && thread.status !== "paused") {
+    console.error(
+      `Error: Thread "${threadName}" has status "${thread.status}". Only active or paused threads can spawn workers.`
+    );
+    Deno.exit(1);
+  }
+
+  let worktree: ThreadWorktree;
+  try {
+    worktree = prepareThreadWorktree(thread.name, {
+      repoDir: options.repo,
+      baseBranch: resolveBaseBranch(thread),
+    });
+  } catch (error) {
+    if (error instanceof WorktreeError) {
+      console.error(`Error: ${error.message}`);
+      Deno.exit(1);
+    }
+    throw error;
+  }
+
+  const branches = thread.git_branches?.split(",") || [];
+  if (!branches.includes(worktree.branch)) {
+    branches.push(worktree.branch);
+    updateThread(thread.id, { git_branches: branches.join(",") });
+  }
+
+  const workerId = generateId();
+  const maxIterations = options.maxIterations || 50;
+  insertWorker({
+    id: workerId,
+    container_id: `${WORKTREE_CONTAINER_PREFIX}${worktree.path}`,
+    thread_id: thread.id,
+    status: "running",
+    auth_mode: null,
+    iteration: 0,
+    max_iterations: maxIterations,
+    max_cost_usd: options.maxCost,
+    max_tokens: options.maxTokens,
+  });
+
+  if (!options.quiet && !options.json) {
+    console.log(`Worker ${workerId} started for thread "${thread.name}"`);
+    console.log(`  Worktree: ${worktree.path}${worktree.created ? " (created)" : ""}`);
+    console.log(`  Branch:   ${worktree.branch}`);
+    if (options.maxCost !== undefined || options.maxTokens !== undefined) {
+      console.log(`  Budget:   ${formatBudget({ maxCostUsd: options.maxCost, maxTokens: options.maxTokens })}`);
+    }
+    console.log(`\nFollow with: blackboard logs ${workerId.slice(0, 8)} --follow (Ctrl-C here stops the worker)\n`);
+  }
+
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  Deno.addSignalListener("SIGINT", onInterrupt);
+
+  // The branch stays; freeing the worktree lets `review --rebase/--discard` use it
+  const releaseWorktree = () => {
+    try {
+      removeThreadWorktree(worktree.branch, worktree.path);
+    } catch (error) {
+      console.error(`Warning: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`Commit or clean up ${worktree.path} and run \`git worktree remove\` on it before reviewing.`);
+    }
+  };
+
+  let result: WorkerLoopResult;
+  try {
+    result = await runWorkerLoop({
+      workerId,
+      job: threadJob({ threadName: thread.name, dbPath: resolve(options.db ?? resolveDbPath()) }),
+      workDir: worktree.path,
+      maxIterations,
+      signal: controller.signal,
+      onMessage: (message) => {
+        if (!options.quiet && !options.json) {
+          console.log(`[worker:${workerId.slice(0, 8)}] ${message}`);
+        }
+      },
+    });
+  } catch (error) {
+    updateWorkerStatus(workerId, "failed");
+    releaseWorktree();
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  } finally {
+    Deno.removeSignalListener("SIGINT", onInterrupt);
+  }
+  releaseWorktree();
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({
+        worker_id: workerId,
+        thread_name: thread.name,
+        thread_id: thread.id,
+        worktree: worktree.path,
+        branch: worktree.branch,
+        status: result.status,
+        iterations: result.iterations,
+        reason: result.reason,
+      })
+    );
+  } else if (!options.quiet) {
+    console.log(`\nWorker ${result.status} after ${result.iterations} iteration(s)`);
+    console.log(`Review with: blackboard review ${thread.name}`);
+  }
+
+  Deno.exit(result.status === "completed" ? 0 : 1);
+}
+
 /**
  * Run Claude locally with thread context (non-isolated, modifies local repo).
  */
@@ -0,0 +1,161 @@
+/**
+ * Worker-run command - Run the worker loop for an existing worker.
+ * This is what the container entrypoints call once the checkout is ready;
+ * the worker row (and, for drones, the session) is created by whoever
+ * started the container.
+ */
+
+import { join, resolve } from "jsr:@std/path";
+import { existsSync } from "jsr:@std/fs";
+import { resolveDbPath } from "../db/connection.ts";
+import { resolveThread } from "../db/queries.ts";
+import { getDroneSession } from "../db/drone-queries.ts";
+import { getWorker, updateWorkerStatus } from "../db/worker-queries.ts";
+import { runWorkerLoop, type WorkerLoopJob, type WorkerLoopResult } from "../services/worker-loop.ts";
+import { droneJob, threadJob } from "../services/worker-jobs.ts";
+
+// How long to wait for the worker row before giving up
+const WORKER_REGISTRATION_TIMEOUT_MS = 10_000;
+
+interface WorkerRunOptions {
+  db?: string;
+  quiet?: boolean;
+  json?: boolean;
+  worker: string;
+  maxIterations: number;
+  dir?: string;
+  push?: boolean;
+  timeout?: number;
+}
+
+export interface WorkerRunThreadOptions extends WorkerRunOptions {
+  contextMaxTokens?: number;
+}
+
+export interface WorkerRunDroneOptions extends WorkerRunOptions {
+  session: string;
+  prompt: string;
+  cooldown: number;
+}
+
+/**
+ * Runs the loop until it ends, stopping it on SIGTERM or SIGINT, and exits
+ * 1 if the worker failed.
+ */
+async function runLoop(
+  job: WorkerLoopJob,
+  workDir: string,
+  label: string,
+  options: WorkerRunOptions
+): Promise<void> {
+  const controller = new AbortController();
+  const onSignal = () => controller.abort();
+  Deno.addSignalListener("SIGTERM", onSignal);
+  Deno.addSignalListener("SIGINT", onSignal);
+
+  let result: WorkerLoopResult;
+  try {
+    result = await runWorkerLoop({
+      workerId: options.worker,
+      job,
+      workDir,
+      maxIterations: options.maxIterations,
+      iterationTimeoutSeconds: options.timeout,
+      push: options.push,
+      signal: controller.signal,
+      onMessage: (message) => {
+        if (!options.quiet && !options.json) {
+          console.log(`[${label}] ${message}`);
+        }
+      },
+    });
+  } catch (error) {
+    updateWorkerStatus(options.worker, "failed");
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  } finally {
+    Deno.removeSignalListener("SIGTERM", onSignal);
+    Deno.removeSignalListener("SIGINT", onSignal);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ worker_id: options.worker, ...result }, null, 2));
+  }
+  Deno.exit(result.status === "failed" ? 1 : 0);
+}
+
+/**
+ * Checks the worker exists and resolves the checkout directory.
+ * `work` registers a worker just after starting it, and a host process can
+ * get here first, so the row gets a few seconds to appear.
+ */
+async function prepare(options: WorkerRunOptions): Promise<string> {
+  const deadline = Date.now() + WORKER_REGISTRATION_TIMEOUT_MS;
+  while (!getWorker(options.worker)) {
+    if (Date.now() >= deadline) {
+      console.error(`Error: Worker "${options.worker}" not found`);
+      Deno.exit(1);
+    }
+    await new Promise((done) => setTimeout(done, 500));
+  }
+  return resolve(options.dir ?? Deno.cwd());
+}
+
+/**
+ * Run a thread worker's loop in the current checkout.
+ *
+ * @param threadName - Thread name or ID
+ * @param options - Worker ID, limits and checkout
+ */
+export async function workerRunThreadCommand(
+  threadName: string,
+  options: WorkerRunThreadOptions
+): Promise<void> {
+  const workDir = await prepare(options);
+  const thread = resolveThread(threadName);
+  if (!thread) {
+    console.error(`Error: Thread "${threadName}" not found`);
+    Deno.exit(1);
+  }
+
+  // Containers copy the implementer agent into the checkout; on the host it
+  // comes from the plugin
+  const implementerAgent = existsSync(join(workDir, ".claude", "agents", "implementer.md"))
+    ? "implementer"
+    : "blackboard:implementer";
+
+  const job = threadJob({
+    threadName: thread.name,
+    dbPath: resolve(options.db ?? resolveDbPath()),
+    contextMaxTokens: options.contextMaxTokens,
+    implementerAgent,
+  });
+  await runLoop(job, workDir, `worker:${options.worker}`, options);
+}
+
+/**
+ * Run a drone session's loop in the current checkout.
+ *
+ * @param droneName - Drone name (used in the prompt and log prefix)
+ * @param options - Worker and session IDs, prompt, limits and checkout
+ */
+export async function workerRunDroneCommand(
+  droneName: string,
+  options: WorkerRunDroneOptions
+): Promise<void> {
+  const workDir = await prepare(options);
+  const session = getDroneSession(options.session);
+  if (!session) {
+    console.error(`Error: Drone session "${options.session}" not found`);
+    Deno.exit(1);
+  }
+
+  const job = droneJob({
+    droneName,
+    sessionId: session.id,
+    branch: session.git_branch ?? `drones/${droneName}/${session.id.slice(0, 8)}`,
+    prompt: options.prompt,
+    cooldownSeconds: options.cooldown,
+  });
+  await runLoop(job, workDir, `drone:${droneName}`, options);
+}
@@ -3,9 +3,11 @@
  */
 
 import { getDb } from "../db/connection.ts";
-import { getActiveWorkers, updateWorkerStatus } from "../db/worker-queries.ts";
-import { reconcileWorkers, isDockerAvailable } from "../docker/client.ts";
+import { failStaleWorktreeWorkers, getActiveWorkers, isWorktreeWorker, updateWorkerStatus } from "../db/worker-queries.ts";
+import { reconcileWorkers } from "../docker/client.ts";
+import { getUsageByWorker, getWorkerBudgets } from "../db/usage-queries.ts";
 import { relativeTime } from "../utils/time.ts";
+import { budgetFromRow, formatBudget, formatUsage } from "../utils/usage.ts";
 import type { Worker } from "../types/schema.ts";
 import { outputJson } from "../utils/command.ts";
 
@@ -25,15 +27,16 @@ export async function workersCommand(
   const db = getDb(options.db);
 
   // Reconcile running workers with actual container state before listing
-  const dockerAvailable = await isDockerAvailable();
-  if (dockerAvailable) {
-    const runningWorkers = getActiveWorkers();
-    if (runningWorkers.length > 0) {
-      const result = await reconcileWorkers(runningWorkers, updateWorkerStatus);
-      if (result.updated > 0 && !options.quiet && !options.json) {
-        console.log(`Reconciled ${result.updated} dead worker(s)\n`);
-      }
-    }
+  // (on each worker's own runtime, where available); worktree workers have
+  // no container and are judged by their heartbeat
+  let reconciled = failStaleWorktreeWorkers();
+  const runningWorkers = getActiveWorkers().filter((w) => !isWorktreeWorker(w));
+  if (runningWorkers.length > 0) {
+    const result = await reconcileWorkers(runningWorkers, updateWorkerStatus);
+    reconciled += result.updated;
+  }
+  if (reconciled > 0 && !options.quiet && !options.json) {
+    console.log(`Reconciled ${reconciled} dead worker(s)\n`);
   }
 
   let workers: Array<Worker & { thread_name: string }>;
@@ -61,8 +64,15 @@ export async function workersCommand(
     return;
   }
 
+  const usageByWorker = getUsageByWorker();
+  const budgets = getWorkerBudgets();
+
   if (options.json) {
-    outputJson(workers);
+    outputJson(workers.map((w) => ({
+      ...w,
+      usage: usageByWorker.get(w.id) ?? null,
+      budget: budgets.get(w.id) ?? null,
+    })));
     return;
   }
 
@@ -80,9 +90,14 @@ export async function workersCommand(
         : w.status === "failed"
         ? "✗"
         : "•";
+    const status = w.stop_reason ? `${w.status} (${w.stop_reason})` : w.status;
+    const usage = usageByWorker.get(w.id);
+    const budget = budgets.get(w.id);
+    const usageInfo = usage ? ` | ${formatUsage(usage)}` : budget ? " | no usage yet" : "";
+    const budgetInfo = budget ? ` (budget ${formatBudget(budgetFromRow(w))})` : "";
 
     console.log(
-      `  ${statusIcon} ${id} | ${w.thread_name} | ${w.status} | ${iteration} | heartbeat: ${heartbeat}`
+      `  ${statusIcon} ${id} | ${w.thread_name} | ${status} | ${iteration} | heartbeat: ${heartbeat}${usageInfo}${budgetInfo}`
     );
   }
 }
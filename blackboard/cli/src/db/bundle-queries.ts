@@ -0,0 +1,384 @@
+/**
+ * Thread bundles: a thread and everything attached to it as portable JSON,
+ * for moving threads between projects and machines.
+ *
+ * Import gives every row a fresh local ID and records the mapping in
+ * import_mappings (migration 013), so importing the same bundle again only
+ * adds rows that weren't there before. Rows that were already imported are
+ * never overwritten.
+ */
+
+import { getDb } from "./connection.ts";
+import { generateId } from "../utils/id.ts";
+import type {
+  Breadcrumb,
+  BugReport,
+  Correction,
+  PersistedTask,
+  Plan,
+  PlanRevision,
+  PlanStep,
+  Reflection,
+  StepDependency,
+  Thread,
+  ThreadSession,
+} from "../types/schema.ts";
+
+export const BUNDLE_FORMAT = "blackboard-thread";
+export const BUNDLE_VERSION = 1;
+
+export interface ThreadBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  thread: Thread;
+  plans: Plan[];
+  plan_revisions: PlanRevision[];
+  steps: PlanStep[];
+  step_dependencies: StepDependency[];
+  breadcrumbs: Breadcrumb[];
+  reflections: Reflection[];
+  corrections: Correction[];
+  bug_reports: BugReport[];
+  tasks: PersistedTask[];
+  sessions: ThreadSession[];
+}
+
+export interface ImportOptions {
+  /** Name for the thread if it is created (default: the bundle's name, suffixed on collision) */
+  name?: string;
+}
+
+export interface ImportResult {
+  threadId: string;
+  threadName: string;
+  /** False when the bundle was imported before and its thread reused */
+  created: boolean;
+  /** Rows inserted, keyed by bundle section */
+  inserted: Record<string, number>;
+  /** Rows skipped because they were imported before */
+  skipped: number;
+}
+
+type Row = Record<string, unknown>;
+type BindValue = string | number | null;
+
+/** Columns copied for each table - anything else in a bundle row is ignored */
+const COLUMNS: Record<string, string[]> = {
+  threads: ["id", "name", "created_at", "updated_at", "current_plan_id", "git_branches", "status"],
+  plans: ["id", "created_at", "status", "description", "plan_markdown", "session_id", "thread_id"],
+  plan_revisions: ["plan_id", "plan_markdown", "author_type", "author", "reason", "created_at"],
+  plan_steps: ["id", "plan_id", "step_order", "description", "status", "created_at"],
+  step_dependencies: ["step_id", "depends_on", "created_at"],
+  breadcrumbs: ["id", "plan_id", "step_id", "created_at", "agent_type", "summary", "files_touched", "issues", "next_context"],
+  reflections: ["id", "plan_id", "created_at", "trigger", "content"],
+  corrections: ["id", "plan_id", "created_at", "mistake", "symptoms", "resolution", "tags"],
+  bug_reports: ["id", "plan_id", "created_at", "title", "repro_steps", "evidence", "status"],
+  tasks: ["id", "session_id", "thread_id", "subject", "description", "active_form", "status", "blocks", "blocked_by", "created_at", "updated_at"],
+  thread_sessions: ["thread_id", "session_id", "created_at"],
+};
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Collects a thread and everything attached to it into a bundle.
+ *
+ * @param thread - Thread to export
+ * @returns Bundle ready to serialize as JSON
+ */
+export function exportThreadBundle(thread: Thread): ThreadBundle {
+  const db = getDb();
+  const threadId = thread.id;
+
+  const plans = db.prepare(`
+    SELECT * FROM plans
+    WHERE thread_id = :threadId OR id = :currentPlanId
+    ORDER BY created_at
+  `).all({ threadId, currentPlanId: thread.current_plan_id }) as Plan[];
+
+  // Everything else hangs off the thread's plans
+  const planIds = JSON.stringify(plans.map((p) => p.id));
+  const planScope = "SELECT value FROM json_each(:planIds)";
+  const scoped = <T>(sql: string): T[] => db.prepare(sql).all({ planIds }) as T[];
+  const forThread = <T>(sql: string): T[] => db.prepare(sql).all({ threadId }) as T[];
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    thread,
+    plans,
+    plan_revisions: scoped<PlanRevision>(
+      `SELECT * FROM plan_revisions WHERE plan_id IN (${planScope}) ORDER BY id`
+    ),
+    steps: scoped<PlanStep>(
+      `SELECT * FROM plan_steps WHERE plan_id IN (${planScope}) ORDER BY plan_id, step_order`
+    ),
+    step_dependencies: scoped<StepDependency>(`
+      SELECT d.* FROM step_dependencies d
+      JOIN plan_steps s ON s.id = d.step_id
+      WHERE s.plan_id IN (${planScope})
+      ORDER BY d.created_at
+    `),
+    breadcrumbs: scoped<Breadcrumb>(
+      `SELECT * FROM breadcrumbs WHERE plan_id IN (${planScope}) ORDER BY created_at`
+    ),
+    reflections: scoped<Reflection>(
+      `SELECT * FROM reflections WHERE plan_id IN (${planScope}) ORDER BY created_at`
+    ),
+    corrections: scoped<Correction>(
+      `SELECT * FROM corrections WHERE plan_id IN (${planScope}) ORDER BY created_at`
+    ),
+    bug_reports: scoped<BugReport>(
+      `SELECT * FROM bug_reports WHERE plan_id IN (${planScope}) ORDER BY created_at`
+    ),
+    tasks: forThread<PersistedTask>(
+      "SELECT * FROM tasks WHERE thread_id = :threadId ORDER BY created_at"
+    ),
+    sessions: forThread<ThreadSession>(
+      "SELECT * FROM thread_sessions WHERE thread_id = :threadId ORDER BY created_at"
+    ),
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Checks that parsed JSON looks like a thread bundle this version can read.
+ *
+ * @param value - Parsed JSON
+ * @returns The value typed as a bundle
+ * @throws Error describing what is wrong with the bundle
+ */
+export function validateThreadBundle(value: unknown): ThreadBundle {
+  const bundle = value as Partial<ThreadBundle> | null;
+  if (!bundle || typeof bundle !== "object" || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error("Not a blackboard thread bundle");
+  }
+  if (typeof bundle.version !== "number" || bundle.version > BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported bundle version ${bundle.version} (this blackboard reads up to ${BUNDLE_VERSION})`
+    );
+  }
+  if (!bundle.thread?.id || !bundle.thread?.name) {
+    throw new Error("Bundle has no thread");
+  }
+
+  // Older bundles may lack sections added later
+  return {
+    ...bundle,
+    plans: bundle.plans ?? [],
+    plan_revisions: bundle.plan_revisions ?? [],
+    steps: bundle.steps ?? [],
+    step_dependencies: bundle.step_dependencies ?? [],
+    breadcrumbs: bundle.breadcrumbs ?? [],
+    reflections: bundle.reflections ?? [],
+    corrections: bundle.corrections ?? [],
+    bug_reports: bundle.bug_reports ?? [],
+    tasks: bundle.tasks ?? [],
+    sessions: bundle.sessions ?? [],
+  } as ThreadBundle;
+}
+
+/**
+ * Inserts a row, copying only the table's known columns.
+ */
+function insertRow(table: string, row: Row): void {
+  const columns = COLUMNS[table].filter((column) => row[column] !== undefined);
+  const params: Record<string, BindValue> = {};
+  for (const column of columns) {
+    params[column] = row[column] as BindValue;
+  }
+
+  getDb().prepare(`
+    INSERT OR IGNORE INTO ${table} (${columns.join(", ")})
+    VALUES (${columns.map((column) => `:${column}`).join(", ")})
+  `).run(params);
+}
+
+/**
+ * Picks a thread name that isn't taken, appending -2, -3, ... if needed.
+ */
+function uniqueThreadName(name: string): string {
+  const db = getDb();
+  const taken = (candidate: string) =>
+    db.prepare("SELECT 1 FROM threads WHERE name = :name").all({ name: candidate }).length > 0;
+
+  if (!taken(name)) return name;
+  for (let n = 2; ; n++) {
+    const candidate = `${name}-${n}`;
+    if (!taken(candidate)) return candidate;
+  }
+}
+
+/**
+ * Imports a thread bundle, remapping every ID. Safe to run repeatedly:
+ * rows imported before are skipped, new rows are added to the same thread.
+ *
+ * @param bundle - Validated bundle (see validateThreadBundle)
+ * @param options - Import options
+ * @returns What was imported
+ */
+export function importThreadBundle(bundle: ThreadBundle, options: ImportOptions = {}): ImportResult {
+  const db = getDb();
+  const sourceThreadId = bundle.thread.id;
+  const inserted: Record<string, number> = {};
+  let skipped = 0;
+
+  const tableFor: Record<string, string> = {
+    thread: "threads",
+    plan: "plans",
+    step: "plan_steps",
+    breadcrumb: "breadcrumbs",
+    reflection: "reflections",
+    correction: "corrections",
+    bug: "bug_reports",
+  };
+
+  // Local ID for an already-imported row, if it still exists
+  const lookup = (entity: string, sourceId: string): string | null => {
+    const mapping = db.prepare(`
+      SELECT local_id FROM import_mappings
+      WHERE source_thread_id = :sourceThreadId AND entity = :entity AND source_id = :sourceId
+    `).get({ sourceThreadId, entity, sourceId }) as { local_id: string } | undefined;
+    if (!mapping) return null;
+
+    const exists = db.prepare(`SELECT 1 FROM ${tableFor[entity]} WHERE id = :id`)
+      .all({ id: mapping.local_id }).length > 0;
+    return exists ? mapping.local_id : null;
+  };
+
+  const remember = (entity: string, sourceId: string, localId: string) => {
+    db.prepare(`
+      INSERT OR REPLACE INTO import_mappings (source_thread_id, entity, source_id, local_id)
+      VALUES (:sourceThreadId, :entity, :sourceId, :localId)
+    `).run({ sourceThreadId, entity, sourceId, localId });
+  };
+
+  const count = (section: string) => {
+    inserted[section] = (inserted[section] ?? 0) + 1;
+  };
+
+  // Imports rows that carry their own ID; returns source -> local ID map
+  const importEntities = <T extends { id: string }>(
+    entity: string,
+    section: string,
+    rows: T[],
+    remap: (row: T) => Row | null
+  ): Map<string, string> => {
+    const ids = new Map<string, string>();
+    for (const row of rows) {
+      const existing = lookup(entity, row.id);
+      if (existing) {
+        ids.set(row.id, existing);
+        skipped++;
+        continue;
+      }
+
+      const mapped = remap(row);
+      if (!mapped) continue;
+
+      const localId = generateId();
+      insertRow(tableFor[entity], { ...mapped, id: localId });
+      remember(entity, row.id, localId);
+      ids.set(row.id, localId);
+      count(section);
+    }
+    return ids;
+  };
+
+  db.exec("BEGIN TRANSACTION");
+  try {
+    // Thread
+    let threadId = lookup("thread", sourceThreadId);
+    const created = !threadId;
+    if (!threadId) {
+      threadId = generateId();
+      insertRow("threads", {
+        ...bundle.thread,
+        id: threadId,
+        name: uniqueThreadName(options.name ?? bundle.thread.name),
+        current_plan_id: null,
+      });
+      remember("thread", sourceThreadId, threadId);
+    }
+    const localThreadId = threadId;
+
+    // Plans (new plans get the bundle's revisions instead of the one the insert trigger records)
+    const newPlanIds = new Set<string>();
+    const planIds = importEntities("plan", "plans", bundle.plans, (plan) => {
+      newPlanIds.add(plan.id);
+      return { ...plan, thread_id: localThreadId };
+    });
+    for (const sourcePlanId of newPlanIds) {
+      const localPlanId = planIds.get(sourcePlanId)!;
+      const revisions = bundle.plan_revisions.filter((r) => r.plan_id === sourcePlanId);
+      if (revisions.length === 0) continue;
+
+      db.prepare("DELETE FROM plan_revisions WHERE plan_id = :planId").run({ planId: localPlanId });
+      for (const revision of revisions) {
+        insertRow("plan_revisions", { ...revision, plan_id: localPlanId });
+        count("plan_revisions");
+      }
+    }
+
+    // Steps and their dependencies
+    const stepIds = importEntities("step", "steps", bundle.steps, (step) => {
+      const planId = planIds.get(step.plan_id);
+      return planId ? { ...step, plan_id: planId } : null;
+    });
+    for (const dep of bundle.step_dependencies) {
+      const stepId = stepIds.get(dep.step_id);
+      const dependsOn = stepIds.get(dep.depends_on);
+      if (!stepId || !dependsOn) continue;
+      insertRow("step_dependencies", { ...dep, step_id: stepId, depends_on: dependsOn });
+      if (db.changes > 0) count("step_dependencies");
+    }
+
+    // Rows attached to plans
+    importEntities("breadcrumb", "breadcrumbs", bundle.breadcrumbs, (crumb) => {
+      const planId = planIds.get(crumb.plan_id);
+      if (!planId) return null;
+      return { ...crumb, plan_id: planId, step_id: crumb.step_id ? stepIds.get(crumb.step_id) ?? null : null };
+    });
+    const withPlan = <T extends { plan_id: string | null }>(row: T): Row => ({
+      ...row,
+      plan_id: row.plan_id ? planIds.get(row.plan_id) ?? null : null,
+    });
+    importEntities("reflection", "reflections", bundle.reflections, withPlan);
+    importEntities("correction", "corrections", bundle.corrections, withPlan);
+    importEntities("bug", "bug_reports", bundle.bug_reports, withPlan);
+
+    // Tasks and sessions are keyed by Claude session IDs, which are global
+    for (const task of bundle.tasks) {
+      insertRow("tasks", { ...task, thread_id: localThreadId });
+      if (db.changes > 0) count("tasks");
+    }
+    for (const session of bundle.sessions) {
+      insertRow("thread_sessions", { ...session, thread_id: localThreadId });
+      if (db.changes > 0) count("sessions");
+    }
+
+    // Point a newly created thread at its current plan
+    const currentPlanId = bundle.thread.current_plan_id
+      ? planIds.get(bundle.thread.current_plan_id) ?? null
+      : null;
+    if (created && currentPlanId) {
+      db.prepare("UPDATE threads SET current_plan_id = :planId WHERE id = :id")
+        .run({ planId: currentPlanId, id: localThreadId });
+    }
+
+    const thread = db.prepare("SELECT name FROM threads WHERE id = :id")
+      .get({ id: localThreadId }) as { name: string };
+
+    db.exec("COMMIT");
+    return { threadId: localThreadId, threadName: thread.name, created, inserted, skipped };
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Query functions for the commits table (migration 019), which links git
+ * commits to threads, plan steps, breadcrumbs and workers.
+ */
+
+import { getDb } from "./connection.ts";
+import type { CommitLink } from "../types/schema.ts";
+
+export type CommitLinkInput = Partial<Omit<CommitLink, "sha" | "recorded_at">> & { sha: string };
+
+const LINK_COLUMNS = [
+  "thread_id",
+  "plan_id",
+  "step_id",
+  "breadcrumb_id",
+  "worker_id",
+  "branch",
+  "subject",
+  "author",
+  "committed_at",
+] as const;
+
+/**
+ * Records a commit, or adds to what is already known about it.
+ *
+ * By default the new values win over stored ones, for explicit links like
+ * `crumb --commit`. With fillOnly, stored values are kept and only missing
+ * ones are filled in, for automatic sources that guess the step.
+ *
+ * @param link - Commit SHA and whatever is known about it
+ * @param options - fillOnly: keep existing values
+ */
+export function recordCommitLink(link: CommitLinkInput, options: { fillOnly?: boolean } = {}): void {
+  const db = getDb();
+  const updates = LINK_COLUMNS.map((column) =>
+    options.fillOnly
+      ? `${column} = COALESCE(commits.${column}, excluded.${column})`
+      : `${column} = COALESCE(excluded.${column}, commits.${column})`
+  );
+  const stmt = db.prepare(`
+    INSERT INTO commits (sha, ${LINK_COLUMNS.join(", ")})
+    VALUES (:sha, ${LINK_COLUMNS.map((c) => `:${c}`).join(", ")})
+    ON CONFLICT(sha) DO UPDATE SET ${updates.join(", ")}
+  `);
+
+  const params: Record<string, string | null> = { sha: link.sha };
+  for (const column of LINK_COLUMNS) {
+    params[column] = link[column] ?? null;
+  }
+  stmt.run(params);
+}
+
+/**
+ * Gets the commits recorded for a plan, oldest first.
+ *
+ * @param planId - Plan ID
+ * @returns Commits
+ */
+export function getCommitsForPlan(planId: string): CommitLink[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM commits
+    WHERE plan_id = :planId
+    ORDER BY COALESCE(committed_at, recorded_at) ASC
+  `);
+  return stmt.all({ planId }) as CommitLink[];
+}
+
+/**
+ * Groups a plan's commits by the step they worked on.
+ *
+ * @param planId - Plan ID
+ * @returns Map of step ID to its commits, oldest first
+ */
+export function getCommitsByStep(planId: string): Map<string, CommitLink[]> {
+  const byStep = new Map<string, CommitLink[]>();
+  for (const commit of getCommitsForPlan(planId)) {
+    if (!commit.step_id) continue;
+    const list = byStep.get(commit.step_id) ?? [];
+    list.push(commit);
+    byStep.set(commit.step_id, list);
+  }
+  return byStep;
+}
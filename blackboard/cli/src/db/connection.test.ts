@@ -0,0 +1,20 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { closeDb, getDb } from "./connection.ts";
+import { getMigrationStatus } from "./migrations/mod.ts";
+
+Deno.test("getDb - a plain call migrates a connection opened with skipMigrations", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-connection-" });
+  try {
+    const raw = getDb(join(dir, "blackboard.db"), { skipMigrations: true });
+    assertEquals(raw.prepare("SELECT name FROM sqlite_master WHERE name = 'plans'").all().length, 0);
+
+    const db = getDb();
+    assertEquals(db, raw);
+    assert(getMigrationStatus(db).every((m) => m.applied));
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
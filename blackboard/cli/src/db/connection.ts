@@ -1,22 +1,17 @@
 /**
  * Database connection management for blackboard CLI.
  * Provides lazy singleton connection with proper cleanup.
- * Auto-initializes schema on first connection.
+ * Auto-initializes schema and applies pending migrations on first connection.
  */
 
 import { Database } from "@db/sqlite";
 import { dirname, fromFileUrl, join } from "jsr:@std/path";
 import { existsSync } from "jsr:@std/fs";
-import { migrate as migrateThreads } from "./migrations/001_threads.ts";
-import { migrate as migrateWorkers } from "./migrations/002_workers.ts";
-import { migrate as migrateOAuthAuthMode } from "./migrations/003_oauth_auth_mode.ts";
-import { migrate as migrateThreadSessions } from "./migrations/004_thread_sessions.ts";
-import { migrate as migrateTasks } from "./migrations/005_tasks.ts";
-import { migrate as migrateWorkerEvents } from "./migrations/006_worker_events.ts";
-import { migrate as migrateDrones } from "./migrations/007_drones.ts";
-import { migrate as migrateNullableThreadId } from "./migrations/008_nullable_thread_id.ts";
+import { runMigrations } from "./migrations/mod.ts";
 
 let dbInstance: Database | null = null;
+/** Whether dbInstance has had its schema and migrations applied */
+let dbMigrated = false;
 
 /**
  * Resolves the path to schema.sql using CLAUDE_PLUGIN_ROOT or module location.
@@ -97,49 +92,86 @@ export function resolveDbPath(): string {
   return `${projectRoot}/.claude/blackboard.db`;
 }
 
+/**
+ * Options for getDb().
+ */
+export interface GetDbOptions {
+  /**
+   * Open the connection without applying schema.sql or pending migrations.
+   * Used by `blackboard db migrate --status/--dry-run` to inspect a database as-is;
+   * the next getDb() call without it still brings the database up to date.
+   */
+  skipMigrations?: boolean;
+}
+
 /**
  * Gets or creates a database connection with proper configuration.
  * Uses lazy singleton pattern - only one connection per process.
- * Automatically initializes schema on first connection.
+ * Automatically initializes schema and applies pending migrations on the
+ * first call that doesn't skip them, including when the connection was
+ * first opened with skipMigrations.
  *
  * @param path - Optional database path override (defaults to resolveDbPath())
+ * @param options - Connection options
  * @returns Database instance with foreign keys enabled and schema initialized
+ * @throws MigrationError if a pending migration fails
  */
-export function getDb(path?: string): Database {
-  if (dbInstance) {
-    return dbInstance;
+export function getDb(path?: string, options: GetDbOptions = {}): Database {
+  if (!dbInstance) {
+    const dbPath = path ?? resolveDbPath();
+    dbInstance = new Database(dbPath);
+
+    // Enable foreign key constraints (critical for referential integrity)
+    dbInstance.exec("PRAGMA foreign_keys = ON");
+
+    // Enable WAL mode for concurrent reads/writes
+    dbInstance.exec("PRAGMA journal_mode = WAL");
+    dbInstance.exec("PRAGMA busy_timeout = 30000");
+    dbInstance.exec("PRAGMA synchronous = NORMAL");
   }
 
-  const dbPath = path ?? resolveDbPath();
-  dbInstance = new Database(dbPath);
-
-  // Enable foreign key constraints (critical for referential integrity)
-  dbInstance.exec("PRAGMA foreign_keys = ON");
-
-  // Enable WAL mode for concurrent reads/writes
-  dbInstance.exec("PRAGMA journal_mode = WAL");
-  dbInstance.exec("PRAGMA busy_timeout = 30000");
-  dbInstance.exec("PRAGMA synchronous = NORMAL");
-
-  // Run migrations first (adds columns/tables to existing DBs)
-  try {
-    migrateThreads(dbInstance);
-    migrateWorkers(dbInstance);
-    migrateOAuthAuthMode(dbInstance);
-    migrateThreadSessions(dbInstance);
-    migrateTasks(dbInstance);
-    migrateWorkerEvents(dbInstance);
-    migrateDrones(dbInstance);
-    migrateNullableThreadId(dbInstance);
-  } catch {
-    // Migrations are idempotent - errors mean already migrated
+  if (!options.skipMigrations && !dbMigrated) {
+    try {
+      initializeDatabase(dbInstance);
+      dbMigrated = true;
+    } catch (error) {
+      // Don't hand out a half-migrated connection on the next call
+      closeDb();
+      throw error;
+    }
   }
 
-  // Auto-initialize schema (idempotent - uses CREATE IF NOT EXISTS)
+  return dbInstance;
+}
+
+/**
+ * Brings a database up to date: baseline schema, pending migrations, then
+ * schema.sql again for any tables, indexes and views it adds.
+ *
+ * @param db - Database to initialize
+ * @returns IDs of migrations applied by this call
+ * @throws MigrationError if a pending migration fails
+ */
+export function initializeDatabase(db: Database): string[] {
   const schema = Deno.readTextFileSync(resolveSchemaPath());
-  dbInstance.exec(schema);
 
-  return dbInstance;
+  // Fresh databases get the baseline schema first so migrations that alter
+  // existing tables (e.g. 001 adding plans.thread_id) have something to alter.
+  // Existing databases must migrate first - schema.sql indexes reference
+  // columns that older databases don't have yet.
+  const isFresh = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='plans'",
+  ).all().length === 0;
+  if (isFresh) {
+    db.exec(schema);
+  }
+
+  const applied = runMigrations(db);
+
+  // Idempotent - uses CREATE IF NOT EXISTS
+  db.exec(schema);
+
+  return applied;
 }
 
 /**
@@ -151,4 +183,5 @@ export function closeDb(): void {
     dbInstance.close();
     dbInstance = null;
   }
+  dbMigrated = false;
 }
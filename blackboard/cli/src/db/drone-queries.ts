@@ -5,7 +5,20 @@
  */
 
 import { getDb } from "./connection.ts";
-import type { Drone, DroneStatus, DroneSession, DroneSessionStatus } from "../types/schema.ts";
+import type {
+  Drone,
+  DroneStatus,
+  DroneSession,
+  DroneSessionStatus,
+  DroneScheduleRun,
+  ScheduleRunOutcome,
+  DroneTrigger,
+  DroneTriggerKind,
+  DroneTriggerFiring,
+  TriggerFiringOutcome,
+  BugReport,
+  Thread,
+} from "../types/schema.ts";
 import { generateId } from "../utils/id.ts";
 
 // ============================================================================
@@ -16,6 +29,8 @@ export interface CreateDroneOptions {
   maxIterations?: number;
   timeoutMinutes?: number;
   cooldownSeconds?: number;
+  maxCostUsd?: number;
+  maxTokens?: number;
 }
 
 /**
@@ -39,10 +54,12 @@ export function createDrone(
   try {
     const stmt = db.prepare(`
       INSERT INTO drones (
-        id, name, prompt, max_iterations, timeout_minutes, cooldown_seconds
+        id, name, prompt, max_iterations, timeout_minutes, cooldown_seconds,
+        max_cost_usd, max_tokens
       )
       VALUES (
-        :id, :name, :prompt, :max_iterations, :timeout_minutes, :cooldown_seconds
+        :id, :name, :prompt, :max_iterations, :timeout_minutes, :cooldown_seconds,
+        :max_cost_usd, :max_tokens
       )
     `);
     stmt.run({
@@ -52,6 +69,8 @@ export function createDrone(
       max_iterations: options?.maxIterations ?? 100,
       timeout_minutes: options?.timeoutMinutes ?? 60,
       cooldown_seconds: options?.cooldownSeconds ?? 60,
+      max_cost_usd: options?.maxCostUsd ?? null,
+      max_tokens: options?.maxTokens ?? null,
     });
 
     db.exec("COMMIT");
@@ -118,6 +137,8 @@ export interface UpdateDroneData {
   max_iterations?: number;
   timeout_minutes?: number;
   cooldown_seconds?: number;
+  max_cost_usd?: number | null;
+  max_tokens?: number | null;
   status?: DroneStatus;
 }
 
@@ -155,6 +176,14 @@ export function updateDrone(nameOrId: string, updates: UpdateDroneData): void {
     fields.push("cooldown_seconds = :cooldown_seconds");
     params.cooldown_seconds = updates.cooldown_seconds;
   }
+  if (updates.max_cost_usd !== undefined) {
+    fields.push("max_cost_usd = :max_cost_usd");
+    params.max_cost_usd = updates.max_cost_usd;
+  }
+  if (updates.max_tokens !== undefined) {
+    fields.push("max_tokens = :max_tokens");
+    params.max_tokens = updates.max_tokens;
+  }
   if (updates.status !== undefined) {
     fields.push("status = :status");
     params.status = updates.status;
@@ -281,6 +310,23 @@ export function getDroneSession(sessionId: string): DroneSession | null {
   return result ?? null;
 }
 
+/**
+ * Finds drone sessions by ID prefix, as shown in listings (first 8 characters).
+ *
+ * @param idPrefix - Full session ID or a prefix of it
+ * @returns Matching sessions, newest first
+ */
+export function findDroneSessions(idPrefix: string): DroneSession[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM drone_sessions
+    WHERE id LIKE :pattern
+    ORDER BY started_at DESC
+    LIMIT 10
+  `);
+  return stmt.all({ pattern: `${idPrefix.replace(/[%_]/g, "")}%` }) as DroneSession[];
+}
+
 /**
  * Gets the currently running session for a drone, if any.
  *
@@ -403,3 +449,282 @@ export function incrementSessionIteration(sessionId: string): void {
     throw error;
   }
 }
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+/**
+ * Sets or clears a drone's schedule.
+ *
+ * @param droneId - Drone ID
+ * @param schedule - Cron expression or interval, or null to clear
+ * @param nextRunAt - First due time (UTC), or null when clearing
+ */
+export function setDroneSchedule(
+  droneId: string,
+  schedule: string | null,
+  nextRunAt: string | null
+): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE drones
+    SET schedule = :schedule, next_run_at = :nextRunAt, updated_at = datetime('now')
+    WHERE id = :droneId
+  `);
+  stmt.run({ droneId, schedule, nextRunAt });
+}
+
+/**
+ * Moves a scheduled drone's next due time. Leaves updated_at alone, since
+ * this happens on every run rather than on a configuration change.
+ *
+ * @param droneId - Drone ID
+ * @param nextRunAt - Next due time (UTC), or null to stop scheduling it
+ */
+export function setNextRunAt(droneId: string, nextRunAt: string | null): void {
+  const db = getDb();
+  const stmt = db.prepare(`UPDATE drones SET next_run_at = :nextRunAt WHERE id = :droneId`);
+  stmt.run({ droneId, nextRunAt });
+}
+
+/**
+ * Gets active scheduled drones whose next run is due.
+ *
+ * @param now - Current time (UTC, "YYYY-MM-DD HH:MM:SS")
+ * @returns Due drones, earliest first
+ */
+export function getDueDrones(now: string): Drone[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM drones
+    WHERE status = 'active'
+      AND schedule IS NOT NULL
+      AND next_run_at IS NOT NULL
+      AND next_run_at <= :now
+    ORDER BY next_run_at ASC
+  `);
+  return stmt.all({ now }) as Drone[];
+}
+
+/**
+ * Records what the scheduler did at a drone's due time.
+ *
+ * @param run - Drone ID, due time, outcome and optional session/detail
+ */
+export function recordScheduleRun(run: {
+  droneId: string;
+  scheduledFor: string;
+  outcome: ScheduleRunOutcome;
+  sessionId?: string;
+  detail?: string;
+}): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO drone_schedule_runs (drone_id, scheduled_for, outcome, session_id, detail)
+    VALUES (:droneId, :scheduledFor, :outcome, :sessionId, :detail)
+  `);
+  stmt.run({
+    droneId: run.droneId,
+    scheduledFor: run.scheduledFor,
+    outcome: run.outcome,
+    sessionId: run.sessionId ?? null,
+    detail: run.detail ?? null,
+  });
+}
+
+/**
+ * Lists recent scheduler runs for a drone.
+ *
+ * @param droneId - Drone ID
+ * @param limit - Maximum number of runs (default: 10)
+ * @returns Runs ordered by due time DESC
+ */
+export function listScheduleRuns(droneId: string, limit: number = 10): DroneScheduleRun[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM drone_schedule_runs
+    WHERE drone_id = :droneId
+    ORDER BY scheduled_for DESC, id DESC
+    LIMIT :limit
+  `);
+  return stmt.all({ droneId, limit }) as DroneScheduleRun[];
+}
+
+// ============================================================================
+// Triggers
+// ============================================================================
+
+/**
+ * Adds a trigger to a drone.
+ *
+ * @param droneId - Drone ID
+ * @param kind - Event kind
+ * @param filter - Text to match (bug), status (thread) or branch (commit)
+ * @param cursor - Starting commit for commit triggers
+ * @returns The new trigger's ID
+ */
+export function createDroneTrigger(
+  droneId: string,
+  kind: DroneTriggerKind,
+  filter: string | null,
+  cursor: string | null = null
+): number {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO drone_triggers (drone_id, kind, filter, cursor)
+    VALUES (:droneId, :kind, :filter, :cursor)
+  `);
+  stmt.run({ droneId, kind, filter, cursor });
+  return db.lastInsertRowId;
+}
+
+/**
+ * Lists triggers, optionally for one drone.
+ *
+ * @param droneId - Only this drone's triggers (default: all drones)
+ * @returns Triggers ordered by creation
+ */
+export function listDroneTriggers(droneId?: string): DroneTrigger[] {
+  const db = getDb();
+  if (droneId) {
+    const stmt = db.prepare(`SELECT * FROM drone_triggers WHERE drone_id = :droneId ORDER BY id`);
+    return stmt.all({ droneId }) as DroneTrigger[];
+  }
+  const stmt = db.prepare(`SELECT * FROM drone_triggers ORDER BY id`);
+  return stmt.all() as DroneTrigger[];
+}
+
+/**
+ * Removes one of a drone's triggers.
+ *
+ * @param droneId - Drone ID
+ * @param triggerId - Trigger ID
+ * @returns True if the trigger existed
+ */
+export function deleteDroneTrigger(droneId: string, triggerId: number): boolean {
+  const db = getDb();
+  const stmt = db.prepare(`DELETE FROM drone_triggers WHERE id = :triggerId AND drone_id = :droneId`);
+  stmt.run({ droneId, triggerId });
+  return db.changes > 0;
+}
+
+/**
+ * Moves a commit trigger's cursor to the last commit it has seen.
+ *
+ * @param triggerId - Trigger ID
+ * @param cursor - Commit SHA
+ */
+export function setTriggerCursor(triggerId: number, cursor: string): void {
+  const db = getDb();
+  const stmt = db.prepare(`UPDATE drone_triggers SET cursor = :cursor WHERE id = :triggerId`);
+  stmt.run({ triggerId, cursor });
+}
+
+/**
+ * Records that a trigger acted on an event.
+ *
+ * @param firing - Trigger ID, triggering entity, outcome and optional session/detail
+ */
+export function recordTriggerFiring(firing: {
+  triggerId: number;
+  entityId: string;
+  outcome: TriggerFiringOutcome;
+  sessionId?: string;
+  detail?: string;
+}): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO drone_trigger_firings (trigger_id, entity_id, outcome, session_id, detail)
+    VALUES (:triggerId, :entityId, :outcome, :sessionId, :detail)
+  `);
+  stmt.run({
+    triggerId: firing.triggerId,
+    entityId: firing.entityId,
+    outcome: firing.outcome,
+    sessionId: firing.sessionId ?? null,
+    detail: firing.detail ?? null,
+  });
+}
+
+/**
+ * Lists recent trigger firings for a drone.
+ *
+ * @param droneId - Drone ID
+ * @param limit - Maximum number of firings (default: 10)
+ * @returns Firings with their trigger kind, newest first
+ */
+export function listTriggerFirings(
+  droneId: string,
+  limit: number = 10
+): Array<DroneTriggerFiring & { kind: DroneTriggerKind }> {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT f.*, t.kind FROM drone_trigger_firings f
+    JOIN drone_triggers t ON t.id = f.trigger_id
+    WHERE t.drone_id = :droneId
+    ORDER BY f.fired_at DESC, f.id DESC
+    LIMIT :limit
+  `);
+  return stmt.all({ droneId, limit }) as Array<DroneTriggerFiring & { kind: DroneTriggerKind }>;
+}
+
+/**
+ * Gets the oldest bug report a bug trigger hasn't acted on yet. Only reports
+ * filed after the trigger was added count; the filter matches title, repro
+ * steps or evidence, case-insensitively.
+ *
+ * @param trigger - Bug trigger
+ * @returns The next bug report, or null if there is none
+ */
+export function getPendingBugReport(trigger: DroneTrigger): BugReport | null {
+  const db = getDb();
+  const matchClause = trigger.filter
+    ? "AND (b.title LIKE :pattern OR b.repro_steps LIKE :pattern OR b.evidence LIKE :pattern)"
+    : "";
+  const stmt = db.prepare(`
+    SELECT b.* FROM bug_reports b
+    WHERE b.created_at >= :since
+      ${matchClause}
+      AND NOT EXISTS (
+        SELECT 1 FROM drone_trigger_firings f
+        WHERE f.trigger_id = :triggerId AND f.entity_id = b.id
+      )
+    ORDER BY b.created_at ASC
+    LIMIT 1
+  `);
+  const params: Record<string, string | number> = { since: trigger.created_at, triggerId: trigger.id };
+  if (trigger.filter) {
+    params.pattern = `%${trigger.filter}%`;
+  }
+  return (stmt.get(params) as BugReport | undefined) ?? null;
+}
+
+/**
+ * Gets the oldest thread a thread trigger hasn't acted on yet: one that
+ * reached the trigger's status after the trigger was added. Each thread
+ * fires a trigger at most once.
+ *
+ * @param trigger - Thread trigger
+ * @returns The next thread, or null if there is none
+ */
+export function getPendingThread(trigger: DroneTrigger): Thread | null {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT t.* FROM threads t
+    WHERE t.status = :status
+      AND t.updated_at >= :since
+      AND NOT EXISTS (
+        SELECT 1 FROM drone_trigger_firings f
+        WHERE f.trigger_id = :triggerId AND f.entity_id = t.id
+      )
+    ORDER BY t.updated_at ASC
+    LIMIT 1
+  `);
+  const thread = stmt.get({
+    status: trigger.filter ?? "completed",
+    since: trigger.created_at,
+    triggerId: trigger.id,
+  }) as Thread | undefined;
+  return thread ?? null;
+}
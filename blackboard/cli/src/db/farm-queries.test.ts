@@ -0,0 +1,56 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { closeDb, getDb } from "./connection.ts";
+import { insertThread } from "./queries.ts";
+import {
+  createFarmRun,
+  getFarmRun,
+  getFarmRunThreads,
+  getFarmRunWorkerIds,
+  listFarmRuns,
+  recordFarmRunWorker,
+  setFarmRunStatus,
+  updateFarmRunThread,
+} from "./farm-queries.ts";
+
+Deno.test("farm runs - queue state survives for resume and listing", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-farm-" });
+  getDb(join(dir, "blackboard.db"));
+  try {
+    for (const [id, name] of [["t1", "auth"], ["t2", "api"], ["t3", "ui"]]) {
+      insertThread({ id, name, current_plan_id: null, git_branches: null, status: "active" });
+    }
+    createFarmRun("r1", { concurrency: 2, runtime: "docker" }, ["t1", "t2", "t3"]);
+
+    recordFarmRunWorker("r1", "w1", "t1");
+    // A failed spawn goes to the back of the queue
+    updateFarmRunThread("r1", "t2", { state: "queued", retries: 1 });
+    updateFarmRunThread("r1", "t1", { state: "completed" });
+    recordFarmRunWorker("r1", "w2", "t3");
+    setFarmRunStatus("r1", "interrupted");
+
+    const threads = getFarmRunThreads("r1");
+    assertEquals(
+      threads.map((t) => [t.thread_name, t.state, t.retries, t.worker_id]),
+      [["auth", "completed", 0, "w1"], ["ui", "running", 0, "w2"], ["api", "queued", 1, null]]
+    );
+    assertEquals(getFarmRunWorkerIds("r1"), ["w1", "w2"]);
+
+    const run = getFarmRun("r1")!;
+    assertEquals(run.status, "interrupted");
+    assertEquals(JSON.parse(run.options), { concurrency: 2, runtime: "docker" });
+
+    const [summary] = listFarmRuns();
+    assertEquals(
+      [summary.threads, summary.completed, summary.running, summary.queued, summary.failed],
+      [3, 1, 1, 1, 0]
+    );
+
+    setFarmRunStatus("r1", "running");
+    assertEquals(getFarmRun("r1")!.finished_at, null);
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
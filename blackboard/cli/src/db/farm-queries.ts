@@ -0,0 +1,267 @@
+/**
+ * Query functions for farm runs (migration 021).
+ * The farm command writes its queue here as it changes, so a run that was
+ * interrupted can be listed, inspected and resumed.
+ */
+
+import { getDb } from "./connection.ts";
+import type { FarmRun, FarmRunStatus, FarmRunSummary, FarmRunThread, FarmThreadState } from "../types/schema.ts";
+
+/**
+ * Runs a write in an IMMEDIATE transaction, since workers write to the
+ * database while the farm runs.
+ */
+function writeTransaction<T>(fn: () => T): T {
+  const db = getDb();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const result = fn();
+    db.exec("COMMIT");
+    return result;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+/**
+ * Records a new farm run with its threads queued in order.
+ *
+ * @param id - Run ID
+ * @param options - Options the run was started with (stored as JSON)
+ * @param threadIds - Threads to work through, in queue order
+ */
+export function createFarmRun(id: string, options: Record<string, unknown>, threadIds: string[]): void {
+  const db = getDb();
+  writeTransaction(() => {
+    db.prepare(`
+      INSERT INTO farm_runs (id, options) VALUES (:id, :options)
+    `).run({ id, options: JSON.stringify(options) });
+
+    const insertThread = db.prepare(`
+      INSERT INTO farm_run_threads (run_id, thread_id, position)
+      VALUES (:runId, :threadId, :position)
+    `);
+    threadIds.forEach((threadId, position) => {
+      insertThread.run({ runId: id, threadId, position });
+    });
+  });
+}
+
+/**
+ * Gets a farm run by ID.
+ *
+ * @param id - Run ID
+ * @returns The run, or null if not found
+ */
+export function getFarmRun(id: string): FarmRun | null {
+  const db = getDb();
+  const stmt = db.prepare("SELECT * FROM farm_runs WHERE id = :id");
+  return (stmt.get({ id }) as FarmRun | undefined) ?? null;
+}
+
+/**
+ * Lists farm runs with a count of their threads in each state.
+ *
+ * @param limit - Maximum number of runs (default: 20)
+ * @returns Runs, newest first
+ */
+export function listFarmRuns(limit = 20): FarmRunSummary[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT r.*,
+      COUNT(t.thread_id) AS threads,
+      COALESCE(SUM(t.state = 'queued'), 0) AS queued,
+      COALESCE(SUM(t.state = 'running'), 0) AS running,
+      COALESCE(SUM(t.state = 'completed'), 0) AS completed,
+      COALESCE(SUM(t.state = 'failed'), 0) AS failed,
+      COALESCE(SUM(t.state = 'skipped'), 0) AS skipped,
+      (julianday('now') - julianday(r.heartbeat_at)) * 86400 AS heartbeat_age_seconds
+    FROM farm_runs r
+    LEFT JOIN farm_run_threads t ON t.run_id = r.id
+    GROUP BY r.id
+    ORDER BY r.created_at DESC, r.rowid DESC
+    LIMIT :limit
+  `);
+  return stmt.all({ limit }) as FarmRunSummary[];
+}
+
+/**
+ * Seconds since a running farm last checked in.
+ *
+ * @param id - Run ID
+ * @returns Age of the heartbeat, or null if the run doesn't exist
+ */
+export function getFarmRunHeartbeatAge(id: string): number | null {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT (julianday('now') - julianday(heartbeat_at)) * 86400 AS age
+    FROM farm_runs WHERE id = :id
+  `);
+  const row = stmt.get({ id }) as { age: number } | undefined;
+  return row ? row.age : null;
+}
+
+/**
+ * Updates a run's heartbeat; the farm calls this on every monitor tick.
+ *
+ * @param id - Run ID
+ */
+export function touchFarmRun(id: string): void {
+  const db = getDb();
+  writeTransaction(() => {
+    db.prepare(`
+      UPDATE farm_runs SET heartbeat_at = datetime('now') WHERE id = :id
+    `).run({ id });
+  });
+}
+
+/**
+ * Sets a run's status. Finished runs get a finished_at time; a run set
+ * back to running (resumed) gets a fresh heartbeat instead.
+ *
+ * @param id - Run ID
+ * @param status - New status
+ * @param stopReason - Why the run stopped early, if it did
+ */
+export function setFarmRunStatus(id: string, status: FarmRunStatus, stopReason: string | null = null): void {
+  const db = getDb();
+  writeTransaction(() => {
+    db.prepare(`
+      UPDATE farm_runs
+      SET status = :status,
+          stop_reason = :stopReason,
+          heartbeat_at = CASE WHEN :status = 'running' THEN datetime('now') ELSE heartbeat_at END,
+          finished_at = CASE WHEN :status = 'running' THEN NULL ELSE datetime('now') END
+      WHERE id = :id
+    `).run({ id, status, stopReason });
+  });
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Lists a run's threads in queue order.
+ *
+ * @param runId - Run ID
+ * @returns Thread rows with thread names
+ */
+export function getFarmRunThreads(runId: string): Array<FarmRunThread & { thread_name: string }> {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT t.*, th.name AS thread_name
+    FROM farm_run_threads t
+    JOIN threads th ON th.id = t.thread_id
+    WHERE t.run_id = :runId
+    ORDER BY t.position
+  `);
+  return stmt.all({ runId }) as Array<FarmRunThread & { thread_name: string }>;
+}
+
+/**
+ * Records a thread's new state in a run. A thread that is queued again
+ * moves to the back of the queue.
+ *
+ * @param runId - Run ID
+ * @param threadId - Thread ID
+ * @param update - New state; retries and detail are kept unless given
+ */
+export function updateFarmRunThread(
+  runId: string,
+  threadId: string,
+  update: { state: FarmThreadState; retries?: number; detail?: string | null }
+): void {
+  const db = getDb();
+  writeTransaction(() => {
+    db.prepare(`
+      UPDATE farm_run_threads
+      SET state = :state,
+          retries = COALESCE(:retries, retries),
+          detail = CASE WHEN :setDetail THEN :detail ELSE detail END,
+          position = CASE
+            WHEN :state = 'queued'
+              THEN (SELECT MAX(position) + 1 FROM farm_run_threads WHERE run_id = :runId)
+            ELSE position
+          END,
+          updated_at = datetime('now')
+      WHERE run_id = :runId AND thread_id = :threadId
+    `).run({
+      runId,
+      threadId,
+      state: update.state,
+      retries: update.retries ?? null,
+      setDetail: update.detail !== undefined ? 1 : 0,
+      detail: update.detail ?? null,
+    });
+  });
+}
+
+// ============================================================================
+// Workers
+// ============================================================================
+
+/**
+ * Records a worker the run started, marking its thread as running.
+ *
+ * @param runId - Run ID
+ * @param workerId - Worker ID
+ * @param threadId - Thread the worker is on
+ */
+export function recordFarmRunWorker(runId: string, workerId: string, threadId: string): void {
+  const db = getDb();
+  writeTransaction(() => {
+    db.prepare(`
+      INSERT INTO farm_run_workers (run_id, worker_id, thread_id)
+      VALUES (:runId, :workerId, :threadId)
+    `).run({ runId, workerId, threadId });
+    db.prepare(`
+      UPDATE farm_run_threads
+      SET state = 'running', worker_id = :workerId, detail = NULL, updated_at = datetime('now')
+      WHERE run_id = :runId AND thread_id = :threadId
+    `).run({ runId, workerId, threadId });
+  });
+}
+
+/**
+ * Gets the IDs of every worker a run has started.
+ *
+ * @param runId - Run ID
+ * @returns Worker IDs, oldest first
+ */
+export function getFarmRunWorkerIds(runId: string): string[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT worker_id FROM farm_run_workers
+    WHERE run_id = :runId
+    ORDER BY started_at, rowid
+  `);
+  return (stmt.all({ runId }) as Array<{ worker_id: string }>).map((row) => row.worker_id);
+}
+
+/**
+ * Counts the workers a run has started for each thread, and how many of
+ * them failed.
+ *
+ * @param runId - Run ID
+ * @returns Counts by thread ID (threads without workers are absent)
+ */
+export function getFarmRunWorkerCounts(runId: string): Map<string, { workers: number; failed: number }> {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT fw.thread_id,
+      COUNT(*) AS workers,
+      COALESCE(SUM(w.status = 'failed'), 0) AS failed
+    FROM farm_run_workers fw
+    LEFT JOIN workers w ON w.id = fw.worker_id
+    WHERE fw.run_id = :runId AND fw.thread_id IS NOT NULL
+    GROUP BY fw.thread_id
+  `);
+  const rows = stmt.all({ runId }) as Array<{ thread_id: string; workers: number; failed: number }>;
+  return new Map(rows.map((row) => [row.thread_id, { workers: row.workers, failed: row.failed }]));
+}
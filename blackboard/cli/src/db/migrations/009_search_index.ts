@@ -0,0 +1,78 @@
+/**
+ * Migration 009: Add FTS5 full-text search indexes.
+ * One FTS5 table per searchable entity, kept in sync with its source table
+ * by insert/update/delete triggers. Each index stores the source row's id
+ * (UNINDEXED) rather than using external content, so rowid changes from
+ * table rebuilds or VACUUM can't desynchronise it.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Source tables and the text columns indexed for each.
+ */
+const INDEXED_TABLES: Array<{ table: string; columns: string[] }> = [
+  { table: "plans", columns: ["description", "plan_markdown"] },
+  { table: "breadcrumbs", columns: ["summary", "issues", "next_context"] },
+  { table: "reflections", columns: ["content"] },
+  { table: "corrections", columns: ["mistake", "symptoms", "resolution", "tags"] },
+  { table: "bug_reports", columns: ["title", "repro_steps", "evidence"] },
+  { table: "next_ups", columns: ["title", "content"] },
+];
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the search index migration.
+ * Creates <table>_fts virtual tables, sync triggers, and backfills existing rows.
+ */
+export function migrate(db: Database): void {
+  for (const { table, columns } of INDEXED_TABLES) {
+    // Skip if the source table doesn't exist
+    if (!tableExists(db, table)) {
+      continue;
+    }
+
+    const fts = `${table}_fts`;
+    const columnList = columns.join(", ");
+    const newValues = columns.map((c) => `new.${c}`).join(", ");
+
+    if (!tableExists(db, fts)) {
+      db.exec(`
+        CREATE VIRTUAL TABLE ${fts} USING fts5(
+          id UNINDEXED,
+          ${columnList},
+          tokenize = 'porter unicode61'
+        );
+
+        INSERT INTO ${fts} (id, ${columnList})
+        SELECT id, ${columnList} FROM ${table};
+      `);
+    }
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS ${fts}_insert AFTER INSERT ON ${table} BEGIN
+        INSERT INTO ${fts} (id, ${columnList}) VALUES (new.id, ${newValues});
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS ${fts}_delete AFTER DELETE ON ${table} BEGIN
+        DELETE FROM ${fts} WHERE id = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS ${fts}_update AFTER UPDATE ON ${table} BEGIN
+        DELETE FROM ${fts} WHERE id = old.id;
+        INSERT INTO ${fts} (id, ${columnList}) VALUES (new.id, ${newValues});
+      END;
+    `);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Migration 010: Add step_dependencies table.
+ * Each row says a plan step can't start until another step in the same plan
+ * is complete. Rows are removed with either step.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the step dependencies migration.
+ */
+export function migrate(db: Database): void {
+  if (tableExists(db, "step_dependencies")) {
+    return;
+  }
+
+  db.exec(`
+    CREATE TABLE step_dependencies (
+      step_id TEXT NOT NULL REFERENCES plan_steps(id) ON DELETE CASCADE,
+      depends_on TEXT NOT NULL REFERENCES plan_steps(id) ON DELETE CASCADE,
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (step_id, depends_on),
+      CHECK (step_id != depends_on)
+    );
+
+    CREATE INDEX idx_step_dependencies_depends_on ON step_dependencies(depends_on);
+  `);
+}
@@ -0,0 +1,40 @@
+/**
+ * Migration 011: Add thread_dependencies table.
+ * Each row says a thread can't be worked on until another thread is
+ * completed. Rows are removed with either thread.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the thread dependencies migration.
+ */
+export function migrate(db: Database): void {
+  if (tableExists(db, "thread_dependencies")) {
+    return;
+  }
+
+  db.exec(`
+    CREATE TABLE thread_dependencies (
+      thread_id TEXT NOT NULL REFERENCES threads(id) ON DELETE CASCADE,
+      depends_on TEXT NOT NULL REFERENCES threads(id) ON DELETE CASCADE,
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (thread_id, depends_on),
+      CHECK (thread_id != depends_on)
+    );
+
+    CREATE INDEX idx_thread_dependencies_depends_on ON thread_dependencies(depends_on);
+  `);
+}
@@ -0,0 +1,73 @@
+/**
+ * Migration 012: Add plan_revisions table.
+ * Every version of a plan's markdown is kept, newest last. Triggers record a
+ * revision whenever a plan is inserted or its markdown changes, so edits made
+ * with raw SQL are captured too; the CLI then fills in author and reason.
+ * Existing plans are backfilled with their current markdown.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the plan revisions migration.
+ */
+export function migrate(db: Database): void {
+  if (tableExists(db, "plan_revisions")) {
+    return;
+  }
+
+  db.exec(`
+    CREATE TABLE plan_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      plan_id TEXT NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+      plan_markdown TEXT NOT NULL,
+      author_type TEXT NOT NULL DEFAULT 'unknown' CHECK(author_type IN ('session', 'worker', 'human', 'unknown')),
+      author TEXT,
+      reason TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX idx_plan_revisions_plan ON plan_revisions(plan_id);
+
+    INSERT INTO plan_revisions (plan_id, plan_markdown, author_type, author, reason, created_at)
+    SELECT
+      id,
+      plan_markdown,
+      CASE WHEN session_id IS NOT NULL THEN 'session' ELSE 'unknown' END,
+      session_id,
+      'Imported existing plan',
+      created_at
+    FROM plans
+    ORDER BY created_at;
+
+    CREATE TRIGGER plans_revision_ai AFTER INSERT ON plans BEGIN
+      INSERT INTO plan_revisions (plan_id, plan_markdown, author_type, author, reason)
+      VALUES (
+        new.id,
+        new.plan_markdown,
+        CASE WHEN new.session_id IS NOT NULL THEN 'session' ELSE 'unknown' END,
+        new.session_id,
+        'Plan created'
+      );
+    END;
+
+    CREATE TRIGGER plans_revision_au AFTER UPDATE OF plan_markdown ON plans
+    WHEN new.plan_markdown IS NOT old.plan_markdown
+    BEGIN
+      INSERT INTO plan_revisions (plan_id, plan_markdown)
+      VALUES (new.id, new.plan_markdown);
+    END;
+  `);
+}
@@ -0,0 +1,40 @@
+/**
+ * Migration 013: Add import_mappings table.
+ * Records which local row each row of an imported thread bundle became, so
+ * importing the same bundle again skips what is already there and only adds
+ * new rows. Mappings are scoped by the thread ID in the source database.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the import mappings migration.
+ */
+export function migrate(db: Database): void {
+  if (tableExists(db, "import_mappings")) {
+    return;
+  }
+
+  db.exec(`
+    CREATE TABLE import_mappings (
+      source_thread_id TEXT NOT NULL,
+      entity TEXT NOT NULL,
+      source_id TEXT NOT NULL,
+      local_id TEXT NOT NULL,
+      imported_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (source_thread_id, entity, source_id)
+    );
+  `);
+}
@@ -0,0 +1,52 @@
+/**
+ * Migration 014: Add worker_usage table.
+ * One row per worker iteration with the token usage and cost reported by
+ * the Claude CLI. The thread and drone session are copied onto the row when
+ * it is written, so rollups survive worker records being cleaned up.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the worker usage migration.
+ */
+export function migrate(db: Database): void {
+  if (tableExists(db, "worker_usage")) {
+    return;
+  }
+
+  db.exec(`
+    CREATE TABLE worker_usage (
+      worker_id TEXT NOT NULL,
+      iteration INTEGER NOT NULL,
+      thread_id TEXT,
+      drone_session_id TEXT,
+      model TEXT,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL,
+      num_turns INTEGER,
+      duration_ms INTEGER,
+      recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (worker_id, iteration)
+    );
+
+    CREATE INDEX idx_worker_usage_thread ON worker_usage(thread_id);
+    CREATE INDEX idx_worker_usage_drone_session ON worker_usage(drone_session_id);
+    CREATE INDEX idx_worker_usage_recorded ON worker_usage(recorded_at);
+  `);
+}
@@ -0,0 +1,67 @@
+/**
+ * Migration 015: Add cost and token budgets.
+ * Workers carry the budget they were started with and the reason they
+ * stopped; drones store a default budget for their sessions. The
+ * worker_budgets view compares each budgeted worker's limits with its
+ * recorded usage, so the container loops can check it with a single query.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a column exists in a table.
+ */
+function columnExists(db: Database, table: string, column: string): boolean {
+  const stmt = db.prepare(`PRAGMA table_info(${table})`);
+  const columns = stmt.all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Run the budgets migration.
+ */
+export function migrate(db: Database): void {
+  if (!columnExists(db, "workers", "max_cost_usd")) {
+    db.exec(`
+      ALTER TABLE workers ADD COLUMN max_cost_usd REAL;
+      ALTER TABLE workers ADD COLUMN max_tokens INTEGER;
+      ALTER TABLE workers ADD COLUMN stop_reason TEXT;
+    `);
+  }
+
+  if (!columnExists(db, "drones", "max_cost_usd")) {
+    db.exec(`
+      ALTER TABLE drones ADD COLUMN max_cost_usd REAL;
+      ALTER TABLE drones ADD COLUMN max_tokens INTEGER;
+    `);
+  }
+
+  // Tokens count everything the API processed, including cache reads and writes
+  db.exec(`
+    CREATE VIEW IF NOT EXISTS worker_budgets AS
+    SELECT
+      worker_id,
+      max_cost_usd,
+      max_tokens,
+      spent_cost_usd,
+      spent_tokens,
+      CASE
+        WHEN max_cost_usd IS NOT NULL AND spent_cost_usd >= max_cost_usd
+          THEN printf('spent $%.2f of $%.2f', spent_cost_usd, max_cost_usd)
+        WHEN max_tokens IS NOT NULL AND spent_tokens >= max_tokens
+          THEN printf('used %d of %d tokens', spent_tokens, max_tokens)
+      END AS exhausted_reason
+    FROM (
+      SELECT
+        w.id AS worker_id,
+        w.max_cost_usd,
+        w.max_tokens,
+        COALESCE(SUM(u.cost_usd), 0) AS spent_cost_usd,
+        COALESCE(SUM(u.input_tokens + u.output_tokens + u.cache_creation_tokens + u.cache_read_tokens), 0) AS spent_tokens
+      FROM workers w
+      LEFT JOIN worker_usage u ON u.worker_id = w.id
+      WHERE w.max_cost_usd IS NOT NULL OR w.max_tokens IS NOT NULL
+      GROUP BY w.id
+    );
+  `);
+}
@@ -0,0 +1,58 @@
+/**
+ * Migration 016: Add drone schedules.
+ * drones.schedule holds a cron expression or interval and next_run_at the
+ * next due time (UTC); drone_schedule_runs records what the scheduler did at
+ * each due time - started, skipped because a session was still running,
+ * missed while the scheduler wasn't running, or failed to launch.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a column exists in a table.
+ */
+function columnExists(db: Database, table: string, column: string): boolean {
+  const stmt = db.prepare(`PRAGMA table_info(${table})`);
+  const columns = stmt.all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the drone schedules migration.
+ */
+export function migrate(db: Database): void {
+  if (!columnExists(db, "drones", "schedule")) {
+    db.exec(`
+      ALTER TABLE drones ADD COLUMN schedule TEXT;
+      ALTER TABLE drones ADD COLUMN next_run_at TEXT;
+    `);
+  }
+
+  if (!tableExists(db, "drone_schedule_runs")) {
+    db.exec(`
+      CREATE TABLE drone_schedule_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        drone_id TEXT NOT NULL REFERENCES drones(id) ON DELETE CASCADE,
+        scheduled_for TEXT NOT NULL,
+        outcome TEXT NOT NULL CHECK(outcome IN ('started', 'skipped', 'missed', 'failed')),
+        session_id TEXT REFERENCES drone_sessions(id) ON DELETE SET NULL,
+        detail TEXT,
+        recorded_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_drone_schedule_runs_drone ON drone_schedule_runs(drone_id, scheduled_for DESC);
+    `);
+  }
+}
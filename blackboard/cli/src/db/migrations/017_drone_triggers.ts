@@ -0,0 +1,57 @@
+/**
+ * Migration 017: Add drone triggers.
+ * drone_triggers starts a drone when something happens on the blackboard or
+ * in the repo - a new bug report, a thread reaching a status, or new commits
+ * on a branch. drone_trigger_firings records each event a trigger acted on,
+ * so the same bug, thread or commit never starts a drone twice.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the drone triggers migration.
+ */
+export function migrate(db: Database): void {
+  if (!tableExists(db, "drone_triggers")) {
+    db.exec(`
+      CREATE TABLE drone_triggers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        drone_id TEXT NOT NULL REFERENCES drones(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK(kind IN ('bug', 'thread', 'commit')),
+        filter TEXT,
+        cursor TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_drone_triggers_drone ON drone_triggers(drone_id);
+    `);
+  }
+
+  if (!tableExists(db, "drone_trigger_firings")) {
+    db.exec(`
+      CREATE TABLE drone_trigger_firings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trigger_id INTEGER NOT NULL REFERENCES drone_triggers(id) ON DELETE CASCADE,
+        entity_id TEXT NOT NULL,
+        outcome TEXT NOT NULL CHECK(outcome IN ('started', 'failed')),
+        session_id TEXT REFERENCES drone_sessions(id) ON DELETE SET NULL,
+        detail TEXT,
+        fired_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_drone_trigger_firings_trigger ON drone_trigger_firings(trigger_id, entity_id);
+    `);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Migration 018: Add branch reviews.
+ * branch_reviews records what happened when a worker or drone branch was
+ * reviewed - merged, squashed, rebased, discarded, or stopped by a merge
+ * conflict or a failing verification command - so a thread keeps the
+ * history of how its work came back.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the branch reviews migration.
+ */
+export function migrate(db: Database): void {
+  if (!tableExists(db, "branch_reviews")) {
+    db.exec(`
+      CREATE TABLE branch_reviews (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        thread_id TEXT REFERENCES threads(id) ON DELETE CASCADE,
+        drone_session_id TEXT REFERENCES drone_sessions(id) ON DELETE CASCADE,
+        branch TEXT NOT NULL,
+        base_branch TEXT NOT NULL,
+        head_sha TEXT,
+        outcome TEXT NOT NULL CHECK(outcome IN ('merged', 'squashed', 'rebased', 'discarded', 'conflict', 'verify_failed')),
+        verify_command TEXT,
+        verify_passed INTEGER,
+        detail TEXT,
+        reviewed_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_branch_reviews_thread ON branch_reviews(thread_id, reviewed_at DESC);
+      CREATE INDEX idx_branch_reviews_drone_session ON branch_reviews(drone_session_id);
+    `);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Migration 019: Add commit linkage.
+ * commits records each git commit made for a thread, with the step it
+ * worked on, the breadcrumb that describes it and the worker that made it.
+ * Rows come from the post-commit hook, the worker loops and
+ * `blackboard crumb --commit`; later sources fill in what earlier ones
+ * didn't know.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the commits migration.
+ */
+export function migrate(db: Database): void {
+  if (!tableExists(db, "commits")) {
+    db.exec(`
+      CREATE TABLE commits (
+        sha TEXT PRIMARY KEY,
+        thread_id TEXT REFERENCES threads(id) ON DELETE SET NULL,
+        plan_id TEXT REFERENCES plans(id) ON DELETE SET NULL,
+        step_id TEXT REFERENCES plan_steps(id) ON DELETE SET NULL,
+        breadcrumb_id TEXT REFERENCES breadcrumbs(id) ON DELETE SET NULL,
+        worker_id TEXT REFERENCES workers(id) ON DELETE SET NULL,
+        branch TEXT,
+        subject TEXT,
+        author TEXT,
+        committed_at TEXT,
+        recorded_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_commits_plan ON commits(plan_id, committed_at);
+      CREATE INDEX idx_commits_step ON commits(step_id);
+      CREATE INDEX idx_commits_thread ON commits(thread_id);
+    `);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Migration 020: Record each worker's container runtime.
+ * workers.runtime names the runtime the worker was started with (docker,
+ * podman, nerdctl or process) so kill, drain and reconciliation talk to the
+ * right one. NULL means Docker, which is all workers ran on before.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a column exists in a table.
+ */
+function columnExists(db: Database, table: string, column: string): boolean {
+  const stmt = db.prepare(`PRAGMA table_info(${table})`);
+  const columns = stmt.all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Run the worker runtime migration.
+ */
+export function migrate(db: Database): void {
+  if (!columnExists(db, "workers", "runtime")) {
+    db.exec(`ALTER TABLE workers ADD COLUMN runtime TEXT`);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Migration 021: Add farm runs.
+ * farm_runs records each `blackboard farm` invocation with the options it
+ * was started with; farm_run_threads holds its queue - each thread's place,
+ * retries, current worker and outcome - and farm_run_workers every worker
+ * it started, for the run's budget. Together they let an interrupted farm
+ * be resumed with `blackboard farm --resume <run-id>`.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a table exists.
+ */
+function tableExists(db: Database, table: string): boolean {
+  const stmt = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name=:table
+  `);
+  const result = stmt.all({ table });
+  return result.length > 0;
+}
+
+/**
+ * Run the farm runs migration.
+ */
+export function migrate(db: Database): void {
+  if (!tableExists(db, "farm_runs")) {
+    db.exec(`
+      CREATE TABLE farm_runs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'interrupted')),
+        options TEXT NOT NULL,
+        stop_reason TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        heartbeat_at TEXT DEFAULT (datetime('now')),
+        finished_at TEXT
+      );
+
+      CREATE INDEX idx_farm_runs_created ON farm_runs(created_at DESC);
+    `);
+  }
+
+  if (!tableExists(db, "farm_run_threads")) {
+    db.exec(`
+      CREATE TABLE farm_run_threads (
+        run_id TEXT NOT NULL REFERENCES farm_runs(id) ON DELETE CASCADE,
+        thread_id TEXT NOT NULL REFERENCES threads(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        state TEXT NOT NULL DEFAULT 'queued' CHECK(state IN ('queued', 'running', 'completed', 'failed', 'skipped')),
+        retries INTEGER NOT NULL DEFAULT 0,
+        worker_id TEXT,
+        detail TEXT,
+        updated_at TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (run_id, thread_id)
+      );
+    `);
+  }
+
+  if (!tableExists(db, "farm_run_workers")) {
+    db.exec(`
+      CREATE TABLE farm_run_workers (
+        run_id TEXT NOT NULL REFERENCES farm_runs(id) ON DELETE CASCADE,
+        worker_id TEXT NOT NULL,
+        thread_id TEXT REFERENCES threads(id) ON DELETE SET NULL,
+        started_at TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (run_id, worker_id)
+      );
+    `);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Migration 022: Add thread priority.
+ * threads.priority orders the farm queue: higher runs sooner. Existing
+ * threads get 0, the default for new ones.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a column exists in a table.
+ */
+function columnExists(db: Database, table: string, column: string): boolean {
+  const stmt = db.prepare(`PRAGMA table_info(${table})`);
+  const columns = stmt.all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Run the thread priority migration.
+ */
+export function migrate(db: Database): void {
+  if (!columnExists(db, "threads", "priority")) {
+    db.exec(`ALTER TABLE threads ADD COLUMN priority INTEGER NOT NULL DEFAULT 0`);
+  }
+}
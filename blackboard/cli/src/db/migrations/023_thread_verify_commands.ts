@@ -0,0 +1,26 @@
+/**
+ * Migration 023: Add per-thread verification commands.
+ * threads.verify_commands is a JSON array of shell commands (tests,
+ * type-check, lint) that must pass before the thread's plan is accepted as
+ * completed. NULL means the `verify` config key, if set, is used instead.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a column exists in a table.
+ */
+function columnExists(db: Database, table: string, column: string): boolean {
+  const stmt = db.prepare(`PRAGMA table_info(${table})`);
+  const columns = stmt.all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Run the thread verification commands migration.
+ */
+export function migrate(db: Database): void {
+  if (!columnExists(db, "threads", "verify_commands")) {
+    db.exec(`ALTER TABLE threads ADD COLUMN verify_commands TEXT`);
+  }
+}
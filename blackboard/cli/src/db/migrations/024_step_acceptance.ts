@@ -0,0 +1,29 @@
+/**
+ * Migration 024: Add acceptance criteria and a verification command to
+ * plan steps. A step with a verify_command only counts as completed once
+ * the command passes; acceptance_criteria is free text telling the agent
+ * what done looks like.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a column exists in a table.
+ */
+function columnExists(db: Database, table: string, column: string): boolean {
+  const stmt = db.prepare(`PRAGMA table_info(${table})`);
+  const columns = stmt.all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Run the step acceptance migration.
+ */
+export function migrate(db: Database): void {
+  if (!columnExists(db, "plan_steps", "acceptance_criteria")) {
+    db.exec(`ALTER TABLE plan_steps ADD COLUMN acceptance_criteria TEXT`);
+  }
+  if (!columnExists(db, "plan_steps", "verify_command")) {
+    db.exec(`ALTER TABLE plan_steps ADD COLUMN verify_command TEXT`);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Migration 025: Record when verification last passed for a step (its
+ * verify_command) and a plan (its thread's verification commands), so work
+ * already verified by the MCP tools isn't verified again by the worker loop
+ * in the same iteration.
+ */
+
+import { Database } from "@db/sqlite";
+
+/**
+ * Check if a column exists in a table.
+ */
+function columnExists(db: Database, table: string, column: string): boolean {
+  const stmt = db.prepare(`PRAGMA table_info(${table})`);
+  const columns = stmt.all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Run the verified_at migration.
+ */
+export function migrate(db: Database): void {
+  if (!columnExists(db, "plan_steps", "verified_at")) {
+    db.exec(`ALTER TABLE plan_steps ADD COLUMN verified_at TEXT`);
+  }
+  if (!columnExists(db, "plans", "verified_at")) {
+    db.exec(`ALTER TABLE plans ADD COLUMN verified_at TEXT`);
+  }
+}
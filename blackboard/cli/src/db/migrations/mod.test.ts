@@ -0,0 +1,109 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { closeDb, getDb } from "../connection.ts";
+import { insertThread } from "../queries.ts";
+import { createDrone, createDroneSession } from "../drone-queries.ts";
+import { insertWorker, insertWorkerLog } from "../worker-queries.ts";
+import { MigrationError, runMigrations, type Migration } from "./mod.ts";
+
+const tableExists = (table: string) =>
+  getDb().prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = :table").all({ table }).length > 0;
+
+Deno.test("runMigrations - a failing migration is rolled back and stops the run", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-migrations-" });
+  const db = getDb(join(dir, "blackboard.db"));
+  try {
+    const migrations: Migration[] = [
+      { id: "900_ok", description: "ok", migrate: (db) => db.exec("CREATE TABLE ok_table (id TEXT)") },
+      {
+        id: "901_broken",
+        description: "broken",
+        migrate: (db) => {
+          db.exec("CREATE TABLE half_done (id TEXT)");
+          throw new Error("boom");
+        },
+      },
+      { id: "902_never", description: "never", migrate: (db) => db.exec("CREATE TABLE never_table (id TEXT)") },
+    ];
+
+    assertThrows(() => runMigrations(db, migrations), MigrationError, "Migration 901_broken failed: boom");
+    assertEquals([tableExists("ok_table"), tableExists("half_done"), tableExists("never_table")], [true, false, false]);
+    const applied = db.prepare("SELECT id FROM schema_migrations WHERE id LIKE '9%'").all();
+    assertEquals(applied, [{ id: "900_ok" }]);
+
+    // A table rebuild that leaves rows pointing nowhere is rolled back too
+    insertThread({ id: "t1", name: "auth", current_plan_id: null, git_branches: null, status: "active" });
+    insertWorker({ id: "w1", container_id: "c1", thread_id: "t1", status: "running", auth_mode: null, iteration: 0, max_iterations: 3 });
+    insertWorkerLog("w1", "system", "started", 1);
+    const dropWorkers: Migration = {
+      id: "903_drop_workers",
+      description: "drop",
+      rebuildsTables: true,
+      migrate: (db) => {
+        db.exec("CREATE TABLE workers_new AS SELECT * FROM workers WHERE 0");
+        db.exec("DROP TABLE workers");
+        db.exec("ALTER TABLE workers_new RENAME TO workers");
+      },
+    };
+    assertThrows(() => runMigrations(db, [dropWorkers]), MigrationError, "violating foreign keys");
+    assertEquals(db.prepare("SELECT id FROM workers").all(), [{ id: "w1" }]);
+    assertEquals(db.prepare("PRAGMA foreign_keys").get(), { foreign_keys: 1 });
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("runMigrations - upgrades a pre-003 database with rows referencing workers", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-migrations-" });
+  const db = getDb(join(dir, "blackboard.db"));
+  try {
+    insertThread({ id: "t1", name: "auth", current_plan_id: null, git_branches: null, status: "active" });
+    insertWorker({ id: "w1", container_id: "c1", thread_id: "t1", status: "completed", auth_mode: "env", iteration: 2, max_iterations: 3 });
+    insertWorkerLog("w1", "system", "started", 1);
+    const sessionId = createDroneSession(createDrone("lint", "Fix lint"), "w1", "drones/lint/s1", "s1");
+
+    // Put workers back the way it was before 003 (no oauth, thread_id
+    // required), without the budget view 015 added on top of it
+    db.exec("PRAGMA foreign_keys = OFF");
+    db.exec(`
+      DROP VIEW worker_budgets;
+      CREATE TABLE workers_old (
+        id TEXT PRIMARY KEY,
+        container_id TEXT NOT NULL,
+        thread_id TEXT NOT NULL REFERENCES threads(id),
+        status TEXT DEFAULT 'running' CHECK(status IN ('running', 'completed', 'failed', 'killed')),
+        last_heartbeat TEXT DEFAULT (datetime('now')),
+        created_at TEXT DEFAULT (datetime('now')),
+        auth_mode TEXT CHECK(auth_mode IN ('env', 'config')),
+        iteration INTEGER DEFAULT 0,
+        max_iterations INTEGER DEFAULT 50
+      );
+      INSERT INTO workers_old
+        SELECT id, container_id, thread_id, status, last_heartbeat, created_at, auth_mode, iteration, max_iterations
+        FROM workers;
+      DROP TABLE workers;
+      ALTER TABLE workers_old RENAME TO workers;
+      DELETE FROM schema_migrations WHERE id >= '003';
+    `);
+    db.exec("PRAGMA foreign_keys = ON");
+
+    const applied = runMigrations(db);
+    assertEquals(applied.slice(0, 1), ["003_oauth_auth_mode"]);
+    assertEquals(applied.includes("008_nullable_thread_id"), true);
+    assertEquals(db.prepare("SELECT id, auth_mode, iteration FROM workers").all(), [
+      { id: "w1", auth_mode: "env", iteration: 2 },
+    ]);
+    assertEquals(db.prepare("SELECT COUNT(*) AS count FROM worker_logs").get(), { count: 1 });
+    assertEquals(db.prepare("SELECT worker_id FROM drone_sessions WHERE id = :id").get({ id: sessionId }), {
+      worker_id: "w1",
+    });
+    assertEquals(db.prepare("PRAGMA foreign_key_check").all(), []);
+    assertEquals(db.prepare("PRAGMA foreign_keys").get(), { foreign_keys: 1 });
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
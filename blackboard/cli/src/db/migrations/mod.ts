@@ -0,0 +1,256 @@
+/**
+ * Versioned migration runner.
+ * Tracks applied migrations in the schema_migrations table and applies
+ * pending ones in order, each inside its own transaction.
+ */
+
+import { Database } from "@db/sqlite";
+import { migrate as migrateThreads } from "./001_threads.ts";
+import { migrate as migrateWorkers } from "./002_workers.ts";
+import { migrate as migrateOAuthAuthMode } from "./003_oauth_auth_mode.ts";
+import { migrate as migrateThreadSessions } from "./004_thread_sessions.ts";
+import { migrate as migrateTasks } from "./005_tasks.ts";
+import { migrate as migrateWorkerEvents } from "./006_worker_events.ts";
+import { migrate as migrateDrones } from "./007_drones.ts";
+import { migrate as migrateNullableThreadId } from "./008_nullable_thread_id.ts";
+import { migrate as migrateSearchIndex } from "./009_search_index.ts";
+import { migrate as migrateStepDependencies } from "./010_step_dependencies.ts";
+import { migrate as migrateThreadDependencies } from "./011_thread_dependencies.ts";
+import { migrate as migratePlanRevisions } from "./012_plan_revisions.ts";
+import { migrate as migrateImportMappings } from "./013_import_mappings.ts";
+import { migrate as migrateWorkerUsage } from "./014_worker_usage.ts";
+import { migrate as migrateBudgets } from "./015_budgets.ts";
+import { migrate as migrateDroneSchedules } from "./016_drone_schedules.ts";
+import { migrate as migrateDroneTriggers } from "./017_drone_triggers.ts";
+import { migrate as migrateBranchReviews } from "./018_branch_reviews.ts";
+import { migrate as migrateCommits } from "./019_commits.ts";
+import { migrate as migrateWorkerRuntime } from "./020_worker_runtime.ts";
+import { migrate as migrateFarmRuns } from "./021_farm_runs.ts";
+import { migrate as migrateThreadPriority } from "./022_thread_priority.ts";
+import { migrate as migrateThreadVerifyCommands } from "./023_thread_verify_commands.ts";
+import { migrate as migrateStepAcceptance } from "./024_step_acceptance.ts";
+import { migrate as migrateVerifiedAt } from "./025_verified_at.ts";
+
+/**
+ * A registered migration.
+ */
+export interface Migration {
+  /** Stable identifier, matches the migration filename (e.g. "001_threads") */
+  id: string;
+  /** One-line summary shown by `blackboard db migrate --status` */
+  description: string;
+  /** Applies the migration. Must be idempotent against databases created by schema.sql. */
+  migrate: (db: Database) => void;
+  /**
+   * Recreates tables (DROP TABLE and rename). Foreign keys are turned off
+   * while it runs, so rows referencing the table aren't deleted or rejected,
+   * and checked before it commits.
+   */
+  rebuildsTables?: boolean;
+}
+
+/**
+ * Applied/pending state of a single migration.
+ */
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  checksum: string;
+  applied: boolean;
+  applied_at: string | null;
+  /** True when the recorded checksum differs from the registered migration */
+  modified: boolean;
+}
+
+/**
+ * Raised when a migration fails. The failed migration's transaction has
+ * already been rolled back; later migrations are not attempted.
+ */
+export class MigrationError extends Error {
+  constructor(public readonly migrationId: string, cause: unknown) {
+    const detail = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration ${migrationId} failed: ${detail}`, { cause });
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * All migrations in application order. New migrations are appended here.
+ */
+export const MIGRATIONS: Migration[] = [
+  { id: "001_threads", description: "Add threads table and plans.thread_id", migrate: migrateThreads },
+  { id: "002_workers", description: "Add workers table", migrate: migrateWorkers },
+  { id: "003_oauth_auth_mode", description: "Allow oauth auth_mode on workers", migrate: migrateOAuthAuthMode, rebuildsTables: true },
+  { id: "004_thread_sessions", description: "Add thread_sessions table", migrate: migrateThreadSessions },
+  { id: "005_tasks", description: "Add tasks table", migrate: migrateTasks },
+  { id: "006_worker_events", description: "Add worker_events table", migrate: migrateWorkerEvents },
+  { id: "007_drones", description: "Add drones and drone_sessions tables", migrate: migrateDrones },
+  { id: "008_nullable_thread_id", description: "Make workers.thread_id nullable", migrate: migrateNullableThreadId, rebuildsTables: true },
+  { id: "009_search_index", description: "Add FTS5 search indexes with sync triggers", migrate: migrateSearchIndex },
+  { id: "010_step_dependencies", description: "Add step_dependencies table", migrate: migrateStepDependencies },
+  { id: "011_thread_dependencies", description: "Add thread_dependencies table", migrate: migrateThreadDependencies },
+  { id: "012_plan_revisions", description: "Add plan_revisions table with capture triggers", migrate: migratePlanRevisions },
+  { id: "013_import_mappings", description: "Add import_mappings table for thread bundle imports", migrate: migrateImportMappings },
+  { id: "014_worker_usage", description: "Add worker_usage table for token and cost accounting", migrate: migrateWorkerUsage },
+  { id: "015_budgets", description: "Add worker and drone budgets with the worker_budgets view", migrate: migrateBudgets },
+  { id: "016_drone_schedules", description: "Add drone schedules and the drone_schedule_runs table", migrate: migrateDroneSchedules },
+  { id: "017_drone_triggers", description: "Add drone triggers and the drone_trigger_firings table", migrate: migrateDroneTriggers },
+  { id: "018_branch_reviews", description: "Add the branch_reviews table", migrate: migrateBranchReviews },
+  { id: "019_commits", description: "Add the commits table linking commits to threads, steps, breadcrumbs and workers", migrate: migrateCommits },
+  { id: "020_worker_runtime", description: "Add workers.runtime recording the container runtime each worker uses", migrate: migrateWorkerRuntime },
+  { id: "021_farm_runs", description: "Add farm_runs, farm_run_threads and farm_run_workers so farms can be resumed", migrate: migrateFarmRuns },
+  { id: "022_thread_priority", description: "Add threads.priority for ordering the farm queue", migrate: migrateThreadPriority },
+  { id: "023_thread_verify_commands", description: "Add threads.verify_commands, checked before a plan is accepted as completed", migrate: migrateThreadVerifyCommands },
+  { id: "024_step_acceptance", description: "Add plan_steps.acceptance_criteria and verify_command, checked before a step is completed", migrate: migrateStepAcceptance },
+  { id: "025_verified_at", description: "Add plan_steps.verified_at and plans.verified_at, set when verification passes", migrate: migrateVerifiedAt },
+];
+
+/**
+ * Compute a checksum for a migration from its function source.
+ * Uses 32-bit FNV-1a - this detects edits, it is not a security measure.
+ */
+export function migrationChecksum(migration: Migration): string {
+  const source = migration.migrate.toString();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Create the schema_migrations table if it doesn't exist.
+ */
+export function ensureMigrationsTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id TEXT PRIMARY KEY,
+      checksum TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+}
+
+/**
+ * Read applied migrations from schema_migrations, keyed by ID.
+ * Returns an empty map if the table hasn't been created yet.
+ */
+function getAppliedMigrations(
+  db: Database,
+): Map<string, { checksum: string; applied_at: string }> {
+  const exists = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type='table' AND name='schema_migrations'
+  `).all();
+  if (exists.length === 0) {
+    return new Map();
+  }
+
+  const rows = db.prepare(
+    "SELECT id, checksum, applied_at FROM schema_migrations",
+  ).all() as Array<{ id: string; checksum: string; applied_at: string }>;
+  return new Map(rows.map((r) => [r.id, { checksum: r.checksum, applied_at: r.applied_at }]));
+}
+
+/**
+ * Get the applied/pending status of every registered migration.
+ * Read-only - does not create schema_migrations.
+ */
+export function getMigrationStatus(db: Database): MigrationStatus[] {
+  const applied = getAppliedMigrations(db);
+
+  return MIGRATIONS.map((migration) => {
+    const checksum = migrationChecksum(migration);
+    const record = applied.get(migration.id);
+    return {
+      id: migration.id,
+      description: migration.description,
+      checksum,
+      applied: record !== undefined,
+      applied_at: record?.applied_at ?? null,
+      modified: record !== undefined && record.checksum !== checksum,
+    };
+  });
+}
+
+/**
+ * Get migrations that have not been applied yet, in application order.
+ */
+export function getPendingMigrations(db: Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const applied = getAppliedMigrations(db);
+  return migrations.filter((m) => !applied.has(m.id));
+}
+
+/**
+ * Rows that break a foreign key, as "table row <rowid> -> parent".
+ */
+function foreignKeyViolations(db: Database): Set<string> {
+  const rows = db.prepare("PRAGMA foreign_key_check").all() as Array<{ table: string; rowid: number; parent: string }>;
+  return new Set(rows.map((r) => `${r.table} row ${r.rowid} -> ${r.parent}`));
+}
+
+/**
+ * Apply all pending migrations in order.
+ * Each migration runs in its own IMMEDIATE transaction together with its
+ * schema_migrations record, so a failure leaves the database at the last
+ * successfully applied migration. Migrations that rebuild tables run with
+ * foreign keys off (the pragma has no effect inside a transaction), and
+ * roll back if foreign_key_check finds rows left pointing nowhere.
+ *
+ * @param db - Database to migrate
+ * @param migrations - Registered migrations (default: all of them)
+ * @returns IDs of the migrations applied by this call
+ * @throws MigrationError if a migration fails
+ */
+export function runMigrations(db: Database, migrations: Migration[] = MIGRATIONS): string[] {
+  ensureMigrationsTable(db);
+
+  const appliedIds: string[] = [];
+  for (const migration of getPendingMigrations(db, migrations)) {
+    const foreignKeys = migration.rebuildsTables
+      ? (db.prepare("PRAGMA foreign_keys").get() as { foreign_keys: number }).foreign_keys
+      : 0;
+    if (foreignKeys) {
+      db.exec("PRAGMA foreign_keys = OFF");
+    }
+
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      // Another process may have applied it while we waited for the lock
+      const already = db.prepare(
+        "SELECT 1 FROM schema_migrations WHERE id = :id",
+      ).get({ id: migration.id });
+      if (already) {
+        db.exec("COMMIT");
+        continue;
+      }
+
+      // Rows that already pointed nowhere aren't this migration's doing
+      const existingViolations = migration.rebuildsTables ? foreignKeyViolations(db) : new Set<string>();
+      migration.migrate(db);
+      if (migration.rebuildsTables) {
+        const violations = [...foreignKeyViolations(db)].filter((v) => !existingViolations.has(v));
+        if (violations.length > 0) {
+          throw new Error(`${violations.length} row(s) left violating foreign keys (first: ${violations[0]})`);
+        }
+      }
+      db.prepare(`
+        INSERT INTO schema_migrations (id, checksum)
+        VALUES (:id, :checksum)
+      `).run({ id: migration.id, checksum: migrationChecksum(migration) });
+
+      db.exec("COMMIT");
+      appliedIds.push(migration.id);
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw new MigrationError(migration.id, error);
+    } finally {
+      if (foreignKeys) {
+        db.exec("PRAGMA foreign_keys = ON");
+      }
+    }
+  }
+
+  return appliedIds;
+}
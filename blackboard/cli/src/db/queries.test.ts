@@ -0,0 +1,25 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { closeDb, getDb } from "./connection.ts";
+import { insertCorrection, listCorrectionTags, listCorrections } from "./queries.ts";
+
+Deno.test("listCorrections - filters on whole tags before the limit", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-queries-" });
+  getDb(join(dir, "blackboard.db"));
+  try {
+    insertCorrection({ plan_id: null, mistake: "Forgot the index", symptoms: null, resolution: null, tags: "auth, db" });
+    for (const mistake of ["One", "Two", "Three"]) {
+      insertCorrection({ plan_id: null, mistake, symptoms: null, resolution: null, tags: null });
+    }
+
+    assertEquals(listCorrections("db", 1).map((c) => c.mistake), ["Forgot the index"]);
+    assertEquals(listCorrections("auth").map((c) => c.mistake), ["Forgot the index"]);
+    assertEquals(listCorrections("d"), []);
+    assertEquals(listCorrections(undefined, 10).length, 4);
+    assertEquals(listCorrectionTags(), ["auth", "db"]);
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -7,19 +7,28 @@ import { getDb } from "./connection.ts";
 import type {
   Plan,
   PlanStep,
+  StepDependency,
   Breadcrumb,
   Correction,
   BugReport,
   Reflection,
   Thread,
   ThreadSession,
+  ThreadDependency,
   NextUp,
   PlanStatus,
+  PlanRevision,
+  PlanRevisionAuthor,
   StepStatus,
   BugReportStatus,
   ThreadStatus,
   NextUpStatus,
+  ReflectionTrigger,
+  ReflectionWithSource,
+  CorrectionWithSource,
 } from "../types/schema.ts";
+import { computeStepReadiness } from "../utils/step-graph.ts";
+import { parseStepAnnotations, stepKey } from "../utils/plan-steps.ts";
 
 // ============================================================================
 // Threads
@@ -81,12 +90,14 @@ export function getThreadById(id: string): Thread | null {
  * @param thread - Thread object to insert (without timestamps)
  */
 export function insertThread(
-  thread: Omit<Thread, "created_at" | "updated_at">
+  thread:
+    & Omit<Thread, "created_at" | "updated_at" | "priority" | "verify_commands">
+    & Partial<Pick<Thread, "priority" | "verify_commands">>
 ): void {
   const db = getDb();
   const stmt = db.prepare(`
-    INSERT INTO threads (id, name, current_plan_id, git_branches, status)
-    VALUES (:id, :name, :current_plan_id, :git_branches, :status)
+    INSERT INTO threads (id, name, current_plan_id, git_branches, status, priority, verify_commands)
+    VALUES (:id, :name, :current_plan_id, :git_branches, :status, :priority, :verify_commands)
   `);
   stmt.run({
     id: thread.id,
@@ -94,6 +105,8 @@ export function insertThread(
     current_plan_id: thread.current_plan_id ?? null,
     git_branches: thread.git_branches ?? null,
     status: thread.status,
+    priority: thread.priority ?? 0,
+    verify_commands: thread.verify_commands ?? null,
   });
 }
 
@@ -132,6 +145,40 @@ export function updateThread(
   stmt.run(params as Record<string, string | null>);
 }
 
+/**
+ * Sets a thread's farm priority. Leaves updated_at alone so the thread
+ * doesn't become the current thread.
+ *
+ * @param id - Thread ID
+ * @param priority - New priority (higher runs sooner)
+ */
+export function setThreadPriority(id: string, priority: number): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE threads
+    SET priority = :priority
+    WHERE id = :id
+  `);
+  stmt.run({ id, priority });
+}
+
+/**
+ * Sets or clears the commands that must pass before a thread's plan is
+ * accepted as completed.
+ *
+ * @param id - Thread ID
+ * @param commands - Shell commands, or null to fall back to the verify config key
+ */
+export function setThreadVerifyCommands(id: string, commands: string[] | null): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE threads
+    SET verify_commands = :commands, updated_at = datetime('now')
+    WHERE id = :id
+  `);
+  stmt.run({ id, commands: commands && commands.length > 0 ? JSON.stringify(commands) : null });
+}
+
 /**
  * Touches a thread (updates updated_at to now).
  *
@@ -226,6 +273,91 @@ export function getSessionsForThread(threadId: string): string[] {
   return results.map(row => row.session_id);
 }
 
+// ============================================================================
+// Thread Dependencies
+// ============================================================================
+
+/**
+ * Gets every dependency edge between threads.
+ *
+ * @returns Array of dependencies (thread_id depends on depends_on)
+ */
+export function getThreadDependencies(): ThreadDependency[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM thread_dependencies
+    ORDER BY created_at
+  `);
+  return stmt.all() as ThreadDependency[];
+}
+
+/**
+ * Gets the threads a thread depends on.
+ *
+ * @param threadId - Dependent thread ID
+ * @returns Prerequisite threads in the order the dependencies were added
+ */
+export function getThreadPrerequisites(threadId: string): Thread[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT t.* FROM thread_dependencies d
+    JOIN threads t ON t.id = d.depends_on
+    WHERE d.thread_id = :threadId
+    ORDER BY d.created_at
+  `);
+  return stmt.all({ threadId }) as Thread[];
+}
+
+/**
+ * Gets the threads waiting on a thread.
+ *
+ * @param threadId - Prerequisite thread ID
+ * @returns Dependent threads in the order the dependencies were added
+ */
+export function getThreadDependents(threadId: string): Thread[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT t.* FROM thread_dependencies d
+    JOIN threads t ON t.id = d.thread_id
+    WHERE d.depends_on = :threadId
+    ORDER BY d.created_at
+  `);
+  return stmt.all({ threadId }) as Thread[];
+}
+
+/**
+ * Records that a thread can't be worked on until another thread is completed.
+ * Callers are responsible for cycle detection (see findDependencyCycle).
+ *
+ * @param threadId - Dependent thread ID
+ * @param dependsOn - Prerequisite thread ID
+ */
+export function addThreadDependency(threadId: string, dependsOn: string): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO thread_dependencies (thread_id, depends_on)
+    VALUES (:threadId, :dependsOn)
+  `);
+  stmt.run({ threadId, dependsOn });
+}
+
+/**
+ * Removes a dependency between two threads.
+ *
+ * @param threadId - Dependent thread ID
+ * @param dependsOn - Prerequisite thread ID
+ * @returns True if a dependency was removed
+ */
+export function removeThreadDependency(threadId: string, dependsOn: string): boolean {
+  const db = getDb();
+  const stmt = db.prepare(`
+    DELETE FROM thread_dependencies
+    WHERE thread_id = :threadId AND depends_on = :dependsOn
+  `);
+  stmt.run({ threadId, dependsOn });
+  return db.changes > 0;
+}
+
 // ============================================================================
 // Plans
 // ============================================================================
@@ -250,11 +382,13 @@ export function getActivePlan(): Plan | null {
 }
 
 /**
- * Inserts a new plan into the database.
+ * Inserts a new plan into the database. Its first revision is recorded by
+ * trigger, attributed to the plan's session unless an author is given.
  *
  * @param plan - Plan object to insert
+ * @param author - Who created the plan (optional)
  */
-export function insertPlan(plan: Omit<Plan, "created_at">): void {
+export function insertPlan(plan: Omit<Plan, "created_at" | "verified_at">, author?: PlanRevisionAuthor): void {
   const db = getDb();
   const stmt = db.prepare(`
     INSERT INTO plans (id, status, description, plan_markdown, session_id, thread_id)
@@ -268,6 +402,27 @@ export function insertPlan(plan: Omit<Plan, "created_at">): void {
     session_id: plan.session_id ?? null,
     thread_id: plan.thread_id ?? null,
   });
+
+  if (author) {
+    attributeLatestPlanRevision(plan.id, author);
+  }
+}
+
+/**
+ * Gets the IDs of every plan recorded against a thread.
+ *
+ * @param threadId - Thread ID
+ * @returns Plan IDs ordered by created_at DESC
+ */
+export function getPlanIdsForThread(threadId: string): string[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT id FROM plans
+    WHERE thread_id = :threadId
+    ORDER BY created_at DESC
+  `);
+  const results = stmt.all({ threadId }) as Array<{ id: string }>;
+  return results.map((r) => r.id);
 }
 
 /**
@@ -278,14 +433,74 @@ export function insertPlan(plan: Omit<Plan, "created_at">): void {
  */
 export function updatePlanStatus(id: string, status: PlanStatus): void {
   const db = getDb();
+  // Reopening a plan forgets that it was verified
   const stmt = db.prepare(`
     UPDATE plans
-    SET status = :status
+    SET status = :status,
+        verified_at = CASE WHEN :status = 'completed' THEN verified_at ELSE NULL END
     WHERE id = :id
   `);
   stmt.run({ id, status });
 }
 
+/**
+ * Records that a plan's verification commands passed just now.
+ *
+ * @param id - Plan ID
+ */
+export function markPlanVerified(id: string): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE plans
+    SET verified_at = datetime('now')
+    WHERE id = :id
+  `);
+  stmt.run({ id });
+}
+
+// ============================================================================
+// Plan Revisions
+// ============================================================================
+
+/**
+ * Sets the author and reason on a plan's most recent revision.
+ *
+ * @param planId - Plan ID
+ * @param author - Who made the change and why
+ */
+function attributeLatestPlanRevision(planId: string, author: PlanRevisionAuthor): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE plan_revisions
+    SET author_type = :type, author = :name, reason = COALESCE(:reason, reason)
+    WHERE id = (SELECT MAX(id) FROM plan_revisions WHERE plan_id = :planId)
+  `);
+  stmt.run({
+    planId,
+    type: author.type,
+    name: author.name ?? null,
+    reason: author.reason ?? null,
+  });
+}
+
+/**
+ * Gets every revision of every plan a thread has had, oldest first.
+ * Replacing a thread's plan shows up as a revision like any other edit.
+ *
+ * @param threadId - Thread ID
+ * @returns Array of revisions ordered by creation
+ */
+export function getPlanRevisionsForThread(threadId: string): PlanRevision[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT r.* FROM plan_revisions r
+    JOIN plans p ON p.id = r.plan_id
+    WHERE p.thread_id = :threadId
+    ORDER BY r.id
+  `);
+  return stmt.all({ threadId }) as PlanRevision[];
+}
+
 // ============================================================================
 // Plan Steps
 // ============================================================================
@@ -310,9 +525,19 @@ export function getStepsForPlan(planId: string): PlanStep[] {
  * Gets all pending steps for a specific plan.
  *
  * @param planId - Plan ID
+ * @param options - Set readyOnly to exclude steps whose dependencies aren't complete
  * @returns Array of pending steps
  */
-export function getPendingSteps(planId: string): PlanStep[] {
+export function getPendingSteps(
+  planId: string,
+  options: { readyOnly?: boolean } = {}
+): PlanStep[] {
+  if (options.readyOnly) {
+    const steps = getStepsForPlan(planId);
+    const readiness = computeStepReadiness(steps, getStepDependencies(planId));
+    return steps.filter((s) => readiness.get(s.id)?.ready);
+  }
+
   const db = getDb();
   const stmt = db.prepare(`
     SELECT * FROM plan_steps
@@ -322,6 +547,56 @@ export function getPendingSteps(planId: string): PlanStep[] {
   return stmt.all({ planId }) as PlanStep[];
 }
 
+/**
+ * Gets all dependency edges between the steps of a plan.
+ *
+ * @param planId - Plan ID
+ * @returns Array of dependencies (step_id depends on depends_on)
+ */
+export function getStepDependencies(planId: string): StepDependency[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT d.* FROM step_dependencies d
+    JOIN plan_steps s ON s.id = d.step_id
+    WHERE s.plan_id = :planId
+    ORDER BY d.created_at
+  `);
+  return stmt.all({ planId }) as StepDependency[];
+}
+
+/**
+ * Records that a step can't start until another step is complete.
+ * Callers are responsible for cycle detection (see findDependencyCycle).
+ *
+ * @param stepId - Dependent step ID
+ * @param dependsOn - Prerequisite step ID
+ */
+export function addStepDependency(stepId: string, dependsOn: string): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO step_dependencies (step_id, depends_on)
+    VALUES (:stepId, :dependsOn)
+  `);
+  stmt.run({ stepId, dependsOn });
+}
+
+/**
+ * Removes a dependency between two steps.
+ *
+ * @param stepId - Dependent step ID
+ * @param dependsOn - Prerequisite step ID
+ * @returns True if a dependency was removed
+ */
+export function removeStepDependency(stepId: string, dependsOn: string): boolean {
+  const db = getDb();
+  const stmt = db.prepare(`
+    DELETE FROM step_dependencies
+    WHERE step_id = :stepId AND depends_on = :dependsOn
+  `);
+  stmt.run({ stepId, dependsOn });
+  return db.changes > 0;
+}
+
 /**
  * Atomically replaces all steps for a plan.
  * Deletes existing steps and inserts new ones in a transaction.
@@ -331,7 +606,7 @@ export function getPendingSteps(planId: string): PlanStep[] {
  */
 export function replaceStepsForPlan(
   planId: string,
-  steps: Array<Omit<PlanStep, "id" | "plan_id" | "created_at">>
+  steps: Array<Pick<PlanStep, "step_order" | "description" | "status">>
 ): void {
   const db = getDb();
 
@@ -368,6 +643,35 @@ export function replaceStepsForPlan(
   }
 }
 
+/**
+ * Renumbers a plan's steps to match the given order, keeping step IDs (and
+ * so their breadcrumbs and dependencies) intact.
+ *
+ * @param planId - Plan ID
+ * @param stepIds - Step IDs in their new order (positions are 1-indexed)
+ */
+export function reorderStepsForPlan(planId: string, stepIds: string[]): void {
+  const db = getDb();
+
+  db.exec("BEGIN TRANSACTION");
+
+  try {
+    const stmt = db.prepare(`
+      UPDATE plan_steps
+      SET step_order = :stepOrder
+      WHERE id = :stepId AND plan_id = :planId
+    `);
+    stepIds.forEach((stepId, index) => {
+      stmt.run({ stepId, planId, stepOrder: index + 1 });
+    });
+
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
 /**
  * Updates the status of a single step.
  *
@@ -376,14 +680,31 @@ export function replaceStepsForPlan(
  */
 export function updateStepStatus(stepId: string, status: StepStatus): void {
   const db = getDb();
+  // Reopening a step forgets that it was verified
   const stmt = db.prepare(`
     UPDATE plan_steps
-    SET status = :status
+    SET status = :status,
+        verified_at = CASE WHEN :status = 'completed' THEN verified_at ELSE NULL END
     WHERE id = :stepId
   `);
   stmt.run({ stepId, status });
 }
 
+/**
+ * Records that a step's verify command passed just now.
+ *
+ * @param stepId - Step ID
+ */
+export function markStepVerified(stepId: string): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE plan_steps
+    SET verified_at = datetime('now')
+    WHERE id = :stepId
+  `);
+  stmt.run({ stepId });
+}
+
 /**
  * Gets a single step by its ID.
  *
@@ -404,12 +725,19 @@ export function getStepById(stepId: string): PlanStep | null {
  * If step_order is not provided, appends at the end of the plan.
  *
  * @param planId - Plan ID
- * @param step - Step details (description, optional status and step_order)
+ * @param step - Step details (description, optional status, step_order,
+ *   acceptance criteria and verify command)
  * @returns The ID of the newly created step
  */
 export function insertStep(
   planId: string,
-  step: { description: string; status?: StepStatus; step_order?: number }
+  step: {
+    description: string;
+    status?: StepStatus;
+    step_order?: number;
+    acceptance_criteria?: string | null;
+    verify_command?: string | null;
+  }
 ): string {
   const db = getDb();
   const stepId = crypto.randomUUID();
@@ -419,8 +747,8 @@ export function insertStep(
   const status = step.status ?? 'pending';
 
   const stmt = db.prepare(`
-    INSERT INTO plan_steps (id, plan_id, step_order, description, status)
-    VALUES (:id, :planId, :step_order, :description, :status)
+    INSERT INTO plan_steps (id, plan_id, step_order, description, status, acceptance_criteria, verify_command)
+    VALUES (:id, :planId, :step_order, :description, :status, :acceptance_criteria, :verify_command)
   `);
 
   stmt.run({
@@ -429,6 +757,8 @@ export function insertStep(
     step_order: stepOrder,
     description: step.description,
     status,
+    acceptance_criteria: step.acceptance_criteria ?? null,
+    verify_command: step.verify_command ?? null,
   });
 
   return stepId;
@@ -616,11 +946,13 @@ export function mergeStepsForPlan(
  * Inserts a new breadcrumb.
  *
  * @param crumb - Breadcrumb object to insert (without id and created_at)
+ * @returns The ID of the newly created breadcrumb
  */
 export function insertBreadcrumb(
   crumb: Omit<Breadcrumb, "id" | "created_at">
-): void {
+): string {
   const db = getDb();
+  const id = crypto.randomUUID();
   const stmt = db.prepare(`
     INSERT INTO breadcrumbs (
       id, plan_id, step_id, agent_type, summary,
@@ -632,7 +964,7 @@ export function insertBreadcrumb(
     )
   `);
   stmt.run({
-    id: crypto.randomUUID(),
+    id,
     plan_id: crumb.plan_id,
     step_id: crumb.step_id ?? null,
     agent_type: crumb.agent_type ?? null,
@@ -641,6 +973,7 @@ export function insertBreadcrumb(
     issues: crumb.issues ?? null,
     next_context: crumb.next_context ?? null,
   });
+  return id;
 }
 
 /**
@@ -664,6 +997,64 @@ export function getRecentBreadcrumbs(
   return stmt.all({ planId, limit }) as Breadcrumb[];
 }
 
+/**
+ * Gets breadcrumbs recorded after a position in the breadcrumbs table, oldest
+ * first. The position is SQLite's rowid, so callers can poll for new crumbs.
+ *
+ * @param afterSeq - Only crumbs with a higher seq (0 for all)
+ * @param limit - Maximum number of breadcrumbs to return (default: 100)
+ * @returns Breadcrumbs with their seq and the owning thread's name
+ */
+export function getBreadcrumbsAfter(
+  afterSeq: number,
+  limit = 100
+): Array<Breadcrumb & { seq: number; thread_name: string | null }> {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT b.rowid AS seq, b.*, t.name AS thread_name
+    FROM breadcrumbs b
+    LEFT JOIN plans p ON p.id = b.plan_id
+    LEFT JOIN threads t ON t.id = p.thread_id
+    WHERE b.rowid > :afterSeq
+    ORDER BY b.rowid
+    LIMIT :limit
+  `);
+  return stmt.all({ afterSeq, limit }) as Array<Breadcrumb & { seq: number; thread_name: string | null }>;
+}
+
+/**
+ * Gets the seq of the most recent breadcrumb (see getBreadcrumbsAfter).
+ *
+ * @returns Highest breadcrumb seq, or 0 if there are none
+ */
+export function getLatestBreadcrumbSeq(): number {
+  const db = getDb();
+  const stmt = db.prepare("SELECT COALESCE(MAX(rowid), 0) AS seq FROM breadcrumbs");
+  return (stmt.get() as { seq: number }).seq;
+}
+
+/**
+ * Gets the files_touched values recorded on breadcrumbs, grouped by plan.
+ *
+ * @returns Map of plan ID to its breadcrumbs' comma-separated files_touched values
+ */
+export function getFilesTouchedByPlan(): Map<string, string[]> {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT plan_id, files_touched FROM breadcrumbs
+    WHERE files_touched IS NOT NULL AND files_touched != ''
+  `);
+  const results = stmt.all() as Array<{ plan_id: string; files_touched: string }>;
+
+  const byPlan = new Map<string, string[]>();
+  for (const row of results) {
+    const files = byPlan.get(row.plan_id) ?? [];
+    files.push(row.files_touched);
+    byPlan.set(row.plan_id, files);
+  }
+  return byPlan;
+}
+
 // ============================================================================
 // Corrections
 // ============================================================================
@@ -695,6 +1086,92 @@ export function insertCorrection(
   });
 }
 
+/**
+ * Lists corrections with the plan and thread they were recorded against.
+ *
+ * @param tag - Optional tag filter (matches one entry of the comma-separated tags)
+ * @param limit - Maximum number of corrections to return (default: 100)
+ * @returns Array of corrections ordered by created_at DESC
+ */
+export function listCorrections(tag?: string, limit = 100): CorrectionWithSource[] {
+  const db = getDb();
+  // Tags are stored comma-separated, so split them and match whole entries
+  // rather than substrings. The filter runs before LIMIT so older matches
+  // aren't cut off by newer untagged corrections.
+  const stmt = db.prepare(`
+    WITH RECURSIVE correction_tags(id, tag, rest) AS (
+      SELECT id, NULL, tags || ',' FROM corrections WHERE :tag IS NOT NULL AND tags IS NOT NULL
+      UNION ALL
+      SELECT id, trim(substr(rest, 1, instr(rest, ',') - 1)), substr(rest, instr(rest, ',') + 1)
+      FROM correction_tags
+      WHERE rest <> ''
+    )
+    SELECT c.*, p.description as plan_description, t.id as thread_id, t.name as thread_name
+    FROM corrections c
+    LEFT JOIN plans p ON c.plan_id = p.id
+    LEFT JOIN threads t ON p.thread_id = t.id
+    WHERE (:tag IS NULL OR c.id IN (SELECT id FROM correction_tags WHERE tag = :tag))
+    ORDER BY c.created_at DESC
+    LIMIT :limit
+  `);
+  return stmt.all({ tag: tag?.trim() || null, limit }) as CorrectionWithSource[];
+}
+
+/**
+ * Lists the distinct tags used across all corrections.
+ *
+ * @returns Tags sorted alphabetically
+ */
+export function listCorrectionTags(): string[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    WITH RECURSIVE correction_tags(tag, rest) AS (
+      SELECT NULL, tags || ',' FROM corrections WHERE tags IS NOT NULL
+      UNION ALL
+      SELECT trim(substr(rest, 1, instr(rest, ',') - 1)), substr(rest, instr(rest, ',') + 1)
+      FROM correction_tags
+      WHERE rest <> ''
+    )
+    SELECT DISTINCT tag FROM correction_tags
+    WHERE tag IS NOT NULL AND tag <> ''
+    ORDER BY tag
+  `).all() as { tag: string }[];
+  return rows.map((r) => r.tag);
+}
+
+/**
+ * Updates a correction's text fields.
+ *
+ * @param id - Correction ID
+ * @param updates - Fields to update (omitted fields are left unchanged)
+ */
+export function updateCorrection(
+  id: string,
+  updates: Partial<Pick<Correction, "mistake" | "symptoms" | "resolution" | "tags">>
+): void {
+  const db = getDb();
+  const setClauses: string[] = [];
+  const params: Record<string, string | null> = { id };
+
+  for (const field of ["mistake", "symptoms", "resolution", "tags"] as const) {
+    if (updates[field] !== undefined) {
+      setClauses.push(`${field} = :${field}`);
+      params[field] = updates[field] ?? null;
+    }
+  }
+
+  if (setClauses.length === 0) {
+    return;
+  }
+
+  const stmt = db.prepare(`
+    UPDATE corrections
+    SET ${setClauses.join(", ")}
+    WHERE id = :id
+  `);
+  stmt.run(params);
+}
+
 // ============================================================================
 // Bug Reports
 // ============================================================================
@@ -703,11 +1180,13 @@ export function insertCorrection(
  * Inserts a new bug report.
  *
  * @param report - Bug report object to insert (without id and created_at)
+ * @returns The ID of the newly created bug report
  */
 export function insertBugReport(
   report: Omit<BugReport, "id" | "created_at">
-): void {
+): string {
   const db = getDb();
+  const id = crypto.randomUUID();
   const stmt = db.prepare(`
     INSERT INTO bug_reports (
       id, plan_id, title, repro_steps, evidence, status
@@ -717,13 +1196,14 @@ export function insertBugReport(
     )
   `);
   stmt.run({
-    id: crypto.randomUUID(),
+    id,
     plan_id: report.plan_id ?? null,
     title: report.title,
     repro_steps: report.repro_steps,
     evidence: report.evidence ?? null,
     status: report.status,
   });
+  return id;
 }
 
 /**
@@ -770,6 +1250,21 @@ export function listBugReports(status?: BugReportStatus, limit = 20): BugReport[
   }
 }
 
+/**
+ * Gets a bug report by ID.
+ *
+ * @param id - Bug report ID
+ * @returns Bug report or null if not found
+ */
+export function getBugReportById(id: string): BugReport | null {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM bug_reports
+    WHERE id = :id
+  `);
+  return (stmt.get({ id }) as BugReport | undefined) ?? null;
+}
+
 /**
  * Updates a bug report's status.
  *
@@ -994,6 +1489,46 @@ export function insertReflection(
   });
 }
 
+/**
+ * Lists reflections with the plan and thread they were captured against.
+ *
+ * @param trigger - Optional trigger filter
+ * @param limit - Maximum number of reflections to return (default: 100)
+ * @returns Array of reflections ordered by created_at DESC
+ */
+export function listReflections(
+  trigger?: ReflectionTrigger,
+  limit = 100
+): ReflectionWithSource[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT r.*, p.description as plan_description, t.id as thread_id, t.name as thread_name
+    FROM reflections r
+    LEFT JOIN plans p ON r.plan_id = p.id
+    LEFT JOIN threads t ON p.thread_id = t.id
+    WHERE (:trigger IS NULL OR r.trigger = :trigger)
+    ORDER BY r.created_at DESC
+    LIMIT :limit
+  `);
+  return stmt.all({ trigger: trigger ?? null, limit }) as ReflectionWithSource[];
+}
+
+/**
+ * Updates a reflection's content.
+ *
+ * @param id - Reflection ID
+ * @param content - New content
+ */
+export function updateReflectionContent(id: string, content: string): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE reflections
+    SET content = :content
+    WHERE id = :id
+  `);
+  stmt.run({ id, content });
+}
+
 // ============================================================================
 // TUI-specific queries
 // ============================================================================
@@ -1012,19 +1547,40 @@ export function getPlanById(id: string): Plan | null {
 }
 
 /**
- * Updates a plan's markdown content.
+ * Updates a plan's markdown content. A revision is recorded by trigger when
+ * the content changes; the author and reason are attached to it here.
  *
  * @param id - Plan ID
  * @param planMarkdown - New markdown content
+ * @param author - Who made the change and why (default: unknown)
+ * @returns True if the content changed and a revision was recorded
  */
-export function updatePlanMarkdown(id: string, planMarkdown: string): void {
+export function updatePlanMarkdown(
+  id: string,
+  planMarkdown: string,
+  author: PlanRevisionAuthor = { type: "unknown" }
+): boolean {
   const db = getDb();
-  const stmt = db.prepare(`
-    UPDATE plans
-    SET plan_markdown = :planMarkdown
-    WHERE id = :id
-  `);
-  stmt.run({ id, planMarkdown });
+  db.exec("BEGIN TRANSACTION");
+  try {
+    const stmt = db.prepare(`
+      UPDATE plans
+      SET plan_markdown = :planMarkdown
+      WHERE id = :id AND plan_markdown IS NOT :planMarkdown
+    `);
+    stmt.run({ id, planMarkdown });
+    const changed = db.changes > 0;
+
+    if (changed) {
+      attributeLatestPlanRevision(id, author);
+    }
+
+    db.exec("COMMIT");
+    return changed;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
 }
 
 /**
@@ -1043,6 +1599,72 @@ export function updateStepDescription(stepId: string, description: string): void
   stmt.run({ stepId, description });
 }
 
+/**
+ * Updates a step's acceptance criteria and/or verify command. Fields left
+ * undefined are kept; null clears them.
+ *
+ * @param stepId - Step ID
+ * @param fields - New values
+ */
+export function updateStepCriteria(
+  stepId: string,
+  fields: { acceptance_criteria?: string | null; verify_command?: string | null }
+): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE plan_steps
+    SET acceptance_criteria = CASE WHEN :setAcceptance THEN :acceptance ELSE acceptance_criteria END,
+        verify_command = CASE WHEN :setVerify THEN :verify ELSE verify_command END
+    WHERE id = :stepId
+  `);
+  stmt.run({
+    stepId,
+    setAcceptance: fields.acceptance_criteria !== undefined ? 1 : 0,
+    acceptance: fields.acceptance_criteria ?? null,
+    setVerify: fields.verify_command !== undefined ? 1 : 0,
+    verify: fields.verify_command ?? null,
+  });
+}
+
+/**
+ * Fills in steps' acceptance criteria and verify commands from the
+ * `Acceptance:` and `Verify:` lines in their plan's markdown, matching
+ * steps to list items by description. Values already set are kept.
+ *
+ * @param planId - Plan ID
+ * @returns Number of steps updated
+ */
+export function fillStepCriteriaFromPlan(planId: string): number {
+  const plan = getPlanById(planId);
+  if (!plan) {
+    return 0;
+  }
+  const annotations = new Map(parseStepAnnotations(plan.plan_markdown).map((a) => [stepKey(a.description), a]));
+  if (annotations.size === 0) {
+    return 0;
+  }
+
+  let updated = 0;
+  for (const step of getStepsForPlan(planId)) {
+    const annotation = annotations.get(stepKey(step.description));
+    if (!annotation) {
+      continue;
+    }
+    const fields: { acceptance_criteria?: string | null; verify_command?: string | null } = {};
+    if (step.acceptance_criteria === null && annotation.acceptance_criteria !== null) {
+      fields.acceptance_criteria = annotation.acceptance_criteria;
+    }
+    if (step.verify_command === null && annotation.verify_command !== null) {
+      fields.verify_command = annotation.verify_command;
+    }
+    if (Object.keys(fields).length > 0) {
+      updateStepCriteria(step.id, fields);
+      updated++;
+    }
+  }
+  return updated;
+}
+
 /**
  * Updates a breadcrumb's summary.
  *
@@ -0,0 +1,85 @@
+/**
+ * Query functions for the branch_reviews table (migration 018).
+ * Rows are written by the review service each time a worker or drone
+ * branch is merged, rebased, discarded or stopped.
+ */
+
+import { getDb } from "./connection.ts";
+import type { BranchReview, ReviewOutcome } from "../types/schema.ts";
+
+/**
+ * Records the outcome of a branch review.
+ *
+ * @param review - Reviewed thread or drone session, branches and outcome
+ * @returns The new review's ID
+ */
+export function recordBranchReview(review: {
+  threadId?: string | null;
+  droneSessionId?: string | null;
+  branch: string;
+  baseBranch: string;
+  headSha?: string | null;
+  outcome: ReviewOutcome;
+  verifyCommand?: string | null;
+  verifyPassed?: boolean | null;
+  detail?: string | null;
+}): number {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO branch_reviews (
+      thread_id, drone_session_id, branch, base_branch, head_sha,
+      outcome, verify_command, verify_passed, detail
+    ) VALUES (
+      :threadId, :droneSessionId, :branch, :baseBranch, :headSha,
+      :outcome, :verifyCommand, :verifyPassed, :detail
+    )
+  `);
+  stmt.run({
+    threadId: review.threadId ?? null,
+    droneSessionId: review.droneSessionId ?? null,
+    branch: review.branch,
+    baseBranch: review.baseBranch,
+    headSha: review.headSha ?? null,
+    outcome: review.outcome,
+    verifyCommand: review.verifyCommand ?? null,
+    verifyPassed: review.verifyPassed == null ? null : review.verifyPassed ? 1 : 0,
+    detail: review.detail ?? null,
+  });
+  return db.lastInsertRowId;
+}
+
+/**
+ * Lists past reviews of a thread's branch.
+ *
+ * @param threadId - Thread ID
+ * @param limit - Maximum number of reviews (default: 10)
+ * @returns Reviews, newest first
+ */
+export function listThreadReviews(threadId: string, limit = 10): BranchReview[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM branch_reviews
+    WHERE thread_id = :threadId
+    ORDER BY reviewed_at DESC, id DESC
+    LIMIT :limit
+  `);
+  return stmt.all({ threadId, limit }) as BranchReview[];
+}
+
+/**
+ * Lists past reviews of a drone session's branch.
+ *
+ * @param sessionId - Drone session ID
+ * @param limit - Maximum number of reviews (default: 10)
+ * @returns Reviews, newest first
+ */
+export function listDroneSessionReviews(sessionId: string, limit = 10): BranchReview[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM branch_reviews
+    WHERE drone_session_id = :sessionId
+    ORDER BY reviewed_at DESC, id DESC
+    LIMIT :limit
+  `);
+  return stmt.all({ sessionId, limit }) as BranchReview[];
+}
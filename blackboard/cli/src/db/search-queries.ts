@@ -0,0 +1,178 @@
+/**
+ * Full-text search across blackboard entities using the FTS5 indexes
+ * created by migration 009.
+ */
+
+import { getDb } from "./connection.ts";
+import { buildFtsQuery } from "../utils/fts.ts";
+
+export type SearchEntityType =
+  | "plan"
+  | "crumb"
+  | "reflection"
+  | "correction"
+  | "bug"
+  | "next-up";
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = [
+  "plan",
+  "crumb",
+  "reflection",
+  "correction",
+  "bug",
+  "next-up",
+];
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  /** Matching excerpt with hits wrapped in the highlight markers */
+  snippet: string;
+  /** bm25 score - lower is a better match */
+  rank: number;
+  created_at: string;
+  plan_id: string | null;
+  thread_id: string | null;
+  thread_name: string | null;
+}
+
+export interface SearchOptions {
+  /** Restrict to these entity types (default: all) */
+  types?: SearchEntityType[];
+  /** Restrict to entities belonging to this thread ID (excludes next-ups) */
+  threadId?: string;
+  /** Only entities created at or after this UTC timestamp */
+  since?: string;
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+  /** Markers placed around matched terms in snippets (default: "**") */
+  highlight?: { open: string; close: string };
+}
+
+/**
+ * How each entity type maps onto its FTS table and source row.
+ * `e` is the source table alias; `t` is the owning thread, joined via `joins`.
+ */
+const SOURCES: Record<SearchEntityType, {
+  fts: string;
+  table: string;
+  joins: string;
+  title: string;
+  planId: string;
+}> = {
+  plan: {
+    fts: "plans_fts",
+    table: "plans",
+    joins: "LEFT JOIN threads t ON t.id = e.thread_id",
+    title: "COALESCE(e.description, substr(e.plan_markdown, 1, 80))",
+    planId: "e.id",
+  },
+  crumb: {
+    fts: "breadcrumbs_fts",
+    table: "breadcrumbs",
+    joins: "LEFT JOIN plans p ON p.id = e.plan_id LEFT JOIN threads t ON t.id = p.thread_id",
+    title: "e.summary",
+    planId: "e.plan_id",
+  },
+  reflection: {
+    fts: "reflections_fts",
+    table: "reflections",
+    joins: "LEFT JOIN plans p ON p.id = e.plan_id LEFT JOIN threads t ON t.id = p.thread_id",
+    title: "substr(e.content, 1, 80)",
+    planId: "e.plan_id",
+  },
+  correction: {
+    fts: "corrections_fts",
+    table: "corrections",
+    joins: "LEFT JOIN plans p ON p.id = e.plan_id LEFT JOIN threads t ON t.id = p.thread_id",
+    title: "e.mistake",
+    planId: "e.plan_id",
+  },
+  bug: {
+    fts: "bug_reports_fts",
+    table: "bug_reports",
+    joins: "LEFT JOIN plans p ON p.id = e.plan_id LEFT JOIN threads t ON t.id = p.thread_id",
+    title: "e.title",
+    planId: "e.plan_id",
+  },
+  "next-up": {
+    fts: "next_ups_fts",
+    table: "next_ups",
+    // Next-ups don't belong to a thread; join nothing so t.* is NULL
+    joins: "LEFT JOIN threads t ON 0",
+    title: "e.title",
+    planId: "NULL",
+  },
+};
+
+/**
+ * Searches plans, breadcrumbs, reflections, corrections, bug reports and
+ * next-ups, returning the best matches across all of them.
+ *
+ * @param terms - Free-form search terms (see buildFtsQuery)
+ * @param options - Type, thread and time filters
+ * @returns Results ordered by relevance (best first)
+ */
+export function searchBlackboard(
+  terms: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const query = buildFtsQuery(terms);
+  if (!query) {
+    return [];
+  }
+
+  let types = options.types && options.types.length > 0
+    ? options.types
+    : SEARCH_ENTITY_TYPES;
+  // Next-ups don't belong to a thread
+  if (options.threadId) {
+    types = types.filter((type) => type !== "next-up");
+  }
+  if (types.length === 0) {
+    return [];
+  }
+
+  const subqueries = types.map((type) => {
+    const source = SOURCES[type];
+    const filters = [`${source.fts} MATCH :query`];
+    if (options.threadId) filters.push("t.id = :threadId");
+    if (options.since) filters.push("e.created_at >= :since");
+
+    return `
+      SELECT
+        '${type}' AS type,
+        e.id AS id,
+        ${source.title} AS title,
+        snippet(${source.fts}, -1, :open, :close, '…', 12) AS snippet,
+        bm25(${source.fts}) AS rank,
+        e.created_at AS created_at,
+        ${source.planId} AS plan_id,
+        t.id AS thread_id,
+        t.name AS thread_name
+      FROM ${source.fts}
+      JOIN ${source.table} e ON e.id = ${source.fts}.id
+      ${source.joins}
+      WHERE ${filters.join(" AND ")}
+    `;
+  });
+
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM (${subqueries.join(" UNION ALL ")})
+    ORDER BY rank
+    LIMIT :limit
+  `);
+
+  const params: Record<string, string | number> = {
+    query,
+    open: options.highlight?.open ?? "**",
+    close: options.highlight?.close ?? "**",
+    limit: options.limit ?? 20,
+  };
+  if (options.threadId) params.threadId = options.threadId;
+  if (options.since) params.since = options.since;
+
+  return stmt.all(params) as SearchResult[];
+}
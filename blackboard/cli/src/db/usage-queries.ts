@@ -0,0 +1,218 @@
+/**
+ * Token and cost rollups over the worker_usage table (migration 014).
+ * Rows are written by the stream-json parser in the worker container, or by
+ * the worktree worker loop, one per worker iteration.
+ */
+
+import { getDb } from "./connection.ts";
+import type { WorkerBudget } from "../types/schema.ts";
+import type { StreamUsage } from "../utils/stream-json.ts";
+
+export interface UsageTotals {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  /** Sum of reported costs; iterations without a reported cost count as 0 */
+  cost_usd: number;
+  /** Number of iterations the totals cover */
+  iterations: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  /** Local date, YYYY-MM-DD */
+  day: string;
+}
+
+const TOTALS_COLUMNS = `
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_creation_tokens), 0) AS cache_creation_tokens,
+  COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd,
+  COUNT(*) AS iterations
+`;
+
+// ============================================================================
+// Usage rollups
+// ============================================================================
+
+/**
+ * Sums usage grouped by a worker_usage column.
+ */
+function totalsBy(column: "worker_id" | "thread_id" | "drone_session_id"): Map<string, UsageTotals> {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT ${column} AS key, ${TOTALS_COLUMNS}
+    FROM worker_usage
+    WHERE ${column} IS NOT NULL
+    GROUP BY ${column}
+  `);
+  const rows = stmt.all() as Array<UsageTotals & { key: string }>;
+  return new Map(rows.map(({ key, ...totals }) => [key, totals]));
+}
+
+/**
+ * Gets usage totals for each worker.
+ *
+ * @returns Map of worker ID to its totals
+ */
+export function getUsageByWorker(): Map<string, UsageTotals> {
+  return totalsBy("worker_id");
+}
+
+/**
+ * Gets usage totals for each thread, across all of its workers.
+ *
+ * @returns Map of thread ID to its totals
+ */
+export function getUsageByThread(): Map<string, UsageTotals> {
+  return totalsBy("thread_id");
+}
+
+/**
+ * Gets usage totals for each drone session.
+ *
+ * @returns Map of drone session ID to its totals
+ */
+export function getUsageByDroneSession(): Map<string, UsageTotals> {
+  return totalsBy("drone_session_id");
+}
+
+/**
+ * Gets combined usage totals for a set of workers.
+ *
+ * @param workerIds - Worker IDs to sum over
+ * @returns Totals (zero when nothing was recorded)
+ */
+export function getUsageForWorkers(workerIds: string[]): UsageTotals {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT ${TOTALS_COLUMNS}
+    FROM worker_usage
+    WHERE worker_id IN (SELECT value FROM json_each(:workerIds))
+  `);
+  return stmt.get({ workerIds: JSON.stringify(workerIds) }) as UsageTotals;
+}
+
+/**
+ * Gets usage totals across every session of a drone.
+ *
+ * @param droneId - Drone ID
+ * @returns Totals (zero when nothing was recorded)
+ */
+export function getUsageForDrone(droneId: string): UsageTotals {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT ${TOTALS_COLUMNS}
+    FROM worker_usage
+    WHERE drone_session_id IN (SELECT id FROM drone_sessions WHERE drone_id = :droneId)
+  `);
+  return stmt.get({ droneId }) as UsageTotals;
+}
+
+/**
+ * Gets usage totals across all workers, optionally since a point in time.
+ *
+ * @param since - Only usage recorded at or after this UTC timestamp
+ * @returns Totals (zero when nothing was recorded)
+ */
+export function getUsageTotals(since?: string): UsageTotals {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT ${TOTALS_COLUMNS}
+    FROM worker_usage
+    WHERE recorded_at >= :since
+  `);
+  return stmt.get({ since: since ?? "" }) as UsageTotals;
+}
+
+/**
+ * Gets usage totals per local day, most recent first.
+ *
+ * @param days - How many days back to include, counting today (default: 7)
+ * @returns One entry per day that has usage
+ */
+export function getDailyUsage(days = 7): DailyUsage[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT date(recorded_at, 'localtime') AS day, ${TOTALS_COLUMNS}
+    FROM worker_usage
+    WHERE date(recorded_at, 'localtime') > date('now', 'localtime', :offset)
+    GROUP BY day
+    ORDER BY day DESC
+  `);
+  return stmt.all({ offset: `-${days} days` }) as DailyUsage[];
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/**
+ * Gets budget state for every worker that was started with a budget.
+ * Backed by the worker_budgets view, which the container loops also check.
+ *
+ * @returns Map of worker ID to its budget and spend
+ */
+export function getWorkerBudgets(): Map<string, WorkerBudget> {
+  const db = getDb();
+  const stmt = db.prepare(`SELECT * FROM worker_budgets`);
+  const rows = stmt.all() as WorkerBudget[];
+  return new Map(rows.map((row) => [row.worker_id, row]));
+}
+
+/**
+ * Gets budget state for one worker.
+ *
+ * @param workerId - Worker ID
+ * @returns Budget and spend, or null if the worker has no budget
+ */
+export function getWorkerBudget(workerId: string): WorkerBudget | null {
+  const db = getDb();
+  const stmt = db.prepare(`SELECT * FROM worker_budgets WHERE worker_id = :workerId`);
+  return (stmt.get({ workerId }) as WorkerBudget | undefined) ?? null;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Records one iteration's usage for a worker, replacing any earlier row for
+ * the same iteration. Thread and drone session are looked up from the worker
+ * so rollups don't need to join.
+ *
+ * @param workerId - Worker ID
+ * @param iteration - Iteration number
+ * @param usage - Totals from the iteration's stream-json output
+ */
+export function recordWorkerUsage(workerId: string, iteration: number, usage: StreamUsage): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO worker_usage (
+      worker_id, iteration, thread_id, drone_session_id, model,
+      input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens,
+      cost_usd, num_turns, duration_ms
+    )
+    VALUES (
+      :workerId, :iteration,
+      (SELECT thread_id FROM workers WHERE id = :workerId),
+      (SELECT id FROM drone_sessions WHERE worker_id = :workerId ORDER BY started_at DESC LIMIT 1),
+      :model, :inputTokens, :outputTokens, :cacheCreationTokens, :cacheReadTokens,
+      :costUsd, :numTurns, :durationMs
+    )
+  `);
+  stmt.run({
+    workerId,
+    iteration,
+    model: usage.model,
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheCreationTokens: usage.cache_creation_tokens,
+    cacheReadTokens: usage.cache_read_tokens,
+    costUsd: usage.cost_usd,
+    numTurns: usage.num_turns,
+    durationMs: usage.duration_ms,
+  });
+}
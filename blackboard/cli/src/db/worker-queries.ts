@@ -7,6 +7,15 @@
 import { getDb } from "./connection.ts";
 import type { Worker, WorkerStatus, WorkerEvent } from "../types/schema.ts";
 
+/**
+ * container_id prefix for workers that run in a git worktree on the host
+ * (`work --worktree`) rather than in a container. The rest is the worktree path.
+ */
+export const WORKTREE_CONTAINER_PREFIX = "worktree:";
+
+// Heartbeat age after which a worktree worker counts as dead (it beats every 10s)
+const WORKTREE_HEARTBEAT_TIMEOUT_SECONDS = 60;
+
 // ============================================================================
 // Workers
 // ============================================================================
@@ -14,10 +23,12 @@ import type { Worker, WorkerStatus, WorkerEvent } from "../types/schema.ts";
 /**
  * Inserts a new worker record.
  *
- * @param worker - Worker object to insert (without last_heartbeat and created_at)
+ * @param worker - Worker object to insert (without last_heartbeat and created_at; budgets and runtime optional)
  */
 export function insertWorker(
-  worker: Omit<Worker, "last_heartbeat" | "created_at">
+  worker:
+    & Omit<Worker, "last_heartbeat" | "created_at" | "max_cost_usd" | "max_tokens" | "stop_reason" | "runtime">
+    & Partial<Pick<Worker, "max_cost_usd" | "max_tokens" | "runtime">>
 ): void {
   const db = getDb();
 
@@ -26,10 +37,12 @@ export function insertWorker(
   try {
     const stmt = db.prepare(`
       INSERT INTO workers (
-        id, container_id, thread_id, status, auth_mode, iteration, max_iterations
+        id, container_id, thread_id, status, auth_mode, iteration, max_iterations,
+        max_cost_usd, max_tokens, runtime
       )
       VALUES (
-        :id, :container_id, :thread_id, :status, :auth_mode, :iteration, :max_iterations
+        :id, :container_id, :thread_id, :status, :auth_mode, :iteration, :max_iterations,
+        :max_cost_usd, :max_tokens, :runtime
       )
     `);
     stmt.run({
@@ -40,6 +53,9 @@ export function insertWorker(
       auth_mode: worker.auth_mode ?? null,
       iteration: worker.iteration,
       max_iterations: worker.max_iterations,
+      max_cost_usd: worker.max_cost_usd ?? null,
+      max_tokens: worker.max_tokens ?? null,
+      runtime: worker.runtime ?? null,
     });
 
     db.exec("COMMIT");
@@ -127,6 +143,65 @@ export function updateWorkerIteration(id: string, iteration: number): void {
   }
 }
 
+/**
+ * Records why a worker stopped, e.g. 'budget_exhausted'.
+ *
+ * @param id - Worker ID
+ * @param reason - Stop reason
+ */
+export function setWorkerStopReason(id: string, reason: string): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE workers
+    SET stop_reason = :reason
+    WHERE id = :id
+  `);
+  stmt.run({ id, reason });
+}
+
+/**
+ * Gets a worker by ID.
+ *
+ * @param id - Worker ID
+ * @returns Worker, or null if not found
+ */
+export function getWorker(id: string): Worker | null {
+  const db = getDb();
+  const stmt = db.prepare("SELECT * FROM workers WHERE id = :id");
+  return (stmt.get({ id }) as Worker | undefined) ?? null;
+}
+
+/**
+ * Whether a worker runs in a git worktree on the host rather than a container.
+ * Such workers have no container to inspect or kill; they are tracked by
+ * their heartbeat and stop themselves once marked killed.
+ *
+ * @param worker - Worker (only container_id is read)
+ */
+export function isWorktreeWorker(worker: Pick<Worker, "container_id">): boolean {
+  return worker.container_id.startsWith(WORKTREE_CONTAINER_PREFIX);
+}
+
+/**
+ * Marks running worktree workers as failed once their heartbeat is older
+ * than the timeout, e.g. after the terminal running them was closed.
+ *
+ * @param timeoutSeconds - Heartbeat age after which a worker counts as dead (default: 60)
+ * @returns Number of workers marked failed
+ */
+export function failStaleWorktreeWorkers(timeoutSeconds = WORKTREE_HEARTBEAT_TIMEOUT_SECONDS): number {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE workers
+    SET status = 'failed'
+    WHERE status = 'running'
+      AND container_id LIKE :pattern
+      AND (julianday('now') - julianday(last_heartbeat)) * 86400 > :timeoutSeconds
+  `);
+  stmt.run({ pattern: `${WORKTREE_CONTAINER_PREFIX}%`, timeoutSeconds });
+  return db.changes;
+}
+
 /**
  * Gets all active workers with their thread names.
  *
@@ -247,6 +322,28 @@ export function insertWorkerEvent(
   }
 }
 
+/**
+ * Appends a line of worker output to worker_logs.
+ *
+ * @param workerId - Worker ID
+ * @param stream - Output stream ('system' for the loop's own messages)
+ * @param line - Output line
+ * @param iteration - Iteration the line belongs to
+ */
+export function insertWorkerLog(
+  workerId: string,
+  stream: "stdout" | "stderr" | "system",
+  line: string,
+  iteration: number
+): void {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO worker_logs (worker_id, stream, line, iteration)
+    VALUES (:workerId, :stream, :line, :iteration)
+  `);
+  stmt.run({ workerId, stream, line, iteration });
+}
+
 /**
  * Gets worker events with optional filtering and pagination.
  *
@@ -304,6 +401,36 @@ export function getWorkerEvents(
   return stmt.all(params) as WorkerEvent[];
 }
 
+/**
+ * Gets worker events across all workers recorded after a given event ID,
+ * oldest first. Used to poll for new events.
+ *
+ * @param afterId - Only events with a higher ID (0 for all)
+ * @param limit - Maximum number of events to return (default: 100)
+ * @returns Array of worker events
+ */
+export function getWorkerEventsAfter(afterId: number, limit = 100): WorkerEvent[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM worker_events
+    WHERE id > :afterId
+    ORDER BY id
+    LIMIT :limit
+  `);
+  return stmt.all({ afterId, limit }) as WorkerEvent[];
+}
+
+/**
+ * Gets the ID of the most recent worker event.
+ *
+ * @returns Highest worker event ID, or 0 if there are none
+ */
+export function getLatestWorkerEventId(): number {
+  const db = getDb();
+  const stmt = db.prepare("SELECT COALESCE(MAX(id), 0) AS id FROM worker_events");
+  return (stmt.get() as { id: number }).id;
+}
+
 /**
  * Gets the most recent worker event for a worker.
  *
@@ -1,9 +1,14 @@
 /**
- * Docker integration module for blackboard worker containers.
- * Wraps Docker CLI commands using Deno.Command to avoid SDK dependencies.
- * Compatible with OrbStack, Docker Desktop, and Colima.
+ * Container integration module for blackboard worker containers.
+ * Builds worker and drone containers and hands them to the selected runtime
+ * (see runtime.ts): Docker by default, or Podman, nerdctl or plain host
+ * processes. Compatible with OrbStack, Docker Desktop, and Colima.
  */
 
+import { getRuntime, type ContainerInfo, type ContainerState, type Mount } from "./runtime.ts";
+
+export type { ContainerInfo, ContainerState } from "./runtime.ts";
+
 // Types
 
 export interface ContainerOptions {
@@ -18,6 +23,7 @@ export interface ContainerOptions {
   maxIterations?: number;
   memory?: string;         // Default: "512m"
   workerId: string;        // Pre-generated worker ID
+  baseBranch?: string;     // Branch to create threads/<name> from if it doesn't exist yet
   labels?: Record<string, string>;
   envVars?: Record<string, string>; // Additional environment variables to pass
 }
@@ -41,45 +47,49 @@ export interface DroneContainerOptions {
   envVars?: Record<string, string>; // Additional environment variables to pass
 }
 
-export interface ContainerInfo {
-  id: string;
-  name: string;
-  status: string;
-  labels: Record<string, string>;
-}
-
-export interface ContainerState {
-  running: boolean;
-  exitCode: number | null;
-  status: string;
-}
-
-interface DockerResult {
-  stdout: string;
-  stderr: string;
-  code: number;
-}
+// Helper functions
 
-// Helper function to run docker commands
+/**
+ * Environment variables and mounts shared by worker and drone containers:
+ * authentication and any extra variables.
+ */
+function authEnvAndMounts(
+  options: Pick<ContainerOptions, "authMode" | "apiKey" | "oauthToken" | "claudeConfigDir" | "envVars">
+): { env: Record<string, string>; mounts: Mount[] } {
+  const env: Record<string, string> = {};
+  const mounts: Mount[] = [];
 
-async function runDocker(args: string[]): Promise<DockerResult> {
-  const command = new Deno.Command("docker", {
-    args,
-    stdout: "piped",
-    stderr: "piped",
-  });
+  // Handle authentication mode
+  if (options.authMode === "env") {
+    const apiKey = options.apiKey || Deno.env.get("ANTHROPIC_API_KEY");
+    if (apiKey) {
+      env.ANTHROPIC_API_KEY = apiKey;
+    }
+  } else if (options.authMode === "oauth") {
+    if (options.oauthToken) {
+      env.CLAUDE_CODE_OAUTH_TOKEN = options.oauthToken;
+    }
+  } else if (options.authMode === "config") {
+    const configDir = options.claudeConfigDir || `${Deno.env.get("HOME")}/.claude`;
+    mounts.push({ host: configDir, container: "/root/.claude", readOnly: true });
+  }
 
-  const process = command.spawn();
-  const { stdout, stderr, code } = await process.output();
+  // Add additional environment variables from envVars
+  if (options.envVars) {
+    for (const [key, value] of Object.entries(options.envVars)) {
+      // Skip ANTHROPIC_API_KEY if already set above
+      if (key === "ANTHROPIC_API_KEY") continue;
+      env[key] = value;
+    }
+  }
 
-  return {
-    stdout: new TextDecoder().decode(stdout).trim(),
-    stderr: new TextDecoder().decode(stderr).trim(),
-    code,
-  };
+  return { env, mounts };
 }
 
 // Public functions
+//
+// Functions on an existing container take the runtime it was started with
+// (a worker's `runtime` column); without one they use the current runtime.
 
 /**
  * Parse a .env file and return key-value pairs.
@@ -119,27 +129,18 @@ export async function parseEnvFile(filePath: string): Promise<Record<string, str
 }
 
 /**
- * Check if docker is available and responsive.
+ * Check if the container runtime is available and responsive.
+ * Probes the runtime selected with --runtime or BLACKBOARD_RUNTIME (default: Docker).
  */
 export async function isDockerAvailable(): Promise<boolean> {
-  try {
-    const result = await runDocker(["info", "--format", "{{.ID}}"]);
-    return result.code === 0;
-  } catch {
-    return false;
-  }
+  return await getRuntime().isAvailable();
 }
 
 /**
- * Check if a Docker image exists locally.
+ * Check if an image exists locally.
  */
 export async function dockerImageExists(imageName: string): Promise<boolean> {
-  try {
-    const result = await runDocker(["image", "inspect", imageName]);
-    return result.code === 0;
-  } catch {
-    return false;
-  }
+  return await getRuntime().imageExists(imageName);
 }
 
 /**
@@ -178,6 +179,7 @@ export async function resolveDockerfile(
   return null;
 }
 
+
 /**
  * Build the worker image.
  * @throws Error if build fails
@@ -187,242 +189,100 @@ export async function dockerBuild(
   contextPath: string,
   dockerfilePath: string
 ): Promise<void> {
-  const result = await runDocker([
-    "build",
-    "-t",
-    tag,
-    "-f",
-    dockerfilePath,
-    contextPath,
-  ]);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker build failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
+  await getRuntime().build(tag, contextPath, dockerfilePath);
 }
 
 /**
  * Run a new container and return container ID.
- * @throws Error if docker run fails
+ * @throws Error if the runtime fails to start it
  */
 export async function dockerRun(options: ContainerOptions): Promise<string> {
-  const args = [
-    "run",
-    "--detach",
-    "--name",
-    `blackboard-worker-${options.workerId}`,
-    "--label",
-    "blackboard.managed=true",
-    "--label",
-    `blackboard.thread=${options.threadName}`,
-    "--label",
-    `blackboard.worker-id=${options.workerId}`,
-    "--memory",
-    options.memory || "1g",
-    "-v",
-    `${options.dbDir}:/app/db:rw`,
-  ];
+  const auth = authEnvAndMounts(options);
+  const mounts: Mount[] = [{ host: options.dbDir, container: "/app/db" }];
 
   // Add repo volume if provided
   if (options.repoDir) {
-    args.push("-v", `${options.repoDir}:/app/repo:rw`);
+    mounts.push({ host: options.repoDir, container: "/app/repo" });
   }
-
-  // Add environment variables
-  args.push("-e", `THREAD_NAME=${options.threadName}`);
-  args.push("-e", `WORKER_ID=${options.workerId}`);
-  args.push("-e", `MAX_ITERATIONS=${options.maxIterations || 50}`);
-
-  // Handle authentication mode
-  if (options.authMode === "env") {
-    const apiKey = options.apiKey || Deno.env.get("ANTHROPIC_API_KEY");
-    if (apiKey) {
-      args.push("-e", `ANTHROPIC_API_KEY=${apiKey}`);
-    }
-  } else if (options.authMode === "oauth") {
-    if (options.oauthToken) {
-      args.push("-e", `CLAUDE_CODE_OAUTH_TOKEN=${options.oauthToken}`);
-    }
-  } else if (options.authMode === "config") {
-    const configDir = options.claudeConfigDir || `${Deno.env.get("HOME")}/.claude`;
-    args.push("-v", `${configDir}:/root/.claude:ro`);
-  }
-
-  // Add additional environment variables from envVars
-  if (options.envVars) {
-    for (const [key, value] of Object.entries(options.envVars)) {
-      // Skip ANTHROPIC_API_KEY if already set above
-      if (key === "ANTHROPIC_API_KEY") continue;
-      args.push("-e", `${key}=${value}`);
-    }
-  }
-
-  // Add custom labels if provided
-  if (options.labels) {
-    for (const [key, value] of Object.entries(options.labels)) {
-      args.push("--label", `${key}=${value}`);
-    }
-  }
-
-  // Add image as final argument
-  args.push(options.image);
-
-  const result = await runDocker(args);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker run failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
-
-  return result.stdout;
+  mounts.push(...auth.mounts);
+
+  return await getRuntime().run({
+    name: `blackboard-worker-${options.workerId}`,
+    image: options.image,
+    labels: {
+      "blackboard.managed": "true",
+      "blackboard.thread": options.threadName,
+      "blackboard.worker-id": options.workerId,
+      ...options.labels,
+    },
+    env: {
+      THREAD_NAME: options.threadName,
+      WORKER_ID: options.workerId,
+      MAX_ITERATIONS: String(options.maxIterations || 50),
+      ...(options.baseBranch ? { BASE_BRANCH: options.baseBranch } : {}),
+      ...auth.env,
+    },
+    mounts,
+    memory: options.memory || "1g",
+  });
 }
 
 /**
  * Kill a container immediately.
- * @throws Error if docker kill fails
+ * @throws Error if the kill fails
  */
-export async function dockerKill(containerId: string): Promise<void> {
-  const result = await runDocker(["kill", containerId]);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker kill failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
+export async function dockerKill(containerId: string, runtime?: string | null): Promise<void> {
+  await getRuntime(runtime).kill(containerId);
 }
 
 /**
  * Stop a container with timeout.
- * @throws Error if docker stop fails
+ * @throws Error if the stop fails
  */
-export async function dockerStop(containerId: string, timeout?: number): Promise<void> {
-  const result = await runDocker([
-    "stop",
-    "--time",
-    String(timeout || 30),
-    containerId,
-  ]);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker stop failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
+export async function dockerStop(containerId: string, timeout?: number, runtime?: string | null): Promise<void> {
+  await getRuntime(runtime).stop(containerId, timeout || 30);
 }
 
 /**
  * Remove a container forcefully.
- * @throws Error if docker rm fails
+ * @throws Error if the removal fails
  */
-export async function dockerRm(containerId: string): Promise<void> {
-  const result = await runDocker(["rm", "-f", containerId]);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker rm failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
+export async function dockerRm(containerId: string, runtime?: string | null): Promise<void> {
+  await getRuntime(runtime).rm(containerId);
 }
 
 /**
  * List containers matching labels.
+ * @throws Error if listing fails
  */
-export async function dockerPs(labels?: Record<string, string>): Promise<ContainerInfo[]> {
-  const args = ["ps", "-a"];
-
-  // Add label filters
-  if (labels) {
-    for (const [key, value] of Object.entries(labels)) {
-      args.push("--filter", `label=${key}=${value}`);
-    }
-  }
-
-  // Request JSON output
-  args.push("--format", "{{json .}}");
-
-  const result = await runDocker(args);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker ps failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
-
-  if (!result.stdout) {
-    return [];
-  }
-
-  // Parse JSON lines
-  const containers: ContainerInfo[] = [];
-  for (const line of result.stdout.split("\n")) {
-    if (!line.trim()) continue;
-
-    try {
-      const raw = JSON.parse(line);
-
-      // Parse labels from "key1=value1,key2=value2" format
-      const labels: Record<string, string> = {};
-      if (raw.Labels) {
-        for (const pair of raw.Labels.split(",")) {
-          const [key, ...valueParts] = pair.split("=");
-          if (key) {
-            labels[key.trim()] = valueParts.join("=").trim();
-          }
-        }
-      }
-
-      containers.push({
-        id: raw.ID || "",
-        name: raw.Names || "",
-        status: raw.Status || "",
-        labels,
-      });
-    } catch (e) {
-      // Skip malformed JSON lines
-      console.error(`Failed to parse docker ps output line: ${line}`, e);
-    }
-  }
-
-  return containers;
+export async function dockerPs(labels?: Record<string, string>, runtime?: string | null): Promise<ContainerInfo[]> {
+  return await getRuntime(runtime).ps(labels);
 }
 
 /**
  * Inspect container state.
- * @throws Error if docker inspect fails
+ * @throws Error if the container doesn't exist
  */
-export async function dockerInspect(containerId: string): Promise<ContainerState> {
-  const result = await runDocker([
-    "inspect",
-    "--format",
-    "{{json .State}}",
-    containerId,
-  ]);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker inspect failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
-
-  const state = JSON.parse(result.stdout);
+export async function dockerInspect(containerId: string, runtime?: string | null): Promise<ContainerState> {
+  return await getRuntime(runtime).inspect(containerId);
+}
 
-  return {
-    running: state.Running === true,
-    exitCode: state.ExitCode ?? null,
-    status: state.Status || "unknown",
-  };
+/**
+ * Get a container's output.
+ * @param tail Only the last n lines
+ * @throws Error if the container doesn't exist
+ */
+export async function dockerLogs(containerId: string, tail?: number, runtime?: string | null): Promise<string> {
+  return await getRuntime(runtime).logs(containerId, tail);
 }
 
 /**
  * Check if a container is actually running.
  * Returns null if container doesn't exist.
  */
-export async function isContainerRunning(containerId: string): Promise<boolean | null> {
+export async function isContainerRunning(containerId: string, runtime?: string | null): Promise<boolean | null> {
   try {
-    const state = await dockerInspect(containerId);
+    const state = await dockerInspect(containerId, runtime);
     return state.running;
   } catch {
     // Container doesn't exist
@@ -433,21 +293,33 @@ export async function isContainerRunning(containerId: string): Promise<boolean |
 /**
  * Reconcile worker records with actual container state.
  * Updates DB status for workers whose containers have exited or disappeared.
+ * Each worker is checked on the runtime it was started with; workers on a
+ * runtime that isn't available right now are skipped.
  * @param workers Array of workers to check (should have status='running')
  * @param updateStatusFn Function to update worker status in DB
  * @returns Object with counts of reconciled workers
  */
 export async function reconcileWorkers(
-  workers: Array<{ id: string; container_id: string }>,
+  workers: Array<{ id: string; container_id: string; runtime?: string | null }>,
   updateStatusFn: (id: string, status: "failed" | "completed" | "killed") => void
 ): Promise<{ checked: number; updated: number; removed: number }> {
   let checked = 0;
   let updated = 0;
   let removed = 0;
 
+  const available = new Map<string, boolean>();
+
   for (const worker of workers) {
+    const runtime = getRuntime(worker.runtime ?? null);
+    if (!available.has(runtime.name)) {
+      available.set(runtime.name, await runtime.isAvailable());
+    }
+    if (!available.get(runtime.name)) {
+      continue;
+    }
+
     checked++;
-    const running = await isContainerRunning(worker.container_id);
+    const running = await isContainerRunning(worker.container_id, runtime.name);
 
     if (running === null) {
       // Container doesn't exist - mark as failed and clean up
@@ -460,7 +332,7 @@ export async function reconcileWorkers(
       updated++;
       // Also remove the dead container
       try {
-        await dockerRm(worker.container_id);
+        await runtime.rm(worker.container_id);
         removed++;
       } catch {
         // Ignore removal errors
@@ -475,11 +347,12 @@ export async function reconcileWorkers(
 /**
  * Remove orphaned containers (labeled blackboard.managed=true but not in DB).
  * @param activeWorkerIds List of worker IDs currently in the database
+ * @param runtime Runtime to clean up
  * @returns Number of containers removed
  */
-export async function cleanupOrphans(activeWorkerIds: string[]): Promise<number> {
+export async function cleanupOrphans(activeWorkerIds: string[], runtime?: string | null): Promise<number> {
   // List all containers with blackboard.managed=true label
-  const containers = await dockerPs({ "blackboard.managed": "true" });
+  const containers = await dockerPs({ "blackboard.managed": "true" }, runtime);
 
   let removed = 0;
 
@@ -489,7 +362,7 @@ export async function cleanupOrphans(activeWorkerIds: string[]): Promise<number>
     // If no worker-id label or not in active list, remove it
     if (!workerId || !activeWorkerIds.includes(workerId)) {
       try {
-        await dockerRm(container.id);
+        await dockerRm(container.id, runtime);
         removed++;
       } catch (e) {
         console.error(`Failed to remove orphaned container ${container.id}:`, e);
@@ -503,86 +376,40 @@ export async function cleanupOrphans(activeWorkerIds: string[]): Promise<number>
 /**
  * Spawn a drone container.
  * Similar to dockerRun but uses drone-specific entrypoint and environment.
- * @throws Error if docker run fails
+ * @throws Error if the runtime fails to start it
  */
 export async function spawnDroneContainer(options: DroneContainerOptions): Promise<string> {
-  const args = [
-    "run",
-    "--detach",
-    "--name",
-    `blackboard-drone-${options.sessionId}`,
-    "--label",
-    "blackboard.managed=true",
-    "--label",
-    "blackboard.type=drone",
-    "--label",
-    `blackboard.drone-name=${options.droneName}`,
-    "--label",
-    `blackboard.session-id=${options.sessionId}`,
-    "--label",
-    `blackboard.worker-id=${options.workerId}`,
-    "--memory",
-    options.memory || "1g",
-    "-v",
-    `${options.dbDir}:/app/db:rw`,
-    "--entrypoint",
-    "/app/drone-entrypoint.sh",
-  ];
+  const auth = authEnvAndMounts(options);
+  const mounts: Mount[] = [{ host: options.dbDir, container: "/app/db" }];
 
   // Add repo volume if provided
   if (options.repoDir) {
-    args.push("-v", `${options.repoDir}:/app/repo:rw`);
-  }
-
-  // Add environment variables
-  args.push("-e", `DRONE_NAME=${options.droneName}`);
-  args.push("-e", `SESSION_ID=${options.sessionId}`);
-  args.push("-e", `WORKER_ID=${options.workerId}`);
-  args.push("-e", `DRONE_PROMPT=${options.dronePrompt}`);
-  args.push("-e", `MAX_ITERATIONS=${options.maxIterations || 100}`);
-  args.push("-e", `COOLDOWN_SECONDS=${options.cooldownSeconds || 60}`);
-
-  // Handle authentication mode
-  if (options.authMode === "env") {
-    const apiKey = options.apiKey || Deno.env.get("ANTHROPIC_API_KEY");
-    if (apiKey) {
-      args.push("-e", `ANTHROPIC_API_KEY=${apiKey}`);
-    }
-  } else if (options.authMode === "oauth") {
-    if (options.oauthToken) {
-      args.push("-e", `CLAUDE_CODE_OAUTH_TOKEN=${options.oauthToken}`);
-    }
-  } else if (options.authMode === "config") {
-    const configDir = options.claudeConfigDir || `${Deno.env.get("HOME")}/.claude`;
-    args.push("-v", `${configDir}:/root/.claude:ro`);
+    mounts.push({ host: options.repoDir, container: "/app/repo" });
   }
-
-  // Add additional environment variables from envVars
-  if (options.envVars) {
-    for (const [key, value] of Object.entries(options.envVars)) {
-      // Skip ANTHROPIC_API_KEY if already set above
-      if (key === "ANTHROPIC_API_KEY") continue;
-      args.push("-e", `${key}=${value}`);
-    }
-  }
-
-  // Add custom labels if provided
-  if (options.labels) {
-    for (const [key, value] of Object.entries(options.labels)) {
-      args.push("--label", `${key}=${value}`);
-    }
-  }
-
-  // Add image as final argument
-  args.push(options.image);
-
-  const result = await runDocker(args);
-
-  if (result.code !== 0) {
-    throw new Error(
-      `Docker run failed (exit ${result.code}): ${result.stderr || result.stdout}`
-    );
-  }
-
-  return result.stdout;
+  mounts.push(...auth.mounts);
+
+  return await getRuntime().run({
+    name: `blackboard-drone-${options.sessionId}`,
+    image: options.image,
+    labels: {
+      "blackboard.managed": "true",
+      "blackboard.type": "drone",
+      "blackboard.drone-name": options.droneName,
+      "blackboard.session-id": options.sessionId,
+      "blackboard.worker-id": options.workerId,
+      ...options.labels,
+    },
+    env: {
+      DRONE_NAME: options.droneName,
+      SESSION_ID: options.sessionId,
+      WORKER_ID: options.workerId,
+      DRONE_PROMPT: options.dronePrompt,
+      MAX_ITERATIONS: String(options.maxIterations || 100),
+      COOLDOWN_SECONDS: String(options.cooldownSeconds || 60),
+      ...auth.env,
+    },
+    mounts,
+    memory: options.memory || "1g",
+    entrypoint: "/app/drone-entrypoint.sh",
+  });
 }
@@ -0,0 +1,60 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { ProcessRuntime } from "./process-runtime.ts";
+
+Deno.test("ProcessRuntime - runs the entrypoint with mounts as paths, then stops and removes it", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-process-" });
+  const previous = {
+    XDG_STATE_HOME: Deno.env.get("XDG_STATE_HOME"),
+    CLAUDE_PLUGIN_ROOT: Deno.env.get("CLAUDE_PLUGIN_ROOT"),
+  };
+  Deno.env.set("XDG_STATE_HOME", join(dir, "state"));
+  Deno.env.set("CLAUDE_PLUGIN_ROOT", dir);
+  await Deno.mkdir(join(dir, "docker"));
+  await Deno.writeTextFile(
+    join(dir, "docker", "entrypoint.sh"),
+    'echo "db=$DB_DIR repo=$REPO_DIR thread=$THREAD_NAME"\nsleep 30\n'
+  );
+
+  const runtime = new ProcessRuntime();
+  try {
+    const id = await runtime.run({
+      name: "blackboard-worker-w1",
+      image: "unused",
+      labels: { "blackboard.managed": "true", "blackboard.worker-id": "w1" },
+      env: { THREAD_NAME: "auth" },
+      mounts: [
+        { host: "/data/db", container: "/app/db" },
+        { host: "/data/repo", container: "/app/repo", readOnly: true },
+      ],
+    });
+
+    let logs = "";
+    for (let i = 0; i < 50 && !logs; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      logs = await runtime.logs(id);
+    }
+    assertStringIncludes(logs, "db=/data/db repo=/data/repo thread=auth");
+    assertEquals((await runtime.inspect(id)).running, true);
+
+    const listed = await runtime.ps({ "blackboard.worker-id": "w1" });
+    assertEquals(listed.map((c) => c.id), [id]);
+    assertEquals(await runtime.ps({ "blackboard.worker-id": "w2" }), []);
+
+    await runtime.stop(id, 5);
+    assertEquals((await runtime.inspect(id)).running, false);
+    await assertRejects(() => runtime.kill(id));
+
+    await runtime.rm(id);
+    assertEquals(await runtime.ps(), []);
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        Deno.env.delete(key);
+      } else {
+        Deno.env.set(key, value);
+      }
+    }
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,243 @@
+/**
+ * Process runtime: runs the worker and drone entrypoint scripts as plain
+ * background processes on the host instead of in containers.
+ *
+ * There is no image: the host needs bash, git, claude and an installed
+ * blackboard CLI. Mounts become environment variables the entrypoints read
+ * (the database directory and the repository), and each "container" gets a
+ * record, a log file and a scratch checkout under
+ * $XDG_STATE_HOME/blackboard/processes (default ~/.local/state). Memory
+ * limits don't apply.
+ */
+
+import { basename, dirname, fromFileUrl, join } from "jsr:@std/path";
+import type { ContainerInfo, ContainerRuntime, ContainerState, RunSpec } from "./runtime.ts";
+
+interface ProcessRecord {
+  id: string;
+  name: string;
+  pid: number;
+  labels: Record<string, string>;
+  started_at: string;
+}
+
+// Container paths the entrypoints read from these variables instead
+const MOUNT_ENV: Record<string, string> = {
+  "/app/db": "DB_DIR",
+  "/app/repo": "REPO_DIR",
+};
+
+const DEFAULT_ENTRYPOINT = "entrypoint.sh";
+
+function stateDir(): string {
+  const base = Deno.env.get("XDG_STATE_HOME") || join(Deno.env.get("HOME") || ".", ".local", "state");
+  return join(base, "blackboard", "processes");
+}
+
+/**
+ * The blackboard plugin directory (holding docker/ and agents/).
+ */
+function pluginDir(): string {
+  return Deno.env.get("CLAUDE_PLUGIN_ROOT") ||
+    join(dirname(fromFileUrl(import.meta.url)), "..", "..", "..");
+}
+
+/**
+ * Whether a process is alive (zombies count as exited).
+ */
+async function isAlive(pid: number): Promise<boolean> {
+  try {
+    const result = await new Deno.Command("ps", {
+      args: ["-p", String(pid), "-o", "stat="],
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+    const stat = new TextDecoder().decode(result.stdout).trim();
+    return result.code === 0 && stat !== "" && !stat.startsWith("Z");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signals the worker's process group (setsid made it the leader), so
+ * Claude and anything else it started go too; falls back to the process.
+ */
+function signal(pid: number, sig: Deno.Signal): void {
+  try {
+    Deno.kill(-pid, sig);
+    return;
+  } catch {
+    // Not a group leader (no setsid)
+  }
+  try {
+    Deno.kill(pid, sig);
+  } catch {
+    // Already exited
+  }
+}
+
+export class ProcessRuntime implements ContainerRuntime {
+  readonly name = "process" as const;
+  readonly label = "Process runtime";
+
+  private recordPath(id: string): string {
+    return join(stateDir(), `${id}.json`);
+  }
+
+  private logPath(id: string): string {
+    return join(stateDir(), `${id}.log`);
+  }
+
+  private async readRecord(id: string): Promise<ProcessRecord> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.recordPath(id))) as ProcessRecord;
+    } catch {
+      throw new Error(`No such process: ${id}`);
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const result = await new Deno.Command("sh", {
+        args: ["-c", "command -v bash && command -v git && command -v claude && command -v blackboard"],
+        stdout: "null",
+        stderr: "null",
+      }).output();
+      return result.code === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  imageExists(_image: string): Promise<boolean> {
+    // Nothing to build: the host is the image
+    return Promise.resolve(true);
+  }
+
+  build(_tag: string, _contextPath: string, _dockerfilePath: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  async run(spec: RunSpec): Promise<string> {
+    const id = crypto.randomUUID().replaceAll("-", "").slice(0, 12);
+    const dir = stateDir();
+    await Deno.mkdir(join(dir, id), { recursive: true });
+
+    const script = join(pluginDir(), "docker", basename(spec.entrypoint || DEFAULT_ENTRYPOINT));
+    const workDir = join(dir, id, "work");
+    const env: Record<string, string> = {
+      ...spec.env,
+      WORK_DIR: workDir,
+      AGENTS_DIR: join(pluginDir(), "agents"),
+      CLAUDE_PROJECT_DIR: workDir,
+    };
+    for (const mount of spec.mounts) {
+      const variable = MOUNT_ENV[mount.container];
+      if (variable) {
+        env[variable] = mount.host;
+      }
+    }
+
+    // setsid detaches the worker from this terminal so Ctrl-C here doesn't
+    // reach it; exec keeps one PID from the shell through to worker-run
+    const child = new Deno.Command("sh", {
+      args: [
+        "-c",
+        'if command -v setsid >/dev/null 2>&1; then exec setsid bash "$0" >"$1" 2>&1; else exec bash "$0" >"$1" 2>&1; fi',
+        script,
+        this.logPath(id),
+      ],
+      env,
+      stdin: "null",
+      stdout: "null",
+      stderr: "null",
+    }).spawn();
+    child.unref();
+
+    const record: ProcessRecord = {
+      id,
+      name: spec.name,
+      pid: child.pid,
+      labels: spec.labels,
+      started_at: new Date().toISOString(),
+    };
+    await Deno.writeTextFile(this.recordPath(id), JSON.stringify(record, null, 2));
+
+    return id;
+  }
+
+  async stop(id: string, timeoutSeconds: number): Promise<void> {
+    const record = await this.readRecord(id);
+    signal(record.pid, "SIGTERM");
+
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    while (Date.now() < deadline) {
+      if (!(await isAlive(record.pid))) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    signal(record.pid, "SIGKILL");
+  }
+
+  async kill(id: string): Promise<void> {
+    const record = await this.readRecord(id);
+    if (!(await isAlive(record.pid))) {
+      throw new Error(`Process ${id} is not running`);
+    }
+    signal(record.pid, "SIGKILL");
+  }
+
+  async rm(id: string): Promise<void> {
+    const record = await this.readRecord(id);
+    if (await isAlive(record.pid)) {
+      signal(record.pid, "SIGKILL");
+    }
+    await Deno.remove(join(stateDir(), id), { recursive: true }).catch(() => {});
+    await Deno.remove(this.logPath(id)).catch(() => {});
+    await Deno.remove(this.recordPath(id));
+  }
+
+  async ps(labels?: Record<string, string>): Promise<ContainerInfo[]> {
+    const containers: ContainerInfo[] = [];
+    try {
+      for await (const entry of Deno.readDir(stateDir())) {
+        if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+
+        const record = await this.readRecord(entry.name.slice(0, -".json".length)).catch(() => null);
+        if (!record) continue;
+        const matches = Object.entries(labels ?? {}).every(([key, value]) => record.labels[key] === value);
+        if (!matches) continue;
+
+        containers.push({
+          id: record.id,
+          name: record.name,
+          status: (await isAlive(record.pid)) ? `Up since ${record.started_at}` : "Exited",
+          labels: record.labels,
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+    return containers;
+  }
+
+  async inspect(id: string): Promise<ContainerState> {
+    const record = await this.readRecord(id);
+    const running = await isAlive(record.pid);
+    // The exit code isn't kept; the worker's status in the database says how it ended
+    return { running, exitCode: null, status: running ? "running" : "exited" };
+  }
+
+  async logs(id: string, tail?: number): Promise<string> {
+    await this.readRecord(id);
+    const output = await Deno.readTextFile(this.logPath(id)).catch(() => "");
+    if (tail === undefined) {
+      return output.trimEnd();
+    }
+    return output.trimEnd().split("\n").slice(-tail).join("\n");
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Container runtimes for worker and drone containers.
+ * Docker, Podman and nerdctl share one CLI-driven implementation (their
+ * commands are compatible); the process runtime runs the same entrypoint
+ * scripts directly on the host, for machines without a container engine.
+ *
+ * The runtime comes from --runtime on the commands that start workers, then
+ * BLACKBOARD_RUNTIME, then the `runtime` config key, then docker. Each worker records the runtime it was
+ * started with, so stopping and reconciling it uses the same one.
+ */
+
+import { ProcessRuntime } from "./process-runtime.ts";
+import { loadConfig } from "../utils/config.ts";
+
+// Types
+
+export const RUNTIME_NAMES = ["docker", "podman", "nerdctl", "process"] as const;
+export type RuntimeName = typeof RUNTIME_NAMES[number];
+
+export interface ContainerInfo {
+  id: string;
+  name: string;
+  status: string;
+  labels: Record<string, string>;
+}
+
+export interface ContainerState {
+  running: boolean;
+  exitCode: number | null;
+  status: string;
+}
+
+export interface Mount {
+  host: string;
+  container: string;
+  readOnly?: boolean;
+}
+
+/** Everything needed to start a container, independent of the runtime */
+export interface RunSpec {
+  name: string;
+  image: string;
+  labels: Record<string, string>;
+  env: Record<string, string>;
+  mounts: Mount[];
+  memory?: string;
+  /** Entrypoint path inside the image (default: the image's own) */
+  entrypoint?: string;
+}
+
+export interface ContainerRuntime {
+  readonly name: RuntimeName;
+  /** Name used in messages, e.g. "Docker" */
+  readonly label: string;
+  isAvailable(): Promise<boolean>;
+  imageExists(image: string): Promise<boolean>;
+  build(tag: string, contextPath: string, dockerfilePath: string): Promise<void>;
+  /** @returns Container ID */
+  run(spec: RunSpec): Promise<string>;
+  stop(id: string, timeoutSeconds: number): Promise<void>;
+  kill(id: string): Promise<void>;
+  /** Removes the container, killing it first if it is still running */
+  rm(id: string): Promise<void>;
+  /** Lists containers (running or not) carrying all of the given labels */
+  ps(labels?: Record<string, string>): Promise<ContainerInfo[]>;
+  inspect(id: string): Promise<ContainerState>;
+  /** @returns Combined output, optionally only the last `tail` lines */
+  logs(id: string, tail?: number): Promise<string>;
+}
+
+interface CommandResult {
+  stdout: string;
+  stderr: string;
+  code: number;
+}
+
+// CLI runtimes (docker, podman, nerdctl)
+
+/**
+ * A runtime driven through a Docker-compatible CLI.
+ */
+class CliRuntime implements ContainerRuntime {
+  constructor(
+    readonly name: RuntimeName,
+    readonly label: string,
+    private binary: string
+  ) {}
+
+  private async exec(args: string[]): Promise<CommandResult> {
+    const command = new Deno.Command(this.binary, {
+      args,
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const { stdout, stderr, code } = await command.output();
+
+    return {
+      stdout: new TextDecoder().decode(stdout).trim(),
+      stderr: new TextDecoder().decode(stderr).trim(),
+      code,
+    };
+  }
+
+  private async execOrThrow(action: string, args: string[]): Promise<CommandResult> {
+    const result = await this.exec(args);
+    if (result.code !== 0) {
+      throw new Error(
+        `${this.label} ${action} failed (exit ${result.code}): ${result.stderr || result.stdout}`
+      );
+    }
+    return result;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const result = await this.exec(["info"]);
+      return result.code === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async imageExists(image: string): Promise<boolean> {
+    try {
+      const result = await this.exec(["image", "inspect", image]);
+      return result.code === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async build(tag: string, contextPath: string, dockerfilePath: string): Promise<void> {
+    await this.execOrThrow("build", ["build", "-t", tag, "-f", dockerfilePath, contextPath]);
+  }
+
+  async run(spec: RunSpec): Promise<string> {
+    const args = ["run", "--detach", "--name", spec.name];
+    for (const [key, value] of Object.entries(spec.labels)) {
+      args.push("--label", `${key}=${value}`);
+    }
+    if (spec.memory) {
+      args.push("--memory", spec.memory);
+    }
+    for (const mount of spec.mounts) {
+      args.push("-v", `${mount.host}:${mount.container}:${mount.readOnly ? "ro" : "rw"}`);
+    }
+    if (spec.entrypoint) {
+      args.push("--entrypoint", spec.entrypoint);
+    }
+    for (const [key, value] of Object.entries(spec.env)) {
+      args.push("-e", `${key}=${value}`);
+    }
+    args.push(spec.image);
+
+    const result = await this.execOrThrow("run", args);
+    return result.stdout;
+  }
+
+  async stop(id: string, timeoutSeconds: number): Promise<void> {
+    await this.execOrThrow("stop", ["stop", "--time", String(timeoutSeconds), id]);
+  }
+
+  async kill(id: string): Promise<void> {
+    await this.execOrThrow("kill", ["kill", id]);
+  }
+
+  async rm(id: string): Promise<void> {
+    await this.execOrThrow("rm", ["rm", "-f", id]);
+  }
+
+  async ps(labels?: Record<string, string>): Promise<ContainerInfo[]> {
+    const args = ["ps", "-a"];
+    for (const [key, value] of Object.entries(labels ?? {})) {
+      args.push("--filter", `label=${key}=${value}`);
+    }
+    args.push("--format", "{{json .}}");
+
+    const result = await this.execOrThrow("ps", args);
+    if (!result.stdout) {
+      return [];
+    }
+
+    // One JSON object per line. Docker and nerdctl give labels as
+    // "key1=value1,key2=value2" and names as a string; Podman gives a map
+    // and an array.
+    const containers: ContainerInfo[] = [];
+    for (const line of result.stdout.split("\n")) {
+      if (!line.trim()) continue;
+
+      try {
+        const raw = JSON.parse(line);
+
+        let parsedLabels: Record<string, string> = {};
+        if (typeof raw.Labels === "string") {
+          for (const pair of raw.Labels.split(",")) {
+            const [key, ...valueParts] = pair.split("=");
+            if (key) {
+              parsedLabels[key.trim()] = valueParts.join("=").trim();
+            }
+          }
+        } else if (raw.Labels && typeof raw.Labels === "object") {
+          parsedLabels = raw.Labels;
+        }
+
+        containers.push({
+          id: raw.ID || raw.Id || "",
+          name: Array.isArray(raw.Names) ? raw.Names.join(",") : raw.Names || "",
+          status: raw.Status || raw.State || "",
+          labels: parsedLabels,
+        });
+      } catch (e) {
+        // Skip malformed JSON lines
+        console.error(`Failed to parse ${this.binary} ps output line: ${line}`, e);
+      }
+    }
+
+    return containers;
+  }
+
+  async inspect(id: string): Promise<ContainerState> {
+    const result = await this.execOrThrow("inspect", ["inspect", "--format", "{{json .State}}", id]);
+    const state = JSON.parse(result.stdout);
+
+    return {
+      running: state.Running === true,
+      exitCode: state.ExitCode ?? null,
+      status: state.Status || "unknown",
+    };
+  }
+
+  async logs(id: string, tail?: number): Promise<string> {
+    const args = ["logs"];
+    if (tail !== undefined) {
+      args.push("--tail", String(tail));
+    }
+    args.push(id);
+    const result = await this.execOrThrow("logs", args);
+    return [result.stdout, result.stderr].filter(Boolean).join("\n");
+  }
+}
+
+// Selection
+
+let selectedRuntime: RuntimeName | null = null;
+const runtimes = new Map<RuntimeName, ContainerRuntime>();
+
+export function isRuntimeName(name: string): name is RuntimeName {
+  return (RUNTIME_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Sets the runtime used for new containers in this process (--runtime).
+ * @throws Error if the name isn't a known runtime
+ */
+export function selectRuntime(name: string): void {
+  if (!isRuntimeName(name)) {
+    throw new Error(`Unknown runtime "${name}". Use one of: ${RUNTIME_NAMES.join(", ")}`);
+  }
+  selectedRuntime = name;
+}
+
+/**
+ * Applies a --runtime option (if given) and returns the runtime for new
+ * containers.
+ * @throws Error if the option or BLACKBOARD_RUNTIME isn't a known runtime or a config file is invalid
+ */
+export function useRuntime(name?: string): ContainerRuntime {
+  if (name) {
+    selectRuntime(name);
+  }
+  return getRuntime();
+}
+
+/**
+ * Name of the runtime for new containers: --runtime, then
+ * BLACKBOARD_RUNTIME, then the `runtime` config key, then docker.
+ * @throws Error if BLACKBOARD_RUNTIME isn't a known runtime or a config file is invalid
+ */
+export function resolveRuntimeName(): RuntimeName {
+  if (selectedRuntime) {
+    return selectedRuntime;
+  }
+  const fromEnv = Deno.env.get("BLACKBOARD_RUNTIME");
+  if (fromEnv) {
+    if (!isRuntimeName(fromEnv)) {
+      throw new Error(`Unknown runtime "${fromEnv}" in BLACKBOARD_RUNTIME. Use one of: ${RUNTIME_NAMES.join(", ")}`);
+    }
+    return fromEnv;
+  }
+  const configured = loadConfig().runtime;
+  return configured && isRuntimeName(configured) ? configured : "docker";
+}
+
+/**
+ * Gets a runtime by name, or the one for new containers.
+ * Workers started before runtimes were recorded have no name and ran on Docker.
+ *
+ * @param name - Runtime recorded on a worker; omit for the current selection
+ * @throws Error if the name isn't a known runtime
+ */
+export function getRuntime(name?: string | null): ContainerRuntime {
+  const resolved = name === undefined ? resolveRuntimeName() : name ?? "docker";
+  if (!isRuntimeName(resolved)) {
+    throw new Error(`Unknown runtime "${resolved}". Use one of: ${RUNTIME_NAMES.join(", ")}`);
+  }
+
+  let runtime = runtimes.get(resolved);
+  if (!runtime) {
+    switch (resolved) {
+      case "docker":
+        runtime = new CliRuntime("docker", "Docker", "docker");
+        break;
+      case "podman":
+        runtime = new CliRuntime("podman", "Podman", "podman");
+        break;
+      case "nerdctl":
+        runtime = new CliRuntime("nerdctl", "nerdctl", "nerdctl");
+        break;
+      case "process":
+        runtime = new ProcessRuntime();
+        break;
+    }
+    runtimes.set(resolved, runtime);
+  }
+  return runtime;
+}
+
+/**
+ * Error text for when a runtime's isAvailable() check fails.
+ */
+export function runtimeUnavailableMessage(runtime: ContainerRuntime): string {
+  if (runtime.name === "process") {
+    return "The process runtime needs bash, git, claude and blackboard on PATH.";
+  }
+  return `${runtime.label} is not available. Please ensure ${runtime.label} is installed and running.`;
+}
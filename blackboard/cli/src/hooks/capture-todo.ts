@@ -11,6 +11,7 @@ import {
   getThreadById,
   getPlanById,
   mergeStepsForPlan,
+  fillStepCriteriaFromPlan,
   updatePlanStatus,
 } from "../db/queries.ts";
 import type { StepStatus } from "../types/schema.ts";
@@ -40,6 +41,7 @@ interface PostToolUseInput {
  * - Gets plan from selected thread (session-scoped)
  * - Extracts todos from tool_input.todos
  * - Merges steps for plan (using mergeStepsForPlan, preserves completed steps)
+ * - Picks up acceptance criteria and verify commands from the plan markdown
  * - Updates plan status based on completion
  * - Outputs PostToolUseOutput with sync summary
  */
@@ -102,6 +104,7 @@ export async function captureTodo(): Promise<void> {
 
   // Merge steps for this plan (preserves completed/failed/skipped steps)
   const mergeResult = mergeStepsForPlan(plan.id, steps);
+  fillStepCriteriaFromPlan(plan.id);
 
   // Count completed vs total
   const completedCount = steps.filter((s) => s.status === "completed").length;
@@ -6,7 +6,6 @@
 import { readStdin } from "../utils/stdin.ts";
 import { resolveDbPath, getDb } from "../db/connection.ts";
 import { dbExists, initializeSchema } from "../db/schema.ts";
-import { migrate as migrateThreads } from "../db/migrations/001_threads.ts";
 
 /**
  * Initialize database hook handler.
@@ -104,12 +103,17 @@ Start by creating a thread or entering plan mode for your current task.`;
       }),
     );
   } else {
-    // Database exists - run migrations to ensure schema is up to date
+    // Database exists - getDb() applies any pending migrations. A failure
+    // is reported but doesn't block the session; the failed migration was
+    // rolled back.
     try {
-      const db = getDb();
-      migrateThreads(db);
-    } catch {
-      // Migration errors are non-fatal (might already be migrated)
+      getDb();
+    } catch (error) {
+      console.error(
+        "Blackboard migration failed:",
+        error instanceof Error ? error.message : String(error),
+      );
+      console.error("Run `blackboard db migrate --status` to inspect.");
     }
     // Exit cleanly (no output)
     Deno.exit(0);
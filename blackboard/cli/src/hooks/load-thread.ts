@@ -11,7 +11,7 @@ import {
   getCurrentThread,
   setSessionState,
 } from "../db/queries.ts";
-import { generateContextPacket } from "../commands/thread.ts";
+import { generateContextPacket, type ContextPacketOptions } from "../commands/thread.ts";
 import { getCurrentGitBranch } from "../utils/git.ts";
 
 /**
@@ -21,7 +21,10 @@ import { getCurrentGitBranch } from "../utils/git.ts";
  * - Updates thread's updated_at and git_branches
  * - Outputs context packet
  */
-export async function loadThread(threadName?: string): Promise<void> {
+export async function loadThread(
+  threadName?: string,
+  options: ContextPacketOptions = {}
+): Promise<void> {
 
   // Check database exists
   if (!dbExists()) {
@@ -71,6 +74,6 @@ export async function loadThread(threadName?: string): Promise<void> {
   }
 
   // Output context packet
-  const contextPacket = generateContextPacket(thread);
+  const contextPacket = generateContextPacket(thread, options);
   console.log(contextPacket);
 }
@@ -11,3 +11,4 @@ export { captureTodo } from "./capture-todo.ts";
 export { updateStepStatusHook } from "./update-step-status.ts";
 export { promptReflect } from "./prompt-reflect.ts";
 export { loadThread } from "./load-thread.ts";
+export { postCommitHook, installGitHook } from "./post-commit.ts";
@@ -0,0 +1,112 @@
+/**
+ * Git post-commit hook - Link new commits to the blackboard.
+ * Records the commit against the thread, in-progress step and worker it
+ * belongs to. Installed into a repo with `blackboard hook install-git-hook`;
+ * the worker loops also call it with --range after each iteration to catch
+ * commits the hook missed.
+ */
+
+import { getDb } from "../db/connection.ts";
+import { inferCommitContext, linkCommits } from "../services/commit-links.ts";
+import { getCurrentGitBranch, listRevisions } from "../utils/git.ts";
+
+const HOOK_MARKER = " hook post-commit";
+
+interface PostCommitOptions {
+  db?: string;
+  range?: string;
+}
+
+/**
+ * Post-commit hook handler.
+ * - Exits quietly if the database doesn't exist, so commits are never blocked
+ * - Records HEAD, or every commit in --range
+ * - Links each to the thread for the current branch, its in-progress step
+ *   and the worker in $WORKER_ID
+ */
+export function postCommitHook(options: PostCommitOptions): void {
+  try {
+    if (options.db && !Deno.statSync(options.db).isFile) {
+      Deno.exit(0);
+    }
+  } catch {
+    Deno.exit(0);
+  }
+
+  try {
+    getDb(options.db);
+    const revisions = options.range ? listRevisions(options.range) : ["HEAD"];
+    if (revisions.length === 0) {
+      return;
+    }
+
+    const branch = getCurrentGitBranch();
+    const context = inferCommitContext(branch === "HEAD" ? null : branch, Deno.env.get("WORKER_ID"));
+    if (!context.thread_id && !context.worker_id) {
+      // Commit on a branch no thread or worker knows about
+      return;
+    }
+
+    linkCommits(revisions, context, { fillOnly: true });
+  } catch (error) {
+    // Never fail the commit over bookkeeping
+    console.error(`blackboard: could not record commit: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Install the post-commit hook into the current git repository, calling
+ * `blackboard hook post-commit` with this database. Appends to an existing
+ * post-commit hook rather than replacing it.
+ */
+export async function installGitHook(options: { db?: string; quiet?: boolean }): Promise<void> {
+  const result = new Deno.Command("git", {
+    args: ["rev-parse", "--git-path", "hooks"],
+    stdout: "piped",
+    stderr: "piped",
+  }).outputSync();
+  if (!result.success) {
+    console.error("Error: Not in a git repository");
+    Deno.exit(1);
+  }
+
+  const hooksDir = new TextDecoder().decode(result.stdout).trim();
+  let hooksDirStat: Deno.FileInfo | null = null;
+  try {
+    hooksDirStat = Deno.statSync(hooksDir);
+  } catch {
+    // Created below
+  }
+  if (hooksDirStat && !hooksDirStat.isDirectory) {
+    console.error(`Error: Git hooks path ${hooksDir} is not a directory (check core.hooksPath)`);
+    Deno.exit(1);
+  }
+  const hookPath = `${hooksDir}/post-commit`;
+  const dbArg = options.db ? ` --db '${options.db.replace(/'/g, "'\\''")}'` : "";
+  const line = `blackboard${dbArg} hook post-commit >/dev/null 2>&1 || true`;
+
+  let existing = "";
+  try {
+    existing = await Deno.readTextFile(hookPath);
+  } catch {
+    // No hook yet
+  }
+
+  if (existing.includes(HOOK_MARKER)) {
+    if (!options.quiet) {
+      console.log(`Post-commit hook already installed: ${hookPath}`);
+    }
+    return;
+  }
+
+  await Deno.mkdir(hooksDir, { recursive: true });
+  const content = existing
+    ? `${existing.trimEnd()}\n\n# Link commits to blackboard threads and steps\n${line}\n`
+    : `#!/bin/sh\n# Link commits to blackboard threads and steps\n${line}\n`;
+  await Deno.writeTextFile(hookPath, content);
+  await Deno.chmod(hookPath, 0o755);
+
+  if (!options.quiet) {
+    console.log(`Installed post-commit hook: ${hookPath}`);
+  }
+}
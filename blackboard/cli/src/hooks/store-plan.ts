@@ -117,6 +117,8 @@ export async function storePlan(): Promise<void> {
       current_plan_id: null,
       git_branches: gitBranch,
       status: "active",
+      priority: 0,
+      verify_commands: null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
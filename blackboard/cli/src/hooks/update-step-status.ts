@@ -7,19 +7,30 @@ import { readStdin } from "../utils/stdin.ts";
 import { dbExists } from "../db/schema.ts";
 import { getDb } from "../db/connection.ts";
 import {
-  updateStepStatus,
   updatePlanStatus,
   getSessionState,
   getThreadById,
   getPlanById,
+  getStepById,
 } from "../db/queries.ts";
+import {
+  completeStep,
+  defaultVerifyDir,
+  VERIFICATION_AGENT_TYPE,
+  verifyPlanCompletion,
+} from "../services/verification.ts";
 
 /**
  * Update step status hook handler.
  * - Reads JSON from stdin (consumes it)
- * - Checks for recent breadcrumbs (last minute) that have a step_id
- * - Marks step as completed
- * - Checks if all steps are done and marks plan complete if so
+ * - Finds the step an agent reported on in the last minute (the most recent
+ *   breadcrumb with a step_id, ignoring verification failures)
+ * - Marks that step as completed once its verify command (if any) passes in
+ *   the project directory, or failed if it doesn't. Steps that are already
+ *   completed, skipped or failed are left alone; a failed step is completed
+ *   again explicitly (`step update` or the MCP `update_step` tool)
+ * - If that finished the plan's steps, marks the plan complete once the
+ *   thread's verification commands pass
  */
 export async function updateStepStatusHook(): Promise<void> {
   // Read input (consume it)
@@ -32,21 +43,29 @@ export async function updateStepStatusHook(): Promise<void> {
 
   const db = getDb();
 
-  // Check for recent breadcrumbs (last minute) that have a step_id
+  // Check for recent breadcrumbs (last minute) from an agent that have a
+  // step_id; verification failures (and the hook's own from older versions)
+  // don't claim a step is done
   const stmt = db.prepare(`
     SELECT step_id FROM breadcrumbs
     WHERE step_id IS NOT NULL
       AND created_at > datetime('now', '-1 minute')
+      AND (agent_type IS NULL OR agent_type NOT IN (:verificationAgent, 'hook'))
     ORDER BY created_at DESC
     LIMIT 1
   `);
-  const results = stmt.all() as Array<{ step_id: string }>;
+  const results = stmt.all({ verificationAgent: VERIFICATION_AGENT_TYPE }) as Array<{ step_id: string }>;
 
-  if (results.length > 0 && results[0].step_id) {
-    const stepId = results[0].step_id;
+  const projectDir = defaultVerifyDir();
+  const step = results.length > 0 && results[0].step_id ? getStepById(results[0].step_id) : null;
 
-    // Mark step as completed
-    updateStepStatus(stepId, "completed");
+  if (step && (step.status === "pending" || step.status === "in_progress")) {
+    // Mark step as completed, unless its verify command fails
+    const stepVerification = await completeStep(step, projectDir);
+    if (stepVerification && !stepVerification.passed) {
+      console.error(`Step marked failed: verification failed (\`${stepVerification.command}\` exited with ${stepVerification.exitCode})`);
+      Deno.exit(0);
+    }
 
     // Check if all steps are done (session-scoped plan)
     const selectedThreadId = getSessionState("selected_thread_id");
@@ -54,16 +73,22 @@ export async function updateStepStatusHook(): Promise<void> {
       const thread = getThreadById(selectedThreadId);
       if (thread?.current_plan_id) {
         const plan = getPlanById(thread.current_plan_id);
-        if (plan) {
-          const pendingStmt = db.prepare(`
+        if (plan && plan.status !== "completed") {
+          const unfinishedStmt = db.prepare(`
             SELECT COUNT(*) as count FROM plan_steps
-            WHERE plan_id = :planId AND status = 'pending'
+            WHERE plan_id = :planId AND status NOT IN ('completed', 'skipped')
           `);
-          const pendingResults = pendingStmt.all({ planId: plan.id }) as Array<{ count: number }>;
+          const unfinishedResults = unfinishedStmt.all({ planId: plan.id }) as Array<{ count: number }>;
 
-          if (pendingResults.length > 0 && pendingResults[0].count === 0) {
-            // All done - mark plan complete
-            updatePlanStatus(plan.id, "completed");
+          if (unfinishedResults.length > 0 && unfinishedResults[0].count === 0) {
+            // All done - mark plan complete unless verification fails, which
+            // leaves it in progress with the output in a breadcrumb
+            const verification = await verifyPlanCompletion(thread, plan.id, projectDir);
+            if (verification && !verification.passed) {
+              console.error(`Plan not completed: verification failed (\`${verification.command}\` exited with ${verification.exitCode})`);
+            } else {
+              updatePlanStatus(plan.id, "completed");
+            }
           }
         }
       }
@@ -0,0 +1,34 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { type ObjectSchema, ToolError, validateArguments } from "./schema.ts";
+
+const schema: ObjectSchema = {
+  type: "object",
+  properties: {
+    step: { type: "string" },
+    status: { type: "string", enum: ["pending", "completed"] },
+    position: { type: "integer", minimum: 1 },
+    force: { type: "boolean" },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["step"],
+  additionalProperties: false,
+};
+
+Deno.test("validateArguments - accepts valid arguments and drops nulls", () => {
+  const args = { step: "s1", status: "completed", position: 2, force: true, tags: ["a"] };
+  assertEquals(validateArguments(schema, args), args);
+  assertEquals(validateArguments(schema, { step: "s1", status: null }), { step: "s1" });
+});
+
+Deno.test("validateArguments - reports every problem", () => {
+  assertThrows(
+    () => validateArguments(schema, { status: "done", position: 0, extra: 1 }),
+    ToolError,
+    'Invalid arguments: "status" must be one of: pending, completed; "position" must be at least 1; Unknown argument "extra"; "step" is required'
+  );
+});
+
+Deno.test("validateArguments - treats missing arguments as empty", () => {
+  assertThrows(() => validateArguments(schema, undefined), ToolError, '"step" is required');
+  assertThrows(() => validateArguments(schema, ["s1"]), ToolError, "Arguments must be an object");
+});
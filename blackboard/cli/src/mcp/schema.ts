@@ -0,0 +1,114 @@
+/**
+ * Tool input schemas for the MCP server and validation of tool arguments
+ * against them. Supports the small JSON Schema subset the tools use.
+ */
+
+export interface PropertySchema {
+  type: "string" | "integer" | "boolean" | "array";
+  description?: string;
+  enum?: readonly string[];
+  /** Inclusive lower bound for integers */
+  minimum?: number;
+  /** Item schema for arrays (strings only) */
+  items?: { type: "string"; enum?: readonly string[] };
+}
+
+export interface ObjectSchema {
+  type: "object";
+  properties: Record<string, PropertySchema>;
+  required?: string[];
+  additionalProperties: false;
+}
+
+/**
+ * A tool call that failed for a reason the caller can fix (bad arguments,
+ * unknown thread, ...). Reported back to the model as a tool error.
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/**
+ * Checks one value against a property schema.
+ *
+ * @returns A description of the problem, or null if the value is valid
+ */
+function checkProperty(name: string, schema: PropertySchema, value: unknown): string | null {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return `"${name}" must be a string`;
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `"${name}" must be one of: ${schema.enum.join(", ")}`;
+      }
+      return null;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) return `"${name}" must be an integer`;
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return `"${name}" must be at least ${schema.minimum}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : `"${name}" must be a boolean`;
+    case "array": {
+      if (!Array.isArray(value)) return `"${name}" must be an array`;
+      for (const item of value) {
+        if (typeof item !== "string") return `"${name}" must contain only strings`;
+        if (schema.items?.enum && !schema.items.enum.includes(item)) {
+          return `"${name}" items must be one of: ${schema.items.enum.join(", ")}`;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Validates tool arguments against a tool's input schema.
+ *
+ * @param schema - The tool's input schema
+ * @param args - Arguments from the tools/call request (may be missing)
+ * @returns The arguments, with null values dropped
+ * @throws ToolError listing every problem found
+ */
+export function validateArguments(schema: ObjectSchema, args: unknown): Record<string, unknown> {
+  if (args === undefined || args === null) {
+    args = {};
+  }
+  if (typeof args !== "object" || Array.isArray(args)) {
+    throw new ToolError("Arguments must be an object");
+  }
+
+  const problems: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(args as Record<string, unknown>)) {
+    const property = schema.properties[name];
+    if (!property) {
+      problems.push(`Unknown argument "${name}"`);
+      continue;
+    }
+    if (value === null) continue;
+
+    const problem = checkProperty(name, property, value);
+    if (problem) {
+      problems.push(problem);
+    } else {
+      result[name] = value;
+    }
+  }
+
+  for (const name of schema.required ?? []) {
+    const value = result[name];
+    if (value === undefined || value === "") {
+      problems.push(`"${name}" is required`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ToolError(`Invalid arguments: ${problems.join("; ")}`);
+  }
+  return result;
+}
@@ -0,0 +1,180 @@
+/**
+ * Model Context Protocol server over stdio.
+ * Speaks newline-delimited JSON-RPC 2.0 and implements the tools capability:
+ * initialize, ping, tools/list and tools/call.
+ */
+
+import { validateArguments, type ObjectSchema } from "./schema.ts";
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  /** Receives validated arguments; returns the text shown to the model */
+  handler: (args: Record<string, unknown>) => string | Promise<string>;
+}
+
+export interface ServerInfo {
+  name: string;
+  version: string;
+}
+
+interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** Protocol revisions this server understands, newest first */
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+/**
+ * Creates a handler for a single JSON-RPC message.
+ * Returns the response to send, or null for notifications.
+ */
+export function createMcpHandler(
+  info: ServerInfo,
+  tools: McpTool[]
+): (message: unknown) => Promise<JsonRpcResponse | null> {
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+  const callTool = async (params: Record<string, unknown>) => {
+    const tool = toolsByName.get(String(params.name));
+    if (!tool) {
+      return { error: { code: INVALID_PARAMS, message: `Unknown tool: ${params.name}` } };
+    }
+
+    // Tool failures are results with isError, so the model can see and correct them
+    try {
+      const args = validateArguments(tool.inputSchema, params.arguments);
+      const text = await tool.handler(args);
+      return { result: { content: [{ type: "text", text }] } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { result: { content: [{ type: "text", text: message }], isError: true } };
+    }
+  };
+
+  return async (message: unknown) => {
+    const request = message as JsonRpcMessage;
+    if (!request || typeof request !== "object" || typeof request.method !== "string") {
+      return {
+        jsonrpc: "2.0",
+        id: request?.id ?? null,
+        error: { code: INVALID_REQUEST, message: "Invalid request" },
+      };
+    }
+
+    // Notifications (no id) never get a response
+    if (request.id === undefined) {
+      return null;
+    }
+
+    const respond = (outcome: { result?: unknown; error?: { code: number; message: string } }) => ({
+      jsonrpc: "2.0" as const,
+      id: request.id ?? null,
+      ...outcome,
+    });
+    const params = request.params ?? {};
+
+    switch (request.method) {
+      case "initialize": {
+        const requested = String(params.protocolVersion ?? "");
+        return respond({
+          result: {
+            protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : SUPPORTED_PROTOCOL_VERSIONS[0],
+            capabilities: { tools: {} },
+            serverInfo: info,
+          },
+        });
+      }
+      case "ping":
+        return respond({ result: {} });
+      case "tools/list":
+        return respond({
+          result: {
+            tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+          },
+        });
+      case "tools/call":
+        return respond(await callTool(params));
+      default:
+        return respond({ error: { code: METHOD_NOT_FOUND, message: `Method not found: ${request.method}` } });
+    }
+  };
+}
+
+/**
+ * Serves MCP over stdin/stdout until stdin closes.
+ * Stdout carries only protocol messages; diagnostics go to stderr.
+ */
+export async function runStdioServer(info: ServerInfo, tools: McpTool[]): Promise<void> {
+  const handle = createMcpHandler(info, tools);
+  const encoder = new TextEncoder();
+  const write = async (response: JsonRpcResponse) => {
+    await Deno.stdout.write(encoder.encode(JSON.stringify(response) + "\n"));
+  };
+
+  const lines = Deno.stdin.readable
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new LineSplitStream());
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      await write({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+      continue;
+    }
+
+    try {
+      const response = await handle(message);
+      if (response) {
+        await write(response);
+      }
+    } catch (error) {
+      console.error(`blackboard mcp: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Splits a text stream into lines.
+ */
+class LineSplitStream extends TransformStream<string, string> {
+  constructor() {
+    let buffer = "";
+    super({
+      transform(chunk, controller) {
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          controller.enqueue(line.replace(/\r$/, ""));
+        }
+      },
+      flush(controller) {
+        if (buffer) controller.enqueue(buffer);
+      },
+    });
+  }
+}
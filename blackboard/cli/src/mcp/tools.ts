@@ -0,0 +1,380 @@
+/**
+ * Blackboard tools for the MCP server. Each tool is a typed wrapper over the
+ * same query functions the CLI uses, so agents no longer need hand-written SQL.
+ *
+ * Tools act on a thread's current plan. The thread comes from the `thread`
+ * argument, else the server's default thread, else the current thread.
+ */
+
+import {
+  getCurrentThread,
+  resolveThread,
+  getPlanById,
+  updatePlanStatus,
+  getStepsForPlan,
+  getStepById,
+  insertStep,
+  reorderStepsForPlan,
+  updateStepStatus,
+  updateStepDescription,
+  updateStepCriteria,
+  fillStepCriteriaFromPlan,
+  insertBreadcrumb,
+  insertBugReport,
+  insertCorrection,
+  touchThread,
+} from "../db/queries.ts";
+import {
+  searchBlackboard,
+  SEARCH_ENTITY_TYPES,
+  type SearchEntityType,
+} from "../db/search-queries.ts";
+import {
+  generateContextPacket,
+  generateContextJson,
+  DEFAULT_CONTEXT_MAX_TOKENS,
+} from "../commands/thread.ts";
+import { recordCommitLink } from "../db/commit-queries.ts";
+import { resolveCommit } from "../services/commit-links.ts";
+import {
+  completeStep,
+  defaultVerifyDir,
+  describeVerificationFailure,
+  verifyPlanCompletion,
+} from "../services/verification.ts";
+import { parseSince } from "../utils/time.ts";
+import { ToolError } from "./schema.ts";
+import type { McpTool } from "./server.ts";
+import type { Plan, PlanStep, StepStatus, Thread } from "../types/schema.ts";
+
+const STEP_STATUSES: readonly StepStatus[] = ["pending", "in_progress", "completed", "failed", "skipped"];
+
+const THREAD_ARG = {
+  type: "string",
+  description: "Thread name or ID (defaults to the server's thread, then the most recently active thread)",
+} as const;
+
+const STEP_ARG = {
+  type: "string",
+  description: "Step ID, or its 1-based position in the plan",
+} as const;
+
+const ACCEPTANCE_ARG = {
+  type: "string",
+  description: "What done looks like for the step (empty string clears)",
+} as const;
+
+const VERIFY_ARG = {
+  type: "string",
+  description: "Shell command that must pass before the step counts as completed (empty string clears)",
+} as const;
+
+/**
+ * Builds the blackboard tool set.
+ *
+ * @param defaultThread - Thread name or ID used when a call doesn't name one
+ * @param verifyDir - Checkout step and plan verification commands run in
+ *   (default: CLAUDE_PROJECT_DIR, else the current directory)
+ */
+export function createBlackboardTools(defaultThread?: string, verifyDir = defaultVerifyDir()): McpTool[] {
+  const requireThread = (ref: unknown): Thread => {
+    const name = (ref as string | undefined) ?? defaultThread;
+    const thread = name ? resolveThread(name) : getCurrentThread();
+    if (!thread) {
+      throw new ToolError(name ? `Thread "${name}" not found` : "No thread given and no current thread");
+    }
+    return thread;
+  };
+
+  const requirePlan = (thread: Thread): Plan => {
+    const plan = thread.current_plan_id ? getPlanById(thread.current_plan_id) : null;
+    if (!plan) {
+      throw new ToolError(`Thread "${thread.name}" has no plan`);
+    }
+    return plan;
+  };
+
+  const resolveStep = (ref: string, plan: Plan): PlanStep => {
+    const byId = getStepById(ref);
+    if (byId && byId.plan_id === plan.id) return byId;
+
+    const byPosition = /^\d+$/.test(ref)
+      ? getStepsForPlan(plan.id).find((s) => s.step_order === parseInt(ref, 10))
+      : undefined;
+    if (!byPosition) {
+      throw new ToolError(`Step "${ref}" not found in the plan`);
+    }
+    return byPosition;
+  };
+
+  const formatStep = (step: PlanStep) => `${step.step_order}. [${step.status}] ${step.description} (${step.id})`;
+
+  return [
+    {
+      name: "record_crumb",
+      description: "Record a breadcrumb: what was just done, so later sessions and workers can pick up from here.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          summary: { type: "string", description: "What was accomplished" },
+          step: STEP_ARG,
+          files: { type: "array", items: { type: "string" }, description: "Files touched" },
+          issues: { type: "string", description: "Problems encountered" },
+          next_context: { type: "string", description: "What the next agent should know" },
+          agent_type: { type: "string", description: "Who is recording (default: implementer)" },
+          commit: { type: "string", description: "Git commit to link to this breadcrumb and its step (SHA or e.g. HEAD)" },
+          thread: THREAD_ARG,
+        },
+        required: ["summary"],
+        additionalProperties: false,
+      },
+      handler: (args) => {
+        const thread = requireThread(args.thread);
+        const plan = requirePlan(thread);
+        const step = args.step ? resolveStep(args.step as string, plan) : null;
+        const commit = args.commit ? resolveCommit(args.commit as string) : null;
+        if (args.commit && !commit) {
+          throw new ToolError(`Unknown commit "${args.commit}"`);
+        }
+
+        const id = insertBreadcrumb({
+          plan_id: plan.id,
+          step_id: step?.id ?? null,
+          agent_type: (args.agent_type as string | undefined) ?? "implementer",
+          summary: args.summary as string,
+          files_touched: (args.files as string[] | undefined)?.join(",") ?? null,
+          issues: (args.issues as string | undefined) ?? null,
+          next_context: (args.next_context as string | undefined) ?? null,
+        });
+        if (commit) {
+          recordCommitLink({ ...commit, thread_id: thread.id, plan_id: plan.id, step_id: step?.id ?? null, breadcrumb_id: id });
+        }
+        touchThread(thread.id);
+        return `Breadcrumb ${id} recorded on thread "${thread.name}"`;
+      },
+    },
+    {
+      name: "update_step",
+      description: "Update a plan step's status, description, acceptance criteria or verify command. Completing a step with a verify command runs it first; if it fails, the step is marked failed and the output is returned.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          step: STEP_ARG,
+          status: { type: "string", enum: STEP_STATUSES },
+          description: { type: "string" },
+          acceptance_criteria: ACCEPTANCE_ARG,
+          verify_command: VERIFY_ARG,
+          thread: THREAD_ARG,
+        },
+        required: ["step"],
+        additionalProperties: false,
+      },
+      handler: async (args) => {
+        if (!args.status && !args.description && args.acceptance_criteria === undefined && args.verify_command === undefined) {
+          throw new ToolError("Provide status, description, acceptance_criteria or verify_command");
+        }
+        const step = resolveStep(args.step as string, requirePlan(requireThread(args.thread)));
+
+        if (args.description) updateStepDescription(step.id, args.description as string);
+        if (args.acceptance_criteria !== undefined || args.verify_command !== undefined) {
+          updateStepCriteria(step.id, {
+            acceptance_criteria: args.acceptance_criteria === undefined ? undefined : (args.acceptance_criteria as string) || null,
+            verify_command: args.verify_command === undefined ? undefined : (args.verify_command as string) || null,
+          });
+        }
+        if (args.status === "completed") {
+          const verification = await completeStep(getStepById(step.id)!, verifyDir);
+          if (verification && !verification.passed) {
+            throw new ToolError(`Step marked failed. ${describeVerificationFailure(verification)}`);
+          }
+        } else if (args.status) {
+          updateStepStatus(step.id, args.status as StepStatus);
+        }
+        return `Updated step ${formatStep(getStepById(step.id)!)}`;
+      },
+    },
+    {
+      name: "add_step",
+      description: "Add a step to the thread's plan, at the end or at a given position.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          description: { type: "string" },
+          position: { type: "integer", minimum: 1, description: "1-based position (default: append)" },
+          status: { type: "string", enum: STEP_STATUSES },
+          acceptance_criteria: ACCEPTANCE_ARG,
+          verify_command: VERIFY_ARG,
+          thread: THREAD_ARG,
+        },
+        required: ["description"],
+        additionalProperties: false,
+      },
+      handler: (args) => {
+        const plan = requirePlan(requireThread(args.thread));
+        const steps = getStepsForPlan(plan.id);
+        const position = args.position as number | undefined;
+        if (position !== undefined && position > steps.length + 1) {
+          throw new ToolError(`Position must be between 1 and ${steps.length + 1}`);
+        }
+
+        const stepId = insertStep(plan.id, {
+          description: args.description as string,
+          status: args.status as StepStatus | undefined,
+          acceptance_criteria: (args.acceptance_criteria as string | undefined) || null,
+          verify_command: (args.verify_command as string | undefined) || null,
+        });
+        if (position !== undefined) {
+          const order = steps.map((s) => s.id);
+          order.splice(position - 1, 0, stepId);
+          reorderStepsForPlan(plan.id, order);
+        }
+        fillStepCriteriaFromPlan(plan.id);
+        return `Added step ${formatStep(getStepById(stepId)!)}`;
+      },
+    },
+    {
+      name: "file_bug",
+      description: "File a bug report for a blocker or defect found while working.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          repro_steps: { type: "string", description: "How to reproduce" },
+          evidence: { type: "string", description: "Error output, logs, etc." },
+          thread: THREAD_ARG,
+        },
+        required: ["title", "repro_steps"],
+        additionalProperties: false,
+      },
+      handler: (args) => {
+        const thread = requireThread(args.thread);
+        const id = insertBugReport({
+          plan_id: thread.current_plan_id,
+          title: args.title as string,
+          repro_steps: args.repro_steps as string,
+          evidence: (args.evidence as string | undefined) ?? null,
+          status: "open",
+        });
+        return `Bug report ${id} filed on thread "${thread.name}"`;
+      },
+    },
+    {
+      name: "record_correction",
+      description: "Record a mistake and its fix, so future sessions are warned about it as a known pitfall.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          mistake: { type: "string", description: "What went wrong" },
+          symptoms: { type: "string", description: "How it showed up (errors, behaviour)" },
+          resolution: { type: "string", description: "The correct approach" },
+          tags: { type: "array", items: { type: "string" } },
+          thread: THREAD_ARG,
+        },
+        required: ["mistake"],
+        additionalProperties: false,
+      },
+      handler: (args) => {
+        const thread = requireThread(args.thread);
+        insertCorrection({
+          plan_id: thread.current_plan_id,
+          mistake: args.mistake as string,
+          symptoms: (args.symptoms as string | undefined) ?? null,
+          resolution: (args.resolution as string | undefined) ?? null,
+          tags: (args.tags as string[] | undefined)?.join(",") ?? null,
+        });
+        return `Correction recorded on thread "${thread.name}"`;
+      },
+    },
+    {
+      name: "get_context_packet",
+      description: "Get the thread's context packet: plan, steps, recent breadcrumbs, open bugs and known pitfalls.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          max_tokens: {
+            type: "integer",
+            minimum: 1,
+            description: `Approximate token budget (default: ${DEFAULT_CONTEXT_MAX_TOKENS})`,
+          },
+          format: { type: "string", enum: ["markdown", "json"], description: "Default: markdown" },
+          thread: THREAD_ARG,
+        },
+        additionalProperties: false,
+      },
+      handler: (args) => {
+        const thread = requireThread(args.thread);
+        const options = { maxTokens: (args.max_tokens as number | undefined) ?? DEFAULT_CONTEXT_MAX_TOKENS };
+        return args.format === "json"
+          ? JSON.stringify(generateContextJson(thread, options), null, 2)
+          : generateContextPacket(thread, options);
+      },
+    },
+    {
+      name: "complete_plan",
+      description: "Mark the thread's plan as completed. Refuses while steps are unfinished unless force is set, and runs the thread's verification commands first; if one fails, the plan stays in progress and the output is returned.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          force: { type: "boolean", description: "Complete even if some steps are not completed or skipped" },
+          thread: THREAD_ARG,
+        },
+        additionalProperties: false,
+      },
+      handler: async (args) => {
+        const thread = requireThread(args.thread);
+        const plan = requirePlan(thread);
+        const unfinished = getStepsForPlan(plan.id)
+          .filter((s) => s.status !== "completed" && s.status !== "skipped");
+        if (unfinished.length > 0 && !args.force) {
+          throw new ToolError(
+            `${unfinished.length} step(s) not finished:\n${unfinished.map(formatStep).join("\n")}\n` +
+              "Finish or skip them, or pass force: true"
+          );
+        }
+
+        const verification = await verifyPlanCompletion(thread, plan.id, verifyDir);
+        if (verification && !verification.passed) {
+          throw new ToolError(`Plan not completed. ${describeVerificationFailure(verification)}`);
+        }
+        updatePlanStatus(plan.id, "completed");
+        touchThread(thread.id);
+        return `Plan for thread "${thread.name}" marked completed`;
+      },
+    },
+    {
+      name: "search",
+      description: "Full-text search across plans, breadcrumbs, reflections, corrections, bug reports and next-ups.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          terms: { type: "string", description: "Search terms; quote phrases" },
+          types: { type: "array", items: { type: "string", enum: SEARCH_ENTITY_TYPES } },
+          thread: { type: "string", description: "Only results from this thread" },
+          since: { type: "string", description: "Only results since, e.g. 24h, 7d, 2026-01-25" },
+          limit: { type: "integer", minimum: 1, description: "Maximum results (default: 20)" },
+        },
+        required: ["terms"],
+        additionalProperties: false,
+      },
+      handler: (args) => {
+        const since = args.since ? parseSince(args.since as string) : undefined;
+        if (since === null) {
+          throw new ToolError(`Invalid since value "${args.since}" (use e.g. 30m, 24h, 7d, 2026-01-25)`);
+        }
+
+        const results = searchBlackboard(args.terms as string, {
+          types: args.types as SearchEntityType[] | undefined,
+          threadId: args.thread ? requireThread(args.thread).id : undefined,
+          since,
+          limit: args.limit as number | undefined,
+        });
+        if (results.length === 0) {
+          return "No matches";
+        }
+        return results
+          .map((r) => `[${r.type}] ${r.title}${r.thread_name ? ` (thread: ${r.thread_name})` : ""} ${r.id}\n  ${r.snippet}`)
+          .join("\n");
+      },
+    },
+  ];
+}
@@ -0,0 +1,117 @@
+/**
+ * Server-Sent Events stream of new worker events and breadcrumbs.
+ * Polls the database, since writers are other processes (workers, hooks).
+ *
+ * Each message's id is "<worker event id>:<breadcrumb seq>", so a client
+ * that reconnects with Last-Event-ID resumes where it left off.
+ */
+
+import { getLatestWorkerEventId, getWorkerEventsAfter } from "../db/worker-queries.ts";
+import { getBreadcrumbsAfter, getLatestBreadcrumbSeq } from "../db/queries.ts";
+import { HttpError } from "./router.ts";
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const BATCH_SIZE = 200;
+
+const EVENT_TYPES = ["worker_event", "breadcrumb"] as const;
+type StreamEventType = typeof EVENT_TYPES[number];
+
+interface Cursor {
+  workerEventId: number;
+  breadcrumbSeq: number;
+}
+
+/**
+ * Parses a Last-Event-ID header value.
+ */
+function parseCursor(value: string | null): Cursor | null {
+  const match = value?.match(/^(\d+):(\d+)$/);
+  if (!match) return null;
+  return { workerEventId: Number(match[1]), breadcrumbSeq: Number(match[2]) };
+}
+
+/**
+ * Creates the `GET /api/events` response.
+ *
+ * Query parameters:
+ * - `types`: comma-separated subset of worker_event,breadcrumb (default: both)
+ * - `worker`: only worker events from this worker
+ * - `since=start`: replay from the beginning instead of only new events
+ */
+export function createEventStream(request: Request, query: URLSearchParams): Response {
+  const types = new Set<StreamEventType>();
+  for (const type of (query.get("types") ?? EVENT_TYPES.join(",")).split(",")) {
+    if (!EVENT_TYPES.includes(type as StreamEventType)) {
+      throw new HttpError(400, `Unknown event type "${type}" (expected ${EVENT_TYPES.join(", ")})`);
+    }
+    types.add(type as StreamEventType);
+  }
+  const workerFilter = query.get("worker");
+
+  const cursor: Cursor = parseCursor(request.headers.get("last-event-id")) ??
+    (query.get("since") === "start"
+      ? { workerEventId: 0, breadcrumbSeq: 0 }
+      : { workerEventId: getLatestWorkerEventId(), breadcrumbSeq: getLatestBreadcrumbSeq() });
+
+  const encoder = new TextEncoder();
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    clearInterval(pollTimer);
+    clearInterval(heartbeatTimer);
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          stop(); // Client went away
+        }
+      };
+      const sendEvent = (type: StreamEventType, data: unknown) => {
+        const id = `${cursor.workerEventId}:${cursor.breadcrumbSeq}`;
+        send(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const poll = () => {
+        try {
+          for (const event of getWorkerEventsAfter(cursor.workerEventId, BATCH_SIZE)) {
+            cursor.workerEventId = event.id;
+            if (types.has("worker_event") && (!workerFilter || event.worker_id === workerFilter)) {
+              sendEvent("worker_event", event);
+            }
+          }
+          for (const crumb of getBreadcrumbsAfter(cursor.breadcrumbSeq, BATCH_SIZE)) {
+            cursor.breadcrumbSeq = crumb.seq;
+            if (types.has("breadcrumb")) {
+              sendEvent("breadcrumb", crumb);
+            }
+          }
+        } catch (error) {
+          // Keep the stream open - the database may be briefly locked by a writer
+          const message = error instanceof Error ? error.message : String(error);
+          send(`event: error\ndata: ${JSON.stringify({ error: message })}\n\n`);
+        }
+      };
+
+      send(`retry: ${POLL_INTERVAL_MS * 3}\n\n`);
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      heartbeatTimer = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+      request.signal.addEventListener("abort", stop);
+    },
+    cancel: stop,
+  });
+
+  return new Response(body, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache",
+      "connection": "keep-alive",
+    },
+  });
+}
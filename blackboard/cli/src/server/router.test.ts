@@ -0,0 +1,59 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createRouter, HttpError, json, matchPath, readJsonBody } from "./router.ts";
+
+Deno.test("matchPath - matches literal segments and decodes params", () => {
+  assertEquals(matchPath("/api/threads", "/api/threads"), {});
+  assertEquals(matchPath("/api/threads", "/api/threads/"), {});
+  assertEquals(matchPath("/api/threads/:name/steps", "/api/threads/my%20thread/steps"), {
+    name: "my thread",
+  });
+});
+
+Deno.test("matchPath - rejects different shapes", () => {
+  assertEquals(matchPath("/api/threads/:name", "/api/threads"), null);
+  assertEquals(matchPath("/api/threads/:name", "/api/drones/x"), null);
+  assertEquals(matchPath("/api/threads/:name", "/api/threads/%E0%A4%A"), null);
+});
+
+Deno.test("createRouter - dispatches, 404s and 405s", async () => {
+  const router = createRouter([
+    { method: "GET", pattern: "/api/things/:id", handler: ({ params }) => json({ id: params.id }) },
+    { method: "DELETE", pattern: "/api/things/:id", handler: () => { throw new HttpError(404, "gone"); } },
+  ]);
+
+  const ok = await router(new Request("http://localhost/api/things/42"));
+  assertEquals(await ok.json(), { id: "42" });
+
+  const missing = await router(new Request("http://localhost/api/things/42", { method: "DELETE" }));
+  assertEquals(missing.status, 404);
+  assertEquals(await missing.json(), { error: "gone" });
+
+  const notAllowed = await router(new Request("http://localhost/api/things/42", { method: "PUT" }));
+  assertEquals(notAllowed.status, 405);
+  assertEquals(notAllowed.headers.get("allow"), "GET, DELETE");
+  await notAllowed.body?.cancel();
+
+  const notFound = await router(new Request("http://localhost/nope"));
+  assertEquals(notFound.status, 404);
+  await notFound.body?.cancel();
+});
+
+Deno.test("createRouter - writes need a JSON body and a local host", async () => {
+  const router = createRouter(
+    [{ method: "POST", pattern: "/api/things", handler: async ({ request }) => json(await readJsonBody(request), 201) }],
+    { allowedHosts: ["localhost", "127.0.0.1"] }
+  );
+  const post = (url: string, contentType: string) =>
+    router(new Request(url, { method: "POST", headers: { "content-type": contentType }, body: '{"name":"x"}' }));
+
+  const created = await post("http://127.0.0.1:7878/api/things", "application/json; charset=utf-8");
+  assertEquals([created.status, await created.json()], [201, { name: "x" }]);
+
+  const plain = await post("http://localhost/api/things", "text/plain");
+  assertEquals(plain.status, 415);
+  await plain.body?.cancel();
+
+  const rebound = await post("http://attacker.example/api/things", "application/json");
+  assertEquals(rebound.status, 403);
+  await rebound.body?.cancel();
+});
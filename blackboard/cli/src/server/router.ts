@@ -0,0 +1,163 @@
+/**
+ * Minimal JSON router for the HTTP API.
+ * Routes are matched on method and a path pattern with `:param` segments.
+ */
+
+export interface RouteContext {
+  request: Request;
+  /** Decoded `:param` segments from the path */
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+export type RouteHandler = (ctx: RouteContext) => Response | Promise<Response>;
+
+export interface Route {
+  method: string;
+  pattern: string;
+  handler: RouteHandler;
+}
+
+/**
+ * Raised by handlers to return an error response with a specific status.
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Matches a path against a pattern like `/api/threads/:name/steps`.
+ *
+ * @param pattern - Path pattern with `:param` segments
+ * @param pathname - Request path
+ * @returns Decoded params, or null if the path doesn't match
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = pathname.split("/").filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (part.startsWith(":")) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
+    } else if (part !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Builds a JSON response.
+ *
+ * @param data - Response body
+ * @param status - HTTP status (default: 200)
+ */
+export function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data, null, 2) + "\n", {
+    status,
+    headers: { "content-type": "application/json; charset=utf-8" },
+  });
+}
+
+/** Methods whose requests carry a JSON body */
+const BODY_METHODS = ["POST", "PUT", "PATCH"];
+
+/**
+ * Whether a request says its body is JSON. Browsers only send this
+ * content type cross-site after a CORS preflight, so requiring it keeps
+ * other sites' form and text/plain posts from writing to the database.
+ */
+function isJsonRequest(request: Request): boolean {
+  const mediaType = request.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  return mediaType === "application/json";
+}
+
+/**
+ * Reads a request's JSON object body.
+ *
+ * @throws HttpError 415 if the Content-Type isn't application/json, 400 if
+ *   the body is not a JSON object
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  if (!isJsonRequest(request)) {
+    throw new HttpError(415, "Content-Type must be application/json");
+  }
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+export interface RouterOptions {
+  /**
+   * Host names requests may be addressed to. Others get 403, so a page on
+   * a rebound DNS name can't reach the API. Default: any.
+   */
+  allowedHosts?: string[];
+}
+
+/**
+ * Creates a request handler that dispatches to the first matching route.
+ * Unknown paths get 404, known paths with the wrong method get 405, writes
+ * without a JSON Content-Type get 415, and errors become
+ * `{ "error": message }` responses.
+ */
+export function createRouter(
+  routes: Route[],
+  options: RouterOptions = {}
+): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    const url = new URL(request.url);
+    const allowed: string[] = [];
+
+    if (options.allowedHosts && !options.allowedHosts.includes(url.hostname)) {
+      return json({ error: `Host ${url.hostname} not allowed` }, 403);
+    }
+
+    for (const route of routes) {
+      const params = matchPath(route.pattern, url.pathname);
+      if (!params) continue;
+      if (route.method !== request.method) {
+        allowed.push(route.method);
+        continue;
+      }
+
+      if (BODY_METHODS.includes(request.method) && !isJsonRequest(request)) {
+        return json({ error: "Content-Type must be application/json" }, 415);
+      }
+
+      try {
+        return await route.handler({ request, params, query: url.searchParams });
+      } catch (error) {
+        if (error instanceof HttpError) {
+          return json({ error: error.message }, error.status);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return json({ error: message }, 500);
+      }
+    }
+
+    if (allowed.length > 0) {
+      const response = json({ error: `Method ${request.method} not allowed` }, 405);
+      response.headers.set("allow", allowed.join(", "));
+      return response;
+    }
+    return json({ error: `Not found: ${url.pathname}` }, 404);
+  };
+}
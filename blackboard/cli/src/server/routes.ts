@@ -0,0 +1,578 @@
+/**
+ * REST routes for `blackboard serve`.
+ * Thin JSON wrappers over the query layer - every write goes through the
+ * same query functions the CLI and TUI use.
+ */
+
+import {
+  resolveThread,
+  listThreads,
+  insertThread,
+  updateThread,
+  getPlanById,
+  insertPlan,
+  updatePlanMarkdown,
+  getStepsForPlan,
+  getStepDependencies,
+  getStepById,
+  insertStep,
+  updateStepStatus,
+  updateStepDescription,
+  getRecentBreadcrumbs,
+  insertBreadcrumb,
+  getThreadPrerequisites,
+  listBugReports,
+  getBugReportById,
+  insertBugReport,
+  updateBugReportStatus,
+  listNextUps,
+  getNextUpById,
+  insertNextUp,
+  updateNextUp,
+  archiveNextUp,
+  deleteNextUp,
+} from "../db/queries.ts";
+import {
+  getActiveWorkers,
+  getWorkersForThread,
+  getWorkerEvents,
+} from "../db/worker-queries.ts";
+import {
+  getDrone,
+  listDrones,
+  createDrone,
+  updateDrone,
+  archiveDrone,
+  listDroneSessions,
+  type UpdateDroneData,
+} from "../db/drone-queries.ts";
+import { generateId } from "../utils/id.ts";
+import { getCurrentGitBranch } from "../utils/git.ts";
+import { computeStepReadiness } from "../utils/step-graph.ts";
+import { completeStep, defaultVerifyDir, describeVerificationFailure } from "../services/verification.ts";
+import { HttpError, json, readJsonBody, type Route, type RouteContext } from "./router.ts";
+import { createEventStream } from "./events.ts";
+import type {
+  BugReportStatus,
+  DroneStatus,
+  Plan,
+  StepStatus,
+  Thread,
+  ThreadStatus,
+} from "../types/schema.ts";
+
+const KEBAB_CASE = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+const THREAD_STATUSES: ThreadStatus[] = ["active", "paused", "completed", "archived"];
+const STEP_STATUSES: StepStatus[] = ["pending", "in_progress", "completed", "failed", "skipped"];
+const BUG_STATUSES: BugReportStatus[] = ["open", "resolved", "wontfix"];
+const DRONE_STATUSES: DroneStatus[] = ["active", "paused", "archived"];
+
+// ============================================================================
+// Request helpers
+// ============================================================================
+
+type Body = Record<string, unknown>;
+
+function optionalString(body: Body, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new HttpError(400, `"${key}" must be a string`);
+  }
+  return value;
+}
+
+function requireString(body: Body, key: string): string {
+  const value = optionalString(body, key);
+  if (!value) {
+    throw new HttpError(400, `"${key}" is required`);
+  }
+  return value;
+}
+
+function optionalNumber(body: Body, key: string): number | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, `"${key}" must be a non-negative integer`);
+  }
+  return value;
+}
+
+function optionalStatus<T extends string>(value: unknown, allowed: T[], key = "status"): T | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new HttpError(400, `"${key}" must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function queryLimit(ctx: RouteContext, fallback: number): number {
+  const raw = ctx.query.get("limit");
+  if (raw === null) return fallback;
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new HttpError(400, "limit must be a positive integer");
+  }
+  return limit;
+}
+
+function requireThread(nameOrId: string): Thread {
+  const thread = resolveThread(nameOrId);
+  if (!thread) {
+    throw new HttpError(404, `Thread "${nameOrId}" not found`);
+  }
+  return thread;
+}
+
+function requirePlan(thread: Thread): Plan {
+  const plan = thread.current_plan_id ? getPlanById(thread.current_plan_id) : null;
+  if (!plan) {
+    throw new HttpError(404, `Thread "${thread.name}" has no plan`);
+  }
+  return plan;
+}
+
+function stepsWithReadiness(planId: string) {
+  const steps = getStepsForPlan(planId);
+  const dependencies = getStepDependencies(planId);
+  const readiness = computeStepReadiness(steps, dependencies);
+  return steps.map((step) => ({
+    ...step,
+    depends_on: dependencies.filter((d) => d.step_id === step.id).map((d) => d.depends_on),
+    readiness: readiness.get(step.id) ?? null,
+  }));
+}
+
+// ============================================================================
+// Threads, plans and steps
+// ============================================================================
+
+const threadRoutes: Route[] = [
+  {
+    method: "GET",
+    pattern: "/api/threads",
+    handler: (ctx) => {
+      const status = optionalStatus(ctx.query.get("status"), THREAD_STATUSES);
+      return json(listThreads(status, queryLimit(ctx, 100)));
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/threads",
+    handler: async (ctx) => {
+      const body = await readJsonBody(ctx.request);
+      const name = requireString(body, "name");
+      if (!KEBAB_CASE.test(name)) {
+        throw new HttpError(400, "Thread name must be kebab-case (lowercase letters, numbers, hyphens)");
+      }
+      if (resolveThread(name)) {
+        throw new HttpError(409, `Thread "${name}" already exists`);
+      }
+
+      insertThread({
+        id: generateId(),
+        name,
+        current_plan_id: null,
+        git_branches: getCurrentGitBranch(),
+        status: "active",
+      });
+      return json(requireThread(name), 201);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/threads/:name",
+    handler: ({ params }) => {
+      const thread = requireThread(params.name);
+      const plan = thread.current_plan_id ? getPlanById(thread.current_plan_id) : null;
+      return json({
+        thread,
+        plan,
+        steps: plan ? stepsWithReadiness(plan.id) : [],
+        breadcrumbs: plan ? getRecentBreadcrumbs(plan.id, 10) : [],
+        depends_on: getThreadPrerequisites(thread.id).map((t) => ({ name: t.name, status: t.status })),
+        workers: getWorkersForThread(thread.id),
+      });
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/api/threads/:name",
+    handler: async (ctx) => {
+      const thread = requireThread(ctx.params.name);
+      const body = await readJsonBody(ctx.request);
+      const status = optionalStatus(body.status, THREAD_STATUSES);
+      if (status) {
+        updateThread(thread.id, { status });
+      }
+      return json(requireThread(thread.id));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/threads/:name/plan",
+    handler: ({ params }) => json(requirePlan(requireThread(params.name))),
+  },
+  {
+    method: "PUT",
+    pattern: "/api/threads/:name/plan",
+    handler: async (ctx) => {
+      const thread = requireThread(ctx.params.name);
+      const body = await readJsonBody(ctx.request);
+      const markdown = requireString(body, "markdown");
+      const author = {
+        type: "human" as const,
+        name: optionalString(body, "author") ?? "api",
+        reason: optionalString(body, "reason"),
+      };
+
+      if (thread.current_plan_id) {
+        const changed = updatePlanMarkdown(thread.current_plan_id, markdown, author);
+        return json({ ...requirePlan(thread), changed });
+      }
+
+      const planId = generateId();
+      insertPlan({
+        id: planId,
+        status: "accepted",
+        description: markdown.split("\n")[0]?.replace(/^#\s*/, "").trim() || "Untitled",
+        plan_markdown: markdown,
+        session_id: null,
+        thread_id: thread.id,
+      }, author);
+      updateThread(thread.id, { current_plan_id: planId });
+      return json({ ...getPlanById(planId), changed: true }, 201);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/threads/:name/steps",
+    handler: ({ params }) => {
+      const thread = requireThread(params.name);
+      return json(thread.current_plan_id ? stepsWithReadiness(thread.current_plan_id) : []);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/threads/:name/steps",
+    handler: async (ctx) => {
+      const plan = requirePlan(requireThread(ctx.params.name));
+      const body = await readJsonBody(ctx.request);
+      const stepId = insertStep(plan.id, {
+        description: requireString(body, "description"),
+        status: optionalStatus(body.status, STEP_STATUSES),
+        step_order: optionalNumber(body, "step_order"),
+      });
+      return json(getStepById(stepId), 201);
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/api/steps/:id",
+    handler: async (ctx) => {
+      const step = getStepById(ctx.params.id);
+      if (!step) {
+        throw new HttpError(404, `Step "${ctx.params.id}" not found`);
+      }
+      const body = await readJsonBody(ctx.request);
+      const status = optionalStatus(body.status, STEP_STATUSES);
+      const description = optionalString(body, "description");
+      if (description) updateStepDescription(step.id, description);
+      if (status === "completed") {
+        // Completed only once the step's verify command passes
+        const verification = await completeStep(step, defaultVerifyDir());
+        if (verification && !verification.passed) {
+          throw new HttpError(422, `Step marked failed. ${describeVerificationFailure(verification)}`);
+        }
+      } else if (status) {
+        updateStepStatus(step.id, status);
+      }
+      return json(getStepById(step.id));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/threads/:name/crumbs",
+    handler: (ctx) => {
+      const thread = requireThread(ctx.params.name);
+      const limit = queryLimit(ctx, 20);
+      return json(thread.current_plan_id ? getRecentBreadcrumbs(thread.current_plan_id, limit) : []);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/threads/:name/crumbs",
+    handler: async (ctx) => {
+      const plan = requirePlan(requireThread(ctx.params.name));
+      const body = await readJsonBody(ctx.request);
+      const stepId = optionalString(body, "step_id");
+      if (stepId && getStepById(stepId)?.plan_id !== plan.id) {
+        throw new HttpError(400, `Step "${stepId}" is not part of this thread's plan`);
+      }
+
+      const id = insertBreadcrumb({
+        plan_id: plan.id,
+        step_id: stepId ?? null,
+        agent_type: optionalString(body, "agent_type") ?? "implementer",
+        summary: requireString(body, "summary"),
+        files_touched: optionalString(body, "files_touched") ?? null,
+        issues: optionalString(body, "issues") ?? null,
+        next_context: optionalString(body, "next_context") ?? null,
+      });
+      return json({ id }, 201);
+    },
+  },
+];
+
+// ============================================================================
+// Bugs and next-ups
+// ============================================================================
+
+const bugRoutes: Route[] = [
+  {
+    method: "GET",
+    pattern: "/api/bugs",
+    handler: (ctx) => {
+      const status = optionalStatus(ctx.query.get("status"), BUG_STATUSES);
+      return json(listBugReports(status, queryLimit(ctx, 50)));
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/bugs",
+    handler: async (ctx) => {
+      const body = await readJsonBody(ctx.request);
+      const threadName = optionalString(body, "thread");
+      const planId = threadName ? requireThread(threadName).current_plan_id : null;
+
+      const id = insertBugReport({
+        plan_id: planId,
+        title: requireString(body, "title"),
+        repro_steps: requireString(body, "repro_steps"),
+        evidence: optionalString(body, "evidence") ?? null,
+        status: "open",
+      });
+      return json(getBugReportById(id), 201);
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/api/bugs/:id",
+    handler: async (ctx) => {
+      if (!getBugReportById(ctx.params.id)) {
+        throw new HttpError(404, `Bug report "${ctx.params.id}" not found`);
+      }
+      const body = await readJsonBody(ctx.request);
+      const status = optionalStatus(body.status, BUG_STATUSES);
+      if (status) updateBugReportStatus(ctx.params.id, status);
+      return json(getBugReportById(ctx.params.id));
+    },
+  },
+];
+
+function requireNextUp(id: string) {
+  const nextUp = getNextUpById(id);
+  if (!nextUp) {
+    throw new HttpError(404, `Next-up "${id}" not found`);
+  }
+  return nextUp;
+}
+
+const nextUpRoutes: Route[] = [
+  {
+    method: "GET",
+    pattern: "/api/next-ups",
+    handler: (ctx) => json(listNextUps(ctx.query.get("archived") === "true")),
+  },
+  {
+    method: "POST",
+    pattern: "/api/next-ups",
+    handler: async (ctx) => {
+      const body = await readJsonBody(ctx.request);
+      const id = insertNextUp({
+        title: requireString(body, "title"),
+        content: optionalString(body, "content") ?? "",
+        is_template: body.is_template ? 1 : 0,
+        status: "active",
+      });
+      return json(requireNextUp(id), 201);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/next-ups/:id",
+    handler: ({ params }) => json(requireNextUp(params.id)),
+  },
+  {
+    method: "PATCH",
+    pattern: "/api/next-ups/:id",
+    handler: async (ctx) => {
+      const nextUp = requireNextUp(ctx.params.id);
+      const body = await readJsonBody(ctx.request);
+      updateNextUp(nextUp.id, {
+        title: optionalString(body, "title"),
+        content: optionalString(body, "content"),
+        is_template: body.is_template === undefined ? undefined : body.is_template ? 1 : 0,
+      });
+      if (body.status === "archived") {
+        archiveNextUp(nextUp.id);
+      } else if (body.status !== undefined) {
+        throw new HttpError(400, `"status" can only be set to archived`);
+      }
+      return json(requireNextUp(nextUp.id));
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/next-ups/:id",
+    handler: ({ params }) => {
+      deleteNextUp(requireNextUp(params.id).id);
+      return new Response(null, { status: 204 });
+    },
+  },
+];
+
+// ============================================================================
+// Workers and drones
+// ============================================================================
+
+const workerRoutes: Route[] = [
+  {
+    method: "GET",
+    pattern: "/api/workers",
+    handler: () => json(getActiveWorkers()),
+  },
+  {
+    method: "GET",
+    pattern: "/api/workers/:id/events",
+    handler: (ctx) => {
+      const integerParam = (key: string): number | undefined => {
+        const raw = ctx.query.get(key);
+        if (raw === null) return undefined;
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < 0) {
+          throw new HttpError(400, `${key} must be a non-negative integer`);
+        }
+        return value;
+      };
+      return json(getWorkerEvents(ctx.params.id, {
+        limit: queryLimit(ctx, 200),
+        offset: integerParam("offset"),
+        iteration: integerParam("iteration"),
+        toolName: ctx.query.get("tool") ?? undefined,
+      }));
+    },
+  },
+];
+
+function requireDrone(nameOrId: string) {
+  const drone = getDrone(nameOrId);
+  if (!drone) {
+    throw new HttpError(404, `Drone "${nameOrId}" not found`);
+  }
+  return drone;
+}
+
+const droneRoutes: Route[] = [
+  {
+    method: "GET",
+    pattern: "/api/drones",
+    handler: (ctx) => json(listDrones({ status: optionalStatus(ctx.query.get("status"), DRONE_STATUSES) })),
+  },
+  {
+    method: "POST",
+    pattern: "/api/drones",
+    handler: async (ctx) => {
+      const body = await readJsonBody(ctx.request);
+      const name = requireString(body, "name");
+      if (!KEBAB_CASE.test(name)) {
+        throw new HttpError(400, "Drone name must be kebab-case (lowercase letters, numbers, hyphens)");
+      }
+      if (getDrone(name)) {
+        throw new HttpError(409, `Drone "${name}" already exists`);
+      }
+
+      const id = createDrone(name, requireString(body, "prompt"), {
+        maxIterations: optionalNumber(body, "max_iterations"),
+        timeoutMinutes: optionalNumber(body, "timeout_minutes"),
+        cooldownSeconds: optionalNumber(body, "cooldown_seconds"),
+      });
+      return json(getDrone(id), 201);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/drones/:name",
+    handler: (ctx) => {
+      const drone = requireDrone(ctx.params.name);
+      return json({ drone, sessions: listDroneSessions(drone.id, queryLimit(ctx, 10)) });
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/api/drones/:name",
+    handler: async (ctx) => {
+      const drone = requireDrone(ctx.params.name);
+      const body = await readJsonBody(ctx.request);
+      const updates: UpdateDroneData = {
+        prompt: optionalString(body, "prompt"),
+        max_iterations: optionalNumber(body, "max_iterations"),
+        timeout_minutes: optionalNumber(body, "timeout_minutes"),
+        cooldown_seconds: optionalNumber(body, "cooldown_seconds"),
+        status: optionalStatus(body.status, DRONE_STATUSES),
+      };
+      updateDrone(drone.id, updates);
+      return json(getDrone(drone.id));
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/drones/:name",
+    handler: ({ params }) => {
+      archiveDrone(requireDrone(params.name).id);
+      return new Response(null, { status: 204 });
+    },
+  },
+];
+
+// ============================================================================
+// Route table
+// ============================================================================
+
+/**
+ * Bumped when a route or response shape changes incompatibly.
+ */
+export const API_VERSION = 1;
+
+/**
+ * Builds the full route table for the API server.
+ */
+export function createApiRoutes(): Route[] {
+  const routes: Route[] = [
+    ...threadRoutes,
+    ...bugRoutes,
+    ...nextUpRoutes,
+    ...workerRoutes,
+    ...droneRoutes,
+    {
+      method: "GET",
+      pattern: "/api/events",
+      handler: ({ request, query }) => createEventStream(request, query),
+    },
+  ];
+
+  // Self-description, so clients can check what this server supports
+  routes.unshift({
+    method: "GET",
+    pattern: "/api",
+    handler: () => json({
+      name: "blackboard",
+      api_version: API_VERSION,
+      routes: routes.map((r) => `${r.method} ${r.pattern}`),
+    }),
+  });
+
+  return routes;
+}
@@ -0,0 +1,135 @@
+/**
+ * Commit linkage: records git commits against the thread, step, breadcrumb
+ * and worker they belong to. Used by `blackboard hook post-commit` (run
+ * from a git post-commit hook and from the worker loops) and by
+ * `blackboard crumb --commit`.
+ */
+
+import { getDb } from "../db/connection.ts";
+import { getStepsForPlan, getThreadById, getThreadByName } from "../db/queries.ts";
+import { recordCommitLink, type CommitLinkInput } from "../db/commit-queries.ts";
+import { getCommitInfo } from "../utils/git.ts";
+import type { Thread } from "../types/schema.ts";
+
+export type CommitContext = Omit<CommitLinkInput, "sha" | "subject" | "author" | "committed_at">;
+
+// How recent a step-tagged breadcrumb must be to attribute a commit to its step
+const RECENT_CRUMB_MINUTES = 10;
+
+/**
+ * Resolves a revision to the commit to record. A SHA git can't resolve
+ * (e.g. a commit in a worker's clone) is accepted as given.
+ *
+ * @param revision - Commit SHA or revision (e.g. HEAD)
+ * @param cwd - Repository directory (defaults to the current directory)
+ * @returns The commit, or null if the revision is neither resolvable nor a SHA
+ */
+export function resolveCommit(revision: string, cwd?: string): Pick<CommitLinkInput, "sha" | "subject" | "author" | "committed_at"> | null {
+  const info = getCommitInfo(revision, cwd);
+  if (info) {
+    return { sha: info.sha, subject: info.subject, author: info.author, committed_at: info.committedAt };
+  }
+  if (/^[0-9a-f]{7,40}$/i.test(revision)) {
+    return { sha: revision.toLowerCase() };
+  }
+  return null;
+}
+
+/**
+ * Records commits with the given links, reading author, date and subject
+ * from git.
+ *
+ * @param revisions - Commit SHAs or revisions
+ * @param context - Thread, plan, step, breadcrumb and worker to link
+ * @param options - fillOnly: keep what is already recorded (see recordCommitLink)
+ * @returns Full SHAs recorded
+ * @throws Error if a revision is neither resolvable nor a SHA
+ */
+export function linkCommits(
+  revisions: string[],
+  context: CommitContext,
+  options: { fillOnly?: boolean; cwd?: string } = {}
+): string[] {
+  const links: CommitLinkInput[] = revisions.map((revision) => {
+    const commit = resolveCommit(revision, options.cwd);
+    if (!commit) {
+      throw new Error(`Unknown commit "${revision}"`);
+    }
+    return { ...context, ...commit };
+  });
+
+  for (const link of links) {
+    recordCommitLink(link, { fillOnly: options.fillOnly });
+  }
+  return links.map((l) => l.sha);
+}
+
+/**
+ * Works out which thread, step and worker a new commit belongs to.
+ *
+ * The thread comes from the branch: `threads/<name>` for worker branches,
+ * otherwise a thread that has recorded the branch. The step is the plan's
+ * only in-progress step, or failing that the step of a breadcrumb recorded
+ * in the last few minutes. The worker is only linked if it exists.
+ *
+ * @param branch - Branch the commit was made on
+ * @param workerId - Worker ID from the environment, if any
+ * @returns Links to record; empty when nothing is known
+ */
+export function inferCommitContext(branch: string | null, workerId?: string): CommitContext {
+  const db = getDb();
+  const context: CommitContext = { branch };
+
+  if (workerId) {
+    const worker = db.prepare("SELECT id, thread_id FROM workers WHERE id = :workerId").get({ workerId }) as
+      | { id: string; thread_id: string | null }
+      | undefined;
+    if (worker) {
+      context.worker_id = worker.id;
+      context.thread_id = worker.thread_id;
+    }
+  }
+
+  let thread: Thread | null = null;
+  if (context.thread_id) {
+    thread = getThreadById(context.thread_id);
+  } else if (branch?.startsWith("threads/")) {
+    thread = getThreadByName(branch.slice("threads/".length));
+  } else if (branch) {
+    thread = (db.prepare(`
+      SELECT * FROM threads
+      WHERE ',' || git_branches || ',' LIKE '%,' || :branch || ',%'
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `).get({ branch }) as Thread | undefined) ?? null;
+  }
+
+  if (!thread) {
+    return context;
+  }
+  context.thread_id = thread.id;
+
+  if (!thread.current_plan_id) {
+    return context;
+  }
+  context.plan_id = thread.current_plan_id;
+
+  const inProgress = getStepsForPlan(thread.current_plan_id).filter((s) => s.status === "in_progress");
+  if (inProgress.length === 1) {
+    context.step_id = inProgress[0].id;
+  } else {
+    const crumb = db.prepare(`
+      SELECT step_id FROM breadcrumbs
+      WHERE plan_id = :planId
+        AND step_id IS NOT NULL
+        AND created_at > datetime('now', :window)
+      ORDER BY created_at DESC
+      LIMIT 1
+    `).get({ planId: thread.current_plan_id, window: `-${RECENT_CRUMB_MINUTES} minutes` }) as
+      | { step_id: string }
+      | undefined;
+    context.step_id = crumb?.step_id ?? null;
+  }
+
+  return context;
+}
@@ -14,8 +14,10 @@ import {
   dockerBuild,
   resolveDockerfile,
 } from "../docker/client.ts";
+import { runtimeUnavailableMessage, useRuntime } from "../docker/runtime.ts";
 import { getDb, resolveDbPath } from "../db/connection.ts";
 import { extractAndValidateOAuthToken } from "../utils/oauth.ts";
+import { loadConfig } from "../utils/config.ts";
 import { dirname, fromFileUrl, join } from "jsr:@std/path";
 import type { Drone, Worker } from "../types/schema.ts";
 
@@ -24,18 +26,26 @@ import type { Drone, Worker } from "../types/schema.ts";
 // ============================================================================
 
 export interface LaunchDroneOptions {
-  /** Override max iterations (defaults to drone config) */
+  /** Override max iterations (defaults to drone.max_iterations in the config files, then the drone's own) */
   maxIterations?: number;
   /** Override cooldown seconds (defaults to drone config) */
   cooldownSeconds?: number;
+  /** Override the session's cost budget in USD (defaults to drone config) */
+  maxCostUsd?: number;
+  /** Override the session's token budget (defaults to drone config) */
+  maxTokens?: number;
   /** API key for env auth mode */
   apiKey?: string;
-  /** Docker image name (defaults to blackboard-worker:latest) */
+  /** Container runtime (defaults to BLACKBOARD_RUNTIME, then docker) */
+  runtime?: string;
+  /** Docker image name (defaults to the image config key) */
   image?: string;
-  /** Memory limit (defaults to 1g) */
+  /** Memory limit (defaults to the drone.memory config key) */
   memory?: string;
-  /** Repository directory (defaults to cwd) */
+  /** Repository directory (defaults to the repo config key, then cwd) */
   repoDir?: string;
+  /** Extra context appended to the drone prompt (e.g. the event that triggered it) */
+  context?: string;
   /** Force rebuild image */
   build?: boolean;
   /** Suppress status messages */
@@ -61,13 +71,13 @@ export interface StopDroneResult {
 // ============================================================================
 
 /**
- * Launch a drone session. Handles Docker availability check, image building,
+ * Launch a drone session. Handles the runtime availability check, image building,
  * authentication auto-detection, worker/session creation, and container spawning.
  *
  * @param droneNameOrId - Drone name or ID
  * @param options - Launch options
  * @returns Launch result with session/worker/container IDs
- * @throws Error if drone not found, already running, Docker unavailable, or spawn fails
+ * @throws Error if drone not found, already running, the runtime is unavailable, a config file is invalid, or spawn fails
  */
 export async function launchDrone(
   droneNameOrId: string,
@@ -75,6 +85,15 @@ export async function launchDrone(
 ): Promise<LaunchDroneResult> {
   const log = options.onStatus ?? (options.quiet ? () => {} : console.log);
 
+  const config = loadConfig();
+  options = {
+    ...options,
+    maxIterations: options.maxIterations ?? config["drone.max_iterations"],
+    image: options.image ?? config.image,
+    memory: options.memory ?? config["drone.memory"],
+    repoDir: options.repoDir ?? config.repo,
+  };
+
   // Resolve drone
   const drone = getDrone(droneNameOrId);
   if (!drone) {
@@ -87,16 +106,17 @@ export async function launchDrone(
     throw new Error(`Drone "${drone.name}" is already running (session: ${currentSession.id})`);
   }
 
-  // Check Docker availability
-  log("Checking Docker availability...");
+  // Check runtime availability
+  const runtime = useRuntime(options.runtime);
+  log(`Checking ${runtime.label} availability...`);
   const dockerAvailable = await isDockerAvailable();
   if (!dockerAvailable) {
-    throw new Error("Docker is not available. Please ensure Docker is installed and running.");
+    throw new Error(runtimeUnavailableMessage(runtime));
   }
 
-  // Check/build image
+  // Check/build image (the process runtime has none)
   const imageName = options.image || "blackboard-worker:latest";
-  let needsBuild = options.build || false;
+  let needsBuild = (options.build || false) && runtime.name !== "process";
 
   if (!needsBuild) {
     const imageExists = await dockerImageExists(imageName);
@@ -158,6 +178,10 @@ export async function launchDrone(
     auth_mode: authResult.authMode,
     iteration: 0,
     max_iterations: options.maxIterations || drone.max_iterations,
+    // The container loop stops the session once this budget is spent
+    max_cost_usd: options.maxCostUsd ?? drone.max_cost_usd,
+    max_tokens: options.maxTokens ?? drone.max_tokens,
+    runtime: runtime.name,
   });
 
   // Create session in database (pass pre-generated sessionId)
@@ -174,7 +198,7 @@ export async function launchDrone(
       image: imageName,
       droneName: drone.name,
       sessionId,
-      dronePrompt: drone.prompt,
+      dronePrompt: options.context ? `${drone.prompt}\n\n${options.context}` : drone.prompt,
       dbDir,
       repoDir,
       authMode: authResult.authMode,
@@ -247,7 +271,7 @@ export async function stopDrone(droneNameOrId: string): Promise<StopDroneResult>
 
   if (worker?.container_id) {
     try {
-      await dockerKill(worker.container_id);
+      await dockerKill(worker.container_id, worker.runtime);
     } catch {
       // Container might already be stopped - not a critical error
     }
@@ -0,0 +1,127 @@
+/**
+ * Drone scheduler: starts scheduled drones when they fall due.
+ * Used by `blackboard drone scheduler`, which calls runSchedulerTick on an
+ * interval. Each due time is recorded in drone_schedule_runs.
+ */
+
+import {
+  getCurrentSession,
+  getDueDrones,
+  recordScheduleRun,
+  setNextRunAt,
+} from "../db/drone-queries.ts";
+import { launchDrone, type LaunchDroneOptions } from "./drone-ops.ts";
+import { dueRunsBetween, nextRunAfter, parseSchedule } from "../utils/schedule.ts";
+import { toDbTimestamp, utcToLocal } from "../utils/time.ts";
+import type { Drone, ScheduleRunOutcome } from "../types/schema.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScheduledRunResult {
+  drone: Drone;
+  /** Due time that was acted on (UTC) */
+  scheduledFor: string;
+  outcome: ScheduleRunOutcome;
+  sessionId?: string;
+  detail?: string;
+  /** Earlier due times that passed while the scheduler wasn't running */
+  missed: number;
+  /** Next due time (UTC), or null if the schedule couldn't be evaluated */
+  nextRunAt: string | null;
+}
+
+// Upper bound when counting due times missed during a long outage
+const MAX_COUNTED_RUNS = 10000;
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+/**
+ * Start every scheduled drone that is due.
+ *
+ * A drone that fell due several times while the scheduler was down runs once,
+ * for its latest due time, and the earlier ones are recorded as missed. A
+ * drone whose previous session is still running is skipped until its next
+ * due time.
+ *
+ * @param now - Current time
+ * @param launchOptions - Passed to launchDrone (image, repo, auth, ...)
+ * @returns One result per due drone
+ */
+export async function runSchedulerTick(
+  now: Date = new Date(),
+  launchOptions: LaunchDroneOptions = {}
+): Promise<ScheduledRunResult[]> {
+  const results: ScheduledRunResult[] = [];
+
+  for (const drone of getDueDrones(toDbTimestamp(now))) {
+    results.push(await runDueDrone(drone, now, launchOptions));
+  }
+
+  return results;
+}
+
+/**
+ * Act on one due drone and move its next run forward.
+ */
+async function runDueDrone(
+  drone: Drone,
+  now: Date,
+  launchOptions: LaunchDroneOptions
+): Promise<ScheduledRunResult> {
+  const firstDue = drone.next_run_at!;
+
+  let schedule;
+  let dueRuns: Date[];
+  try {
+    schedule = parseSchedule(drone.schedule!);
+    dueRuns = dueRunsBetween(schedule, utcToLocal(firstDue), now, MAX_COUNTED_RUNS);
+  } catch (error) {
+    // Only reachable if the stored schedule was edited by hand; stop retrying it
+    const detail = `Invalid schedule "${drone.schedule}": ${error instanceof Error ? error.message : String(error)}`;
+    recordScheduleRun({ droneId: drone.id, scheduledFor: firstDue, outcome: "failed", detail });
+    setNextRunAt(drone.id, null);
+    return { drone, scheduledFor: firstDue, outcome: "failed", detail, missed: 0, nextRunAt: null };
+  }
+
+  const latest = toDbTimestamp(dueRuns[dueRuns.length - 1]);
+  const missed = dueRuns.length - 1;
+  if (missed > 0) {
+    const lastMissed = toDbTimestamp(dueRuns[dueRuns.length - 2]);
+    recordScheduleRun({
+      droneId: drone.id,
+      scheduledFor: firstDue,
+      outcome: "missed",
+      detail: `${missed} run(s) between ${firstDue} and ${lastMissed} UTC passed while the scheduler wasn't running`,
+    });
+  }
+
+  let outcome: ScheduleRunOutcome;
+  let sessionId: string | undefined;
+  let detail: string | undefined;
+
+  const running = getCurrentSession(drone.id);
+  if (running) {
+    outcome = "skipped";
+    detail = `Previous session ${running.id.slice(0, 8)} still running`;
+  } else {
+    try {
+      const launched = await launchDrone(drone.id, { ...launchOptions, quiet: true, onStatus: () => {} });
+      outcome = "started";
+      sessionId = launched.sessionId;
+    } catch (error) {
+      outcome = "failed";
+      detail = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  recordScheduleRun({ droneId: drone.id, scheduledFor: latest, outcome, sessionId, detail });
+
+  const nextRunAt = toDbTimestamp(nextRunAfter(schedule, now));
+  setNextRunAt(drone.id, nextRunAt);
+
+  return { drone, scheduledFor: latest, outcome, sessionId, detail, missed, nextRunAt };
+}
@@ -0,0 +1,208 @@
+/**
+ * Drone triggers: start drones when blackboard or repo events happen.
+ * Used by `blackboard drone watch`, which calls runTriggerTick on an
+ * interval. The triggering bug, thread or commits are appended to the drone
+ * prompt so the session knows what it was started for.
+ */
+
+import {
+  getCurrentSession,
+  getDrone,
+  getPendingBugReport,
+  getPendingThread,
+  listDroneTriggers,
+  recordTriggerFiring,
+  setTriggerCursor,
+} from "../db/drone-queries.ts";
+import { launchDrone, type LaunchDroneOptions } from "./drone-ops.ts";
+import { getCommitSha, listCommitsBetween } from "../utils/git.ts";
+import type { BugReport, Drone, DroneTrigger, Thread, TriggerFiringOutcome } from "../types/schema.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TriggerFiringResult {
+  drone: Drone;
+  trigger: DroneTrigger;
+  /** Bug report ID, thread ID or commit SHA that fired the trigger */
+  entityId: string;
+  /** One-line description of the event */
+  event: string;
+  outcome: TriggerFiringOutcome;
+  sessionId?: string;
+  detail?: string;
+}
+
+/** An event a trigger is ready to act on */
+interface PendingEvent {
+  entityId: string;
+  event: string;
+  context: string;
+  /** Commit triggers move their cursor once the event is handled */
+  cursor?: string;
+}
+
+// ============================================================================
+// Descriptions
+// ============================================================================
+
+/**
+ * Describes what a trigger listens for, e.g. `new commits on main`.
+ */
+export function describeTrigger(trigger: DroneTrigger): string {
+  switch (trigger.kind) {
+    case "bug":
+      return trigger.filter ? `new bug reports matching "${trigger.filter}"` : "new bug reports";
+    case "thread":
+      return `threads reaching "${trigger.filter ?? "completed"}"`;
+    case "commit":
+      return `new commits on ${trigger.filter}`;
+  }
+}
+
+function bugContext(bug: BugReport, trigger: DroneTrigger): string {
+  const lines = [
+    "## Trigger",
+    "",
+    trigger.filter
+      ? `This session was started by a new bug report matching "${trigger.filter}".`
+      : "This session was started by a new bug report.",
+    "",
+    `- ID: ${bug.id}`,
+    `- Title: ${bug.title}`,
+    `- Status: ${bug.status}`,
+    "",
+    "### Repro steps",
+    "",
+    bug.repro_steps,
+  ];
+  if (bug.evidence) {
+    lines.push("", "### Evidence", "", bug.evidence);
+  }
+  return lines.join("\n");
+}
+
+function threadContext(thread: Thread): string {
+  const lines = [
+    "## Trigger",
+    "",
+    `This session was started because thread "${thread.name}" reached status "${thread.status}".`,
+    "",
+    `- Thread ID: ${thread.id}`,
+  ];
+  if (thread.git_branches) {
+    lines.push(`- Branches: ${thread.git_branches}`);
+  }
+  if (thread.current_plan_id) {
+    lines.push(`- Plan ID: ${thread.current_plan_id}`);
+  }
+  lines.push("", "Its plan, steps and breadcrumbs are on the blackboard under the thread ID above.");
+  return lines.join("\n");
+}
+
+function commitContext(branch: string, tip: string, commits: Array<{ sha: string; author: string; subject: string }>): string {
+  const lines = ["## Trigger", ""];
+  if (commits.length === 0) {
+    lines.push(`This session was started because branch ${branch} moved to ${tip}.`);
+  } else {
+    lines.push(`This session was started by new commits on ${branch}:`, "");
+    for (const c of commits) {
+      lines.push(`- ${c.sha.slice(0, 10)} ${c.subject} (${c.author})`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Watcher
+// ============================================================================
+
+/**
+ * Finds the next event a trigger should act on, if any.
+ */
+function findPendingEvent(trigger: DroneTrigger, repoDir: string): PendingEvent | null {
+  switch (trigger.kind) {
+    case "bug": {
+      const bug = getPendingBugReport(trigger);
+      if (!bug) return null;
+      return { entityId: bug.id, event: `bug "${bug.title}"`, context: bugContext(bug, trigger) };
+    }
+    case "thread": {
+      const thread = getPendingThread(trigger);
+      if (!thread) return null;
+      return { entityId: thread.id, event: `thread "${thread.name}" ${thread.status}`, context: threadContext(thread) };
+    }
+    case "commit": {
+      const branch = trigger.filter!;
+      const tip = getCommitSha(branch, repoDir);
+      if (!tip || tip === trigger.cursor) return null;
+      if (!trigger.cursor) {
+        // First sighting of the branch: only commits after this one count
+        setTriggerCursor(trigger.id, tip);
+        return null;
+      }
+      const commits = listCommitsBetween(trigger.cursor, tip, repoDir);
+      const count = commits.length === 0 ? "" : `${commits.length} commit(s) `;
+      return {
+        entityId: tip,
+        event: `${count}on ${branch} (${tip.slice(0, 8)})`,
+        context: commitContext(branch, tip, commits),
+        cursor: tip,
+      };
+    }
+  }
+}
+
+/**
+ * Start drones whose triggers have pending events.
+ *
+ * A drone runs one session at a time, so while its session is running its
+ * events stay pending and are picked up by a later tick, oldest first. An
+ * event whose launch fails is recorded and not retried.
+ *
+ * @param launchOptions - Passed to launchDrone (image, repo, auth, ...)
+ * @returns One result per event acted on
+ */
+export async function runTriggerTick(launchOptions: LaunchDroneOptions = {}): Promise<TriggerFiringResult[]> {
+  const results: TriggerFiringResult[] = [];
+  const repoDir = launchOptions.repoDir || Deno.cwd();
+  const launched = new Set<string>();
+
+  for (const trigger of listDroneTriggers()) {
+    if (launched.has(trigger.drone_id)) continue;
+
+    const drone = getDrone(trigger.drone_id);
+    if (!drone || drone.status !== "active" || getCurrentSession(drone.id)) continue;
+
+    const pending = findPendingEvent(trigger, repoDir);
+    if (!pending) continue;
+
+    let outcome: TriggerFiringOutcome;
+    let sessionId: string | undefined;
+    let detail: string | undefined;
+    try {
+      const result = await launchDrone(drone.id, {
+        ...launchOptions,
+        context: pending.context,
+        quiet: true,
+        onStatus: () => {},
+      });
+      outcome = "started";
+      sessionId = result.sessionId;
+      launched.add(drone.id);
+    } catch (error) {
+      outcome = "failed";
+      detail = error instanceof Error ? error.message : String(error);
+    }
+
+    recordTriggerFiring({ triggerId: trigger.id, entityId: pending.entityId, outcome, sessionId, detail });
+    if (pending.cursor) {
+      setTriggerCursor(trigger.id, pending.cursor);
+    }
+
+    results.push({ drone, trigger, entityId: pending.entityId, event: pending.event, outcome, sessionId, detail });
+  }
+
+  return results;
+}
@@ -0,0 +1,405 @@
+/**
+ * Review and merge workflow for worker and drone branches.
+ * Workers push to `threads/<name>` and drones to `drones/<name>/<session>`
+ * in the host repo. These operations summarize a branch against the current
+ * branch, run a verification command in a scratch worktree, and bring the
+ * work back (fast-forward, squash or rebase) or discard it. Used by both
+ * `blackboard review` and the TUI merge action; every outcome is recorded
+ * in branch_reviews.
+ */
+
+import { resolveThread, updateThread } from "../db/queries.ts";
+import { findDroneSessions, getDrone, listDroneSessions } from "../db/drone-queries.ts";
+import { getWorkersForThread } from "../db/worker-queries.ts";
+import { recordBranchReview } from "../db/review-queries.ts";
+import { getCommitSha, listCommitsBetween } from "../utils/git.ts";
+import { runVerifyCommand, type VerificationResult } from "./verification.ts";
+import { removeThreadWorktree, WorktreeError } from "./worktree.ts";
+import { join } from "jsr:@std/path";
+import type { Drone, DroneSession, ReviewOutcome, Thread } from "../types/schema.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+export type ReviewTarget =
+  | { kind: "thread"; label: string; branch: string; thread: Thread }
+  | { kind: "drone-session"; label: string; branch: string; drone: Drone; session: DroneSession };
+
+export interface ReviewSummary {
+  branch: string;
+  base: string;
+  headSha: string;
+  /** Commits on the branch that the base doesn't have, newest first */
+  commits: Array<{ sha: string; author: string; subject: string }>;
+  /** Commits on the base that the branch doesn't have */
+  behind: number;
+  /** `git diff --stat` output against the merge base */
+  diffStat: string;
+}
+
+export type { VerificationResult };
+
+export interface ReviewActionResult {
+  outcome: ReviewOutcome;
+  detail?: string;
+  /** Files with conflicts, when outcome is "conflict" */
+  conflicts?: string[];
+}
+
+// ============================================================================
+// Git helpers
+// ============================================================================
+
+function git(args: string[], cwd?: string): { success: boolean; stdout: string; stderr: string } {
+  const result = new Deno.Command("git", { args, cwd, stdout: "piped", stderr: "piped" }).outputSync();
+  const decoder = new TextDecoder();
+  return {
+    success: result.success,
+    stdout: decoder.decode(result.stdout).trimEnd(),
+    stderr: decoder.decode(result.stderr).trimEnd(),
+  };
+}
+
+function conflictedFiles(cwd?: string): string[] {
+  const result = git(["diff", "--name-only", "--diff-filter=U"], cwd);
+  return result.stdout.split("\n").filter((f) => f.length > 0);
+}
+
+/**
+ * Checks a branch out into a temporary worktree, runs fn in it, and removes
+ * the worktree afterwards. Keeps the user's checkout untouched.
+ */
+async function withWorktree<T>(
+  revision: string,
+  options: { detach: boolean },
+  fn: (dir: string) => T | Promise<T>
+): Promise<T> {
+  const parent = await Deno.makeTempDir({ prefix: "blackboard-review-" });
+  const dir = join(parent, "tree");
+  const args = options.detach
+    ? ["worktree", "add", "--detach", dir, revision]
+    : ["worktree", "add", dir, revision];
+  const added = git(args);
+  if (!added.success) {
+    throw new ReviewError(`Could not check out ${revision}: ${added.stderr}`);
+  }
+  try {
+    return await fn(dir);
+  } finally {
+    git(["worktree", "remove", "--force", dir]);
+    await Deno.remove(parent, { recursive: true }).catch(() => {});
+  }
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/**
+ * Resolves what to review: a thread (name or ID), a drone (its latest
+ * session with a branch), or a drone session (ID or the 8-character prefix
+ * shown in listings).
+ *
+ * @param nameOrId - Thread, drone session or drone
+ * @returns The target and its branch
+ * @throws ReviewError if nothing matches or the branch doesn't exist
+ */
+export function resolveReviewTarget(nameOrId: string): ReviewTarget {
+  const thread = resolveThread(nameOrId);
+  if (thread) {
+    // Worker branch first; older threads only have the branches sessions ran on
+    const recorded = (thread.git_branches ?? "").split(",").map((b) => b.trim()).filter((b) => b);
+    const candidates = [`threads/${thread.name}`, ...recorded.reverse()];
+    const branch = candidates.find((b) => getCommitSha(b) !== null);
+    if (!branch) {
+      throw new ReviewError(`Thread "${thread.name}" has no branch in this repository (looked for ${candidates.join(", ")})`);
+    }
+    return { kind: "thread", label: `thread "${thread.name}"`, branch, thread };
+  }
+
+  let session: DroneSession | undefined;
+  const named = getDrone(nameOrId);
+  if (named) {
+    session = listDroneSessions(named.id, 10).find((s) => s.git_branch);
+    if (!session) {
+      throw new ReviewError(`Drone "${named.name}" has no sessions with a branch`);
+    }
+  } else {
+    const sessions = findDroneSessions(nameOrId);
+    if (sessions.length > 1 && sessions[0].id !== nameOrId) {
+      throw new ReviewError(`"${nameOrId}" matches ${sessions.length} drone sessions; use more of the ID`);
+    }
+    session = sessions[0];
+  }
+
+  if (!session) {
+    throw new ReviewError(`No thread, drone or drone session named "${nameOrId}"`);
+  }
+
+  const drone = getDrone(session.drone_id)!;
+  if (!session.git_branch || getCommitSha(session.git_branch) === null) {
+    throw new ReviewError(`Drone session ${session.id.slice(0, 8)} has no branch in this repository`);
+  }
+  return {
+    kind: "drone-session",
+    label: `drone "${drone.name}" session ${session.id.slice(0, 8)}`,
+    branch: session.git_branch,
+    drone,
+    session,
+  };
+}
+
+/**
+ * Refuses to change a branch that is still being written to.
+ *
+ * @throws ReviewError if a worker or drone session is running on the target
+ */
+function assertIdle(target: ReviewTarget): void {
+  if (target.kind === "thread") {
+    const running = getWorkersForThread(target.thread.id).filter((w) => w.status === "running");
+    if (running.length > 0) {
+      throw new ReviewError(`Thread "${target.thread.name}" has ${running.length} active worker(s)`);
+    }
+  } else if (target.session.status === "running") {
+    throw new ReviewError(`Drone session ${target.session.id.slice(0, 8)} is still running`);
+  }
+}
+
+/**
+ * Removes a `work --worktree` checkout left on the branch (e.g. by a worker
+ * that was killed), so git can check the branch out or delete it.
+ * @throws ReviewError if the worktree has uncommitted changes
+ */
+function releaseWorktree(target: ReviewTarget): void {
+  try {
+    removeThreadWorktree(target.branch);
+  } catch (error) {
+    if (error instanceof WorktreeError) {
+      throw new ReviewError(error.message);
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Summary and verification
+// ============================================================================
+
+/**
+ * Summarizes a branch against a base: commits ahead, commits behind and the
+ * diff stat since they diverged.
+ *
+ * @param branch - Branch under review
+ * @param base - Branch the work would land on
+ * @returns Summary
+ */
+export function summarizeBranch(branch: string, base: string): ReviewSummary {
+  const headSha = getCommitSha(branch);
+  if (!headSha) {
+    throw new ReviewError(`Branch ${branch} not found`);
+  }
+  const counts = git(["rev-list", "--left-right", "--count", `${base}...${branch}`]);
+  const behind = counts.success ? parseInt(counts.stdout.split(/\s+/)[0], 10) || 0 : 0;
+  return {
+    branch,
+    base,
+    headSha,
+    commits: listCommitsBetween(base, branch, undefined, 50),
+    behind,
+    diffStat: git(["diff", "--stat", `${base}...${branch}`]).stdout,
+  };
+}
+
+/**
+ * Runs a verification command (e.g. the test suite) against a branch, in a
+ * temporary worktree so the current checkout is left alone.
+ *
+ * @param branch - Branch to verify
+ * @param command - Shell command; exit status 0 passes
+ * @returns Result with exit code and output
+ */
+export async function verifyBranch(branch: string, command: string): Promise<VerificationResult> {
+  return await withWorktree(branch, { detach: true }, (dir) => runVerifyCommand(command, dir));
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function record(
+  target: ReviewTarget,
+  base: string,
+  result: ReviewActionResult,
+  verification?: VerificationResult,
+  headSha: string | null = getCommitSha(target.branch)
+): ReviewActionResult {
+  recordBranchReview({
+    threadId: target.kind === "thread" ? target.thread.id : null,
+    droneSessionId: target.kind === "drone-session" ? target.session.id : null,
+    branch: target.branch,
+    baseBranch: base,
+    headSha,
+    outcome: result.outcome,
+    verifyCommand: verification?.command,
+    verifyPassed: verification?.passed,
+    detail: result.detail,
+  });
+
+  // Landed work closes the thread, as merging from the TUI always has
+  if (target.kind === "thread" && ["merged", "squashed", "rebased"].includes(result.outcome)) {
+    updateThread(target.thread.id, { status: "archived" });
+  }
+  return result;
+}
+
+/**
+ * Records that a verification command failed and the branch was left alone.
+ */
+export function recordFailedVerification(
+  target: ReviewTarget,
+  base: string,
+  verification: VerificationResult
+): ReviewActionResult {
+  return record(target, base, {
+    outcome: "verify_failed",
+    detail: `\`${verification.command}\` exited with ${verification.exitCode}`,
+  }, verification);
+}
+
+/**
+ * Merges the branch into the current branch (the base), either as a
+ * fast-forward or as a single squashed commit.
+ *
+ * On conflicts the merge is undone unless keepConflicts is set, in which
+ * case the conflicted files are left in the working tree to resolve and
+ * commit by hand. Either way the outcome is "conflict".
+ *
+ * @param target - Thread or drone session
+ * @param base - Current branch
+ * @param options - squash instead of fast-forward, leave conflicts in place,
+ *   verification result to record alongside
+ * @returns Outcome
+ * @throws ReviewError if the branch is busy or can't be fast-forwarded
+ */
+export function mergeReviewBranch(
+  target: ReviewTarget,
+  base: string,
+  options: { squash?: boolean; keepConflicts?: boolean; verification?: VerificationResult } = {}
+): ReviewActionResult {
+  assertIdle(target);
+
+  if (!options.squash) {
+    const result = git(["merge", "--ff-only", target.branch]);
+    if (!result.success) {
+      throw new ReviewError(
+        `${target.branch} can't be fast-forwarded onto ${base}; use --squash or --rebase`
+      );
+    }
+    return record(target, base, { outcome: "merged" }, options.verification);
+  }
+
+  const merged = git(["merge", "--squash", target.branch]);
+  if (!merged.success) {
+    const conflicts = conflictedFiles();
+    if (conflicts.length === 0) {
+      throw new ReviewError(`Squash merge failed: ${merged.stderr || merged.stdout}`);
+    }
+    if (!options.keepConflicts) {
+      git(["reset", "--merge"]);
+    }
+    const detail = options.keepConflicts
+      ? `Conflicts left in the working tree: ${conflicts.join(", ")}`
+      : `Merge undone; conflicts in ${conflicts.join(", ")}`;
+    return record(target, base, { outcome: "conflict", detail, conflicts }, options.verification);
+  }
+
+  const subject = target.kind === "thread"
+    ? `[${target.thread.name}] Squash ${target.branch}`
+    : `[${target.drone.name}] Squash ${target.branch}`;
+  const committed = git(["commit", "--no-verify", "-m", subject]);
+  if (!committed.success) {
+    git(["reset", "--merge"]);
+    throw new ReviewError(`Nothing to commit from ${target.branch}: ${committed.stdout || committed.stderr}`);
+  }
+  return record(target, base, { outcome: "squashed", detail: subject }, options.verification);
+}
+
+/**
+ * Rebases the branch onto the base in a temporary worktree, then
+ * fast-forwards the base onto it. On conflicts the rebase is aborted and
+ * both branches are left as they were.
+ *
+ * @param target - Thread or drone session
+ * @param base - Current branch
+ * @param options - Verification result to record alongside
+ * @returns Outcome
+ * @throws ReviewError if the branch is busy or checked out elsewhere (a
+ *   leftover thread worktree is removed first)
+ */
+export async function rebaseReviewBranch(
+  target: ReviewTarget,
+  base: string,
+  options: { verification?: VerificationResult } = {}
+): Promise<ReviewActionResult> {
+  assertIdle(target);
+  releaseWorktree(target);
+
+  const conflicts = await withWorktree(target.branch, { detach: false }, (dir) => {
+    const rebased = git(["rebase", base], dir);
+    if (rebased.success) {
+      return [];
+    }
+    const files = conflictedFiles(dir);
+    git(["rebase", "--abort"], dir);
+    if (files.length === 0) {
+      throw new ReviewError(`Rebase failed: ${rebased.stderr || rebased.stdout}`);
+    }
+    return files;
+  });
+
+  if (conflicts.length > 0) {
+    return record(target, base, {
+      outcome: "conflict",
+      detail: `Rebase aborted; conflicts in ${conflicts.join(", ")}`,
+      conflicts,
+    }, options.verification);
+  }
+
+  const merged = git(["merge", "--ff-only", target.branch]);
+  if (!merged.success) {
+    throw new ReviewError(`Rebased ${target.branch} but could not fast-forward ${base}: ${merged.stderr}`);
+  }
+  return record(target, base, { outcome: "rebased" }, options.verification);
+}
+
+/**
+ * Deletes the branch without merging it.
+ *
+ * @param target - Thread or drone session
+ * @param base - Current branch (recorded for reference)
+ * @returns Outcome
+ * @throws ReviewError if the branch is busy or can't be deleted
+ */
+export function discardReviewBranch(target: ReviewTarget, base: string): ReviewActionResult {
+  assertIdle(target);
+  releaseWorktree(target);
+
+  const headSha = getCommitSha(target.branch);
+  const deleted = git(["branch", "-D", target.branch]);
+  if (!deleted.success) {
+    throw new ReviewError(`Could not delete ${target.branch}: ${deleted.stderr}`);
+  }
+
+  return record(target, base, {
+    outcome: "discarded",
+    detail: `Deleted ${target.branch} at ${headSha?.slice(0, 10)}`,
+  }, undefined, headSha);
+}
@@ -0,0 +1,100 @@
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { closeDb, getDb } from "../db/connection.ts";
+import {
+  fillStepCriteriaFromPlan,
+  getPlanById,
+  getRecentBreadcrumbs,
+  getStepById,
+  getStepsForPlan,
+  insertPlan,
+  insertStep,
+  insertThread,
+  resolveThread,
+} from "../db/queries.ts";
+import { completeStep, runVerifyCommands, verifyPlanCompletion } from "./verification.ts";
+
+Deno.test("runVerifyCommands - stops at the first failing command", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-verify-" });
+  try {
+    const result = await runVerifyCommands(["echo ok", "echo broken >&2; exit 3", "touch ran"], dir);
+    assertEquals([result.command, result.passed, result.exitCode], ["echo broken >&2; exit 3", false, 3]);
+    assertEquals(result.output, "broken");
+    assert(!(await Deno.stat(join(dir, "ran")).then(() => true, () => false)));
+
+    assert((await runVerifyCommands(["true", "true"], dir)).passed);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("verifyPlanCompletion - a failure reopens the plan with the output in a breadcrumb", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-verify-" });
+  getDb(join(dir, "blackboard.db"));
+  try {
+    insertThread({
+      id: "t1",
+      name: "auth",
+      current_plan_id: null,
+      git_branches: null,
+      status: "active",
+      verify_commands: JSON.stringify(["true", "echo '2 tests failed'; exit 1"]),
+    });
+    insertPlan({
+      id: "p1",
+      status: "completed",
+      description: null,
+      plan_markdown: "# Plan",
+      session_id: null,
+      thread_id: "t1",
+    });
+
+    const result = await verifyPlanCompletion(resolveThread("auth")!, "p1", dir);
+    assertEquals(result?.passed, false);
+    assertEquals(getPlanById("p1")?.status, "in_progress");
+    const [crumb] = getRecentBreadcrumbs("p1", 1);
+    assertStringIncludes(crumb.summary, "exited with 1");
+    assertEquals(crumb.agent_type, "verification");
+    assertEquals(crumb.issues, "2 tests failed");
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("completeStep - a step is completed only once its verify command passes", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-verify-" });
+  getDb(join(dir, "blackboard.db"));
+  try {
+    insertThread({ id: "t1", name: "auth", current_plan_id: null, git_branches: null, status: "active" });
+    insertPlan({
+      id: "p1",
+      status: "in_progress",
+      description: null,
+      plan_markdown: "1. Add login\n   Verify: test -f login.ts\n2. Write docs\n",
+      session_id: null,
+      thread_id: "t1",
+    });
+    insertStep("p1", { description: "Add login" });
+    insertStep("p1", { description: "Write docs" });
+    assertEquals(fillStepCriteriaFromPlan("p1"), 1);
+    const [login, docs] = getStepsForPlan("p1");
+    assertEquals([login.verify_command, docs.verify_command], ["test -f login.ts", null]);
+
+    assertEquals(await completeStep(docs, dir), null);
+    assertEquals(getStepById(docs.id)?.status, "completed");
+
+    assertEquals((await completeStep(login, dir))?.passed, false);
+    assertEquals(getStepById(login.id)?.status, "failed");
+    assertEquals(getRecentBreadcrumbs("p1", 1)[0].step_id, login.id);
+
+    await Deno.writeTextFile(join(dir, "login.ts"), "");
+    assertEquals((await completeStep(login, dir))?.passed, true);
+    assertEquals(getStepById(login.id)?.status, "completed");
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
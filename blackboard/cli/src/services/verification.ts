@@ -0,0 +1,264 @@
+/**
+ * Verification gate for completed work. A thread can carry shell commands
+ * (tests, type-check, lint) that must pass before its plan is accepted as
+ * completed; threads without their own use the `verify` config key. The
+ * worker loop and the SubagentStop hook run them when a plan is marked
+ * completed, and on failure put the plan back to in_progress with the
+ * output in a breadcrumb for the next iteration to read. Those breadcrumbs
+ * have agent_type "verification", so they aren't mistaken for an agent
+ * reporting on a step. Steps can carry
+ * their own verify command, checked the same way before the step is
+ * completed. `blackboard review --verify` runs its command through the same
+ * helper.
+ */
+
+import {
+  insertBreadcrumb,
+  markPlanVerified,
+  markStepVerified,
+  updatePlanStatus,
+  updateStepStatus,
+} from "../db/queries.ts";
+import { loadConfig } from "../utils/config.ts";
+import type { PlanStep, Thread } from "../types/schema.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VerificationResult {
+  command: string;
+  passed: boolean;
+  exitCode: number;
+  /** Combined stdout and stderr */
+  output: string;
+}
+
+/**
+ * Time allowed for all of a thread's commands together. The SubagentStop
+ * hook's timeout in hooks.json leaves room for this.
+ */
+export const VERIFY_TIMEOUT_SECONDS = 540;
+
+/** Breadcrumb agent type for verification failures */
+export const VERIFICATION_AGENT_TYPE = "verification";
+
+/** Output kept in a failure breadcrumb (the end, where errors usually are) */
+const MAX_BREADCRUMB_OUTPUT_CHARS = 4000;
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Directory verification runs in when no checkout is given: the Claude
+ * project (set for hooks and worker processes), else the current directory.
+ *
+ * @returns Directory path
+ */
+export function defaultVerifyDir(): string {
+  return Deno.env.get("CLAUDE_PROJECT_DIR") ?? Deno.cwd();
+}
+
+/**
+ * Describes a failed verification for an error message: the command, its
+ * exit code and the end of its output.
+ *
+ * @param result - The failed result
+ * @returns Message text
+ */
+export function describeVerificationFailure(result: VerificationResult): string {
+  const output = result.output.length > MAX_BREADCRUMB_OUTPUT_CHARS
+    ? `...${result.output.slice(-MAX_BREADCRUMB_OUTPUT_CHARS)}`
+    : result.output;
+  return `Verification failed: \`${result.command}\` exited with ${result.exitCode}${output ? `\n${output}` : ""}`;
+}
+
+/**
+ * The thread's own verification commands.
+ *
+ * @param thread - Thread
+ * @returns Commands, empty if the thread has none
+ */
+export function getThreadVerifyCommands(thread: Pick<Thread, "verify_commands">): string[] {
+  if (!thread.verify_commands) {
+    return [];
+  }
+  try {
+    const commands = JSON.parse(thread.verify_commands);
+    return Array.isArray(commands) ? commands.filter((c): c is string => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Commands that gate a thread's plan: its own, else the `verify` config key.
+ *
+ * @param thread - Thread
+ * @returns Commands, empty if there is nothing to run
+ * @throws ConfigError if the config files are invalid
+ */
+export function resolveVerifyCommands(thread: Pick<Thread, "verify_commands">): string[] {
+  const own = getThreadVerifyCommands(thread);
+  if (own.length > 0) {
+    return own;
+  }
+  const configured = loadConfig().verify;
+  return configured ? [configured] : [];
+}
+
+/**
+ * Runs one shell command.
+ *
+ * @param command - Shell command; exit status 0 passes
+ * @param cwd - Directory to run it in
+ * @param signal - Stops the command (it then fails)
+ * @returns Result with exit code and output
+ */
+export async function runVerifyCommand(command: string, cwd: string, signal?: AbortSignal): Promise<VerificationResult> {
+  const result = await new Deno.Command("sh", {
+    args: ["-c", command],
+    cwd,
+    stdout: "piped",
+    stderr: "piped",
+    signal,
+  }).output();
+  const decoder = new TextDecoder();
+  let output = (decoder.decode(result.stdout) + decoder.decode(result.stderr)).trim();
+  if (signal?.aborted) {
+    output += `\n(stopped: verification took longer than ${VERIFY_TIMEOUT_SECONDS}s)`;
+  }
+  return { command, passed: result.success, exitCode: result.code, output };
+}
+
+/**
+ * Runs commands in order, stopping at the first failure.
+ *
+ * @param commands - Shell commands
+ * @param cwd - Directory to run them in
+ * @param timeoutSeconds - Time allowed for all of them
+ * @returns The first failing command's result, or a passing result for them all
+ */
+export async function runVerifyCommands(
+  commands: string[],
+  cwd: string,
+  timeoutSeconds = VERIFY_TIMEOUT_SECONDS
+): Promise<VerificationResult> {
+  const signal = AbortSignal.timeout(timeoutSeconds * 1000);
+  const outputs: string[] = [];
+  for (const command of commands) {
+    const result = await runVerifyCommand(command, cwd, signal);
+    if (!result.passed) {
+      return result;
+    }
+    outputs.push(result.output);
+  }
+  return { command: commands.join(" && "), passed: true, exitCode: 0, output: outputs.join("\n").trim() };
+}
+
+// ============================================================================
+// Plan gate
+// ============================================================================
+
+/**
+ * Checks a plan that is done (or about to be marked done). If the thread's
+ * commands fail (or can't be resolved), the plan goes back to in_progress
+ * and a breadcrumb records the output; if they pass, the plan's
+ * verified_at is set.
+ *
+ * @param thread - Thread the plan belongs to
+ * @param planId - Plan to check
+ * @param cwd - Checkout to run the commands in
+ * @returns The result, or null if the thread has nothing to run
+ */
+export async function verifyPlanCompletion(
+  thread: Pick<Thread, "verify_commands">,
+  planId: string,
+  cwd: string
+): Promise<VerificationResult | null> {
+  let result: VerificationResult;
+  try {
+    const commands = resolveVerifyCommands(thread);
+    if (commands.length === 0) {
+      return null;
+    }
+    result = await runVerifyCommands(commands, cwd);
+  } catch (error) {
+    result = {
+      command: "(verification)",
+      passed: false,
+      exitCode: -1,
+      output: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  if (result.passed) {
+    markPlanVerified(planId);
+  } else {
+    updatePlanStatus(planId, "in_progress");
+    recordVerificationFailure(planId, null, result);
+  }
+  return result;
+}
+
+// ============================================================================
+// Step gate
+// ============================================================================
+
+/**
+ * Marks a step completed once its verify command passes. A step without
+ * one is completed straight away; a passing one also gets verified_at set,
+ * and a failing one is marked failed, with the output in a breadcrumb on
+ * the step.
+ *
+ * @param step - Step to complete
+ * @param cwd - Checkout to run the command in
+ * @returns The result, or null if the step has no verify command
+ */
+export async function completeStep(
+  step: Pick<PlanStep, "id" | "plan_id" | "verify_command">,
+  cwd: string
+): Promise<VerificationResult | null> {
+  if (!step.verify_command) {
+    updateStepStatus(step.id, "completed");
+    return null;
+  }
+
+  const result = await runVerifyCommands([step.verify_command], cwd);
+  if (result.passed) {
+    updateStepStatus(step.id, "completed");
+    markStepVerified(step.id);
+  } else {
+    updateStepStatus(step.id, "failed");
+    recordVerificationFailure(step.plan_id, step.id, result);
+  }
+  return result;
+}
+
+/**
+ * Records a failed verification as a breadcrumb, keeping the end of the
+ * output.
+ *
+ * @param planId - Plan the breadcrumb belongs to
+ * @param stepId - Step that was being verified, if any
+ * @param result - The failed result
+ */
+export function recordVerificationFailure(
+  planId: string,
+  stepId: string | null,
+  result: VerificationResult
+): void {
+  const output = result.output.length > MAX_BREADCRUMB_OUTPUT_CHARS
+    ? `...${result.output.slice(-MAX_BREADCRUMB_OUTPUT_CHARS)}`
+    : result.output;
+  insertBreadcrumb({
+    plan_id: planId,
+    step_id: stepId,
+    agent_type: VERIFICATION_AGENT_TYPE,
+    summary: `Verification failed: \`${result.command}\` exited with ${result.exitCode}`,
+    files_touched: null,
+    issues: output || null,
+    next_context: "Fix the failures above, then mark the work completed again",
+  });
+}
@@ -0,0 +1,425 @@
+/**
+ * Worker loop jobs: what a thread worker and a drone each run in the shared
+ * worker loop. A thread worker works through its plan with a fresh context
+ * packet each iteration and stops when the plan is done or it goes idle; a
+ * drone repeats its standing prompt with a cooldown until its session is
+ * stopped or runs out of iterations. Ported from docker/entrypoint.sh and
+ * docker/drone-entrypoint.sh.
+ */
+
+import { getDb } from "../db/connection.ts";
+import { getPlanById, getStepsForPlan, insertBreadcrumb, resolveThread, updatePlanStatus } from "../db/queries.ts";
+import { getDroneSession, incrementSessionIteration, updateSessionStatus } from "../db/drone-queries.ts";
+import { DEFAULT_CONTEXT_MAX_TOKENS, generateContextJson } from "../commands/thread.ts";
+import { completeStep, verifyPlanCompletion } from "./verification.ts";
+import { toDbTimestamp } from "../utils/time.ts";
+import type { WorkerLoopJob } from "./worker-loop.ts";
+import type { Thread } from "../types/schema.ts";
+
+/** What Claude prints once every step of the thread is done */
+export const COMPLETION_PROMISE = "THREAD_WORK_COMPLETE";
+
+const WORKER_SYSTEM_PROMPT =
+  "IMPORTANT: Record breadcrumbs FREQUENTLY using the record_crumb tool to track your progress - after exploring code, making decisions, completing modifications, running tests, etc. Update the plan with 'blackboard thread plan' if you discover it needs changes. Use the blackboard MCP tools for step, bug and plan updates rather than writing SQL; 'blackboard query' is for read-only inspection. Git commits are only required if you modified files - plan-only work (research, planning, adding steps) doesn't need commits. " +
+  `When all steps are genuinely complete, output '${COMPLETION_PROMISE}'. Do not output it prematurely.`;
+
+const DRONE_SYSTEM_PROMPT =
+  "IMPORTANT: You are a drone executing automated maintenance. Record breadcrumbs using 'blackboard crumb' to track your progress. Use 'blackboard query' to inspect or update the database as needed. Git commits are encouraged when you make changes.";
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+/**
+ * Builds the prompt for one iteration of a thread worker.
+ *
+ * @param options - Thread, iteration, context packet JSON, database path and
+ *   the implementer subagent's name (`implementer` where the agent file is
+ *   copied into the checkout, `blackboard:implementer` from the plugin)
+ * @returns Prompt text
+ */
+export function buildThreadWorkerPrompt(options: {
+  threadName: string;
+  iteration: number;
+  maxIterations: number;
+  context: string;
+  dbPath: string;
+  implementerAgent: string;
+}): string {
+  const { threadName, iteration, maxIterations, context, dbPath, implementerAgent } = options;
+  return `You are a worker executing thread '${threadName}'. This is iteration ${iteration} of ${maxIterations}.
+
+## Current Context
+${context}
+
+## Strategic Context Management
+
+Your context window is precious. Use subagents strategically to:
+- **Parallelize independent work**: Launch multiple Task tools in a single message for independent steps
+- **Conserve your context**: Delegate implementation to subagents even for small tasks
+- **Track progress granularly**: Record one breadcrumb per subagent (roughly 1:1 ratio)
+
+You have access to the \`${implementerAgent}\` subagent:
+\`\`\`
+Task tool with subagent_type: "${implementerAgent}"
+Prompt: "Implement step X: <description>. plan_id='<plan_id>' step_id='<step_id>'"
+\`\`\`
+
+### Parallelization Strategy
+- Identify steps that can run in parallel: steps with \`ready: true\` have all their \`depends_on\` steps complete and can start now
+- Launch them together in a SINGLE message with multiple Task tool calls
+- Example: If steps 2, 3, and 4 are independent, spawn 3 implementer subagents at once
+- Wait for all to complete, then check breadcrumbs and move to next batch
+
+## Your Workflow
+
+### 0. Check Plan State
+
+First, look at the \`steps\` array and \`plan_content\` field in your context above.
+
+The context is trimmed to fit a token budget: \`context_budget\` lists any fields that were \`truncated\` or \`omitted\`. If you need what was cut, fetch it with \`blackboard --db ${dbPath} thread status ${threadName}\` or the queries below.
+
+**If the plan has steps** (the \`steps\` array is non-empty, or \`steps\` is listed in \`context_budget\`): Skip to "1. Plan Your Batch" below and follow the step-based workflow.
+
+**If the plan has NO steps but has plan_content**: The \`plan_content\` field IS your work. Execute it directly by spawning an implementer subagent:
+\`\`\`
+Task tool with subagent_type: "${implementerAgent}"
+Prompt: "Execute this plan: <copy the plan_content value here>. plan_id='<plan_id>'"
+\`\`\`
+IMPORTANT: Use the \`plan_content\` field from your context JSON - do NOT search for plan files in the repository.
+
+After the implementer completes:
+1. Record a breadcrumb summarizing what was done
+2. Mark the plan as completed with the \`complete_plan\` tool
+3. Output the completion promise
+
+**If the plan has NO steps AND no plan_content**: Record a breadcrumb noting the error state ("Plan has no steps and no content") and exit.
+
+---
+
+### Steps-Based Workflow
+
+Use the blackboard MCP tools (\`record_crumb\`, \`update_step\`, \`add_step\`, \`file_bug\`, \`record_correction\`, \`get_context_packet\`, \`complete_plan\`, \`search\`) for all blackboard updates. They default to this thread; steps can be given by ID or position.
+
+Work on pending steps using subagents. For each iteration:
+
+### 1. Plan Your Batch
+Review pending steps and identify which can be parallelized:
+\`\`\`bash
+blackboard --db ${dbPath} step list ${threadName}
+\`\`\`
+
+### 2. Check Recent Progress
+Before spawning subagents, review what's been done: the recent breadcrumbs are in your context above, or call \`get_context_packet\` for a fresh copy.
+
+### 3. Spawn Subagents
+Launch Task tools with implementer subagent for each step in your batch:
+- Pass plan_id and step_id explicitly in the prompt
+- For independent steps, launch multiple in ONE message (parallel execution)
+- For dependent steps, launch sequentially and wait for completion
+
+### 4. Record Breadcrumb After Each Subagent
+After EACH subagent completes, record what it did with \`record_crumb\` (summary, step, files, agent_type: "worker").
+Maintain roughly 1:1 ratio: one breadcrumb per subagent spawned.
+
+### 5. Update Step Status
+When a subagent completes its step, call \`update_step\` with status "completed".
+
+### 6. Update Plan If Needed
+If you discover the plan needs adjustment (new steps, scope changes, blockers):
+\`\`\`bash
+# Write updated plan to a temp file, then:
+blackboard --db ${dbPath} thread plan ${threadName} /tmp/updated-plan.md --reason "<why the plan changed>"
+\`\`\`
+Earlier versions are kept: \`blackboard --db ${dbPath} thread plan-diff ${threadName}\` shows the last change.
+If the plan has no steps yet and you're doing initial research/planning, add them with \`add_step\`.
+
+### 7. Commit Changes (if applicable)
+You are on branch threads/${threadName}; don't switch branches. If subagents modified files, commit them:
+\`\`\`bash
+git add <files>
+git commit -m "[${threadName}] <description>" --no-verify
+\`\`\`
+For plan-only work (research, planning), you may not need commits - that's OK!
+
+### 8. Report Blockers
+If you hit a blocker, call \`file_bug\` with a title and repro steps. If you made a mistake worth warning future workers about, call \`record_correction\`.
+
+## Completion
+When ALL steps are genuinely complete, call \`complete_plan\` (it refuses while steps are unfinished).
+Then output '${COMPLETION_PROMISE}'.
+
+Do NOT output the completion promise until all work is truly done.`;
+}
+
+/**
+ * Builds the prompt for one iteration of a drone session.
+ *
+ * @param options - Drone, session, branch, standing prompt and iteration
+ * @returns Prompt text
+ */
+export function buildDronePrompt(options: {
+  droneName: string;
+  sessionId: string;
+  branch: string;
+  prompt: string;
+  iteration: number;
+  maxIterations: number;
+}): string {
+  const { droneName, sessionId, branch, prompt, iteration, maxIterations } = options;
+  return `You are a drone executing automated maintenance.
+
+## Your Task
+${prompt}
+
+## Context
+- This is iteration ${iteration} of ${maxIterations}
+- Drone: ${droneName}
+- Session: ${sessionId}
+- Branch: ${branch}
+
+## Guidelines
+- Work autonomously within the defined scope
+- Record progress with: blackboard crumb "summary" --agent drone
+- Commit changes with meaningful messages
+- If you complete the task, that's OK - the loop will continue after cooldown
+- If nothing to do, that's OK - the loop will continue
+
+## Available Tools
+- blackboard crumb "summary" - Record what you did
+- git add/commit - Save changes
+- Any other tools for your specific task
+
+Work efficiently and record your progress.`;
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+/**
+ * Breadcrumb count and step statuses, compared before and after an
+ * iteration to tell whether it made any progress.
+ */
+function progressSnapshot(planId: string | null): string {
+  if (!planId) {
+    return "";
+  }
+  const db = getDb();
+  const crumbs = db.prepare("SELECT COUNT(*) AS count FROM breadcrumbs WHERE plan_id = :planId")
+    .get({ planId }) as { count: number };
+  const statuses = getStepsForPlan(planId).map((s) => s.status).join(",");
+  return `${crumbs.count}|${statuses}`;
+}
+
+/**
+ * Job for a worker on a thread, committing to `threads/<name>`.
+ *
+ * Each iteration's prompt carries a fresh context packet, and Claude gets
+ * the blackboard MCP server scoped to the thread. The work is finished when
+ * the plan is marked completed, or Claude prints the completion promise with
+ * every step completed or skipped (which completes the plan), and the
+ * thread's verification commands pass; or when an iteration makes no
+ * progress (no new breadcrumbs or step changes). Steps completed during an
+ * iteration are checked against their verify commands afterwards. Running
+ * out of iterations fails the worker. Problems are recorded as breadcrumbs
+ * on the thread's plan.
+ *
+ * @param options - Thread, database path for the MCP server and prompt,
+ *   context token budget and the implementer subagent's name
+ *   (default: `blackboard:implementer`)
+ * @returns Job for runWorkerLoop
+ */
+export function threadJob(options: {
+  threadName: string;
+  dbPath: string;
+  contextMaxTokens?: number;
+  implementerAgent?: string;
+}): WorkerLoopJob {
+  const { threadName, dbPath } = options;
+  let planId: string | null = null;
+  let before = "";
+  let completedBefore = new Set<string>();
+  let iterationStartedAt = "";
+
+  const currentThread = (): Thread => {
+    const thread = resolveThread(threadName);
+    if (!thread) {
+      throw new Error(`Thread "${threadName}" not found`);
+    }
+    return thread;
+  };
+
+  return {
+    branch: `threads/${threadName}`,
+    appendSystemPrompt: WORKER_SYSTEM_PROMPT,
+    // The MCP tools verify steps and plans in the worker's checkout too
+    mcpConfig: (workDir) => ({
+      mcpServers: {
+        blackboard: {
+          command: "blackboard",
+          args: ["--db", dbPath, "mcp", "--thread", threadName, "--verify-dir", workDir],
+        },
+      },
+    }),
+    completionPromise: COMPLETION_PROMISE,
+    maxIterationsStatus: "failed",
+
+    onIterationStart() {
+      planId = currentThread().current_plan_id;
+      before = progressSnapshot(planId);
+      completedBefore = new Set(
+        planId ? getStepsForPlan(planId).filter((s) => s.status === "completed").map((s) => s.id) : []
+      );
+      iterationStartedAt = toDbTimestamp(new Date());
+    },
+
+    prompt(iteration, maxIterations) {
+      const context = JSON.stringify(
+        generateContextJson(currentThread(), { maxTokens: options.contextMaxTokens ?? DEFAULT_CONTEXT_MAX_TOKENS }),
+        null,
+        2
+      );
+      return buildThreadWorkerPrompt({
+        threadName,
+        iteration,
+        maxIterations,
+        context,
+        dbPath,
+        implementerAgent: options.implementerAgent ?? "blackboard:implementer",
+      });
+    },
+
+    async checkFinished(iteration, sawCompletionPromise, workDir) {
+      // Steps completed this iteration stay completed only if their verify
+      // commands pass; a failure marks the step failed and reopens the plan.
+      // Work the MCP tools already verified this iteration isn't run again.
+      const verifiedThisIteration = (verifiedAt: string | null) =>
+        verifiedAt !== null && verifiedAt >= iterationStartedAt;
+      const newlyCompleted = planId
+        ? getStepsForPlan(planId).filter((s) =>
+          s.status === "completed" && s.verify_command && !completedBefore.has(s.id) && !verifiedThisIteration(s.verified_at)
+        )
+        : [];
+      let stepFailed = false;
+      for (const step of newlyCompleted) {
+        const verification = await completeStep(step, workDir);
+        stepFailed ||= verification?.passed === false;
+      }
+
+      const plan = planId ? getPlanById(planId) : null;
+      if (plan && stepFailed) {
+        if (plan.status === "completed") {
+          updatePlanStatus(plan.id, "in_progress");
+        }
+        return null;
+      }
+      if (plan && sawCompletionPromise && plan.status !== "completed") {
+        // The promise alone doesn't finish a plan that still has steps to do
+        const unfinished = getStepsForPlan(plan.id).filter((s) => s.status !== "completed" && s.status !== "skipped");
+        if (unfinished.length > 0) {
+          insertBreadcrumb({
+            plan_id: plan.id,
+            step_id: null,
+            agent_type: "worker",
+            summary: `Completion promise printed with ${unfinished.length} step(s) unfinished`,
+            files_touched: null,
+            issues: unfinished.map((s) => `${s.step_order}. [${s.status}] ${s.description}`).join("\n"),
+            next_context: "Finish or skip these steps before printing the completion promise",
+          });
+          return null;
+        }
+      }
+      if (plan && (sawCompletionPromise || plan.status === "completed")) {
+        // A failure sends the plan back to in_progress with a breadcrumb,
+        // which also counts as progress below
+        if (!verifiedThisIteration(plan.verified_at)) {
+          const verification = await verifyPlanCompletion(currentThread(), plan.id, workDir);
+          if (verification && !verification.passed) {
+            return null;
+          }
+        }
+        updatePlanStatus(plan.id, "completed");
+      }
+      if (sawCompletionPromise) {
+        return `Thread work complete after ${iteration} iterations`;
+      }
+      if (plan?.status === "completed") {
+        return `Plan completed (detected via database) after ${iteration} iterations`;
+      }
+      if (progressSnapshot(planId) === before) {
+        return `No progress detected in iteration ${iteration} - exiting (idle)`;
+      }
+      return null;
+    },
+
+    recordProblem(summary, next) {
+      const currentPlanId = resolveThread(threadName)?.current_plan_id;
+      if (currentPlanId) {
+        insertBreadcrumb({
+          plan_id: currentPlanId,
+          step_id: null,
+          agent_type: "worker",
+          summary,
+          files_touched: null,
+          issues: null,
+          next_context: next,
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Job for a drone session, committing to the session's branch.
+ *
+ * Every iteration sends the drone's standing prompt, then waits
+ * cooldownSeconds. The session ends when it is stopped from outside (e.g.
+ * `blackboard drone stop`), when the budget is spent, or after
+ * maxIterations, which completes it. The session's iteration count and
+ * final status are kept in step with the worker's.
+ *
+ * @param options - Drone, session, branch, prompt (including any trigger
+ *   context) and cooldown
+ * @returns Job for runWorkerLoop
+ */
+export function droneJob(options: {
+  droneName: string;
+  sessionId: string;
+  branch: string;
+  prompt: string;
+  cooldownSeconds: number;
+}): WorkerLoopJob {
+  const { droneName, sessionId, branch } = options;
+
+  return {
+    branch,
+    appendSystemPrompt: DRONE_SYSTEM_PROMPT,
+    maxIterationsStatus: "completed",
+    cooldownSeconds: options.cooldownSeconds,
+
+    onIterationStart() {
+      incrementSessionIteration(sessionId);
+    },
+
+    prompt(iteration, maxIterations) {
+      return buildDronePrompt({ droneName, sessionId, branch, prompt: options.prompt, iteration, maxIterations });
+    },
+
+    checkFinished(iteration) {
+      const session = getDroneSession(sessionId);
+      if (session && session.status !== "running") {
+        return `Session stopped by external signal after ${iteration} iterations`;
+      }
+      return null;
+    },
+
+    onFinish(result) {
+      if (result.cause === "budget_exhausted") {
+        updateSessionStatus(sessionId, "stopped", "budget_exhausted");
+      } else if (result.cause === "max_iterations") {
+        updateSessionStatus(sessionId, "completed", "max_iterations");
+      }
+    },
+  };
+}
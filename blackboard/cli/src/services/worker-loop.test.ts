@@ -0,0 +1,266 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { closeDb, getDb } from "../db/connection.ts";
+import {
+  getPlanById,
+  getStepsForPlan,
+  insertPlan,
+  insertStep,
+  insertThread,
+  resolveThread,
+  setThreadVerifyCommands,
+  updatePlanStatus,
+  updateStepCriteria,
+  updateThread,
+} from "../db/queries.ts";
+import { createDrone, createDroneSession, getDroneSession, updateSessionStatus } from "../db/drone-queries.ts";
+import { getWorker, insertWorker } from "../db/worker-queries.ts";
+import { recordWorkerUsage } from "../db/usage-queries.ts";
+import { runWorkerLoop } from "./worker-loop.ts";
+import { droneJob, threadJob } from "./worker-jobs.ts";
+import { completeStep, verifyPlanCompletion } from "./verification.ts";
+import type { StepStatus } from "../types/schema.ts";
+
+const line = (event: unknown) => JSON.stringify(event);
+
+/**
+ * Opens a fresh database in a temp directory with a fake `claude` that
+ * prints the given lines and exits with exitCode.
+ */
+async function setup(output: string[], exitCode = 0) {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-loop-" });
+  getDb(join(dir, "blackboard.db"));
+
+  const claude = join(dir, "claude");
+  await Deno.writeTextFile(claude, `#!/bin/sh\ncat <<'EOF'\n${output.join("\n")}\nEOF\nexit ${exitCode}\n`);
+  await Deno.chmod(claude, 0o755);
+
+  const cleanup = async () => {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  };
+  return { dir, claude, cleanup };
+}
+
+function addThread(stepStatus: StepStatus = "pending"): void {
+  insertThread({ id: "t1", name: "auth", current_plan_id: null, git_branches: null, status: "active" });
+  insertPlan({ id: "p1", status: "in_progress", description: null, plan_markdown: "# Plan", session_id: null, thread_id: "t1" });
+  updateThread("t1", { current_plan_id: "p1" });
+  insertStep("p1", { description: "First step", status: stepStatus });
+  insertWorker({ id: "w1", container_id: "c1", thread_id: "t1", status: "running", auth_mode: null, iteration: 0, max_iterations: 3 });
+}
+
+function addDrone(options: { maxTokens?: number } = {}): string {
+  const droneId = createDrone("lint", "Fix lint warnings");
+  insertWorker({
+    id: "w1",
+    container_id: "c1",
+    thread_id: null,
+    status: "running",
+    auth_mode: null,
+    iteration: 0,
+    max_iterations: 2,
+    max_tokens: options.maxTokens,
+  });
+  return createDroneSession(droneId, "w1", "drones/lint/s1", "s1");
+}
+
+Deno.test("runWorkerLoop - thread worker stops at the completion promise", async () => {
+  const { dir, claude, cleanup } = await setup([
+    line({
+      type: "assistant",
+      message: { id: "m1", content: [{ type: "tool_use", name: "Edit", input: { file_path: "a.ts" } }] },
+    }),
+    line({ type: "result", subtype: "success", total_cost_usd: 0.02, usage: { input_tokens: 30, output_tokens: 6 } }),
+    line({ type: "assistant", message: { id: "m2", content: [{ type: "text", text: "THREAD_WORK_COMPLETE" }] } }),
+  ]);
+  try {
+    addThread("completed");
+    const result = await runWorkerLoop({
+      workerId: "w1",
+      job: threadJob({ threadName: "auth", dbPath: "blackboard.db" }),
+      workDir: dir,
+      maxIterations: 3,
+      claudeCommand: claude,
+    });
+    assertEquals(result, {
+      status: "completed",
+      cause: "finished",
+      iterations: 1,
+      reason: "Thread work complete after 1 iterations",
+    });
+    assertEquals(getWorker("w1")?.status, "completed");
+    assertEquals(getPlanById("p1")?.status, "completed");
+
+    const db = getDb();
+    const events = db.prepare("SELECT event_type, tool_name, file_path FROM worker_events ORDER BY id").all();
+    assertEquals(events[0], { event_type: "tool_call", tool_name: "Edit", file_path: "a.ts" });
+    const usage = db.prepare("SELECT input_tokens, output_tokens, cost_usd FROM worker_usage").all();
+    assertEquals(usage, [{ input_tokens: 30, output_tokens: 6, cost_usd: 0.02 }]);
+    const system = db.prepare("SELECT line FROM worker_logs WHERE stream = 'system' ORDER BY id").all() as { line: string }[];
+    assertEquals(system[0].line, "Starting iteration 1 of 3");
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("runWorkerLoop - the completion promise doesn't finish a plan with steps left", async () => {
+  const { dir, claude, cleanup } = await setup([
+    line({ type: "assistant", message: { id: "m1", content: [{ type: "text", text: "THREAD_WORK_COMPLETE" }] } }),
+  ]);
+  try {
+    addThread();
+    const result = await runWorkerLoop({
+      workerId: "w1",
+      job: threadJob({ threadName: "auth", dbPath: "blackboard.db" }),
+      workDir: dir,
+      maxIterations: 2,
+      claudeCommand: claude,
+    });
+    assertEquals([result.status, result.cause], ["failed", "max_iterations"]);
+    assertEquals(getPlanById("p1")?.status, "in_progress");
+    const crumb = getDb().prepare("SELECT summary FROM breadcrumbs ORDER BY rowid LIMIT 1").get() as { summary: string };
+    assertEquals(crumb.summary, "Completion promise printed with 1 step(s) unfinished");
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("threadJob - work the MCP tools verified this iteration isn't verified again", async () => {
+  const { dir, cleanup } = await setup([]);
+  try {
+    addThread();
+    setThreadVerifyCommands("t1", ["echo plan >> ran"]);
+    const [step] = getStepsForPlan("p1");
+    updateStepCriteria(step.id, { verify_command: "echo step >> ran" });
+    const job = threadJob({ threadName: "auth", dbPath: "blackboard.db" });
+    assertEquals(
+      (job.mcpConfig?.(dir) as { mcpServers: { blackboard: { args: string[] } } }).mcpServers.blackboard.args.slice(-2),
+      ["--verify-dir", dir]
+    );
+
+    // What update_step and complete_plan do during the iteration
+    job.onIterationStart?.(1);
+    await completeStep(getStepsForPlan("p1")[0], dir);
+    await verifyPlanCompletion(resolveThread("auth")!, "p1", dir);
+    updatePlanStatus("p1", "completed");
+
+    assertStringIncludes((await job.checkFinished(1, false, dir))!, "Plan completed");
+    assertEquals(await Deno.readTextFile(join(dir, "ran")), "step\nplan\n");
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("runWorkerLoop - thread worker exits when an iteration makes no progress", async () => {
+  const { dir, claude, cleanup } = await setup([line({ type: "system", subtype: "init" })]);
+  try {
+    addThread();
+    const result = await runWorkerLoop({
+      workerId: "w1",
+      job: threadJob({ threadName: "auth", dbPath: "blackboard.db" }),
+      workDir: dir,
+      maxIterations: 3,
+      claudeCommand: claude,
+    });
+    assertEquals(result.status, "completed");
+    assertEquals(result.iterations, 1);
+    assertStringIncludes(result.reason, "(idle)");
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("runWorkerLoop - failed iterations leave breadcrumbs and running out fails the worker", async () => {
+  const { dir, claude, cleanup } = await setup(["boom"], 3);
+  try {
+    addThread();
+    const result = await runWorkerLoop({
+      workerId: "w1",
+      job: threadJob({ threadName: "auth", dbPath: "blackboard.db" }),
+      workDir: dir,
+      maxIterations: 1,
+      claudeCommand: claude,
+    });
+    assertEquals(result.status, "failed");
+    assertEquals(result.cause, "max_iterations");
+    const crumbs = getDb().prepare("SELECT summary, next_context FROM breadcrumbs").all();
+    assertEquals(crumbs, [{ summary: "Iteration 1 failed with status 3", next_context: "Retry needed" }]);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("runWorkerLoop - drone runs every iteration and completes its session", async () => {
+  const { dir, claude, cleanup } = await setup([line({ type: "system", subtype: "init" })]);
+  try {
+    const sessionId = addDrone();
+    const result = await runWorkerLoop({
+      workerId: "w1",
+      job: droneJob({ droneName: "lint", sessionId, branch: "drones/lint/s1", prompt: "Fix lint", cooldownSeconds: 0 }),
+      workDir: dir,
+      maxIterations: 2,
+      claudeCommand: claude,
+    });
+    assertEquals(result.status, "completed");
+    assertEquals(result.cause, "max_iterations");
+    assertEquals(result.iterations, 2);
+    const session = getDroneSession(sessionId);
+    assertEquals(session?.status, "completed");
+    assertEquals(session?.stop_reason, "max_iterations");
+    assertEquals(session?.iteration, 2);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("runWorkerLoop - drone stops after the iteration in which its session was stopped", async () => {
+  const { dir, claude, cleanup } = await setup([line({ type: "system", subtype: "init" })]);
+  try {
+    const sessionId = addDrone();
+    updateSessionStatus(sessionId, "stopped", "manual");
+    const result = await runWorkerLoop({
+      workerId: "w1",
+      job: droneJob({ droneName: "lint", sessionId, branch: "drones/lint/s1", prompt: "Fix lint", cooldownSeconds: 0 }),
+      workDir: dir,
+      maxIterations: 2,
+      claudeCommand: claude,
+    });
+    assertEquals(result.cause, "finished");
+    assertEquals(result.iterations, 1);
+    assertEquals(getDroneSession(sessionId)?.stop_reason, "manual");
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("runWorkerLoop - a spent budget stops the worker before it starts Claude", async () => {
+  const { dir, claude, cleanup } = await setup([line({ type: "system", subtype: "init" })]);
+  try {
+    const sessionId = addDrone({ maxTokens: 100 });
+    recordWorkerUsage("w1", 0, {
+      model: null,
+      input_tokens: 150,
+      output_tokens: 0,
+      cache_creation_tokens: 0,
+      cache_read_tokens: 0,
+      cost_usd: null,
+      num_turns: null,
+      duration_ms: null,
+    });
+    const result = await runWorkerLoop({
+      workerId: "w1",
+      job: droneJob({ droneName: "lint", sessionId, branch: "drones/lint/s1", prompt: "Fix lint", cooldownSeconds: 0 }),
+      workDir: dir,
+      maxIterations: 2,
+      claudeCommand: claude,
+    });
+    assertEquals([result.status, result.cause], ["failed", "budget_exhausted"]);
+    assertEquals(result.iterations, 0);
+    assertEquals(getWorker("w1")?.stop_reason, "budget_exhausted");
+    assertEquals(getDroneSession(sessionId)?.status, "stopped");
+  } finally {
+    await cleanup();
+  }
+});
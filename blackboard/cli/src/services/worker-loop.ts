@@ -0,0 +1,443 @@
+/**
+ * Worker loop: runs Claude one iteration at a time until the job is done,
+ * the budget or iterations run out, or the worker is killed. One
+ * implementation serves thread workers and drones (see worker-jobs.ts for
+ * what differs between them), in containers via `blackboard worker-run` and
+ * on the host via `blackboard work --worktree`. Heartbeats, logs, events,
+ * usage and commit links are written with the typed queries, so `workers`,
+ * `logs` and the dashboard see every worker the same way.
+ */
+
+import {
+  getWorker,
+  insertWorkerEvent,
+  insertWorkerLog,
+  setWorkerStopReason,
+  updateHeartbeat,
+  updateWorkerIteration,
+  updateWorkerStatus,
+} from "../db/worker-queries.ts";
+import { getWorkerBudget, recordWorkerUsage } from "../db/usage-queries.ts";
+import { inferCommitContext, linkCommits } from "./commit-links.ts";
+import { getCommitSha, listRevisions } from "../utils/git.ts";
+import { StreamJsonParser } from "../utils/stream-json.ts";
+import type { WorkerStatus } from "../types/schema.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a worker works on: its prompt and how it decides it is done.
+ * Built by threadJob() and droneJob().
+ */
+export interface WorkerLoopJob {
+  /** Branch the worker commits to */
+  branch: string;
+  /** Builds the prompt for an iteration, just before Claude starts */
+  prompt(iteration: number, maxIterations: number): string;
+  appendSystemPrompt: string;
+  /** Contents of the --mcp-config file for the checkout Claude runs in, if Claude gets MCP servers */
+  mcpConfig?(workDir: string): Record<string, unknown>;
+  /** Output text that means the work is done */
+  completionPromise?: string;
+  /** Status recorded when maxIterations runs out */
+  maxIterationsStatus: Extract<WorkerStatus, "completed" | "failed">;
+  /** Seconds to wait between iterations; logged as a cooldown (default: a 2 second pause) */
+  cooldownSeconds?: number;
+  /** Called as an iteration starts, after the iteration count is updated */
+  onIterationStart?(iteration: number): void;
+  /**
+   * Called after an iteration that exited cleanly, with the checkout it ran
+   * in (for verification commands).
+   * @returns Why the work is finished, or null to keep going
+   */
+  checkFinished(iteration: number, sawCompletionPromise: boolean, workDir: string): string | null | Promise<string | null>;
+  /** Records a timeout, failure or spent budget where later iterations will see it */
+  recordProblem?(summary: string, next: string): void;
+  /** Called once with the outcome, after the worker's final status is written */
+  onFinish?(result: WorkerLoopResult): void;
+}
+
+export interface WorkerLoopOptions {
+  workerId: string;
+  job: WorkerLoopJob;
+  /** Checkout Claude runs in */
+  workDir: string;
+  maxIterations: number;
+  /** Seconds before an iteration's Claude process is stopped (default: 600) */
+  iterationTimeoutSeconds?: number;
+  /** Push the branch to origin after each successful iteration (container clones) */
+  push?: boolean;
+  /** Claude CLI executable (default: claude) */
+  claudeCommand?: string;
+  /** Stops the loop, e.g. on Ctrl-C; the worker is then marked killed */
+  signal?: AbortSignal;
+  /** Called with each status message the loop logs */
+  onMessage?: (message: string) => void;
+}
+
+export interface WorkerLoopResult {
+  status: Extract<WorkerStatus, "completed" | "failed" | "killed">;
+  /** finished: the job said it was done (or went idle) */
+  cause: "finished" | "budget_exhausted" | "max_iterations" | "killed";
+  iterations: number;
+  reason: string;
+}
+
+export interface ClaudeIterationOptions {
+  workerId: string;
+  iteration: number;
+  prompt: string;
+  cwd: string;
+  mcpConfigPath?: string;
+  appendSystemPrompt?: string;
+  timeoutSeconds: number;
+  /** Claude CLI executable (default: claude) */
+  command?: string;
+  /** Kills the Claude process when aborted */
+  signal?: AbortSignal;
+  /** Text to look for in the output (e.g. the completion promise) */
+  watchFor?: string;
+}
+
+export interface ClaudeIterationResult {
+  exitCode: number;
+  timedOut: boolean;
+  aborted: boolean;
+  /** Whether the watchFor text appeared in the output */
+  sawWatchedText: boolean;
+  /** The rate limit or overload error the stream reported, if any */
+  rateLimit: string | null;
+}
+
+const DEFAULT_ITERATION_TIMEOUT_SECONDS = 600;
+const HEARTBEAT_INTERVAL_MS = 10_000;
+const PAUSE_BETWEEN_ITERATIONS_MS = 2000;
+// Rate-limited attempts retried before the iteration counts as failed
+const MAX_RATE_LIMIT_RETRIES = 8;
+const MAX_RATE_LIMIT_WAIT_SECONDS = 300;
+
+// ============================================================================
+// Claude process
+// ============================================================================
+
+/**
+ * Runs one Claude iteration with stream-json output. Every output line is
+ * logged to worker_logs, tool calls and results become worker_events, and
+ * the iteration's token usage is recorded in worker_usage.
+ *
+ * @param options - Prompt, working directory, timeout and worker details
+ * @returns Exit code and whether the run timed out, was aborted or printed watchFor
+ * @throws Error if the claude CLI can't be started
+ */
+export async function runClaudeIteration(options: ClaudeIterationOptions): Promise<ClaudeIterationResult> {
+  const { workerId, iteration } = options;
+  const args = [
+    "-p", options.prompt,
+    "--output-format", "stream-json",
+    "--verbose",
+    "--dangerously-skip-permissions",
+  ];
+  if (options.mcpConfigPath) {
+    args.push("--mcp-config", options.mcpConfigPath);
+  }
+  if (options.appendSystemPrompt) {
+    args.push("--append-system-prompt", options.appendSystemPrompt);
+  }
+
+  const child = new Deno.Command(options.command ?? "claude", {
+    args,
+    cwd: options.cwd,
+    stdin: "null",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+
+  let timedOut = false;
+  let aborted = false;
+  const stop = () => {
+    try {
+      child.kill("SIGTERM");
+    } catch {
+      // Already exited
+    }
+  };
+  const timer = setTimeout(() => {
+    timedOut = true;
+    stop();
+  }, options.timeoutSeconds * 1000);
+  const onAbort = () => {
+    aborted = true;
+    stop();
+  };
+  options.signal?.addEventListener("abort", onAbort);
+  if (options.signal?.aborted) {
+    onAbort();
+  }
+
+  const parser = new StreamJsonParser();
+  let sawWatchedText = false;
+
+  const stdoutDone = forEachLine(child.stdout, (line) => {
+    insertWorkerLog(workerId, "stdout", line, iteration);
+    if (options.watchFor && line.includes(options.watchFor)) {
+      sawWatchedText = true;
+    }
+    for (const event of parser.parseLine(line)) {
+      insertWorkerEvent({
+        worker_id: workerId,
+        iteration,
+        event_type: event.event_type,
+        tool_name: event.tool_name ?? null,
+        tool_input: event.tool_input ?? null,
+        tool_output_preview: event.tool_output_preview ?? null,
+        file_path: event.file_path ?? null,
+        duration_ms: null,
+      });
+    }
+  });
+  const stderrDone = forEachLine(child.stderr, (line) => {
+    insertWorkerLog(workerId, "stderr", line, iteration);
+  });
+
+  try {
+    const status = await child.status;
+    const output = Promise.all([stdoutDone, stderrDone]);
+    if (timedOut || aborted) {
+      // Processes claude started can hold the pipes open after it is killed
+      let grace: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([output, new Promise((r) => grace = setTimeout(r, 2000))]);
+      clearTimeout(grace);
+    } else {
+      await output;
+    }
+    const usage = parser.usage();
+    if (usage) {
+      recordWorkerUsage(workerId, iteration, usage);
+    }
+    return { exitCode: status.code, timedOut, aborted, sawWatchedText, rateLimit: parser.rateLimit() };
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Calls fn with each non-empty line of a byte stream.
+ */
+async function forEachLine(stream: ReadableStream<Uint8Array>, fn: (line: string) => void): Promise<void> {
+  const decoder = new TextDecoder();
+  let pending = "";
+  for await (const chunk of stream) {
+    pending += decoder.decode(chunk, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) fn(line);
+    }
+  }
+  pending += decoder.decode();
+  if (pending.trim()) fn(pending);
+}
+
+// ============================================================================
+// Loop
+// ============================================================================
+
+/**
+ * Sleeps, waking early if the signal aborts.
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Pushes the branch to origin, ignoring failures (e.g. no remote).
+ */
+function pushBranch(branch: string, cwd: string): void {
+  new Deno.Command("git", { args: ["push", "origin", branch], cwd, stdout: "null", stderr: "null" }).outputSync();
+}
+
+/**
+ * Runs a worker until its job is finished. The worker row must already
+ * exist; its heartbeat, iteration and final status are kept up to date.
+ *
+ * Before each iteration the budget is checked; a spent budget fails the
+ * worker (stop_reason budget_exhausted). Timed out and failed
+ * iterations are passed to job.recordProblem and retried. An iteration the
+ * stream reports as rate limited (or overloaded) is retried after an
+ * exponential backoff without counting towards maxIterations, up to
+ * MAX_RATE_LIMIT_RETRIES times in a row. After a clean iteration the job decides whether
+ * the work is done. Commits made during an iteration are linked to the
+ * worker (and, on a thread branch, to the thread and its steps). The loop
+ * also stops after maxIterations, or when the worker is killed via
+ * options.signal or `blackboard kill`.
+ *
+ * @param options - Worker, job, checkout and limits
+ * @returns Final status, why the loop stopped and iterations run
+ * @throws Error if the job can't build a prompt (e.g. its thread was
+ *   deleted) or the claude CLI can't be started
+ */
+export async function runWorkerLoop(options: WorkerLoopOptions): Promise<WorkerLoopResult> {
+  const { workerId, job, workDir, maxIterations } = options;
+  const timeoutSeconds = options.iterationTimeoutSeconds ?? DEFAULT_ITERATION_TIMEOUT_SECONDS;
+  const stopper = new AbortController();
+  const stopOnSignal = () => stopper.abort();
+  options.signal?.addEventListener("abort", stopOnSignal);
+  if (options.signal?.aborted) {
+    stopper.abort();
+  }
+
+  let iteration = 0;
+  let rateLimitRetries = 0;
+  const log = (message: string) => {
+    insertWorkerLog(workerId, "system", message, iteration);
+    options.onMessage?.(message);
+  };
+  const finish = (
+    status: WorkerLoopResult["status"],
+    cause: WorkerLoopResult["cause"],
+    reason: string
+  ): WorkerLoopResult => {
+    log(reason);
+    updateWorkerIteration(workerId, iteration);
+    updateWorkerStatus(workerId, status);
+    const result = { status, cause, iterations: iteration, reason };
+    job.onFinish?.(result);
+    return result;
+  };
+
+  // Heartbeat, and notice `blackboard kill` marking this worker killed
+  const heartbeat = setInterval(() => {
+    try {
+      updateHeartbeat(workerId);
+      if (getWorker(workerId)?.status === "killed") {
+        stopper.abort();
+      }
+    } catch {
+      // Database busy; try again next beat
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let mcpConfigPath: string | undefined;
+  if (job.mcpConfig) {
+    mcpConfigPath = await Deno.makeTempFile({ prefix: "blackboard-mcp-", suffix: ".json" });
+    await Deno.writeTextFile(mcpConfigPath, JSON.stringify(job.mcpConfig(workDir)));
+  }
+
+  try {
+    while (iteration < maxIterations || rateLimitRetries > 0) {
+      if (stopper.signal.aborted) {
+        return finish("killed", "killed", `Worker stopped after ${iteration} iterations`);
+      }
+
+      // Budget check - stop before starting an iteration once the budget is spent
+      const budget = getWorkerBudget(workerId);
+      if (budget?.exhausted_reason) {
+        const reason = `Budget exhausted after ${iteration} iterations: ${budget.exhausted_reason}`;
+        job.recordProblem?.(reason, "Budget exhausted - resume with a new worker and a larger budget");
+        setWorkerStopReason(workerId, "budget_exhausted");
+        return finish("failed", "budget_exhausted", reason);
+      }
+
+      // A rate-limited attempt is retried as the same iteration
+      if (rateLimitRetries === 0) {
+        iteration++;
+        updateWorkerIteration(workerId, iteration);
+        job.onIterationStart?.(iteration);
+      }
+
+      const prompt = job.prompt(iteration, maxIterations);
+      const startSha = getCommitSha("HEAD", workDir);
+
+      log(`Starting iteration ${iteration} of ${maxIterations}`);
+      const run = await runClaudeIteration({
+        workerId,
+        iteration,
+        prompt,
+        cwd: workDir,
+        mcpConfigPath,
+        appendSystemPrompt: job.appendSystemPrompt,
+        timeoutSeconds,
+        command: options.claudeCommand,
+        signal: stopper.signal,
+        watchFor: job.completionPromise,
+      });
+
+      // Link the iteration's commits to this worker, and its thread and steps
+      if (startSha) {
+        const revisions = listRevisions(`${startSha}..HEAD`, workDir);
+        if (revisions.length > 0) {
+          try {
+            linkCommits(revisions, inferCommitContext(job.branch, workerId), { fillOnly: true, cwd: workDir });
+          } catch (error) {
+            log(`Could not link commits: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      }
+
+      if (run.aborted) {
+        return finish("killed", "killed", `Worker stopped during iteration ${iteration}`);
+      }
+
+      if (run.rateLimit && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+        // Exponential backoff with jitter
+        const wait = Math.min(5 * 2 ** rateLimitRetries, MAX_RATE_LIMIT_WAIT_SECONDS) + Math.floor(Math.random() * 5);
+        rateLimitRetries++;
+        log(`Rate limited (${run.rateLimit}), retrying iteration ${iteration} in ${wait}s...`);
+        await sleep(wait * 1000, stopper.signal);
+        continue;
+      }
+      rateLimitRetries = 0;
+
+      if (run.timedOut) {
+        const message = `Claude CLI timed out after ${timeoutSeconds} seconds in iteration ${iteration}`;
+        log(message);
+        job.recordProblem?.(message, "Timeout occurred - retrying in next iteration");
+        await sleep(5000, stopper.signal);
+        continue;
+      }
+
+      if (run.exitCode !== 0) {
+        const message = `Iteration ${iteration} failed with status ${run.exitCode}`;
+        log(message);
+        job.recordProblem?.(message, "Retry needed");
+        await sleep(PAUSE_BETWEEN_ITERATIONS_MS, stopper.signal);
+        continue;
+      }
+
+      if (options.push) {
+        pushBranch(job.branch, workDir);
+      }
+
+      const finished = await job.checkFinished(iteration, run.sawWatchedText, workDir);
+      if (finished) {
+        return finish("completed", "finished", finished);
+      }
+
+      if (job.cooldownSeconds === undefined) {
+        await sleep(PAUSE_BETWEEN_ITERATIONS_MS, stopper.signal);
+      } else if (iteration < maxIterations) {
+        log(`Cooldown for ${job.cooldownSeconds}s before next iteration`);
+        await sleep(job.cooldownSeconds * 1000, stopper.signal);
+      }
+    }
+
+    return finish(job.maxIterationsStatus, "max_iterations", `Max iterations (${maxIterations}) reached`);
+  } finally {
+    clearInterval(heartbeat);
+    options.signal?.removeEventListener("abort", stopOnSignal);
+    if (mcpConfigPath) {
+      await Deno.remove(mcpConfigPath).catch(() => {});
+    }
+  }
+}
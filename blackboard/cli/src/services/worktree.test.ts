@@ -0,0 +1,61 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { existsSync } from "jsr:@std/fs";
+import { closeDb, getDb } from "../db/connection.ts";
+import { insertThread } from "../db/queries.ts";
+import { getCommitSha } from "../utils/git.ts";
+import { discardReviewBranch, rebaseReviewBranch, resolveReviewTarget } from "./review.ts";
+import { prepareThreadWorktree, removeThreadWorktree } from "./worktree.ts";
+
+function git(cwd: string, ...args: string[]): void {
+  const result = new Deno.Command("git", { args, cwd, stdout: "null", stderr: "piped" }).outputSync();
+  if (!result.success) {
+    throw new Error(`git ${args.join(" ")}: ${new TextDecoder().decode(result.stderr)}`);
+  }
+}
+
+async function commitFile(cwd: string, name: string): Promise<void> {
+  await Deno.writeTextFile(join(cwd, name), `${name}\n`);
+  git(cwd, "add", name);
+  git(cwd, "commit", "-q", "-m", `Add ${name}`);
+}
+
+Deno.test("thread worktrees - review can rebase and discard a work --worktree branch", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-worktree-" });
+  const repo = join(dir, "repo");
+  const previousCwd = Deno.cwd();
+  try {
+    await Deno.mkdir(repo);
+    git(repo, "init", "-q", "-b", "main");
+    git(repo, "config", "user.email", "test@example.com");
+    git(repo, "config", "user.name", "Test");
+    await commitFile(repo, "README");
+    Deno.chdir(repo);
+    getDb(join(dir, "blackboard.db"));
+    insertThread({ id: "t1", name: "auth", current_plan_id: null, git_branches: null, status: "active" });
+
+    // A worker that finishes removes its worktree but keeps the branch
+    const worktree = prepareThreadWorktree("auth", { repoDir: repo });
+    await commitFile(worktree.path, "login.ts");
+    assertEquals(removeThreadWorktree(worktree.branch, worktree.path), worktree.path);
+    assert(!existsSync(worktree.path));
+    await commitFile(repo, "CHANGELOG");
+
+    const rebased = await rebaseReviewBranch(resolveReviewTarget("auth"), "main");
+    assertEquals(rebased.outcome, "rebased");
+    assert(existsSync(join(repo, "login.ts")));
+
+    // A worker that was killed leaves its worktree behind; review clears it
+    const leftover = prepareThreadWorktree("auth", { repoDir: repo });
+    await commitFile(leftover.path, "logout.ts");
+    const discarded = discardReviewBranch(resolveReviewTarget("auth"), "main");
+    assertEquals(discarded.outcome, "discarded");
+    assert(!existsSync(leftover.path));
+    assertEquals(getCommitSha("threads/auth"), null);
+  } finally {
+    Deno.chdir(previousCwd);
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
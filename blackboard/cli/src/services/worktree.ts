@@ -0,0 +1,143 @@
+/**
+ * Git worktrees for host workers. `blackboard work --worktree` runs each
+ * thread's worker in its own worktree on `threads/<name>`, next to the
+ * repository in `<repo>.worktrees/<name>`, so the user's checkout is never
+ * touched and no container runtime is needed. The branch lives in the same
+ * repository, so `blackboard review` picks the work up directly; the
+ * worktree is removed when the worker finishes so review can check the
+ * branch out or delete it.
+ */
+
+import { basename, dirname, join } from "jsr:@std/path";
+
+export class WorktreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorktreeError";
+  }
+}
+
+export interface ThreadWorktree {
+  path: string;
+  branch: string;
+  /** False when an existing worktree for the branch was reused */
+  created: boolean;
+}
+
+function git(args: string[], cwd?: string): { success: boolean; stdout: string; stderr: string } {
+  const result = new Deno.Command("git", { args, cwd, stdout: "piped", stderr: "piped" }).outputSync();
+  const decoder = new TextDecoder();
+  return {
+    success: result.success,
+    stdout: decoder.decode(result.stdout).trimEnd(),
+    stderr: decoder.decode(result.stderr).trimEnd(),
+  };
+}
+
+/**
+ * Finds the worktree that has a branch checked out.
+ *
+ * @returns Worktree path, or null if the branch isn't checked out anywhere
+ */
+function findWorktreeForBranch(branch: string, cwd: string): string | null {
+  const list = git(["worktree", "list", "--porcelain"], cwd);
+  if (!list.success) {
+    return null;
+  }
+  // Entries are blocks of "key value" lines separated by blank lines
+  for (const block of list.stdout.split("\n\n")) {
+    const lines = block.split("\n");
+    const path = lines.find((l) => l.startsWith("worktree "))?.slice("worktree ".length);
+    if (path && lines.includes(`branch refs/heads/${branch}`)) {
+      return path;
+    }
+  }
+  return null;
+}
+
+/**
+ * Directory that holds a repository's thread worktrees.
+ */
+function worktreesDir(repoRoot: string): string {
+  return join(dirname(repoRoot), `${basename(repoRoot)}.worktrees`);
+}
+
+/**
+ * Gets or creates the worktree for a thread.
+ *
+ * An existing worktree on `threads/<name>` is reused. Otherwise one is added
+ * at `<repo>.worktrees/<name>`, checking out the branch if it exists or
+ * creating it from baseBranch (default: the current HEAD).
+ *
+ * @param threadName - Thread name
+ * @param options - repoDir: repository (default: current directory);
+ *   baseBranch: where a new branch starts
+ * @returns Worktree path and branch
+ * @throws WorktreeError if this isn't a git repository or git refuses
+ *   (e.g. the branch is checked out in the main checkout)
+ */
+export function prepareThreadWorktree(
+  threadName: string,
+  options: { repoDir?: string; baseBranch?: string } = {}
+): ThreadWorktree {
+  const cwd = options.repoDir || Deno.cwd();
+  const branch = `threads/${threadName}`;
+
+  const toplevel = git(["rev-parse", "--show-toplevel"], cwd);
+  if (!toplevel.success) {
+    throw new WorktreeError(`Not a git repository: ${cwd}`);
+  }
+  const repoRoot = toplevel.stdout;
+
+  // Forget worktrees whose directories were deleted, so they can be re-added
+  git(["worktree", "prune"], repoRoot);
+
+  const existing = findWorktreeForBranch(branch, repoRoot);
+  if (existing === repoRoot) {
+    throw new WorktreeError(`${branch} is checked out in ${repoRoot} - switch to another branch first`);
+  }
+  if (existing) {
+    return { path: existing, branch, created: false };
+  }
+
+  const path = join(worktreesDir(repoRoot), threadName);
+  const branchExists = git(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`], repoRoot).success;
+  const args = branchExists
+    ? ["worktree", "add", path, branch]
+    : ["worktree", "add", "-b", branch, path, options.baseBranch || "HEAD"];
+  const added = git(args, repoRoot);
+  if (!added.success) {
+    throw new WorktreeError(`Could not create worktree for ${branch}: ${added.stderr}`);
+  }
+
+  return { path, branch, created: true };
+}
+
+/**
+ * Removes the thread worktree that has a branch checked out, freeing the
+ * branch to be rebased or deleted. The branch itself is kept. Worktrees
+ * outside `<repo>.worktrees/` (added by hand) are left alone.
+ *
+ * @param branch - Branch, e.g. threads/auth
+ * @param repoDir - Repository or any of its worktrees (default: current directory)
+ * @returns Path of the removed worktree, or null if there was none
+ * @throws WorktreeError if git refuses (e.g. uncommitted changes)
+ */
+export function removeThreadWorktree(branch: string, repoDir?: string): string | null {
+  const cwd = repoDir || Deno.cwd();
+  const commonDir = git(["rev-parse", "--path-format=absolute", "--git-common-dir"], cwd);
+  if (!commonDir.success) {
+    return null;
+  }
+  const repoRoot = dirname(commonDir.stdout);
+
+  const path = findWorktreeForBranch(branch, repoRoot);
+  if (!path || !path.startsWith(`${worktreesDir(repoRoot)}/`)) {
+    return null;
+  }
+  const removed = git(["worktree", "remove", path], repoRoot);
+  if (!removed.success) {
+    throw new WorktreeError(`Could not remove worktree ${path}: ${removed.stderr}`);
+  }
+  return path;
+}
@@ -9,6 +9,7 @@ import type { Tui } from "https://deno.land/x/tui@2.1.11/mod.ts";
 import type { TuiState } from "../state.ts";
 import type { WorkerEvent } from "../../types/schema.ts";
 import { relativeTime as relativeTimeUtil } from "../../utils/time.ts";
+import { formatCost, formatUsage } from "../../utils/usage.ts";
 import { padLine } from "../../utils/string.ts";
 
 export interface DroneDetailOptions {
@@ -284,7 +285,8 @@ export function createDroneDetail(options: DroneDetailOptions): () => void {
       configRows[0].text.value = padLine(configLine, rectangle.width);
     }
     if (configRows[1]) {
-      const statusLine = ` Status: ${drone.status}  Updated: ${relativeTime(drone.updated_at)}`;
+      const schedule = drone.schedule ? `  Schedule: ${drone.schedule}` : "";
+      const statusLine = ` Status: ${drone.status}${schedule}  Updated: ${relativeTime(drone.updated_at)}`;
       configRows[1].text.value = padLine(statusLine, rectangle.width);
     }
   };
@@ -322,7 +324,8 @@ export function createDroneDetail(options: DroneDetailOptions): () => void {
       currentSessionRows[0].text.value = padLine(statusLine, rectangle.width);
     }
     if (currentSessionRows[1]) {
-      const startedLine = ` Started: ${relativeTime(currentSession.started_at)}`;
+      const usage = state.droneSessionUsage.value.get(currentSession.id);
+      const startedLine = ` Started: ${relativeTime(currentSession.started_at)}${usage ? `  Usage: ${formatUsage(usage)}` : ""}`;
       currentSessionRows[1].text.value = padLine(startedLine, rectangle.width);
     }
     if (currentSessionRows[2]) {
@@ -399,7 +402,9 @@ export function createDroneDetail(options: DroneDetailOptions): () => void {
         const session = recentSessions[i];
         const statusIcon = session.status === 'completed' ? 'x' :
                           session.status === 'stopped' ? '-' : '!';
-        const line = ` [${statusIcon}] ${relativeTime(session.started_at)}  ${session.iteration} iters  ${session.git_branch || "no branch"}`;
+        const usage = state.droneSessionUsage.value.get(session.id);
+        const cost = usage ? `  ${formatCost(usage.cost_usd)}` : "";
+        const line = ` [${statusIcon}] ${relativeTime(session.started_at)}  ${session.iteration} iters${cost}  ${session.git_branch || "no branch"}`;
         recentSessionsRows[i].text.value = padLine(line, rectangle.width);
       } else {
         recentSessionsRows[i].text.value = " ".repeat(rectangle.width);
@@ -8,7 +8,7 @@ import { Signal } from "https://deno.land/x/tui@2.1.11/src/signals/mod.ts";
 import { crayon } from "https://deno.land/x/crayon@3.3.3/mod.ts";
 import type { Tui } from "https://deno.land/x/tui@2.1.11/mod.ts";
 import type { TuiState } from "../state.ts";
-import type { PlanStep } from "../../types/schema.ts";
+import type { CommitLink, PlanStep } from "../../types/schema.ts";
 import type { ClaudeTask } from "../../utils/tasks.ts";
 
 export interface MiddlePanelOptions {
@@ -231,6 +231,8 @@ export function createMiddlePanel(options: MiddlePanelOptions): () => void {
 
   const updateStepsSection = () => {
     const steps = state.steps.value;
+    const readiness = state.stepReadiness.value;
+    const stepCommits = state.stepCommits.value;
     const selectedIndex = state.selectedStepIndex.value;
     const isFocused = state.focusedPane.value === "steps";
     const findState = state.findState.value;
@@ -263,13 +265,20 @@ export function createMiddlePanel(options: MiddlePanelOptions): () => void {
           findState.matches[findState.currentMatchIndex]?.lineIndex === i &&
           state.focusedPane.value === "steps";
 
+        // Positions of unfinished steps this one is waiting on
+        const blockedBy = (readiness.get(step.id)?.blockedBy ?? [])
+          .map((id) => steps.find((s) => s.id === id)?.step_order)
+          .filter((order): order is number => order !== undefined);
+
         stepsRows[i].text.value = formatStepRow(
           step,
           isSelected,
           isFocused,
           rectangle.width,
           findState.query,
-          currentMatch
+          currentMatch,
+          step.status === "completed" ? [] : blockedBy,
+          stepCommits.get(step.id) ?? []
         );
       } else {
         stepsRows[i].text.value = " ".repeat(rectangle.width);
@@ -319,6 +328,8 @@ export function createMiddlePanel(options: MiddlePanelOptions): () => void {
   state.focusedPane.subscribe(updateStepsSection);
   state.focusedPane.subscribe(updateTasksSection);
   state.steps.subscribe(updateStepsSection);
+  state.stepReadiness.subscribe(updateStepsSection);
+  state.stepCommits.subscribe(updateStepsSection);
   state.tasks.subscribe(updateTasksSection);
   state.selectedStepIndex.subscribe(updateStepsSection);
   state.selectedTaskIndex.subscribe(updateTasksSection);
@@ -403,13 +414,22 @@ function formatStepRow(
   isFocused: boolean,
   width: number,
   query: string = "",
-  isCurrent: boolean = false
+  isCurrent: boolean = false,
+  blockedBy: number[] = [],
+  commits: CommitLink[] = []
 ): string {
   const icon = STEP_ICONS[step.status] || "[?]";
   const selectionIndicator = isSelected ? (isFocused ? ">" : "*") : " ";
+  const blockedSuffix = blockedBy.length > 0 ? ` (blocked by ${blockedBy.join(", ")})` : "";
+  // Latest linked commit, plus how many more
+  const latest = commits[commits.length - 1];
+  const commitSuffix = latest
+    ? ` [${latest.sha.slice(0, 7)}${commits.length > 1 ? ` +${commits.length - 1}` : ""}]`
+    : "";
+  const suffix = blockedSuffix + commitSuffix;
 
   // Truncate description to fit
-  const maxDescLen = width - 7; // selection + icon (3) + spaces (3)
+  const maxDescLen = width - 7 - suffix.length; // selection + icon (3) + spaces (3)
   let desc = step.description.length > maxDescLen
     ? step.description.slice(0, maxDescLen - 1) + "~"
     : step.description;
@@ -419,7 +439,7 @@ function formatStepRow(
     desc = highlightMatches(desc, query, isCurrent);
   }
 
-  const line = `${selectionIndicator}${icon} ${desc}`;
+  const line = `${selectionIndicator}${icon} ${desc}${suffix}`;
   return padLine(line, width);
 }
 
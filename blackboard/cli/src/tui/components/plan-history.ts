@@ -0,0 +1,288 @@
+/**
+ * Plan revision browser overlay.
+ * Lists every revision of the selected thread's plan (newest first) above
+ * the selected revision's diff against the one before it, or its full text.
+ */
+
+import { Text, Box } from "https://deno.land/x/tui@2.1.11/src/components/mod.ts";
+import { Computed, Signal } from "https://deno.land/x/tui@2.1.11/src/signals/mod.ts";
+import { crayon } from "https://deno.land/x/crayon@3.3.3/mod.ts";
+import type { Tui } from "https://deno.land/x/tui@2.1.11/mod.ts";
+import type { TuiState } from "../state.ts";
+import type { PlanRevision } from "../../types/schema.ts";
+import { diffStats, unifiedDiff } from "../../utils/diff.ts";
+import { formatLocalDateTime } from "../../utils/time.ts";
+
+export interface PlanHistoryOptions {
+  tui: Tui;
+  state: TuiState;
+  onMove: (delta: number) => void;
+  onToggleDiff: () => void;
+  onRestore: () => void;
+  onClose: () => void;
+}
+
+const MAX_VISIBLE_REVISIONS = 6;
+
+/**
+ * Create the plan revision browser overlay.
+ * Returns cleanup function to destroy components.
+ */
+export function createPlanHistory(options: PlanHistoryOptions): () => void {
+  const { tui, state, onMove, onToggleDiff, onRestore, onClose } = options;
+  const components: (Text | Box)[] = [];
+
+  const size = tui.canvas.size.value;
+  const top = 1; // Below tab bar
+  const height = size.rows - 2; // Above status bar
+  const revisions = state.planHistory.value.revisions;
+  const listRows = Math.min(MAX_VISIBLE_REVISIONS, revisions.length);
+  const contentRows = Math.max(1, height - listRows - 3); // headers + hint bar
+
+  // Lines added/removed by each revision, computed once per open
+  const stats = revisions.map((revision, index) =>
+    diffStats(index > 0 ? revisions[index - 1].plan_markdown : "", revision.plan_markdown)
+  );
+
+  // Scroll position within the selected revision's content
+  const contentScroll = new Signal<number>(0);
+
+  const panel = new Box({
+    parent: tui,
+    theme: { base: crayon.bgBlack },
+    rectangle: {
+      column: 0,
+      row: top,
+      width: size.columns,
+      height,
+    },
+    zIndex: 50,
+  });
+  components.push(panel);
+
+  // List header
+  const listHeaderText = new Computed(() => {
+    const history = state.planHistory.value;
+    const count = history.revisions.length;
+    return padLine(
+      ` PLAN HISTORY: ${history.threadName} (${count} revision${count === 1 ? "" : "s"})`,
+      size.columns
+    );
+  });
+  const listHeader = new Text({
+    parent: tui,
+    text: listHeaderText,
+    theme: { base: crayon.bgBlack.white.bold },
+    rectangle: { column: 0, row: top },
+    zIndex: 51,
+  });
+  components.push(listHeader);
+
+  // Revision rows
+  const revisionRows: Signal<string>[] = [];
+  for (let i = 0; i < listRows; i++) {
+    const rowText = new Signal<string>("");
+    const text = new Text({
+      parent: tui,
+      text: rowText,
+      theme: { base: crayon.bgBlack.white },
+      rectangle: { column: 0, row: top + 1 + i },
+      zIndex: 51,
+    });
+    revisionRows.push(rowText);
+    components.push(text);
+  }
+
+  // Content header
+  const contentRow = top + 1 + listRows;
+  const contentHeaderText = new Computed(() => {
+    const history = state.planHistory.value;
+    const number = history.selectedIndex + 1;
+    const mode = history.showDiff
+      ? number > 1 ? `diff against revision ${number - 1}` : "diff against empty plan"
+      : "full plan";
+    return padLine(` REVISION ${number} - ${mode}`, size.columns);
+  });
+  const contentHeader = new Text({
+    parent: tui,
+    text: contentHeaderText,
+    theme: { base: crayon.bgBlack.white.bold },
+    rectangle: { column: 0, row: contentRow },
+    zIndex: 51,
+  });
+  components.push(contentHeader);
+
+  // Content rows
+  const contentTexts: Signal<string>[] = [];
+  for (let i = 0; i < contentRows; i++) {
+    const rowText = new Signal<string>("");
+    const text = new Text({
+      parent: tui,
+      text: rowText,
+      theme: { base: crayon.bgBlack.white },
+      rectangle: { column: 0, row: contentRow + 1 + i },
+      zIndex: 51,
+    });
+    contentTexts.push(rowText);
+    components.push(text);
+  }
+
+  // Lines of the selected revision's diff or full text
+  let contentLines: string[] = [];
+
+  const updateRevisionRows = () => {
+    const history = state.planHistory.value;
+
+    // Newest first; scroll so the selected revision stays visible
+    const selectedRow = history.revisions.length - 1 - history.selectedIndex;
+    const scrollOffset = Math.max(0, selectedRow - listRows + 1);
+
+    for (let i = 0; i < listRows; i++) {
+      const index = history.revisions.length - 1 - (i + scrollOffset);
+      revisionRows[i].value = index >= 0
+        ? formatRevisionRow(history.revisions[index], index, stats[index], index === history.selectedIndex, size.columns)
+        : " ".repeat(size.columns);
+    }
+  };
+
+  const updateContentRows = () => {
+    const scroll = contentScroll.value;
+    for (let i = 0; i < contentRows; i++) {
+      const line = contentLines[i + scroll];
+      contentTexts[i].value = line === undefined ? " ".repeat(size.columns) : colorizeLine(line, size.columns);
+    }
+  };
+
+  const updateContent = () => {
+    const history = state.planHistory.value;
+    const revision = history.revisions[history.selectedIndex];
+    if (!revision) return;
+
+    if (history.showDiff) {
+      const previous = history.revisions[history.selectedIndex - 1]?.plan_markdown ?? "";
+      const diff = unifiedDiff(previous, revision.plan_markdown, {
+        oldLabel: history.selectedIndex > 0 ? `revision ${history.selectedIndex}` : "/dev/null",
+        newLabel: `revision ${history.selectedIndex + 1}`,
+      });
+      // Skip the ---/+++ header lines - the content header says what is compared
+      contentLines = diff ? diff.replace(/\n$/, "").split("\n").slice(2) : ["(no changes)"];
+    } else {
+      contentLines = revision.plan_markdown.split("\n").map((line) => ` ${line}`);
+    }
+
+    contentScroll.value = 0;
+    updateContentRows();
+  };
+
+  state.planHistory.subscribe(updateRevisionRows);
+  state.planHistory.subscribe(updateContent);
+  contentScroll.subscribe(updateContentRows);
+  updateRevisionRows();
+  updateContent();
+
+  // Hint bar
+  const hintRow = top + height - 1;
+  const bar = new Box({
+    parent: tui,
+    theme: { base: crayon.bgBlue },
+    rectangle: {
+      column: 0,
+      row: hintRow,
+      width: size.columns,
+      height: 1,
+    },
+    zIndex: 50,
+  });
+  components.push(bar);
+
+  const hint = new Text({
+    parent: tui,
+    text: " j/k:revision d:diff/full J/K:scroll r:restore Esc:close",
+    theme: { base: crayon.bgBlue.white },
+    rectangle: { column: 0, row: hintRow },
+    zIndex: 51,
+  });
+  components.push(hint);
+
+  const scrollContent = (delta: number) => {
+    const maxScroll = Math.max(0, contentLines.length - contentRows);
+    contentScroll.value = Math.min(maxScroll, Math.max(0, contentScroll.value + delta));
+  };
+
+  // Key handler - the list shows newest first, so "down" moves to older revisions
+  const keyHandler = (event: any) => {
+    const key = event.key;
+    if (!state.planHistory.value.isActive) return;
+
+    // Only Escape closes - the "h" that opened the overlay also reaches this handler
+    if (key === "escape") {
+      onClose();
+    } else if (key === "up" || (key === "k" && !event.shift)) {
+      onMove(1);
+    } else if (key === "down" || (key === "j" && !event.shift)) {
+      onMove(-1);
+    } else if (key === "K" || (key === "k" && event.shift) || key === "pageup") {
+      scrollContent(-contentRows);
+    } else if (key === "J" || (key === "j" && event.shift) || key === "pagedown") {
+      scrollContent(contentRows);
+    } else if (key === "d") {
+      onToggleDiff();
+    } else if (key === "r") {
+      onRestore();
+    }
+  };
+
+  tui.on("keyPress", keyHandler);
+
+  // Return cleanup function
+  return () => {
+    tui.off("keyPress", keyHandler);
+    for (const component of components) {
+      component.destroy();
+    }
+  };
+}
+
+/**
+ * Format a revision row.
+ * Returns PLAIN TEXT - styling is handled by the component theme.
+ * Format: "> #3  2026-01-02 10:00:00  human (ben)  +2 -1  reason"
+ */
+function formatRevisionRow(
+  revision: PlanRevision,
+  index: number,
+  stats: { added: number; removed: number },
+  isSelected: boolean,
+  maxWidth: number
+): string {
+  const indicator = isSelected ? ">" : " ";
+  const number = `#${index + 1}`.padEnd(5);
+  const author = revision.author ? `${revision.author_type} (${revision.author.substring(0, 12)})` : revision.author_type;
+  const changes = `+${stats.added} -${stats.removed}`.padEnd(10);
+  const reason = revision.reason ?? "";
+  return padLine(
+    `${indicator} ${number}${formatLocalDateTime(revision.created_at)}  ${author.padEnd(22)}${changes}${reason}`,
+    maxWidth
+  );
+}
+
+/**
+ * Pad a diff or plan line and color it by its diff prefix.
+ */
+function colorizeLine(line: string, width: number): string {
+  const padded = padLine(line, width);
+  if (line.startsWith("+")) return crayon.green(padded);
+  if (line.startsWith("-")) return crayon.red(padded);
+  if (line.startsWith("@@")) return crayon.cyan(padded);
+  return padded;
+}
+
+/**
+ * Pad a line to exact width.
+ */
+function padLine(text: string, width: number): string {
+  if (text.length >= width) {
+    return text.slice(0, width);
+  }
+  return text + " ".repeat(width - text.length);
+}
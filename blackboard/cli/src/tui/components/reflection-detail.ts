@@ -0,0 +1,173 @@
+/**
+ * Reflection detail panel component.
+ * Shows the full text of the selected reflection or correction along with
+ * the plan and thread it was recorded against.
+ */
+
+import { Text, Box } from "https://deno.land/x/tui@2.1.11/src/components/mod.ts";
+import { Signal } from "https://deno.land/x/tui@2.1.11/src/signals/mod.ts";
+import { crayon } from "https://deno.land/x/crayon@3.3.3/mod.ts";
+import type { Tui } from "https://deno.land/x/tui@2.1.11/mod.ts";
+import type { TuiState, ReflectionListItem } from "../state.ts";
+import { formatLocalDateTime } from "../../utils/time.ts";
+
+export interface ReflectionDetailOptions {
+  tui: Tui;
+  state: TuiState;
+  rectangle: {
+    column: number;
+    row: number;
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Create the reflection detail panel.
+ * Returns cleanup function to destroy components.
+ */
+export function createReflectionDetail(options: ReflectionDetailOptions): () => void {
+  const { tui, state, rectangle } = options;
+  const components: (Text | Box)[] = [];
+
+  // Background panel
+  const panel = new Box({
+    parent: tui,
+    theme: { base: crayon.bgBlack },
+    rectangle: {
+      column: rectangle.column,
+      row: rectangle.row,
+      width: rectangle.width,
+      height: rectangle.height,
+    },
+    zIndex: 1,
+  });
+  components.push(panel);
+
+  // Header
+  const headerText = new Signal<string>(" DETAIL ");
+  const header = new Text({
+    parent: tui,
+    text: headerText,
+    theme: { base: crayon.bgBlack.white.bold },
+    rectangle: { column: rectangle.column, row: rectangle.row },
+    zIndex: 2,
+  });
+  components.push(header);
+
+  // Content rows (one Text component per line)
+  const contentRows: { text: Signal<string>; component: Text }[] = [];
+  const contentHeight = rectangle.height - 1; // Subtract header row
+
+  for (let i = 0; i < contentHeight; i++) {
+    const rowText = new Signal<string>("");
+    const text = new Text({
+      parent: tui,
+      text: rowText,
+      theme: { base: crayon.bgBlack.white },
+      rectangle: { column: rectangle.column, row: rectangle.row + 1 + i },
+      zIndex: 2,
+    });
+    contentRows.push({ text: rowText, component: text });
+    components.push(text);
+  }
+
+  // Update function
+  const updateContent = () => {
+    const item = state.selectedReflection.value;
+
+    if (!item) {
+      headerText.value = " DETAIL ";
+      if (contentRows[0]) {
+        contentRows[0].text.value = padLine(" Select a reflection or correction", rectangle.width);
+      }
+      for (let i = 1; i < contentRows.length; i++) {
+        contentRows[i].text.value = " ".repeat(rectangle.width);
+      }
+      return;
+    }
+
+    headerText.value = item.kind === "correction"
+      ? " CORRECTION "
+      : ` REFLECTION (${item.trigger ?? "no trigger"}) `;
+
+    const lines = buildDetailLines(item);
+
+    for (let i = 0; i < contentRows.length; i++) {
+      if (i < lines.length) {
+        // Prefix with space for padding
+        contentRows[i].text.value = padLine(" " + lines[i], rectangle.width);
+      } else {
+        contentRows[i].text.value = " ".repeat(rectangle.width);
+      }
+    }
+  };
+
+  // Subscribe to state changes
+  state.selectedReflection.subscribe(updateContent);
+  state.reflectionListItems.subscribe(updateContent);
+
+  // Initial render
+  updateContent();
+
+  // Return cleanup function
+  return () => {
+    for (const component of components) {
+      component.destroy();
+    }
+  };
+}
+
+/**
+ * Build the plain-text lines shown for a reflection or correction:
+ * source metadata first, then the body.
+ */
+function buildDetailLines(item: ReflectionListItem): string[] {
+  const lines: string[] = [];
+
+  lines.push(`Recorded: ${formatLocalDateTime(item.created_at)}`);
+  lines.push(`Thread:   ${item.thread_name ?? "(none)"}`);
+  if (item.plan_id) {
+    const planLabel = item.plan_description
+      ? `${item.plan_description} (${item.plan_id.slice(0, 8)})`
+      : item.plan_id.slice(0, 8);
+    lines.push(`Plan:     ${planLabel}`);
+  } else {
+    lines.push("Plan:     (none)");
+  }
+  lines.push("");
+
+  if (item.kind === "reflection") {
+    lines.push(...item.content.split("\n"));
+    return lines;
+  }
+
+  if (item.tagList.length > 0) {
+    lines.push(`Tags: ${item.tagList.join(", ")}`);
+    lines.push("");
+  }
+  lines.push("Mistake:");
+  lines.push(...item.mistake.split("\n").map((l) => `  ${l}`));
+  if (item.symptoms) {
+    lines.push("");
+    lines.push("Symptoms:");
+    lines.push(...item.symptoms.split("\n").map((l) => `  ${l}`));
+  }
+  if (item.resolution) {
+    lines.push("");
+    lines.push("Resolution:");
+    lines.push(...item.resolution.split("\n").map((l) => `  ${l}`));
+  }
+
+  return lines;
+}
+
+/**
+ * Pad a line to exact width.
+ */
+function padLine(text: string, width: number): string {
+  if (text.length >= width) {
+    return text.slice(0, width);
+  }
+  return text + " ".repeat(width - text.length);
+}
@@ -0,0 +1,185 @@
+/**
+ * Reflection list panel component.
+ * Displays reflections and corrections together with a kind icon,
+ * truncated first line, and created time.
+ * Supports keyboard navigation with j/k or arrow keys.
+ */
+
+import { Text, Box } from "https://deno.land/x/tui@2.1.11/src/components/mod.ts";
+import { Computed, Signal } from "https://deno.land/x/tui@2.1.11/src/signals/mod.ts";
+import { crayon } from "https://deno.land/x/crayon@3.3.3/mod.ts";
+import type { Tui } from "https://deno.land/x/tui@2.1.11/mod.ts";
+import type { TuiState, ReflectionListItem } from "../state.ts";
+
+export interface ReflectionListOptions {
+  tui: Tui;
+  state: TuiState;
+  rectangle: {
+    column: number;
+    row: number;
+    width: number;
+    height: number;
+  };
+}
+
+// Icons for reflection triggers; corrections always use "x"
+const TRIGGER_ICONS: Record<string, string> = {
+  manual: "m",
+  compact: "c",
+  completion: "✓",
+  stop: "s",
+};
+
+/**
+ * Create the reflection list panel.
+ * Returns cleanup function to destroy components.
+ */
+export function createReflectionList(options: ReflectionListOptions): () => void {
+  const { tui, state, rectangle } = options;
+  const components: (Text | Box)[] = [];
+
+  // Panel background
+  const panel = new Box({
+    parent: tui,
+    theme: { base: crayon.bgBlack },
+    rectangle: {
+      column: rectangle.column,
+      row: rectangle.row,
+      width: rectangle.width,
+      height: rectangle.height,
+    },
+    zIndex: 1,
+  });
+  components.push(panel);
+
+  // Header shows the active trigger and tag filters
+  const headerText = new Computed(() => {
+    const filter = state.reflectionFilter.value;
+    const tag = state.reflectionTagFilter.value;
+    const filterLabel = filter === "all" ? "ALL" : filter.toUpperCase();
+    const tagLabel = tag ? ` #${tag}` : "";
+    return padLine(` REFLECTIONS [${filterLabel}]${tagLabel}`, rectangle.width);
+  });
+
+  const header = new Text({
+    parent: tui,
+    text: headerText,
+    theme: { base: crayon.bgBlack.white.bold },
+    rectangle: {
+      column: rectangle.column,
+      row: rectangle.row,
+    },
+    zIndex: 2,
+  });
+  components.push(header);
+
+  // Reflection rows - create row components
+  const maxVisibleRows = rectangle.height - 2;
+
+  const rows: { text: Signal<string>; component: Text }[] = [];
+
+  for (let i = 0; i < maxVisibleRows; i++) {
+    const rowText = new Signal<string>("");
+
+    const text = new Text({
+      parent: tui,
+      text: rowText,
+      theme: { base: crayon.bgBlack.white },
+      rectangle: {
+        column: rectangle.column,
+        row: rectangle.row + 1 + i,
+      },
+      zIndex: 2,
+    });
+
+    rows.push({ text: rowText, component: text });
+    components.push(text);
+  }
+
+  // Update row content when list or selection changes
+  const updateRows = () => {
+    const items = state.reflectionListItems.value;
+    const selectedIndex = state.selectedReflectionIndex.value;
+    const focusedOnList = state.focusedPane.value === "list";
+
+    // Scroll so the selected row stays visible
+    const scrollOffset = Math.max(0, selectedIndex - maxVisibleRows + 1);
+
+    for (let i = 0; i < maxVisibleRows; i++) {
+      const row = rows[i];
+      const itemIndex = i + scrollOffset;
+
+      if (items.length === 0 && i < 2) {
+        // Empty state messages
+        if (i === 0) {
+          row.text.value = padLine(" No reflections found", rectangle.width);
+        } else {
+          row.text.value = padLine(" Record with: blackboard reflect / oops", rectangle.width);
+        }
+      } else if (itemIndex < items.length) {
+        const item = items[itemIndex];
+        const isSelected = itemIndex === selectedIndex;
+        row.text.value = formatReflectionRow(item, isSelected, focusedOnList, rectangle.width);
+      } else {
+        row.text.value = " ".repeat(rectangle.width);
+      }
+    }
+  };
+
+  // Subscribe to state changes
+  state.reflectionListItems.subscribe(updateRows);
+  state.selectedReflectionIndex.subscribe(updateRows);
+  state.focusedPane.subscribe(updateRows);
+
+  // Initial render
+  updateRows();
+
+  // Return cleanup function
+  return () => {
+    for (const component of components) {
+      component.destroy();
+    }
+  };
+}
+
+/**
+ * Pad a line to exact width.
+ */
+function padLine(text: string, width: number): string {
+  if (text.length >= width) {
+    return text.slice(0, width);
+  }
+  return text + " ".repeat(width - text.length);
+}
+
+/**
+ * Format a single reflection/correction row with icon, title, and time.
+ * Returns PLAIN TEXT - styling is handled by the component theme.
+ * Format: ">x title-truncated - 5m ago"
+ */
+function formatReflectionRow(
+  item: ReflectionListItem,
+  isSelected: boolean,
+  isFocused: boolean,
+  maxWidth: number
+): string {
+  const icon = item.kind === "correction"
+    ? "x"
+    : TRIGGER_ICONS[item.trigger ?? ""] || "?";
+
+  // Use > or space to indicate selection
+  const selectionIndicator = isSelected ? (isFocused ? ">" : "*") : " ";
+
+  const timeStr = item.createdAtRelative;
+
+  // Calculate available space for title
+  const fixedParts = 6 + timeStr.length; // indicator + icon + " " + " - " + timeStr
+  const titleWidth = Math.max(10, maxWidth - fixedParts);
+  const truncatedTitle = item.titleTruncated.length > titleWidth
+    ? item.titleTruncated.slice(0, titleWidth - 1) + "~"
+    : item.titleTruncated.padEnd(titleWidth);
+
+  const line = `${selectionIndicator}${icon} ${truncatedTitle} - ${timeStr}`;
+
+  return padLine(line, maxWidth);
+}
@@ -10,6 +10,7 @@ import type { Tui } from "https://deno.land/x/tui@2.1.11/mod.ts";
 import type { TuiState } from "../state.ts";
 import type { Breadcrumb, WorkerEvent } from "../../types/schema.ts";
 import { relativeTime as relativeTimeUtil } from "../../utils/time.ts";
+import { formatCost, formatTokens, totalTokens } from "../../utils/usage.ts";
 
 export interface RightPanelOptions {
   tui: Tui;
@@ -174,6 +175,7 @@ export function createRightPanel(options: RightPanelOptions): () => void {
   const updateWorkersSection = () => {
     const workers = state.workersForSelectedThread.value;
     const workerError = state.workerError.value;
+    const usageByWorker = state.workerUsage.value;
     const selectedIndex = state.selectedWorkerIndex.value;
     const isFocused = state.focusedPane.value === "workers";
 
@@ -214,9 +216,11 @@ export function createRightPanel(options: RightPanelOptions): () => void {
         const iteration = worker.iteration || 0;
         const maxIter = worker.max_iterations || 50;
         const heartbeat = worker.last_heartbeat ? relativeTime(worker.last_heartbeat) : "—";
+        const usage = usageByWorker.get(worker.id);
+        const usageStr = usage ? ` ${formatTokens(totalTokens(usage))} ${formatCost(usage.cost_usd)}` : "";
 
-        // Format: ">abc1234 [5/50] 10s"
-        const line = `${selectionIndicator}${shortId} [${iteration}/${maxIter}] ${heartbeat}`;
+        // Format: ">abc1234 [5/50] 10s 1.2M $0.84"
+        const line = `${selectionIndicator}${shortId} [${iteration}/${maxIter}] ${heartbeat}${usageStr}`;
         workersRows[i].text.value = padLine(line, rectangle.width);
       } else {
         workersRows[i].text.value = " ".repeat(rectangle.width);
@@ -336,6 +340,7 @@ export function createRightPanel(options: RightPanelOptions): () => void {
   state.workersForSelectedThread.subscribe(updateLogsSection);
   state.workers.subscribe(updateWorkersSection);
   state.workerError.subscribe(updateWorkersSection);
+  state.workerUsage.subscribe(updateWorkersSection);
   state.workerEventsForSelectedThread.subscribe(updateLogsSection);
   state.breadcrumbs.subscribe(updateCrumbsSection);
   state.selectedCrumbIndex.subscribe(updateCrumbsSection);
@@ -0,0 +1,255 @@
+/**
+ * Global search overlay component.
+ * Full-text search across plans, breadcrumbs, reflections, corrections,
+ * bugs and next-ups, shown as a result list above a query bar at the
+ * bottom of the screen.
+ */
+
+import { Text, Box } from "https://deno.land/x/tui@2.1.11/src/components/mod.ts";
+import { Computed, Signal } from "https://deno.land/x/tui@2.1.11/src/signals/mod.ts";
+import { crayon } from "https://deno.land/x/crayon@3.3.3/mod.ts";
+import type { Tui } from "https://deno.land/x/tui@2.1.11/mod.ts";
+import type { TuiState } from "../state.ts";
+import type { SearchResult } from "../../db/search-queries.ts";
+
+export interface SearchOverlayOptions {
+  tui: Tui;
+  state: TuiState;
+  onQueryChange: (query: string) => void;
+  onMove: (delta: number) => void;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+// Each result takes two lines: title and snippet
+const LINES_PER_RESULT = 2;
+const MAX_VISIBLE_RESULTS = 8;
+
+/**
+ * Create the global search overlay.
+ * Returns cleanup function to destroy components.
+ */
+export function createSearchOverlay(options: SearchOverlayOptions): () => void {
+  const { tui, state, onQueryChange, onMove, onOpen, onClose } = options;
+  const components: (Text | Box)[] = [];
+
+  const size = tui.canvas.size.value;
+  const inputRow = size.rows - 2; // Position above status bar
+  const visibleResults = Math.max(1, Math.min(
+    MAX_VISIBLE_RESULTS,
+    Math.floor((size.rows - 4) / LINES_PER_RESULT)
+  ));
+  const resultsHeight = visibleResults * LINES_PER_RESULT + 1; // + header row
+  const resultsRow = inputRow - resultsHeight;
+
+  // Results panel background
+  const panel = new Box({
+    parent: tui,
+    theme: { base: crayon.bgBlack },
+    rectangle: {
+      column: 0,
+      row: resultsRow,
+      width: size.columns,
+      height: resultsHeight,
+    },
+    zIndex: 50,
+  });
+  components.push(panel);
+
+  // Results header with count
+  const headerText = new Computed(() => {
+    const search = state.globalSearch.value;
+    const count = search.query.trim()
+      ? ` (${search.results.length} result${search.results.length === 1 ? "" : "s"})`
+      : "";
+    return padLine(` SEARCH${count}`, size.columns);
+  });
+
+  const header = new Text({
+    parent: tui,
+    text: headerText,
+    theme: { base: crayon.bgBlack.white.bold },
+    rectangle: { column: 0, row: resultsRow },
+    zIndex: 51,
+  });
+  components.push(header);
+
+  // Result rows (one Text component per line)
+  const rows: Signal<string>[] = [];
+  for (let i = 0; i < visibleResults * LINES_PER_RESULT; i++) {
+    const rowText = new Signal<string>("");
+    const text = new Text({
+      parent: tui,
+      text: rowText,
+      theme: { base: i % LINES_PER_RESULT === 0 ? crayon.bgBlack.white : crayon.bgBlack.lightBlack },
+      rectangle: { column: 0, row: resultsRow + 1 + i },
+      zIndex: 51,
+    });
+    rows.push(rowText);
+    components.push(text);
+  }
+
+  const updateRows = () => {
+    const search = state.globalSearch.value;
+    const results = search.results;
+
+    // Scroll so the selected result stays visible
+    const scrollOffset = Math.max(0, search.selectedIndex - visibleResults + 1);
+
+    for (let i = 0; i < visibleResults; i++) {
+      const titleRow = rows[i * LINES_PER_RESULT];
+      const snippetRow = rows[i * LINES_PER_RESULT + 1];
+      const resultIndex = i + scrollOffset;
+
+      if (results.length === 0 && i === 0) {
+        titleRow.value = padLine(
+          search.query.trim() ? " No matches" : " Type to search plans, crumbs, reflections, corrections, bugs and next-ups",
+          size.columns
+        );
+        snippetRow.value = " ".repeat(size.columns);
+      } else if (resultIndex < results.length) {
+        const result = results[resultIndex];
+        const isSelected = resultIndex === search.selectedIndex;
+        titleRow.value = formatResultTitle(result, isSelected, size.columns);
+        snippetRow.value = padLine(`     ${flatten(result.snippet)}`, size.columns);
+      } else {
+        titleRow.value = " ".repeat(size.columns);
+        snippetRow.value = " ".repeat(size.columns);
+      }
+    }
+  };
+
+  state.globalSearch.subscribe(updateRows);
+  updateRows();
+
+  // Input bar
+  const bar = new Box({
+    parent: tui,
+    theme: { base: crayon.bgBlue },
+    rectangle: {
+      column: 0,
+      row: inputRow,
+      width: size.columns,
+      height: 1,
+    },
+    zIndex: 50,
+  });
+  components.push(bar);
+
+  const promptText = new Text({
+    parent: tui,
+    text: " Search: ",
+    theme: { base: crayon.bgBlue.white.bold },
+    rectangle: { column: 0, row: inputRow },
+    zIndex: 51,
+  });
+  components.push(promptText);
+
+  // Query text with block cursor
+  const queryText = new Computed(() => state.globalSearch.value.query + "█");
+
+  const queryTextComponent = new Text({
+    parent: tui,
+    text: queryText,
+    theme: { base: crayon.bgBlue.white },
+    rectangle: { column: 9, row: inputRow }, // After "Search: "
+    zIndex: 51,
+  });
+  components.push(queryTextComponent);
+
+  const hint = " | ↑↓:select Enter:open Esc:close";
+  const hintText = new Text({
+    parent: tui,
+    text: hint,
+    theme: { base: crayon.bgBlue.lightBlack },
+    rectangle: { column: size.columns - hint.length - 1, row: inputRow },
+    zIndex: 51,
+  });
+  components.push(hintText);
+
+  // Key handler for input
+  const keyHandler = (event: any) => {
+    const key = event.key;
+    const search = state.globalSearch.value;
+
+    if (!search.isActive) return;
+
+    if (key === "escape") {
+      onClose();
+      return;
+    }
+
+    if (key === "return") {
+      onOpen();
+      return;
+    }
+
+    if (key === "up") {
+      onMove(-1);
+      return;
+    }
+
+    if (key === "down") {
+      onMove(1);
+      return;
+    }
+
+    if (key === "backspace") {
+      if (search.query.length > 0) {
+        onQueryChange(search.query.slice(0, -1));
+      }
+      return;
+    }
+
+    // Ignore control combinations (including the Ctrl+F that opened the overlay)
+    if (event.ctrl || event.meta) return;
+
+    if (key === "space") {
+      onQueryChange(search.query + " ");
+      return;
+    }
+
+    // Handle printable characters
+    if (key && key.length === 1) {
+      onQueryChange(search.query + key);
+    }
+  };
+
+  tui.on("keyPress", keyHandler);
+
+  // Return cleanup function
+  return () => {
+    tui.off("keyPress", keyHandler);
+    for (const component of components) {
+      component.destroy();
+    }
+  };
+}
+
+/**
+ * Format a result's title line.
+ * Returns PLAIN TEXT - styling is handled by the component theme.
+ * Format: "> [crumb] title - thread-name"
+ */
+function formatResultTitle(result: SearchResult, isSelected: boolean, maxWidth: number): string {
+  const indicator = isSelected ? ">" : " ";
+  const thread = result.thread_name ? ` - ${result.thread_name}` : "";
+  return padLine(`${indicator} [${result.type}] ${flatten(result.title)}${thread}`, maxWidth);
+}
+
+/**
+ * Collapse newlines and runs of whitespace so text fits on one row.
+ */
+function flatten(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Pad a line to exact width.
+ */
+function padLine(text: string, width: number): string {
+  if (text.length >= width) {
+    return text.slice(0, width);
+  }
+  return text + " ".repeat(width - text.length);
+}
@@ -17,7 +17,7 @@ export interface StatusBarOptions {
 // Keybinding hints for each pane
 const PANE_HINTS: Record<PaneId, string> = {
   list: "j/k:nav n:new w:spawn W:kill a:archive p:pause m:merge",
-  plan: "o:open i:import /:find Tab:focus",
+  plan: "o:open i:import h:history /:find Tab:focus",
   steps: "j/k:nav Space:toggle o:open J/K:reorder /:find",
   tasks: "j/k:nav Tab:focus",
   workers: "j/k:nav Tab:focus",
@@ -86,6 +86,8 @@ export function createStatusBar(options: StatusBarOptions): () => void {
     // Show tab-specific hints
     if (activeTab === "bugs") {
       parts.push("j/k:nav r:resolve x:wontfix o:reopen Shift+Tab:filter");
+    } else if (activeTab === "reflections") {
+      parts.push("j/k:nav Shift+Tab:trigger t:tag o:edit g:go to thread");
     } else if (activeTab === "next-ups") {
       parts.push("j/k:nav n:new Enter:launch t:template a:archive d:delete o:edit");
     } else {
@@ -143,7 +145,7 @@ export function createHelpOverlay(options: {
 
   const size = tui.canvas.size.value;
   const overlayWidth = 50;
-  const overlayHeight = 20;
+  const overlayHeight = 28;
   const startCol = Math.floor((size.columns - overlayWidth) / 2);
   const startRow = Math.floor((size.rows - overlayHeight) / 2);
 
@@ -170,6 +172,7 @@ export function createHelpOverlay(options: {
     "    Tab       Cycle focus between panes",
     "    o         Open in external app",
     "    i         Import changes from open file",
+    "    Ctrl+F    Search everything",
     "    q         Quit dashboard",
     "    ?         Toggle this help",
     "",
@@ -177,7 +180,10 @@ export function createHelpOverlay(options: {
     "    j/k       Navigate threads",
     "    a         Archive selected thread",
     "    p         Pause/resume thread",
-    "    m         Merge thread branch and archive",
+    "    m         Review and merge thread branch",
+    "",
+    crayon.cyan("  Plan:"),
+    "    h         Browse plan revisions",
     "",
     crayon.cyan("  Steps:"),
     "    j/k       Navigate steps",
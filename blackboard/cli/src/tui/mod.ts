@@ -18,8 +18,13 @@ import { createMiddlePanel } from "./components/middle-panel.ts";
 import { createRightPanel } from "./components/right-panel.ts";
 import { createStatusBar } from "./components/status-bar.ts";
 import { createFindInput } from "./components/find-input.ts";
+import { createSearchOverlay } from "./components/search-overlay.ts";
+import { createPlanHistory } from "./components/plan-history.ts";
 import { createThreadInput } from "./components/thread-input.ts";
 import { createBugList } from "./components/bug-list.ts";
+import { createReflectionList } from "./components/reflection-list.ts";
+import { createReflectionDetail } from "./components/reflection-detail.ts";
+import { correctionToMarkdown } from "./utils/correction-markdown.ts";
 import { createNextUpsList } from "./components/next-ups-list.ts";
 import { createNextUpInput } from "./components/next-up-input.ts";
 import { createNextUpPreview } from "./components/next-up-preview.ts";
@@ -43,12 +48,14 @@ export interface TuiContext {
   actions: TuiActions;
 }
 
+type OpenFileType = "plan" | "step" | "crumb" | "nextup" | "reflection" | "correction";
+
 // Track currently open file for import
 interface OpenFile {
   path: string;
-  type: "plan" | "step" | "crumb" | "nextup";
+  type: OpenFileType;
   index?: number;
-  id?: string; // For next-ups, store the ID
+  id?: string; // For next-ups, reflections and corrections, store the ID
   originalContent: string;
   isNew: boolean; // Whether this is creating a new item vs editing existing
 }
@@ -72,12 +79,12 @@ function restoreTerminal(): void {
  */
 async function openInExternalApp(
   content: string,
-  type: "plan" | "step" | "crumb" | "nextup",
+  type: OpenFileType,
   options: { index?: number; id?: string; isNew?: boolean } = {}
 ): Promise<OpenFile | null> {
   const { index, id, isNew = false } = options;
-  const suffix = (type === "plan" || type === "nextup") ? ".md" : ".txt";
-  const prefix = type === "plan" ? "plan" : type === "step" ? "step" : type === "crumb" ? "crumb" : "nextup";
+  const suffix = (type === "step" || type === "crumb") ? ".txt" : ".md";
+  const prefix = type;
 
   // Create temp file with descriptive name
   const tmpDir = await Deno.makeTempDir({ prefix: "blackboard-" });
@@ -159,6 +166,16 @@ async function importOpenFile(
           actions.setStatusMessage("Next-up imported");
         }
         break;
+      case "reflection":
+        if (openFile.id) {
+          actions.saveReflectionContent(openFile.id, newContent.trim());
+        }
+        break;
+      case "correction":
+        if (openFile.id) {
+          actions.saveCorrectionMarkdown(openFile.id, newContent);
+        }
+        break;
     }
 
     // Clean up temp file after successful import
@@ -200,6 +217,7 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
   // Track tab-specific cleanup functions
   let threadTabCleanups: Array<() => void> = [];
   let bugsTabCleanups: Array<() => void> = [];
+  let reflectionsTabCleanups: Array<() => void> = [];
   let nextUpsTabCleanups: Array<() => void> = [];
   let dronesTabCleanups: Array<() => void> = [];
 
@@ -317,6 +335,45 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
       bugsTabCleanups.push(cleanupBugList);
     };
 
+    const renderReflectionsTab = () => {
+      // Clean up any existing reflections tab components
+      reflectionsTabCleanups.forEach(cleanup => cleanup());
+      reflectionsTabCleanups = [];
+
+      // Load reflections and corrections
+      actions.loadReflections();
+
+      const terminalSize = getCurrentSize();
+      const leftPanelWidth = Math.max(30, Math.floor(terminalSize.columns * 0.4));
+
+      // Split view: list on left, detail on right
+      const cleanupReflectionList = createReflectionList({
+        tui,
+        state,
+        rectangle: {
+          column: 0,
+          row: 1,
+          width: leftPanelWidth,
+          height: terminalSize.rows - 2,
+        },
+      });
+
+      const detailPanelColumn = leftPanelWidth + 1;
+      const detailPanelWidth = terminalSize.columns - detailPanelColumn;
+      const cleanupReflectionDetail = createReflectionDetail({
+        tui,
+        state,
+        rectangle: {
+          column: detailPanelColumn,
+          row: 1,
+          width: detailPanelWidth,
+          height: terminalSize.rows - 2,
+        },
+      });
+
+      reflectionsTabCleanups.push(cleanupReflectionList, cleanupReflectionDetail);
+    };
+
     const renderNextUpsTab = () => {
       // Clean up any existing next-ups tab components
       nextUpsTabCleanups.forEach(cleanup => cleanup());
@@ -401,6 +458,8 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
         // Clean up other tabs, render threads tab
         bugsTabCleanups.forEach(cleanup => cleanup());
         bugsTabCleanups = [];
+        reflectionsTabCleanups.forEach(cleanup => cleanup());
+        reflectionsTabCleanups = [];
         nextUpsTabCleanups.forEach(cleanup => cleanup());
         nextUpsTabCleanups = [];
         dronesTabCleanups.forEach(cleanup => cleanup());
@@ -410,17 +469,32 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
         // Clean up other tabs, render bugs tab
         threadTabCleanups.forEach(cleanup => cleanup());
         threadTabCleanups = [];
+        reflectionsTabCleanups.forEach(cleanup => cleanup());
+        reflectionsTabCleanups = [];
         nextUpsTabCleanups.forEach(cleanup => cleanup());
         nextUpsTabCleanups = [];
         dronesTabCleanups.forEach(cleanup => cleanup());
         dronesTabCleanups = [];
         renderBugsTab();
+      } else if (tab === "reflections") {
+        // Clean up other tabs, render reflections tab
+        threadTabCleanups.forEach(cleanup => cleanup());
+        threadTabCleanups = [];
+        bugsTabCleanups.forEach(cleanup => cleanup());
+        bugsTabCleanups = [];
+        nextUpsTabCleanups.forEach(cleanup => cleanup());
+        nextUpsTabCleanups = [];
+        dronesTabCleanups.forEach(cleanup => cleanup());
+        dronesTabCleanups = [];
+        renderReflectionsTab();
       } else if (tab === "next-ups") {
         // Clean up other tabs, render next-ups tab
         threadTabCleanups.forEach(cleanup => cleanup());
         threadTabCleanups = [];
         bugsTabCleanups.forEach(cleanup => cleanup());
         bugsTabCleanups = [];
+        reflectionsTabCleanups.forEach(cleanup => cleanup());
+        reflectionsTabCleanups = [];
         dronesTabCleanups.forEach(cleanup => cleanup());
         dronesTabCleanups = [];
         renderNextUpsTab();
@@ -430,16 +504,19 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
         threadTabCleanups = [];
         bugsTabCleanups.forEach(cleanup => cleanup());
         bugsTabCleanups = [];
+        reflectionsTabCleanups.forEach(cleanup => cleanup());
+        reflectionsTabCleanups = [];
         nextUpsTabCleanups.forEach(cleanup => cleanup());
         nextUpsTabCleanups = [];
         renderDronesTab();
       }
-      // Note: reflections tab not implemented yet
     });
 
     // Initial render based on active tab
     if (state.activeTab.value === "bugs") {
       renderBugsTab();
+    } else if (state.activeTab.value === "reflections") {
+      renderReflectionsTab();
     } else if (state.activeTab.value === "next-ups") {
       renderNextUpsTab();
     } else if (state.activeTab.value === "drones") {
@@ -457,6 +534,8 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
         renderThreadsTab();
       } else if (activeTab === "bugs") {
         renderBugsTab();
+      } else if (activeTab === "reflections") {
+        renderReflectionsTab();
       } else if (activeTab === "next-ups") {
         renderNextUpsTab();
       } else if (activeTab === "drones") {
@@ -504,6 +583,60 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
     // Initial check
     updateFindInput();
 
+    // Global search overlay (conditionally rendered based on state)
+    const searchOverlayCleanups: Array<() => void> = [];
+    const updateSearchOverlay = () => {
+      if (state.globalSearch.value.isActive && searchOverlayCleanups.length === 0) {
+        const cleanup = createSearchOverlay({
+          tui,
+          state,
+          onQueryChange: (query) => actions.updateGlobalSearchQuery(query),
+          onMove: (delta) => actions.moveGlobalSearchSelection(delta),
+          onOpen: () => actions.openGlobalSearchResult(),
+          onClose: () => actions.closeGlobalSearch(),
+        });
+        searchOverlayCleanups.push(cleanup);
+      } else if (!state.globalSearch.value.isActive && searchOverlayCleanups.length > 0) {
+        const cleanup = searchOverlayCleanups.pop();
+        cleanup?.();
+      }
+    };
+
+    // Watch for global search state changes
+    state.globalSearch.subscribe(() => {
+      updateSearchOverlay();
+    });
+
+    // Initial check
+    updateSearchOverlay();
+
+    // Plan revision browser overlay (conditionally rendered based on state)
+    const planHistoryCleanups: Array<() => void> = [];
+    const updatePlanHistory = () => {
+      if (state.planHistory.value.isActive && planHistoryCleanups.length === 0) {
+        const cleanup = createPlanHistory({
+          tui,
+          state,
+          onMove: (delta) => actions.movePlanHistorySelection(delta),
+          onToggleDiff: () => actions.togglePlanHistoryDiff(),
+          onRestore: () => actions.restorePlanRevision(),
+          onClose: () => actions.closePlanHistory(),
+        });
+        planHistoryCleanups.push(cleanup);
+      } else if (!state.planHistory.value.isActive && planHistoryCleanups.length > 0) {
+        const cleanup = planHistoryCleanups.pop();
+        cleanup?.();
+      }
+    };
+
+    // Watch for plan history state changes
+    state.planHistory.subscribe(() => {
+      updatePlanHistory();
+    });
+
+    // Initial check
+    updatePlanHistory();
+
     // Thread input overlay (conditionally rendered based on state)
     const threadInputCleanups: Array<() => void> = [];
     const updateThreadInput = () => {
@@ -624,9 +757,11 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
       const isCreatingThread = state.isCreatingThread.value;
       const isCreatingNextUp = state.isCreatingNextUp.value;
       const isCreatingDrone = state.isCreatingDrone.value;
+      const globalSearchActive = state.globalSearch.value.isActive;
+      const planHistoryActive = state.planHistory.value.isActive;
 
       // If any text input is active, only handle Escape (to cancel) - let input handle other keys
-      if (isCreatingThread || isCreatingNextUp || isCreatingDrone) {
+      if (isCreatingThread || isCreatingNextUp || isCreatingDrone || globalSearchActive || planHistoryActive) {
         // Escape is handled by the input components themselves
         return;
       }
@@ -637,6 +772,12 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
         return;
       }
 
+      // Open global search with Ctrl+F (searches every tab's content)
+      if (!findActive && event.ctrl && event.key === "f") {
+        actions.startGlobalSearch();
+        return;
+      }
+
       // Start find mode with '/' (only if not already active)
       if (!findActive && event.key === "/") {
         actions.startFind();
@@ -753,6 +894,12 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
         return;
       }
 
+      // 'h' key - Browse plan revisions (plan pane)
+      if (event.key === "h" && state.activeTab.value === "threads" && state.focusedPane.value === "plan") {
+        actions.openPlanHistory();
+        return;
+      }
+
       // 'i' key - Import from open file
       if (event.key === "i") {
         if (currentOpenFile) {
@@ -842,6 +989,49 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
         return; // Don't process other keys when on bugs tab
       }
 
+      // Reflections tab navigation and actions
+      if (state.activeTab.value === "reflections") {
+        const isDown = event.key === "j" || event.key === "down";
+        const isUp = event.key === "k" || event.key === "up";
+
+        if (isDown) { actions.moveReflectionSelection(1); return; }
+        if (isUp) { actions.moveReflectionSelection(-1); return; }
+
+        // Trigger filter cycling with Shift+Tab
+        if (event.shift && event.key === "tab") { actions.cycleReflectionFilter(); return; }
+
+        // Tag filter cycling with 't'
+        if (event.key === "t") { actions.cycleReflectionTagFilter(); return; }
+
+        // Jump to the source thread with 'g' or Enter
+        if (event.key === "g" || event.key === "return") {
+          actions.goToReflectionSource();
+          return;
+        }
+
+        // Edit with 'o' (uses same pattern as next-up editing)
+        if ((event.key as string) === "o") {
+          const item = state.selectedReflection.value;
+          if (item) {
+            const content = item.kind === "correction"
+              ? correctionToMarkdown(item)
+              : item.content;
+            const openFile = await openInExternalApp(content, item.kind, { id: item.id });
+            if (openFile) {
+              currentOpenFile = openFile;
+              actions.setStatusMessage(`Opened ${item.kind} - press 'i' to import changes`);
+            } else {
+              actions.setStatusMessage("Failed to open file");
+            }
+          } else {
+            actions.setStatusMessage("Nothing selected");
+          }
+          return;
+        }
+
+        return; // Don't process other keys when on reflections tab
+      }
+
       // Next-ups tab navigation and actions
       if (state.activeTab.value === "next-ups") {
         const isDown = event.key === "j" || event.key === "down";
@@ -996,6 +1186,7 @@ export async function launchTui(_options: TuiOptions): Promise<void> {
     cleanupStatusBar();
     threadTabCleanups.forEach(cleanup => cleanup());
     bugsTabCleanups.forEach(cleanup => cleanup());
+    reflectionsTabCleanups.forEach(cleanup => cleanup());
     nextUpsTabCleanups.forEach(cleanup => cleanup());
     dronesTabCleanups.forEach(cleanup => cleanup());
     cleanupTabBar();
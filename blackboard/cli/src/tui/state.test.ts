@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { closeDb, getDb } from "../db/connection.ts";
+import { insertCorrection } from "../db/queries.ts";
+import { createTuiActions, createTuiState } from "./state.ts";
+
+Deno.test("cycleReflectionTagFilter - loads older tagged corrections past the newest 100", async () => {
+  closeDb();
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-tui-" });
+  const db = getDb(join(dir, "blackboard.db"));
+  try {
+    insertCorrection({ plan_id: null, mistake: "Dropped a table with foreign keys on", symptoms: null, resolution: null, tags: "migrations" });
+    db.exec("UPDATE corrections SET created_at = '2020-01-01 00:00:00'");
+    for (let i = 0; i < 100; i++) {
+      insertCorrection({ plan_id: null, mistake: `Untagged ${i}`, symptoms: null, resolution: null, tags: null });
+    }
+
+    const state = createTuiState();
+    const actions = createTuiActions(state);
+    actions.loadReflections();
+    assertEquals(state.reflectionTags.value, ["migrations"]);
+    assertEquals(state.corrections.value.some((c) => c.tags === "migrations"), false);
+
+    actions.cycleReflectionTagFilter();
+    assertEquals(state.reflectionTagFilter.value, "migrations");
+    assertEquals(state.corrections.value.map((c) => c.mistake), ["Dropped a table with foreign keys on"]);
+
+    actions.cycleReflectionTagFilter();
+    assertEquals(state.reflectionTagFilter.value, null);
+    assertEquals(state.corrections.value.length, 100);
+  } finally {
+    closeDb();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -17,9 +17,17 @@ import type {
   Drone,
   DroneSession,
   WorkerEvent,
+  ReflectionTrigger,
+  ReflectionWithSource,
+  CorrectionWithSource,
+  StepDependency,
+  PlanRevision,
+  CommitLink,
 } from "../types/schema.ts";
 import { relativeTime as relativeTimeUtil } from "../utils/time.ts";
 import { getCurrentGitBranch } from "../utils/git.ts";
+import { computeStepReadiness, type StepReadiness } from "../utils/step-graph.ts";
+import { detectAuthor } from "../utils/author.ts";
 import {
   listThreads,
   getStepsForPlan,
@@ -27,9 +35,11 @@ import {
   getSessionsForThread,
   updateThread,
   updateStepStatus,
-  replaceStepsForPlan,
+  reorderStepsForPlan,
+  getStepDependencies,
   getPlanById,
   updatePlanMarkdown,
+  getPlanRevisionsForThread,
   updateStepDescription,
   updateBreadcrumbSummary,
   listBugReports,
@@ -44,6 +54,11 @@ import {
   launchNextUp,
   deleteNextUp,
   getNextUpById,
+  listReflections,
+  listCorrections,
+  listCorrectionTags,
+  updateReflectionContent,
+  updateCorrection,
 } from "../db/queries.ts";
 import {
   listDrones,
@@ -54,14 +69,27 @@ import {
   getCurrentSession,
   listDroneSessions,
 } from "../db/drone-queries.ts";
-import { getWorkerEvents, getActiveWorkers, updateWorkerStatus, insertWorker } from "../db/worker-queries.ts";
+import { searchBlackboard, type SearchResult } from "../db/search-queries.ts";
+import { getWorkerEvents, getActiveWorkers, updateWorkerStatus, insertWorker, isWorktreeWorker, failStaleWorktreeWorkers } from "../db/worker-queries.ts";
+import { getCommitsByStep } from "../db/commit-queries.ts";
+import { getUsageByDroneSession, getUsageByWorker, type UsageTotals } from "../db/usage-queries.ts";
 import { dockerRun, dockerKill, dockerBuild, dockerImageExists, isDockerAvailable, isContainerRunning, parseEnvFile, resolveDockerfile, reconcileWorkers, type ContainerOptions } from "../docker/client.ts";
+import { getRuntime, runtimeUnavailableMessage, type ContainerRuntime } from "../docker/runtime.ts";
+import { loadConfig, type ConfigValues } from "../utils/config.ts";
 import { join, dirname, fromFileUrl } from "jsr:@std/path";
 import { generateId } from "../utils/id.ts";
 import { extractAndValidateOAuthToken } from "../utils/oauth.ts";
 import { resolveDbPath, getDb } from "../db/connection.ts";
 import { launchDrone, stopDrone } from "../services/drone-ops.ts";
+import {
+  mergeReviewBranch,
+  resolveReviewTarget,
+  summarizeBranch,
+  type ReviewSummary,
+  type ReviewTarget,
+} from "../services/review.ts";
 import { getTasksForThreadWithHistory, type ClaudeTask } from "../utils/tasks.ts";
+import { markdownToCorrection } from "./utils/correction-markdown.ts";
 
 // Tab identifiers for the main navigation
 export type TabId = "threads" | "bugs" | "reflections" | "next-ups" | "drones";
@@ -75,6 +103,9 @@ export type ThreadFilter = "all" | ThreadStatus;
 // Status filter for bug list
 export type BugFilter = "all" | BugReportStatus;
 
+// Filter for the reflections tab: a reflection trigger, or corrections only
+export type ReflectionFilter = "all" | ReflectionTrigger | "corrections";
+
 // Find/search state
 export interface FindMatch {
   lineIndex: number;
@@ -89,6 +120,25 @@ export interface FindState {
   currentMatchIndex: number;
 }
 
+// Global search state (full-text search across every entity)
+export interface GlobalSearchState {
+  isActive: boolean;
+  query: string;
+  results: SearchResult[];
+  selectedIndex: number;
+}
+
+// Plan revision browser state
+export interface PlanHistoryState {
+  isActive: boolean;
+  threadName: string;
+  /** Revisions oldest first, so revision number = index + 1 */
+  revisions: PlanRevision[];
+  selectedIndex: number;
+  /** Show the diff against the previous revision instead of the full plan */
+  showDiff: boolean;
+}
+
 /**
  * Thread with computed display data for the list view.
  */
@@ -115,6 +165,22 @@ export interface NextUpListItem extends NextUp {
   statusIcon: string;
 }
 
+/**
+ * Display data shared by reflection and correction list items.
+ */
+interface ReflectionListItemDisplay {
+  titleTruncated: string;
+  createdAtRelative: string;
+}
+
+/**
+ * Reflection or correction with computed display data for the list view.
+ * Both are shown together on the reflections tab, discriminated by `kind`.
+ */
+export type ReflectionListItem =
+  | (ReflectionWithSource & ReflectionListItemDisplay & { kind: "reflection" })
+  | (CorrectionWithSource & ReflectionListItemDisplay & { kind: "correction"; tagList: string[] });
+
 /**
  * Drone with computed display data for the list view.
  */
@@ -142,6 +208,8 @@ export interface TuiState {
   // Detail panel state (for selected thread)
   selectedPlan: Signal<Plan | null>;
   steps: Signal<PlanStep[]>;
+  stepDependencies: Signal<StepDependency[]>;
+  stepCommits: Signal<Map<string, CommitLink[]>>;
   tasks: Signal<ClaudeTask[]>;
   breadcrumbs: Signal<Breadcrumb[]>;
   selectedStepIndex: Signal<number>;
@@ -151,6 +219,7 @@ export interface TuiState {
   workers: Signal<Worker[]>;
   workerError: Signal<string>;
   workerEvents: Signal<Map<string, WorkerEvent[]>>;
+  workerUsage: Signal<Map<string, UsageTotals>>;
   selectedWorkerIndex: Signal<number>;
   selectedTaskIndex: Signal<number>;
 
@@ -159,6 +228,15 @@ export interface TuiState {
   selectedBugIndex: Signal<number>;
   bugFilter: Signal<BugFilter>;
 
+  // Reflections tab state (reflections and corrections)
+  reflections: Signal<ReflectionWithSource[]>;
+  corrections: Signal<CorrectionWithSource[]>;
+  selectedReflectionIndex: Signal<number>;
+  reflectionFilter: Signal<ReflectionFilter>;
+  reflectionTagFilter: Signal<string | null>;
+  /** Distinct correction tags, for cycling the tag filter */
+  reflectionTags: Signal<string[]>;
+
   // Next-ups state
   nextUps: Signal<NextUp[]>;
   selectedNextUpIndex: Signal<number>;
@@ -169,6 +247,7 @@ export interface TuiState {
   drones: Signal<Drone[]>;
   selectedDroneIndex: Signal<number>;
   droneSessions: Signal<Map<string, DroneSession[]>>;
+  droneSessionUsage: Signal<Map<string, UsageTotals>>;
   droneEvents: Signal<Map<string, WorkerEvent[]>>;
   isCreatingDrone: Signal<boolean>;
   newDroneName: Signal<string>;
@@ -181,9 +260,12 @@ export interface TuiState {
   workersForSelectedThread: Computed<Worker[]>;
   threadWorkerCounts: Computed<Map<string, number>>;
   workerEventsForSelectedThread: Computed<WorkerEvent[]>;
+  stepReadiness: Computed<Map<string, StepReadiness>>;
   selectedBug: Computed<BugReport | null>;
   filteredBugs: Computed<BugReport[]>;
   bugListItems: Computed<BugListItem[]>;
+  reflectionListItems: Computed<ReflectionListItem[]>;
+  selectedReflection: Computed<ReflectionListItem | null>;
   selectedNextUp: Computed<NextUp | null>;
   nextUpListItems: Computed<NextUpListItem[]>;
   selectedDrone: Computed<Drone | null>;
@@ -211,6 +293,12 @@ export interface TuiState {
 
   // Find/search state
   findState: Signal<FindState>;
+
+  // Global search state
+  globalSearch: Signal<GlobalSearchState>;
+
+  // Plan revision browser state
+  planHistory: Signal<PlanHistoryState>;
 }
 
 /**
@@ -221,29 +309,6 @@ function relativeTime(dateStr: string): string {
   return relativeTimeUtil(dateStr);
 }
 
-/**
- * Merges a git branch into the current branch.
- * Returns null on success, or an error message on failure.
- */
-function mergeGitBranch(branchName: string): string | null {
-  try {
-    const command = new Deno.Command("git", {
-      args: ["merge", branchName, "--no-edit"],
-      stdout: "piped",
-      stderr: "piped",
-    });
-    const result = command.outputSync();
-    if (result.success) {
-      return null;
-    } else {
-      const stderr = new TextDecoder().decode(result.stderr).trim();
-      return stderr || "Merge failed";
-    }
-  } catch (err) {
-    return err instanceof Error ? err.message : "Merge failed";
-  }
-}
-
 /**
  * Create and initialize the TUI state.
  * Loads initial data from the database.
@@ -261,6 +326,8 @@ export function createTuiState(): TuiState {
   // Detail panel state
   const selectedPlan = new Signal<Plan | null>(null);
   const steps = new Signal<PlanStep[]>([]);
+  const stepDependencies = new Signal<StepDependency[]>([]);
+  const stepCommits = new Signal<Map<string, CommitLink[]>>(new Map());
   const tasks = new Signal<ClaudeTask[]>([]);
   const breadcrumbs = new Signal<Breadcrumb[]>([]);
   const selectedStepIndex = new Signal<number>(0);
@@ -270,6 +337,7 @@ export function createTuiState(): TuiState {
   const workers = new Signal<Worker[]>([]);
   const workerError = new Signal<string>("");
   const workerEvents = new Signal<Map<string, WorkerEvent[]>>(new Map());
+  const workerUsage = new Signal<Map<string, UsageTotals>>(new Map());
   const selectedWorkerIndex = new Signal<number>(0);
   const selectedTaskIndex = new Signal<number>(0);
 
@@ -278,6 +346,14 @@ export function createTuiState(): TuiState {
   const selectedBugIndex = new Signal<number>(0);
   const bugFilter = new Signal<BugFilter>("all");
 
+  // Reflections tab state
+  const reflections = new Signal<ReflectionWithSource[]>([]);
+  const corrections = new Signal<CorrectionWithSource[]>([]);
+  const selectedReflectionIndex = new Signal<number>(0);
+  const reflectionFilter = new Signal<ReflectionFilter>("all");
+  const reflectionTagFilter = new Signal<string | null>(null);
+  const reflectionTags = new Signal<string[]>([]);
+
   // Next-ups state
   const nextUps = new Signal<NextUp[]>([]);
   const selectedNextUpIndex = new Signal<number>(0);
@@ -288,6 +364,7 @@ export function createTuiState(): TuiState {
   const drones = new Signal<Drone[]>([]);
   const selectedDroneIndex = new Signal<number>(0);
   const droneSessions = new Signal<Map<string, DroneSession[]>>(new Map());
+  const droneSessionUsage = new Signal<Map<string, UsageTotals>>(new Map());
   const droneEvents = new Signal<Map<string, WorkerEvent[]>>(new Map());
   const isCreatingDrone = new Signal<boolean>(false);
   const newDroneName = new Signal<string>("");
@@ -315,6 +392,23 @@ export function createTuiState(): TuiState {
     currentMatchIndex: -1,
   });
 
+  // Global search state
+  const globalSearch = new Signal<GlobalSearchState>({
+    isActive: false,
+    query: "",
+    results: [],
+    selectedIndex: 0,
+  });
+
+  // Plan revision browser state
+  const planHistory = new Signal<PlanHistoryState>({
+    isActive: false,
+    threadName: "",
+    revisions: [],
+    selectedIndex: 0,
+    showDiff: true,
+  });
+
   // Session state: track threads completed during this session
   const completedThreadsThisSession = new Signal<Set<string>>(new Set());
 
@@ -376,6 +470,11 @@ export function createTuiState(): TuiState {
       .slice(0, 100);
   });
 
+  // Computed: ready/blocked state of the selected plan's steps
+  const stepReadiness = new Computed<Map<string, StepReadiness>>(() => {
+    return computeStepReadiness(steps.value, stepDependencies.value);
+  });
+
   // Computed: thread list items with display data
   const threadListItems = new Computed<ThreadListItem[]>(() => {
     const filtered = filteredThreads.value;
@@ -436,6 +535,64 @@ export function createTuiState(): TuiState {
     });
   });
 
+  // Computed: reflections and corrections merged, filtered, newest first
+  const reflectionListItems = new Computed<ReflectionListItem[]>(() => {
+    const filter = reflectionFilter.value;
+    const tag = reflectionTagFilter.value;
+    const maxTitleLength = 60;
+    const truncate = (text: string) => {
+      const firstLine = text.split("\n")[0];
+      return firstLine.length > maxTitleLength
+        ? firstLine.substring(0, maxTitleLength - 1) + "~"
+        : firstLine;
+    };
+
+    const items: ReflectionListItem[] = [];
+
+    // Reflections have no tags, so a tag filter hides them
+    if (filter !== "corrections" && !tag) {
+      for (const reflection of reflections.value) {
+        if (filter !== "all" && reflection.trigger !== filter) continue;
+        items.push({
+          ...reflection,
+          kind: "reflection",
+          titleTruncated: truncate(reflection.content),
+          createdAtRelative: relativeTime(reflection.created_at),
+        });
+      }
+    }
+
+    // Corrections have no trigger, so a trigger filter hides them
+    if (filter === "all" || filter === "corrections") {
+      for (const correction of corrections.value) {
+        const tagList = (correction.tags ?? "")
+          .split(",")
+          .map((t) => t.trim())
+          .filter(Boolean);
+        if (tag && !tagList.includes(tag)) continue;
+        items.push({
+          ...correction,
+          kind: "correction",
+          tagList,
+          titleTruncated: truncate(correction.mistake),
+          createdAtRelative: relativeTime(correction.created_at),
+        });
+      }
+    }
+
+    return items.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  });
+
+  // Computed: get currently selected reflection or correction
+  const selectedReflection = new Computed<ReflectionListItem | null>(() => {
+    const items = reflectionListItems.value;
+    const index = selectedReflectionIndex.value;
+    if (index >= 0 && index < items.length) {
+      return items[index];
+    }
+    return null;
+  });
+
   // Computed: get currently selected next-up
   const selectedNextUp = new Computed<NextUp | null>(() => {
     const allNextUps = nextUps.value;
@@ -532,6 +689,8 @@ export function createTuiState(): TuiState {
     threadFilter,
     selectedPlan,
     steps,
+    stepDependencies,
+    stepCommits,
     tasks,
     breadcrumbs,
     selectedStepIndex,
@@ -539,11 +698,18 @@ export function createTuiState(): TuiState {
     workers,
     workerError,
     workerEvents,
+    workerUsage,
     selectedWorkerIndex,
     selectedTaskIndex,
     bugReports,
     selectedBugIndex,
     bugFilter,
+    reflections,
+    corrections,
+    selectedReflectionIndex,
+    reflectionFilter,
+    reflectionTagFilter,
+    reflectionTags,
     nextUps,
     selectedNextUpIndex,
     isCreatingNextUp,
@@ -551,6 +717,7 @@ export function createTuiState(): TuiState {
     drones,
     selectedDroneIndex,
     droneSessions,
+    droneSessionUsage,
     droneEvents,
     isCreatingDrone,
     newDroneName,
@@ -561,9 +728,12 @@ export function createTuiState(): TuiState {
     workersForSelectedThread,
     threadWorkerCounts,
     workerEventsForSelectedThread,
+    stepReadiness,
     selectedBug,
     filteredBugs,
     bugListItems,
+    reflectionListItems,
+    selectedReflection,
     selectedNextUp,
     nextUpListItems,
     selectedDrone,
@@ -577,6 +747,8 @@ export function createTuiState(): TuiState {
     confirmMessage,
     confirmAction,
     findState,
+    globalSearch,
+    planHistory,
     completedThreadsThisSession,
     isThreadCompletedThisSession,
   };
@@ -641,6 +813,17 @@ export interface TuiActions {
   cycleBugFilter: () => void;
   updateBugStatus: (bug: BugReport, status: BugReportStatus) => void;
 
+  // Reflections tab operations
+  loadReflections: () => void;
+  selectReflection: (index: number) => void;
+  moveReflectionSelection: (delta: number) => void;
+  cycleReflectionFilter: () => void;
+  cycleReflectionTagFilter: () => void;
+  saveReflectionContent: (id: string, content: string) => void;
+  saveCorrectionMarkdown: (id: string, markdown: string) => void;
+  goToReflectionSource: () => void;
+  goToThread: (threadId: string, threadName: string | null) => boolean;
+
   // Next-ups operations
   loadNextUps: () => void;
   selectNextUp: (index: number) => void;
@@ -688,6 +871,20 @@ export interface TuiActions {
   exitFind: () => void;
   clearFind: () => void;
 
+  // Global search operations
+  startGlobalSearch: () => void;
+  updateGlobalSearchQuery: (query: string) => void;
+  moveGlobalSearchSelection: (delta: number) => void;
+  closeGlobalSearch: () => void;
+  openGlobalSearchResult: () => void;
+
+  // Plan revision browser operations
+  openPlanHistory: () => void;
+  movePlanHistorySelection: (delta: number) => void;
+  togglePlanHistoryDiff: () => void;
+  restorePlanRevision: () => void;
+  closePlanHistory: () => void;
+
   // Edit operations (return content for external editor)
   getPlanMarkdown: () => string | null;
   savePlanMarkdown: (markdown: string) => void;
@@ -781,6 +978,8 @@ export function createTuiActions(state: TuiState): TuiActions {
       if (thread.current_plan_id) {
         state.selectedPlan.value = getPlanById(thread.current_plan_id);
         state.steps.value = getStepsForPlan(thread.current_plan_id);
+        state.stepDependencies.value = getStepDependencies(thread.current_plan_id);
+        state.stepCommits.value = getCommitsByStep(thread.current_plan_id);
         state.breadcrumbs.value = getRecentBreadcrumbs(
           thread.current_plan_id,
           20
@@ -788,6 +987,8 @@ export function createTuiActions(state: TuiState): TuiActions {
       } else {
         state.selectedPlan.value = null;
         state.steps.value = [];
+        state.stepDependencies.value = [];
+        state.stepCommits.value = new Map();
         state.breadcrumbs.value = [];
       }
       // Load tasks from filesystem (with history from DB)
@@ -892,23 +1093,12 @@ export function createTuiActions(state: TuiState): TuiActions {
       const [moved] = updated.splice(fromIndex, 1);
       updated.splice(toIndex, 0, moved);
 
-      // Update step_order values
-      const reordered = updated.map((step, idx) => ({
-        ...step,
-        step_order: idx,
-      }));
-
-      // Persist to database
-      replaceStepsForPlan(
+      // Persist to database, keeping step IDs so dependencies survive
+      reorderStepsForPlan(
         thread.current_plan_id,
-        reordered.map((s) => ({
-          step_order: s.step_order,
-          description: s.description,
-          status: s.status,
-        }))
+        updated.map((s) => s.id)
       );
 
-      // Reload steps to get new IDs
       state.steps.value = getStepsForPlan(thread.current_plan_id);
       state.selectedStepIndex.value = toIndex;
 
@@ -964,48 +1154,60 @@ export function createTuiActions(state: TuiState): TuiActions {
         return;
       }
 
-      // Get thread's git branches
-      if (!thread.git_branches) {
-        this.setStatusMessage("Thread has no associated git branch");
-        return;
-      }
-
-      const branches = thread.git_branches.split(",").map(b => b.trim()).filter(b => b);
-      if (branches.length === 0) {
-        this.setStatusMessage("Thread has no associated git branch");
-        return;
-      }
-
-      // Use the last branch (most recent)
-      const threadBranch = branches[branches.length - 1];
-
-      // Get current branch
+      // Same flow as `blackboard review <thread> --merge`
+      let target: ReviewTarget;
+      let summary: ReviewSummary;
       const currentBranch = getCurrentGitBranch();
       if (!currentBranch) {
         this.setStatusMessage("Failed to get current git branch");
         return;
       }
+      try {
+        target = resolveReviewTarget(thread.id);
+        if (target.branch === currentBranch) {
+          this.setStatusMessage("Already on thread branch - switch to target branch first");
+          return;
+        }
+        summary = summarizeBranch(target.branch, currentBranch);
+      } catch (err) {
+        this.setStatusMessage(err instanceof Error ? err.message : "Review failed");
+        return;
+      }
 
-      if (currentBranch === threadBranch) {
-        this.setStatusMessage("Already on thread branch - switch to target branch first");
+      if (summary.commits.length === 0) {
+        this.setStatusMessage(`"${target.branch}" has no commits that "${currentBranch}" doesn't`);
         return;
       }
 
-      // Show confirmation dialog
-      const message = `Merge "${threadBranch}" into "${currentBranch}" and archive thread?`;
-      this.showConfirmation(message, () => {
-        // Perform the merge
-        const error = mergeGitBranch(threadBranch);
-        if (error) {
-          this.setStatusMessage(`Merge failed: ${error.slice(0, 50)}`);
+      // Fast-forward when possible, otherwise squash onto the current branch
+      const squash = summary.behind > 0;
+      const how = squash ? "Squash" : "Fast-forward";
+      const message = `${how} ${summary.commits.length} commit(s) from "${target.branch}" into "${currentBranch}" and archive thread?`;
+
+      const merge = (keepConflicts: boolean) => {
+        let result;
+        try {
+          result = mergeReviewBranch(target, currentBranch, { squash, keepConflicts });
+        } catch (err) {
+          this.setStatusMessage(`Merge failed: ${err instanceof Error ? err.message : String(err)}`);
           return;
         }
 
-        // Archive the thread after successful merge
-        updateThread(thread.id, { status: "archived" });
         this.loadThreads();
-        this.setStatusMessage(`Merged "${threadBranch}" into "${currentBranch}" and archived thread`);
-      });
+        if (result.outcome !== "conflict") {
+          this.setStatusMessage(`Merged "${target.branch}" into "${currentBranch}" and archived thread`);
+        } else if (keepConflicts) {
+          this.setStatusMessage(`Resolve conflicts in ${result.conflicts!.join(", ")}, then commit`);
+        } else {
+          const files = result.conflicts!;
+          this.showConfirmation(
+            `Conflicts in ${files.length} file(s): ${files.slice(0, 3).join(", ")}${files.length > 3 ? ", ..." : ""}. Leave them in the working tree to resolve?`,
+            () => merge(true)
+          );
+        }
+      };
+
+      this.showConfirmation(message, () => merge(false));
     },
 
     startCreateThread() {
@@ -1078,17 +1280,21 @@ export function createTuiActions(state: TuiState): TuiActions {
     },
 
     async loadWorkers() {
+      // Token and cost totals are written once per iteration
+      state.workerUsage.value = getUsageByWorker();
+
       // Get running workers and reconcile with actual container state
+      // (worktree workers have no container and are judged by their heartbeat)
+      failStaleWorktreeWorkers();
       const activeWorkers = getActiveWorkers();
+      const containerWorkers = activeWorkers.filter((w) => !isWorktreeWorker(w));
 
-      if (activeWorkers.length > 0) {
-        const dockerAvailable = await isDockerAvailable();
-        if (dockerAvailable) {
-          await reconcileWorkers(activeWorkers, updateWorkerStatus);
-          // Re-fetch after reconciliation
-          state.workers.value = getActiveWorkers();
-          return;
-        }
+      if (containerWorkers.length > 0) {
+        // Workers on a runtime that isn't available are left alone
+        await reconcileWorkers(containerWorkers, updateWorkerStatus);
+        // Re-fetch after reconciliation
+        state.workers.value = getActiveWorkers();
+        return;
       }
 
       state.workers.value = activeWorkers;
@@ -1098,23 +1304,33 @@ export function createTuiActions(state: TuiState): TuiActions {
       // Clear previous error
       state.workerError.value = "";
 
-      // Check Docker availability
+      // Check runtime availability (BLACKBOARD_RUNTIME, then config, default docker)
+      let runtime: ContainerRuntime;
+      let config: ConfigValues;
+      try {
+        config = loadConfig();
+        runtime = getRuntime();
+      } catch (error) {
+        state.workerError.value = error instanceof Error ? error.message : String(error);
+        this.setStatusMessage("Invalid configuration");
+        return;
+      }
       const dockerAvailable = await isDockerAvailable();
       if (!dockerAvailable) {
-        state.workerError.value = "Docker not available - is Docker running?";
-        this.setStatusMessage("Docker not available");
+        state.workerError.value = runtimeUnavailableMessage(runtime);
+        this.setStatusMessage(`${runtime.label} not available`);
         return;
       }
 
       // Auto-build image if missing
-      const imageName = "blackboard-worker:latest";
+      const imageName = config.image;
       const imageExists = await dockerImageExists(imageName);
       if (!imageExists) {
         this.setStatusMessage("Building worker image (first run)...");
 
         const pluginRoot = Deno.env.get("CLAUDE_PLUGIN_ROOT") ||
           join(dirname(fromFileUrl(import.meta.url)), "..", "..", "..", "..");
-        const projectRoot = Deno.cwd();
+        const projectRoot = config.repo ?? Deno.cwd();
         const dockerfilePath = await resolveDockerfile(projectRoot, pluginRoot);
 
         if (!dockerfilePath) {
@@ -1139,7 +1355,7 @@ export function createTuiActions(state: TuiState): TuiActions {
       // Resolve paths
       const dbPath = resolveDbPath();
       const dbDir = dirname(dbPath);
-      const repoDir = Deno.cwd();
+      const repoDir = config.repo ?? Deno.cwd();
 
       // Load environment variables from .env file in repo root
       const envFilePath = join(repoDir, ".env");
@@ -1177,8 +1393,8 @@ export function createTuiActions(state: TuiState): TuiActions {
           authMode,
           apiKey,
           oauthToken,
-          maxIterations: 50,
-          memory: "512m",
+          maxIterations: config["worker.max_iterations"],
+          memory: config["worker.memory"],
           workerId,
           envVars, // Pass all env vars from .env file
         };
@@ -1192,7 +1408,8 @@ export function createTuiActions(state: TuiState): TuiActions {
           status: "running",
           auth_mode: authMode,
           iteration: 0,
-          max_iterations: 50,
+          max_iterations: config["worker.max_iterations"],
+          runtime: runtime.name,
         });
 
         this.loadWorkers();
@@ -1211,14 +1428,22 @@ export function createTuiActions(state: TuiState): TuiActions {
         return;
       }
 
+      if (isWorktreeWorker(worker)) {
+        // No container: the worker stops itself once marked killed
+        updateWorkerStatus(workerId, "killed");
+        await this.loadWorkers();
+        this.setStatusMessage(`Worker ${workerId.slice(0, 7)} stopping`);
+        return;
+      }
+
       try {
-        await dockerKill(worker.container_id);
+        await dockerKill(worker.container_id, worker.runtime);
       } catch {
         // Container may already be dead
       }
 
       // Verify container is actually stopped
-      const stillRunning = await isContainerRunning(worker.container_id);
+      const stillRunning = await isContainerRunning(worker.container_id, worker.runtime);
       if (stillRunning === true) {
         this.setStatusMessage(`Failed to kill worker ${workerId.slice(0, 7)} - container still running`);
         return;
@@ -1238,13 +1463,19 @@ export function createTuiActions(state: TuiState): TuiActions {
       let failedCount = 0;
 
       for (const worker of threadWorkers) {
+        if (isWorktreeWorker(worker)) {
+          // Stops itself once marked killed
+          updateWorkerStatus(worker.id, "killed");
+          killedCount++;
+          continue;
+        }
         try {
-          await dockerKill(worker.container_id);
+          await dockerKill(worker.container_id, worker.runtime);
         } catch {
           // Container may already be dead
         }
 
-        const stillRunning = await isContainerRunning(worker.container_id);
+        const stillRunning = await isContainerRunning(worker.container_id, worker.runtime);
         if (stillRunning === true) {
           failedCount++;
         } else {
@@ -1352,6 +1583,127 @@ export function createTuiActions(state: TuiState): TuiActions {
       this.setStatusMessage(`Bug "${bug.title.substring(0, 30)}..." ${statusLabel}`);
     },
 
+    loadReflections() {
+      state.isLoading.value = true;
+      try {
+        state.reflections.value = listReflections();
+        // Filter tags in the query so older matches aren't lost behind the limit
+        state.corrections.value = listCorrections(state.reflectionTagFilter.value ?? undefined);
+        state.reflectionTags.value = listCorrectionTags();
+
+        // Reset selection if out of bounds
+        const count = state.reflectionListItems.value.length;
+        if (state.selectedReflectionIndex.value >= count) {
+          state.selectedReflectionIndex.value = Math.max(0, count - 1);
+        }
+      } finally {
+        state.isLoading.value = false;
+      }
+    },
+
+    selectReflection(index: number) {
+      const items = state.reflectionListItems.value;
+      if (index >= 0 && index < items.length) {
+        state.selectedReflectionIndex.value = index;
+      }
+    },
+
+    moveReflectionSelection(delta: number) {
+      const items = state.reflectionListItems.value;
+      const newIndex = state.selectedReflectionIndex.value + delta;
+      if (newIndex >= 0 && newIndex < items.length) {
+        this.selectReflection(newIndex);
+      }
+    },
+
+    cycleReflectionFilter() {
+      const reflectionFilterOrder: ReflectionFilter[] = [
+        "all",
+        "manual",
+        "compact",
+        "completion",
+        "stop",
+        "corrections",
+      ];
+      const currentIndex = reflectionFilterOrder.indexOf(state.reflectionFilter.value);
+      const nextIndex = (currentIndex + 1) % reflectionFilterOrder.length;
+      const filter = reflectionFilterOrder[nextIndex];
+      // Trigger filters only match reflections, which never have tags
+      if (filter !== "all" && filter !== "corrections") {
+        state.reflectionTagFilter.value = null;
+      }
+      state.reflectionFilter.value = filter;
+      state.selectedReflectionIndex.value = 0;
+    },
+
+    cycleReflectionTagFilter() {
+      const tags = state.reflectionTags.value;
+      if (tags.length === 0) {
+        this.setStatusMessage("No tagged corrections");
+        return;
+      }
+      // null -> first tag -> ... -> last tag -> null
+      const current = state.reflectionTagFilter.value;
+      const nextIndex = current === null ? 0 : tags.indexOf(current) + 1;
+      const tag = nextIndex < tags.length ? tags[nextIndex] : null;
+      // Tag filters only match corrections, which never have triggers
+      if (tag && state.reflectionFilter.value !== "corrections") {
+        state.reflectionFilter.value = "all";
+      }
+      state.reflectionTagFilter.value = tag;
+      state.selectedReflectionIndex.value = 0;
+      this.loadReflections();
+    },
+
+    saveReflectionContent(id: string, content: string) {
+      if (!content) {
+        this.setStatusMessage("Reflection content can't be empty");
+        return;
+      }
+      updateReflectionContent(id, content);
+      this.loadReflections();
+      this.setStatusMessage("Reflection updated");
+    },
+
+    saveCorrectionMarkdown(id: string, markdown: string) {
+      const fields = markdownToCorrection(markdown);
+      if (!fields) {
+        this.setStatusMessage("Correction needs a non-empty ## Mistake section");
+        return;
+      }
+      updateCorrection(id, fields);
+      this.loadReflections();
+      this.setStatusMessage("Correction updated");
+    },
+
+    goToReflectionSource() {
+      const item = state.selectedReflection.value;
+      if (!item) return;
+      if (!item.thread_id) {
+        this.setStatusMessage(`This ${item.kind} isn't linked to a thread`);
+        return;
+      }
+
+      this.goToThread(item.thread_id, item.thread_name);
+    },
+
+    goToThread(threadId: string, threadName: string | null) {
+      // The thread may be hidden by the thread filter
+      if (state.threadFilter.value !== "all") {
+        state.threadFilter.value = "all";
+        this.loadThreads();
+      }
+      const index = state.threads.value.findIndex((t) => t.id === threadId);
+      if (index === -1) {
+        this.setStatusMessage(`Thread "${threadName ?? threadId}" not in recent threads`);
+        return false;
+      }
+
+      this.switchTab("threads");
+      this.selectThread(index);
+      return true;
+    },
+
     loadNextUps() {
       state.isLoading.value = true;
       try {
@@ -1468,7 +1820,7 @@ export function createTuiActions(state: TuiState): TuiActions {
         plan_markdown: nextUp.content,
         session_id: null,
         thread_id: threadId,
-      });
+      }, detectAuthor(`Launched from next-up "${nextUp.title}"`));
 
       // Link plan to thread
       updateThread(threadId, { current_plan_id: planId });
@@ -1538,6 +1890,10 @@ export function createTuiActions(state: TuiState): TuiActions {
         if (state.activeTab.value === "bugs") {
           this.loadBugReports();
         }
+        // Also refresh reflections when on reflections tab
+        if (state.activeTab.value === "reflections") {
+          this.loadReflections();
+        }
         // Also refresh next-ups when on next-ups tab
         if (state.activeTab.value === "next-ups") {
           this.loadNextUps();
@@ -1685,6 +2041,183 @@ export function createTuiActions(state: TuiState): TuiActions {
       };
     },
 
+    // Global search operations
+    startGlobalSearch() {
+      state.globalSearch.value = {
+        isActive: true,
+        query: "",
+        results: [],
+        selectedIndex: 0,
+      };
+    },
+
+    updateGlobalSearchQuery(query: string) {
+      if (!state.globalSearch.value.isActive) return;
+
+      let results: SearchResult[] = [];
+      try {
+        results = searchBlackboard(query, { limit: 50, highlight: { open: "", close: "" } });
+      } catch {
+        // Partial queries can be invalid FTS syntax - keep the previous results
+        results = state.globalSearch.value.results;
+      }
+
+      state.globalSearch.value = {
+        isActive: true,
+        query,
+        results,
+        selectedIndex: 0,
+      };
+    },
+
+    moveGlobalSearchSelection(delta: number) {
+      const search = state.globalSearch.value;
+      const newIndex = search.selectedIndex + delta;
+      if (newIndex >= 0 && newIndex < search.results.length) {
+        state.globalSearch.value = { ...search, selectedIndex: newIndex };
+      }
+    },
+
+    closeGlobalSearch() {
+      state.globalSearch.value = {
+        isActive: false,
+        query: "",
+        results: [],
+        selectedIndex: 0,
+      };
+    },
+
+    openGlobalSearchResult() {
+      const search = state.globalSearch.value;
+      const result = search.results[search.selectedIndex];
+      if (!result) return;
+      this.closeGlobalSearch();
+
+      switch (result.type) {
+        case "plan":
+        case "crumb": {
+          if (!result.thread_id) {
+            this.setStatusMessage(`This ${result.type} isn't linked to a thread`);
+            return;
+          }
+          if (!this.goToThread(result.thread_id, result.thread_name)) return;
+          if (result.type === "plan") {
+            state.focusedPane.value = "plan";
+          } else {
+            const crumbIndex = state.breadcrumbs.value.findIndex((c) => c.id === result.id);
+            if (crumbIndex !== -1) {
+              state.selectedCrumbIndex.value = crumbIndex;
+            }
+            state.focusedPane.value = "crumbs";
+          }
+          return;
+        }
+
+        case "reflection":
+        case "correction": {
+          state.reflectionFilter.value = "all";
+          state.reflectionTagFilter.value = null;
+          this.loadReflections();
+          const index = state.reflectionListItems.value.findIndex(
+            (item) => item.kind === result.type && item.id === result.id
+          );
+          this.switchTab("reflections");
+          if (index !== -1) {
+            this.selectReflection(index);
+          }
+          return;
+        }
+
+        case "bug": {
+          state.bugFilter.value = "all";
+          this.loadBugReports();
+          const index = state.filteredBugs.value.findIndex((b) => b.id === result.id);
+          this.switchTab("bugs");
+          if (index !== -1) {
+            this.selectBug(index);
+          }
+          return;
+        }
+
+        case "next-up": {
+          this.loadNextUps();
+          const index = state.nextUps.value.findIndex((n) => n.id === result.id);
+          this.switchTab("next-ups");
+          if (index === -1) {
+            this.setStatusMessage("Next-up is archived");
+            return;
+          }
+          this.selectNextUp(index);
+          return;
+        }
+      }
+    },
+
+    // Plan revision browser operations
+    openPlanHistory() {
+      const thread = state.selectedThread.value;
+      if (!thread) return;
+
+      const revisions = getPlanRevisionsForThread(thread.id);
+      if (revisions.length === 0) {
+        this.setStatusMessage("No plan revisions for this thread");
+        return;
+      }
+
+      state.planHistory.value = {
+        isActive: true,
+        threadName: thread.name,
+        revisions,
+        selectedIndex: revisions.length - 1,
+        showDiff: true,
+      };
+    },
+
+    movePlanHistorySelection(delta: number) {
+      const history = state.planHistory.value;
+      const newIndex = history.selectedIndex + delta;
+      if (newIndex >= 0 && newIndex < history.revisions.length) {
+        state.planHistory.value = { ...history, selectedIndex: newIndex };
+      }
+    },
+
+    togglePlanHistoryDiff() {
+      const history = state.planHistory.value;
+      state.planHistory.value = { ...history, showDiff: !history.showDiff };
+    },
+
+    restorePlanRevision() {
+      const history = state.planHistory.value;
+      const thread = state.selectedThread.value;
+      const revision = history.revisions[history.selectedIndex];
+      if (!thread?.current_plan_id || !revision) return;
+
+      const revisionNumber = history.selectedIndex + 1;
+      const planId = thread.current_plan_id;
+      this.closePlanHistory();
+      this.showConfirmation(`Restore plan to revision ${revisionNumber}?`, () => {
+        const changed = updatePlanMarkdown(
+          planId,
+          revision.plan_markdown,
+          detectAuthor(`Restored revision ${revisionNumber}`)
+        );
+        this.refreshCurrentThread();
+        this.setStatusMessage(
+          changed ? `Plan restored to revision ${revisionNumber}` : "Plan already matches that revision"
+        );
+      });
+    },
+
+    closePlanHistory() {
+      state.planHistory.value = {
+        isActive: false,
+        threadName: "",
+        revisions: [],
+        selectedIndex: 0,
+        showDiff: true,
+      };
+    },
+
     // Edit operations
     getPlanMarkdown() {
       const thread = state.selectedThread.value;
@@ -1696,7 +2229,7 @@ export function createTuiActions(state: TuiState): TuiActions {
     savePlanMarkdown(markdown: string) {
       const thread = state.selectedThread.value;
       if (!thread?.current_plan_id) return;
-      updatePlanMarkdown(thread.current_plan_id, markdown);
+      updatePlanMarkdown(thread.current_plan_id, markdown, detectAuthor("Edited in dashboard"));
       this.setStatusMessage("Plan updated");
     },
 
@@ -1714,7 +2247,7 @@ export function createTuiActions(state: TuiState): TuiActions {
         plan_markdown: markdown,
         session_id: null,
         thread_id: thread.id,
-      });
+      }, detectAuthor("Created in dashboard"));
 
       updateThread(thread.id, { current_plan_id: planId });
 
@@ -1781,6 +2314,7 @@ export function createTuiActions(state: TuiState): TuiActions {
           const sessions = listDroneSessions(drone.id, 10);
           sessionsMap.set(drone.id, sessions);
         }
+        state.droneSessionUsage.value = getUsageByDroneSession();
         state.droneSessions.value = sessionsMap;
 
         // Reset selection if out of bounds
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for correction markdown round-tripping.
+ */
+
+import { correctionToMarkdown, markdownToCorrection } from "./correction-markdown.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("correction markdown - round trips all fields", () => {
+  const correction = {
+    mistake: "Used wrong import path",
+    symptoms: "Module not found\nat startup",
+    resolution: "Use relative path",
+    tags: "typescript,imports",
+  };
+
+  assertEquals(markdownToCorrection(correctionToMarkdown(correction)), correction);
+});
+
+Deno.test("correction markdown - empty optional sections become null", () => {
+  const markdown = correctionToMarkdown({
+    mistake: "Forgot to run migrations",
+    symptoms: null,
+    resolution: null,
+    tags: null,
+  });
+
+  assertEquals(markdownToCorrection(markdown), {
+    mistake: "Forgot to run migrations",
+    symptoms: null,
+    resolution: null,
+    tags: null,
+  });
+});
+
+Deno.test("correction markdown - missing mistake is rejected", () => {
+  assertEquals(markdownToCorrection("## Symptoms\n\nsomething broke\n"), null);
+  assertEquals(markdownToCorrection("just some text"), null);
+});
+
+Deno.test("correction markdown - headings are case-insensitive", () => {
+  const parsed = markdownToCorrection("## mistake\n\nTypo in SQL\n\n## TAGS\n\nsql\n");
+  assertEquals(parsed?.mistake, "Typo in SQL");
+  assertEquals(parsed?.tags, "sql");
+});
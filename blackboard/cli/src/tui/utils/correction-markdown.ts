@@ -0,0 +1,65 @@
+/**
+ * Round-trip a correction through markdown for external editing.
+ * Corrections have several fields, so they're edited as one document with
+ * a heading per field and split back apart on import.
+ */
+
+import type { Correction } from "../../types/schema.ts";
+
+export type CorrectionFields = Pick<Correction, "mistake" | "symptoms" | "resolution" | "tags">;
+
+const SECTIONS: Array<{ field: keyof CorrectionFields; heading: string }> = [
+  { field: "mistake", heading: "Mistake" },
+  { field: "symptoms", heading: "Symptoms" },
+  { field: "resolution", heading: "Resolution" },
+  { field: "tags", heading: "Tags" },
+];
+
+/**
+ * Render a correction as markdown with one `## Heading` per field.
+ */
+export function correctionToMarkdown(correction: CorrectionFields): string {
+  return SECTIONS
+    .map(({ field, heading }) => `## ${heading}\n\n${correction[field] ?? ""}\n`)
+    .join("\n");
+}
+
+/**
+ * Parse markdown produced by correctionToMarkdown() back into fields.
+ * Empty optional sections become null. Returns null if the mistake
+ * section is missing or empty, since it's required.
+ */
+export function markdownToCorrection(markdown: string): CorrectionFields | null {
+  const values = new Map<string, string[]>();
+  let current: string | null = null;
+
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    const section = heading
+      ? SECTIONS.find((s) => s.heading.toLowerCase() === heading[1].toLowerCase())
+      : undefined;
+    if (section) {
+      current = section.field;
+      values.set(current, []);
+    } else if (current) {
+      values.get(current)!.push(line);
+    }
+  }
+
+  const read = (field: keyof CorrectionFields): string | null => {
+    const text = (values.get(field) ?? []).join("\n").trim();
+    return text ? text : null;
+  };
+
+  const mistake = read("mistake");
+  if (!mistake) {
+    return null;
+  }
+
+  return {
+    mistake,
+    symptoms: read("symptoms"),
+    resolution: read("resolution"),
+    tags: read("tags"),
+  };
+}
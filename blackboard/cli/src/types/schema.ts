@@ -13,6 +13,13 @@ export type NextUpStatus = 'active' | 'archived' | 'launched';
 export type WorkerEventType = 'tool_call' | 'tool_result' | 'text' | 'error' | 'system';
 export type DroneStatus = 'active' | 'paused' | 'archived';
 export type DroneSessionStatus = 'running' | 'completed' | 'stopped' | 'failed';
+export type ScheduleRunOutcome = 'started' | 'skipped' | 'missed' | 'failed';
+export type DroneTriggerKind = 'bug' | 'thread' | 'commit';
+export type TriggerFiringOutcome = 'started' | 'failed';
+export type ReviewOutcome = 'merged' | 'squashed' | 'rebased' | 'discarded' | 'conflict' | 'verify_failed';
+export type FarmRunStatus = 'running' | 'completed' | 'interrupted';
+export type FarmThreadState = 'queued' | 'running' | 'completed' | 'failed' | 'skipped';
+export type PlanAuthorType = 'session' | 'worker' | 'human' | 'unknown';
 
 export interface Thread {
   id: string;
@@ -22,6 +29,14 @@ export interface Thread {
   current_plan_id: string | null;
   git_branches: string | null;
   status: ThreadStatus;
+  priority: number;  // Higher runs sooner in the farm queue (default 0)
+  verify_commands: string | null;  // JSON array of commands that gate plan completion
+}
+
+export interface ThreadDependency {
+  thread_id: string;
+  depends_on: string;
+  created_at: string;
 }
 
 export interface ThreadSession {
@@ -38,6 +53,25 @@ export interface Plan {
   plan_markdown: string;
   session_id: string | null;
   thread_id: string | null;
+  verified_at: string | null;  // When verification last passed; cleared when the plan is reopened
+}
+
+export interface PlanRevision {
+  id: number;
+  plan_id: string;
+  plan_markdown: string;
+  author_type: PlanAuthorType;
+  author: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+/** Who changed a plan and why, attached to the revision the change created */
+export interface PlanRevisionAuthor {
+  type: PlanAuthorType;
+  /** Session ID, worker ID or user name */
+  name?: string | null;
+  reason?: string | null;
 }
 
 export interface PlanStep {
@@ -46,6 +80,15 @@ export interface PlanStep {
   step_order: number;
   description: string;
   status: StepStatus;
+  acceptance_criteria: string | null;  // What done looks like, for the agent
+  verify_command: string | null;       // Must pass before the step is completed
+  verified_at: string | null;          // When verify_command last passed; cleared when the step is reopened
+  created_at: string;
+}
+
+export interface StepDependency {
+  step_id: string;
+  depends_on: string;
   created_at: string;
 }
 
@@ -101,6 +144,20 @@ export interface NextUp {
   launch_count: number;
 }
 
+export interface PersistedTask {
+  id: string;
+  session_id: string;
+  thread_id: string | null;
+  subject: string;
+  description: string | null;
+  active_form: string | null;
+  status: string;
+  blocks: string | null;
+  blocked_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Worker {
   id: string;
   container_id: string;
@@ -111,6 +168,10 @@ export interface Worker {
   auth_mode: 'env' | 'config' | 'oauth' | null;
   iteration: number;
   max_iterations: number;
+  max_cost_usd: number | null;  // Budget in USD; null means unlimited
+  max_tokens: number | null;    // Budget in tokens, cache included; null means unlimited
+  stop_reason: string | null;   // e.g. 'budget_exhausted'
+  runtime: string | null;       // Container runtime; null means docker
 }
 
 export interface WorkerEvent {
@@ -126,6 +187,31 @@ export interface WorkerEvent {
   duration_ms: number | null;
 }
 
+export interface WorkerUsage {
+  worker_id: string;
+  iteration: number;
+  thread_id: string | null;
+  drone_session_id: string | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number | null;  // As reported by the Claude CLI; null if not reported
+  num_turns: number | null;
+  duration_ms: number | null;
+  recorded_at: string;
+}
+
+export interface WorkerBudget {
+  worker_id: string;
+  max_cost_usd: number | null;
+  max_tokens: number | null;
+  spent_cost_usd: number;
+  spent_tokens: number;
+  exhausted_reason: string | null;  // Set once either limit is reached
+}
+
 export interface Drone {
   id: string;
   name: string;
@@ -133,6 +219,10 @@ export interface Drone {
   max_iterations: number;
   timeout_minutes: number;
   cooldown_seconds: number;
+  max_cost_usd: number | null;  // Default per-session budget; null means unlimited
+  max_tokens: number | null;
+  schedule: string | null;      // Cron expression or interval ("every 6h"); null means manual only
+  next_run_at: string | null;   // UTC; set while a schedule is configured
   status: DroneStatus;
   created_at: string;
   updated_at: string;
@@ -150,9 +240,97 @@ export interface DroneSession {
   stop_reason: string | null;
 }
 
+export interface DroneScheduleRun {
+  id: number;
+  drone_id: string;
+  scheduled_for: string;  // UTC due time
+  outcome: ScheduleRunOutcome;
+  session_id: string | null;
+  detail: string | null;
+  recorded_at: string;
+}
+
+export interface DroneTrigger {
+  id: number;
+  drone_id: string;
+  kind: DroneTriggerKind;
+  filter: string | null;  // bug: text to match, thread: status, commit: branch
+  cursor: string | null;  // commit: last commit seen on the branch
+  created_at: string;
+}
+
+export interface DroneTriggerFiring {
+  id: number;
+  trigger_id: number;
+  entity_id: string;  // bug report ID, thread ID or commit SHA
+  outcome: TriggerFiringOutcome;
+  session_id: string | null;
+  detail: string | null;
+  fired_at: string;
+}
+
+export interface BranchReview {
+  id: number;
+  thread_id: string | null;
+  drone_session_id: string | null;
+  branch: string;
+  base_branch: string;
+  head_sha: string | null;
+  outcome: ReviewOutcome;
+  verify_command: string | null;
+  verify_passed: number | null;  // 1 or 0, null if no command ran
+  detail: string | null;
+  reviewed_at: string;
+}
+
+export interface CommitLink {
+  sha: string;
+  thread_id: string | null;
+  plan_id: string | null;
+  step_id: string | null;
+  breadcrumb_id: string | null;
+  worker_id: string | null;
+  branch: string | null;
+  subject: string | null;
+  author: string | null;
+  committed_at: string | null;  // UTC
+  recorded_at: string;
+}
+
+export interface FarmRun {
+  id: string;
+  status: FarmRunStatus;
+  options: string;  // JSON of the farm's options, without the API key
+  stop_reason: string | null;
+  created_at: string;
+  heartbeat_at: string;
+  finished_at: string | null;
+}
+
+export interface FarmRunThread {
+  run_id: string;
+  thread_id: string;
+  position: number;  // Queue order
+  state: FarmThreadState;
+  retries: number;
+  worker_id: string | null;  // Current (or last) worker
+  detail: string | null;
+  updated_at: string;
+}
+
 // View types
 export interface ActivePlan extends Plan {}
 
+export interface FarmRunSummary extends FarmRun {
+  threads: number;
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  heartbeat_age_seconds: number;
+}
+
 export interface PendingStep extends PlanStep {
   plan_description: string | null;
 }
@@ -161,3 +339,15 @@ export interface RecentCrumb extends Breadcrumb {
   plan_description: string | null;
   step_description: string | null;
 }
+
+export interface ReflectionWithSource extends Reflection {
+  plan_description: string | null;
+  thread_id: string | null;
+  thread_name: string | null;
+}
+
+export interface CorrectionWithSource extends Correction {
+  plan_description: string | null;
+  thread_id: string | null;
+  thread_name: string | null;
+}
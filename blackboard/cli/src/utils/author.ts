@@ -0,0 +1,26 @@
+/**
+ * Attribution for changes made through the CLI and TUI.
+ */
+
+import type { PlanRevisionAuthor } from "../types/schema.ts";
+
+/**
+ * Works out who is making a change from the process environment: a
+ * containerized worker (WORKER_ID), a Claude Code session (CLAUDECODE),
+ * or otherwise a human at the terminal.
+ *
+ * @param reason - Why the change was made (optional)
+ * @returns Author to record on the revision
+ */
+export function detectAuthor(reason?: string): PlanRevisionAuthor {
+  const workerId = Deno.env.get("WORKER_ID");
+  if (workerId) {
+    return { type: "worker", name: workerId, reason };
+  }
+
+  if (Deno.env.get("CLAUDECODE")) {
+    return { type: "session", name: null, reason };
+  }
+
+  return { type: "human", name: Deno.env.get("USER") ?? null, reason };
+}
@@ -0,0 +1,67 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "jsr:@std/path";
+import { ConfigError, listConfig, loadConfig, parseConfigValue, writeConfigValue } from "./config.ts";
+
+/**
+ * Points the project and user config files at a temp directory for fn.
+ */
+async function withConfigDirs(fn: (dir: string) => void): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: "blackboard-config-" });
+  const previous = {
+    CLAUDE_PROJECT_DIR: Deno.env.get("CLAUDE_PROJECT_DIR"),
+    XDG_CONFIG_HOME: Deno.env.get("XDG_CONFIG_HOME"),
+  };
+  Deno.env.set("CLAUDE_PROJECT_DIR", join(dir, "project"));
+  Deno.env.set("XDG_CONFIG_HOME", join(dir, "home"));
+  try {
+    fn(dir);
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        Deno.env.delete(key);
+      } else {
+        Deno.env.set(key, value);
+      }
+    }
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("loadConfig - project file over user file over defaults", async () => {
+  await withConfigDirs((dir) => {
+    assertEquals(loadConfig()["worker.memory"], "512m");
+
+    writeConfigValue("user", "worker.memory", "2g");
+    writeConfigValue("user", "image", "team:latest");
+    writeConfigValue("project", "worker.memory", "1g");
+    writeConfigValue("project", "repo", "../app");
+
+    const config = loadConfig();
+    assertEquals(config["worker.memory"], "1g");
+    assertEquals(config.image, "team:latest");
+    assertEquals(config["worker.max_iterations"], 50);
+    assertEquals(config.repo, join(dir, "app"));
+
+    const sources = Object.fromEntries(listConfig().map((e) => [e.key, e.source]));
+    assertEquals(sources["worker.memory"], "project");
+    assertEquals(sources["image"], "user");
+    assertEquals(sources["auth"], null);
+
+    writeConfigValue("project", "worker.memory", undefined);
+    assertEquals(loadConfig()["worker.memory"], "2g");
+  });
+});
+
+Deno.test("config - rejects unknown keys and invalid values", async () => {
+  await withConfigDirs((dir) => {
+    assertThrows(() => parseConfigValue("colour", "blue"), ConfigError, "Unknown config key");
+    assertThrows(() => parseConfigValue("farm.concurrency", "many"), ConfigError, "must be an integer");
+    assertThrows(() => parseConfigValue("farm.concurrency", "0"), ConfigError, "at least 1");
+    assertThrows(() => parseConfigValue("runtime", "lxc"), ConfigError, "must be one of");
+    assertEquals(parseConfigValue("farm.concurrency", "4"), { key: "farm.concurrency", value: 4 });
+
+    Deno.mkdirSync(join(dir, "project", ".claude"), { recursive: true });
+    Deno.writeTextFileSync(join(dir, "project", ".claude", "blackboard.toml"), '[worker]\nmemory = 512\n');
+    assertThrows(() => loadConfig(), ConfigError, "worker.memory must be a string");
+  });
+});
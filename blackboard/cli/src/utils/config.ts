@@ -0,0 +1,379 @@
+/**
+ * Blackboard configuration: defaults for the commands that start workers.
+ * Values come from the command line, then the project file
+ * (.claude/blackboard.toml), then the user file
+ * ($XDG_CONFIG_HOME/blackboard/config.toml, default ~/.config), then the
+ * built-in defaults below.
+ *
+ * Files are TOML. Top-level keys apply everywhere; [worker], [farm] and
+ * [drone] tables hold the settings that differ between them:
+ *
+ *   runtime = "podman"
+ *   image = "my-worker:latest"
+ *
+ *   [worker]
+ *   memory = "1g"
+ *   max_iterations = 30
+ */
+
+import { dirname, isAbsolute, join, resolve } from "jsr:@std/path";
+import { parse, stringify } from "jsr:@std/toml";
+import { resolveDbPath } from "../db/connection.ts";
+import { isRuntimeName, RUNTIME_NAMES } from "../docker/runtime.ts";
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+interface KeySpec {
+  type: "string" | "integer";
+  description: string;
+  default?: string | number;
+  /** @returns What is wrong with the value, or null if it's fine */
+  check?: (value: string | number) => string | null;
+}
+
+const AUTH_MODES = ["oauth", "env", "config"];
+const FARM_STRATEGIES = ["priority", "fifo", "shortest-first"];
+
+const positive = (value: string | number) => (Number(value) >= 1 ? null : "must be at least 1");
+const memorySize = (value: string | number) =>
+  /^\d+(\.\d+)?[bkmg]?$/i.test(String(value)) ? null : 'must be a size such as "512m" or "2g"';
+
+export const CONFIG_KEYS = {
+  runtime: {
+    type: "string",
+    description: "Container runtime: docker, podman, nerdctl or process (BLACKBOARD_RUNTIME takes precedence)",
+    check: (value) => (isRuntimeName(String(value)) ? null : `must be one of ${RUNTIME_NAMES.join(", ")}`),
+  },
+  image: {
+    type: "string",
+    description: "Worker image",
+    default: "blackboard-worker:latest",
+  },
+  auth: {
+    type: "string",
+    description: "Auth mode for work and farm: oauth, env or config (auto-detected if unset)",
+    check: (value) => (AUTH_MODES.includes(String(value)) ? null : `must be one of ${AUTH_MODES.join(", ")}`),
+  },
+  repo: {
+    type: "string",
+    description: "Git workspace to mount (relative to the project in the project file; default: current directory)",
+  },
+  verify: {
+    type: "string",
+    description: "Verification command for threads without their own, run before a plan counts as completed",
+  },
+  "worker.memory": {
+    type: "string",
+    description: "Container memory limit for work and farm",
+    default: "512m",
+    check: memorySize,
+  },
+  "worker.max_iterations": {
+    type: "integer",
+    description: "Max iterations for work and farm workers",
+    default: 50,
+    check: positive,
+  },
+  "farm.concurrency": {
+    type: "integer",
+    description: "Max simultaneous farm workers",
+    default: 3,
+    check: positive,
+  },
+  "farm.strategy": {
+    type: "string",
+    description: "Farm queue order: priority, fifo or shortest-first",
+    default: "priority",
+    check: (value) => (FARM_STRATEGIES.includes(String(value)) ? null : `must be one of ${FARM_STRATEGIES.join(", ")}`),
+  },
+  "drone.memory": {
+    type: "string",
+    description: "Container memory limit for drone sessions",
+    default: "1g",
+    check: memorySize,
+  },
+  "drone.max_iterations": {
+    type: "integer",
+    description: "Max iterations for drone sessions (default: each drone's own setting)",
+    check: positive,
+  },
+} satisfies Record<string, KeySpec>;
+
+export type ConfigKey = keyof typeof CONFIG_KEYS;
+export type ConfigScope = "project" | "user";
+export type ConfigSource = ConfigScope | "default";
+
+/** Effective configuration, with built-in defaults filled in */
+export interface ConfigValues {
+  runtime?: string;
+  image: string;
+  auth?: string;
+  repo?: string;
+  verify?: string;
+  "worker.memory": string;
+  "worker.max_iterations": number;
+  "farm.concurrency": number;
+  "farm.strategy": string;
+  "drone.memory": string;
+  "drone.max_iterations"?: number;
+}
+
+export interface ConfigEntry {
+  key: ConfigKey;
+  value: string | number | null;
+  source: ConfigSource | null;
+  description: string;
+}
+
+type ConfigLayer = Partial<Record<ConfigKey, string | number>>;
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Path of the user config file (which may not exist).
+ */
+export function userConfigPath(): string {
+  const base = Deno.env.get("XDG_CONFIG_HOME") || join(Deno.env.get("HOME") || ".", ".config");
+  return join(base, "blackboard", "config.toml");
+}
+
+/**
+ * Path of the project config file (which may not exist), next to the
+ * project's database.
+ *
+ * @returns The path, or null outside a project
+ */
+export function projectConfigPath(): string | null {
+  try {
+    return join(dirname(resolveDbPath()), "blackboard.toml");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a string names a config key.
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.hasOwn(CONFIG_KEYS, key);
+}
+
+/**
+ * Checks a value against its key's type and constraints.
+ * @throws ConfigError if the value doesn't fit
+ */
+function validateValue(key: ConfigKey, value: unknown): string | number {
+  const spec: KeySpec = CONFIG_KEYS[key];
+  if (spec.type === "integer" && !(typeof value === "number" && Number.isInteger(value))) {
+    throw new ConfigError(`${key} must be an integer`);
+  }
+  if (spec.type === "string" && typeof value !== "string") {
+    throw new ConfigError(`${key} must be a string`);
+  }
+  const problem = spec.check?.(value as string | number);
+  if (problem) {
+    throw new ConfigError(`${key} ${problem}`);
+  }
+  return value as string | number;
+}
+
+/**
+ * Reads a config file as a TOML table (empty if the file doesn't exist).
+ * @throws ConfigError if the file isn't valid TOML
+ */
+function readTable(path: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = Deno.readTextFileSync(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+  try {
+    return parse(text) as Record<string, unknown>;
+  } catch (error) {
+    throw new ConfigError(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Reads and validates one config file.
+ * @throws ConfigError on unknown keys or invalid values
+ */
+function readLayer(path: string): ConfigLayer {
+  const layer: ConfigLayer = {};
+  const add = (key: string, value: unknown) => {
+    if (!isConfigKey(key)) {
+      throw new ConfigError(`${path}: unknown key "${key}"`);
+    }
+    try {
+      layer[key] = validateValue(key, value);
+    } catch (error) {
+      throw new ConfigError(`${path}: ${(error as Error).message}`);
+    }
+  };
+
+  for (const [name, value] of Object.entries(readTable(path))) {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      for (const [subName, subValue] of Object.entries(value)) {
+        add(`${name}.${subName}`, subValue);
+      }
+    } else {
+      add(name, value);
+    }
+  }
+  return layer;
+}
+
+/**
+ * Reads the user and project files, project last so it wins.
+ * A relative repo in the project file is resolved against the project.
+ */
+function readLayers(): Array<{ scope: ConfigScope; layer: ConfigLayer }> {
+  const layers: Array<{ scope: ConfigScope; layer: ConfigLayer }> = [
+    { scope: "user", layer: readLayer(userConfigPath()) },
+  ];
+
+  const projectPath = projectConfigPath();
+  if (projectPath) {
+    const layer = readLayer(projectPath);
+    if (typeof layer.repo === "string" && !isAbsolute(layer.repo)) {
+      layer.repo = resolve(dirname(dirname(projectPath)), layer.repo);
+    }
+    layers.push({ scope: "project", layer });
+  }
+  return layers;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Lists every key with its effective value and where it came from.
+ *
+ * @returns One entry per key; value and source are null for unset keys without a default
+ * @throws ConfigError if a config file is invalid
+ */
+export function listConfig(): ConfigEntry[] {
+  const layers = readLayers();
+
+  return (Object.keys(CONFIG_KEYS) as ConfigKey[]).map((key) => {
+    const spec: KeySpec = CONFIG_KEYS[key];
+    let entry: ConfigEntry = {
+      key,
+      value: spec.default ?? null,
+      source: spec.default === undefined ? null : "default",
+      description: spec.description,
+    };
+    for (const { scope, layer } of layers) {
+      const value = layer[key];
+      if (value !== undefined) {
+        entry = { ...entry, value, source: scope };
+      }
+    }
+    return entry;
+  });
+}
+
+/**
+ * Gets the effective configuration. Command-line options override it.
+ * @throws ConfigError if a config file is invalid
+ */
+export function loadConfig(): ConfigValues {
+  const values: Record<string, string | number> = {};
+  for (const entry of listConfig()) {
+    if (entry.value !== null) {
+      values[entry.key] = entry.value;
+    }
+  }
+  return values as unknown as ConfigValues;
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Resolves the file a scope writes to.
+ * @throws ConfigError for the project scope outside a project
+ */
+function scopePath(scope: ConfigScope): string {
+  if (scope === "user") {
+    return userConfigPath();
+  }
+  const path = projectConfigPath();
+  if (!path) {
+    throw new ConfigError("Not in a blackboard project; use --user to set a user-level value");
+  }
+  return path;
+}
+
+/**
+ * Parses a value typed on the command line for a key.
+ *
+ * @param key - Config key (e.g. "worker.memory")
+ * @param raw - Value as typed
+ * @returns The validated value
+ * @throws ConfigError if the key is unknown or the value is invalid
+ */
+export function parseConfigValue(key: string, raw: string): { key: ConfigKey; value: string | number } {
+  if (!isConfigKey(key)) {
+    throw new ConfigError(`Unknown config key "${key}". Known keys: ${Object.keys(CONFIG_KEYS).join(", ")}`);
+  }
+  const spec: KeySpec = CONFIG_KEYS[key];
+  if (spec.type === "integer") {
+    if (!/^-?\d+$/.test(raw.trim())) {
+      throw new ConfigError(`${key} must be an integer`);
+    }
+    return { key, value: validateValue(key, Number(raw.trim())) };
+  }
+  return { key, value: validateValue(key, raw) };
+}
+
+/**
+ * Sets or removes a key in the project or user file. Comments and
+ * formatting in the file are not preserved.
+ *
+ * @param scope - File to change
+ * @param key - Config key
+ * @param value - New value, or undefined to remove the key
+ * @returns Path of the file written
+ * @throws ConfigError if the file is invalid or there is no project
+ */
+export function writeConfigValue(scope: ConfigScope, key: ConfigKey, value: string | number | undefined): string {
+  const path = scopePath(scope);
+  const table = readTable(path);
+
+  const [section, name] = key.includes(".") ? key.split(".") : [null, key];
+  let target = table;
+  if (section) {
+    const existing = table[section];
+    target = existing && typeof existing === "object" && !Array.isArray(existing)
+      ? existing as Record<string, unknown>
+      : {};
+    table[section] = target;
+  }
+
+  if (value === undefined) {
+    delete target[name];
+    if (section && Object.keys(target).length === 0) {
+      delete table[section];
+    }
+  } else {
+    target[name] = value;
+  }
+
+  Deno.mkdirSync(dirname(path), { recursive: true });
+  Deno.writeTextFileSync(path, stringify(table));
+  return path;
+}
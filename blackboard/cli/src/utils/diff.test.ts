@@ -0,0 +1,52 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { diffLines, diffStats, unifiedDiff } from "./diff.ts";
+
+Deno.test("diffLines - tags added, removed and unchanged lines", () => {
+  assertEquals(diffLines(["a", "b", "c"], ["a", "x", "c", "d"]), [
+    { type: "context", text: "a" },
+    { type: "remove", text: "b" },
+    { type: "add", text: "x" },
+    { type: "context", text: "c" },
+    { type: "add", text: "d" },
+  ]);
+});
+
+Deno.test("diffStats - counts added and removed lines", () => {
+  assertEquals(diffStats("a\nb\nc\n", "a\nx\nc\nd\n"), { added: 2, removed: 1 });
+  assertEquals(diffStats("", "a\n"), { added: 1, removed: 0 });
+});
+
+Deno.test("unifiedDiff - identical text produces no diff", () => {
+  assertEquals(unifiedDiff("a\nb\n", "a\nb"), "");
+});
+
+Deno.test("unifiedDiff - single hunk with context and labels", () => {
+  const diff = unifiedDiff("one\ntwo\nthree\n", "one\n2\nthree\nfour\n", {
+    oldLabel: "rev 1",
+    newLabel: "rev 2",
+  });
+  assertEquals(diff, [
+    "--- rev 1",
+    "+++ rev 2",
+    "@@ -1,3 +1,4 @@",
+    " one",
+    "-two",
+    "+2",
+    " three",
+    "+four",
+    "",
+  ].join("\n"));
+});
+
+Deno.test("unifiedDiff - distant changes get separate hunks", () => {
+  const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n");
+  const newText = oldText.replace("line 2", "LINE 2").replace("line 19", "LINE 19");
+  const headers = unifiedDiff(oldText, newText, { context: 1 })
+    .split("\n")
+    .filter((line) => line.startsWith("@@"));
+  assertEquals(headers, ["@@ -1,3 +1,3 @@", "@@ -18,3 +18,3 @@"]);
+});
+
+Deno.test("unifiedDiff - empty old text", () => {
+  assertEquals(unifiedDiff("", "new\n").split("\n")[2], "@@ -0,0 +1 @@");
+});
@@ -0,0 +1,180 @@
+/**
+ * Line-based diffing with unified diff output, for comparing plan revisions.
+ */
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+}
+
+export interface UnifiedDiffOptions {
+  /** Label for the "---" header line */
+  oldLabel?: string;
+  /** Label for the "+++" header line */
+  newLabel?: string;
+  /** Unchanged lines to show around each change (default: 3) */
+  context?: number;
+}
+
+/**
+ * Splits text into lines, ignoring a single trailing newline.
+ */
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Computes a minimal line diff (longest common subsequence).
+ * Common leading and trailing lines are matched first so typical edits to
+ * a large document only pay for the changed region.
+ *
+ * @param oldLines - Lines before the change
+ * @param newLines - Lines after the change
+ * @returns Every line of both inputs, tagged as context, add or remove
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  const width = b.length + 1;
+
+  // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = oldLines
+    .slice(0, start)
+    .map((text) => ({ type: "context", text }));
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      result.push({ type: "context", text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Prefer removals so a replaced line reads "-old" then "+new"
+      result.push({ type: "remove", text: a[i] });
+      i++;
+    } else {
+      result.push({ type: "add", text: b[j] });
+      j++;
+    }
+  }
+
+  for (const text of oldLines.slice(oldEnd)) {
+    result.push({ type: "context", text });
+  }
+
+  return result;
+}
+
+/**
+ * Counts lines added and removed between two texts.
+ *
+ * @param oldText - Text before the change
+ * @param newText - Text after the change
+ * @returns Number of added and removed lines
+ */
+export function diffStats(oldText: string, newText: string): { added: number; removed: number } {
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  return {
+    added: lines.filter((line) => line.type === "add").length,
+    removed: lines.filter((line) => line.type === "remove").length,
+  };
+}
+
+/**
+ * Formats a hunk range ("start,count", with ",count" dropped when it is 1).
+ */
+function formatRange(linesBefore: number, count: number): string {
+  const start = count === 0 ? linesBefore : linesBefore + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Produces a unified diff between two texts.
+ *
+ * @param oldText - Text before the change
+ * @param newText - Text after the change
+ * @param options - Header labels and context size
+ * @returns Unified diff, or an empty string if the texts have the same lines
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Old/new line counts before each diff line, for hunk headers
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (line.type !== "add") oldCount++;
+    if (line.type !== "remove") newCount++;
+  }
+
+  const changes = lines.flatMap((line, index) => (line.type === "context" ? [] : [index]));
+  if (changes.length === 0) {
+    return "";
+  }
+
+  const output = [
+    `--- ${options.oldLabel ?? "a"}`,
+    `+++ ${options.newLabel ?? "b"}`,
+  ];
+
+  // Group changes whose surrounding context would overlap into one hunk
+  let groupStart = 0;
+  for (let c = 1; c <= changes.length; c++) {
+    if (c < changes.length && changes[c] - changes[c - 1] <= context * 2 + 1) {
+      continue;
+    }
+
+    const from = Math.max(0, changes[groupStart] - context);
+    const to = Math.min(lines.length, changes[c - 1] + context + 1);
+    const hunk = lines.slice(from, to);
+    const oldLines = hunk.filter((line) => line.type !== "add").length;
+    const newLines = hunk.filter((line) => line.type !== "remove").length;
+
+    output.push(
+      `@@ -${formatRange(oldBefore[from], oldLines)} +${formatRange(newBefore[from], newLines)} @@`
+    );
+    for (const line of hunk) {
+      const prefix = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      output.push(`${prefix}${line.text}`);
+    }
+
+    groupStart = c;
+  }
+
+  return output.join("\n") + "\n";
+}
@@ -0,0 +1,20 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { buildFtsQuery } from "./fts.ts";
+
+Deno.test("buildFtsQuery - quotes words as prefix terms", () => {
+  assertEquals(buildFtsQuery("auth token"), '"auth"* "token"*');
+});
+
+Deno.test("buildFtsQuery - keeps quoted phrases exact", () => {
+  assertEquals(buildFtsQuery('login "token refresh"'), '"login"* "token refresh"');
+});
+
+Deno.test("buildFtsQuery - neutralises FTS5 syntax", () => {
+  assertEquals(buildFtsQuery("NOT foo-bar col:x"), '"NOT"* "foo-bar"* "col:x"*');
+  assertEquals(buildFtsQuery('say"what'), '"saywhat"*');
+});
+
+Deno.test("buildFtsQuery - returns null for empty input", () => {
+  assertEquals(buildFtsQuery(""), null);
+  assertEquals(buildFtsQuery('   ""  '), null);
+});
@@ -0,0 +1,43 @@
+/**
+ * Utilities for building SQLite FTS5 queries from user input.
+ */
+
+/**
+ * Converts free-form search terms into a safe FTS5 MATCH expression.
+ * - Bare words become quoted prefix terms ("auth"* matches "authentication")
+ * - Double-quoted phrases are kept as exact phrases
+ * - All terms are ANDed (FTS5's implicit operator)
+ * Quoting every term means FTS5 operators and punctuation in user input
+ * (AND, NEAR, -, :, etc.) are treated as text rather than query syntax.
+ *
+ * @param terms - Raw search input (e.g., `login "token refresh"`)
+ * @returns FTS5 query string, or null if the input contains no terms
+ */
+export function buildFtsQuery(terms: string): string | null {
+  const parts: string[] = [];
+  const tokenPattern = /"([^"]*)"|(\S+)/g;
+
+  for (const match of terms.matchAll(tokenPattern)) {
+    const [, phrase, word] = match;
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        parts.push(quote(phrase.trim()));
+      }
+    } else if (word) {
+      // A stray quote inside a word is just text
+      const text = word.replace(/"/g, "");
+      if (text) {
+        parts.push(`${quote(text)}*`);
+      }
+    }
+  }
+
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+/**
+ * Wrap text in FTS5 string quotes, escaping embedded quotes.
+ */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
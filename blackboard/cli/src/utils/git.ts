@@ -2,6 +2,8 @@
  * Git utility functions.
  */
 
+import { toDbTimestamp } from "./time.ts";
+
 /**
  * Gets the current git branch name.
  * @returns The branch name, or null if not in a git repo or git is unavailable.
@@ -22,3 +24,118 @@ export function getCurrentGitBranch(): string | null {
   }
   return null;
 }
+
+/**
+ * Resolves a branch (or any revision) to its commit SHA.
+ * @param revision - Branch name or revision
+ * @param cwd - Repository directory (defaults to the current directory)
+ * @returns The commit SHA, or null if it doesn't resolve.
+ */
+export function getCommitSha(revision: string, cwd?: string): string | null {
+  try {
+    const command = new Deno.Command("git", {
+      args: ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`],
+      cwd,
+      stdout: "piped",
+      stderr: "null",
+    });
+    const result = command.outputSync();
+    if (result.success) {
+      return new TextDecoder().decode(result.stdout).trim();
+    }
+  } catch {
+    // Not in a git repo or git not available
+  }
+  return null;
+}
+
+/**
+ * Lists the commits reachable from one revision but not another, newest first.
+ * @param from - Exclusive starting revision (e.g. the last commit already seen)
+ * @param to - Inclusive end revision
+ * @param cwd - Repository directory (defaults to the current directory)
+ * @param limit - Maximum number of commits (default: 20)
+ * @returns Commits with SHA, author and subject; empty if git fails.
+ */
+export function listCommitsBetween(
+  from: string,
+  to: string,
+  cwd?: string,
+  limit = 20
+): Array<{ sha: string; author: string; subject: string }> {
+  try {
+    const command = new Deno.Command("git", {
+      args: ["log", `--max-count=${limit}`, "--format=%H%x09%an%x09%s", `${from}..${to}`],
+      cwd,
+      stdout: "piped",
+      stderr: "null",
+    });
+    const result = command.outputSync();
+    if (result.success) {
+      return new TextDecoder()
+        .decode(result.stdout)
+        .split("\n")
+        .filter((line) => line.length > 0)
+        .map((line) => {
+          const [sha, author, ...subject] = line.split("\t");
+          return { sha, author, subject: subject.join("\t") };
+        });
+    }
+  } catch {
+    // Not in a git repo or git not available
+  }
+  return [];
+}
+
+/**
+ * Reads a commit's author, date and subject.
+ * @param revision - Commit SHA or revision
+ * @param cwd - Repository directory (defaults to the current directory)
+ * @returns Commit details (date as a UTC "YYYY-MM-DD HH:MM:SS" string), or null if it doesn't resolve.
+ */
+export function getCommitInfo(
+  revision: string,
+  cwd?: string
+): { sha: string; author: string; committedAt: string; subject: string } | null {
+  try {
+    const command = new Deno.Command("git", {
+      args: ["log", "-1", "--format=%H%x09%an%x09%ct%x09%s", `${revision}^{commit}`, "--"],
+      cwd,
+      stdout: "piped",
+      stderr: "null",
+    });
+    const result = command.outputSync();
+    if (result.success) {
+      const [sha, author, seconds, ...subject] = new TextDecoder().decode(result.stdout).trim().split("\t");
+      const committedAt = toDbTimestamp(new Date(parseInt(seconds, 10) * 1000));
+      return { sha, author, committedAt, subject: subject.join("\t") };
+    }
+  } catch {
+    // Not in a git repo or git not available
+  }
+  return null;
+}
+
+/**
+ * Lists the commit SHAs in a revision range (e.g. "abc123..HEAD"), oldest first.
+ * @param range - Revision range
+ * @param cwd - Repository directory (defaults to the current directory)
+ * @returns SHAs; empty if git fails.
+ */
+export function listRevisions(range: string, cwd?: string): string[] {
+  try {
+    const command = new Deno.Command("git", {
+      args: ["rev-list", "--reverse", range, "--"],
+      cwd,
+      stdout: "piped",
+      stderr: "null",
+    });
+    const result = command.outputSync();
+    if (result.success) {
+      return new TextDecoder().decode(result.stdout).split("\n").filter((line) => line.length > 0);
+    }
+  } catch {
+    // Not in a git repo or git not available
+  }
+  return [];
+}
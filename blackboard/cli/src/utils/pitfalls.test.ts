@@ -0,0 +1,74 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  extractKeywords,
+  parseFileList,
+  rankPitfalls,
+  scorePitfall,
+  type PitfallContext,
+} from "./pitfalls.ts";
+import type { Correction } from "../types/schema.ts";
+
+function correction(overrides: Partial<Correction>): Correction {
+  return {
+    id: "c1",
+    plan_id: null,
+    created_at: "2026-01-01 00:00:00",
+    mistake: "",
+    symptoms: null,
+    resolution: null,
+    tags: null,
+    ...overrides,
+  };
+}
+
+const context: PitfallContext = {
+  planIds: new Set(["plan-1"]),
+  files: new Set(["src/db/queries.ts", "src/cli.ts"]),
+  keywords: extractKeywords("Add migration runner for sqlite schema changes"),
+};
+
+Deno.test("extractKeywords - drops short words, stopwords and numbers", () => {
+  assertEquals(
+    [...extractKeywords("Use the SQLite schema with 2024 migrations")],
+    ["sqlite", "schema", "migrations"]
+  );
+});
+
+Deno.test("parseFileList - splits and normalizes paths", () => {
+  assertEquals(parseFileList("./src/a.ts, src/b.ts,,"), ["src/a.ts", "src/b.ts"]);
+  assertEquals(parseFileList(null), []);
+});
+
+Deno.test("scorePitfall - unrelated correction scores zero", () => {
+  const c = correction({ mistake: "Forgot to escape HTML in templates" });
+  assertEquals(scorePitfall({ correction: c, files: [] }, context), 0);
+});
+
+Deno.test("scorePitfall - tag matching a thread keyword", () => {
+  const c = correction({ mistake: "Broke it", tags: "sqlite" });
+  assertEquals(scorePitfall({ correction: c, files: [] }, context), 3);
+});
+
+Deno.test("scorePitfall - shared files from breadcrumbs or correction text", () => {
+  const fromCrumbs = correction({ mistake: "Broke it" });
+  assertEquals(scorePitfall({ correction: fromCrumbs, files: ["db/queries.ts"] }, context), 3);
+
+  const fromText = correction({ mistake: "Edited src/cli.ts without updating help" });
+  assertEquals(scorePitfall({ correction: fromText, files: [] }, context), 3);
+});
+
+Deno.test("rankPitfalls - filters weak matches, orders by score then recency, caps", () => {
+  const candidates = [
+    { correction: correction({ id: "weak", mistake: "schema typo" }), files: [] },
+    { correction: correction({ id: "tag", mistake: "x", tags: "sqlite", created_at: "2026-01-01 00:00:00" }), files: [] },
+    { correction: correction({ id: "tag-newer", mistake: "x", tags: "sqlite", created_at: "2026-02-01 00:00:00" }), files: [] },
+    { correction: correction({ id: "best", mistake: "x", tags: "sqlite", plan_id: "plan-1" }), files: [] },
+  ];
+
+  assertEquals(
+    rankPitfalls(candidates, context, 10).map((p) => p.correction.id),
+    ["best", "tag-newer", "tag"]
+  );
+  assertEquals(rankPitfalls(candidates, context, 1).map((p) => p.correction.id), ["best"]);
+  assertEquals(rankPitfalls(candidates, context, 0), []);
+});
@@ -0,0 +1,170 @@
+/**
+ * Relevance scoring for "known pitfalls": past corrections that relate to the
+ * thread a session is about to work on.
+ */
+
+import type { Correction } from "../types/schema.ts";
+
+/**
+ * What we know about the thread being worked on.
+ */
+export interface PitfallContext {
+  /** Plans that belong to the thread */
+  planIds: Set<string>;
+  /** Files touched by the thread's breadcrumbs */
+  files: Set<string>;
+  /** Keywords from the thread name, plan and steps (see extractKeywords) */
+  keywords: Set<string>;
+}
+
+export interface PitfallCandidate {
+  correction: Correction;
+  /** Files touched by breadcrumbs on the plan the correction was recorded against */
+  files: string[];
+}
+
+export interface ScoredPitfall {
+  correction: Correction;
+  score: number;
+}
+
+// Weights for each kind of evidence that a correction is relevant
+const SAME_THREAD_SCORE = 2;
+const TAG_SCORE = 3;
+const FILE_SCORE = 3;
+const KEYWORD_SCORE = 1;
+const MAX_KEYWORD_MATCHES = 4;
+
+/** Minimum score for a correction to count as relevant */
+export const MIN_PITFALL_SCORE = 3;
+
+// Common words that carry no signal about what a thread is working on
+const STOPWORDS = new Set([
+  "about", "after", "again", "also", "because", "been", "before", "being",
+  "between", "both", "cannot", "could", "does", "doing", "done", "each",
+  "from", "have", "having", "into", "just", "like", "make", "more", "most",
+  "must", "need", "only", "other", "over", "same", "should", "some", "such",
+  "than", "that", "their", "them", "then", "there", "these", "they", "this",
+  "those", "through", "until", "used", "using", "very", "were", "what",
+  "when", "where", "which", "while", "will", "with", "without", "would",
+  "your",
+]);
+
+/**
+ * Extracts lowercase keywords (4+ chars, no stopwords) from text.
+ *
+ * @param text - Free-form text (plan markdown, step descriptions, etc.)
+ * @returns Set of keywords
+ */
+export function extractKeywords(text: string): Set<string> {
+  const keywords = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^a-z0-9_]+/)) {
+    if (word.length >= 4 && !STOPWORDS.has(word) && !/^\d+$/.test(word)) {
+      keywords.add(word);
+    }
+  }
+  return keywords;
+}
+
+/**
+ * Parses a breadcrumb's comma-separated files_touched value.
+ *
+ * @param filesTouched - Value of breadcrumbs.files_touched
+ * @returns Normalized file paths
+ */
+export function parseFileList(filesTouched: string | null): string[] {
+  if (!filesTouched) return [];
+  return filesTouched
+    .split(",")
+    .map((f) => f.trim().replace(/^\.\//, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Two paths refer to the same file if they're equal or one is a
+ * path-suffix of the other (e.g. "src/db/queries.ts" and "db/queries.ts").
+ */
+function samePath(a: string, b: string): boolean {
+  return a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`);
+}
+
+/**
+ * Scores how relevant a correction is to a thread.
+ * Combines: recorded against the same thread, tags that appear among the
+ * thread's keywords, files shared with the thread's breadcrumbs (or named in
+ * the correction text), and keyword overlap.
+ *
+ * @param candidate - Correction and the files touched on its plan
+ * @param context - Thread context to score against
+ * @returns Relevance score (0 = unrelated)
+ */
+export function scorePitfall(candidate: PitfallCandidate, context: PitfallContext): number {
+  const { correction } = candidate;
+  let score = 0;
+
+  if (correction.plan_id && context.planIds.has(correction.plan_id)) {
+    score += SAME_THREAD_SCORE;
+  }
+
+  // Tags: match against thread keywords and file paths
+  const tags = (correction.tags ?? "")
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+  for (const tag of tags) {
+    const inFiles = [...context.files].some((f) => f.toLowerCase().includes(tag));
+    if (context.keywords.has(tag) || inFiles) {
+      score += TAG_SCORE;
+    }
+  }
+
+  // Shared files: from the correction's plan breadcrumbs, or paths named in its text
+  const text = [correction.mistake, correction.symptoms, correction.resolution]
+    .filter(Boolean)
+    .join("\n");
+  const mentioned = text.match(/[\w./-]+\.[a-z]{1,5}\b/gi) ?? [];
+  const correctionFiles = new Set([...candidate.files, ...mentioned.map((f) => f.replace(/^\.\//, ""))]);
+  for (const file of correctionFiles) {
+    if ([...context.files].some((f) => samePath(f, file))) {
+      score += FILE_SCORE;
+    }
+  }
+
+  // Keyword overlap, capped so long corrections don't dominate
+  let keywordMatches = 0;
+  for (const keyword of extractKeywords(text)) {
+    if (context.keywords.has(keyword)) keywordMatches++;
+  }
+  score += Math.min(keywordMatches, MAX_KEYWORD_MATCHES) * KEYWORD_SCORE;
+
+  return score;
+}
+
+/**
+ * Ranks corrections by relevance to a thread, keeping the best `limit`.
+ * Ties go to the more recent correction.
+ *
+ * @param candidates - Corrections to consider
+ * @param context - Thread context to score against
+ * @param limit - Maximum number of pitfalls to return
+ * @returns Relevant corrections, most relevant first
+ */
+export function rankPitfalls(
+  candidates: PitfallCandidate[],
+  context: PitfallContext,
+  limit: number
+): ScoredPitfall[] {
+  if (limit <= 0) return [];
+
+  return candidates
+    .map((candidate) => ({
+      correction: candidate.correction,
+      score: scorePitfall(candidate, context),
+    }))
+    .filter((p) => p.score >= MIN_PITFALL_SCORE)
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.correction.created_at.localeCompare(a.correction.created_at)
+    )
+    .slice(0, limit);
+}
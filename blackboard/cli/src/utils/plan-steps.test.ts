@@ -0,0 +1,32 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { parseStepAnnotations, stepKey } from "./plan-steps.ts";
+
+Deno.test("parseStepAnnotations - reads Acceptance and Verify lines under list items", () => {
+  const markdown = [
+    "# Auth",
+    "",
+    "1. Add the **login** endpoint",
+    "   - Acceptance: POST /login returns a token",
+    "   - Acceptance: bad passwords get a 401",
+    "   - Verify: `deno test src/auth`",
+    "2. Write docs",
+    "- [ ] Wire up the UI",
+    "  **Verify:** npm run lint",
+    "",
+    "Notes",
+    "  Verify: not a step",
+  ].join("\n");
+
+  assertEquals(parseStepAnnotations(markdown), [
+    {
+      description: "Add the **login** endpoint",
+      acceptance_criteria: "POST /login returns a token\nbad passwords get a 401",
+      verify_command: "deno test src/auth",
+    },
+    { description: "Wire up the UI", acceptance_criteria: null, verify_command: "npm run lint" },
+  ]);
+});
+
+Deno.test("stepKey - matches plan items to step descriptions", () => {
+  assertEquals(stepKey("Add the **login**  endpoint"), stepKey("add the login endpoint"));
+});
@@ -0,0 +1,68 @@
+/**
+ * Step acceptance criteria and verification commands written in plan
+ * markdown. A list item in the plan is a step; indented lines (or
+ * sub-bullets) under it starting with `Acceptance:` or `Verify:` annotate it:
+ *
+ *   1. Add the login endpoint
+ *      - Acceptance: POST /login returns a session token
+ *      - Verify: `deno test src/auth`
+ */
+
+export interface StepAnnotation {
+  description: string;
+  acceptance_criteria: string | null;
+  verify_command: string | null;
+}
+
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+?)\s*$/;
+const ANNOTATION = /^(\s*)(?:[-*+]\s+)?[*_]{0,2}(acceptance(?: criteria)?|verify)[*_]{0,2}\s*:[*_]{0,2}\s*(.+?)\s*$/i;
+
+/**
+ * Key for matching a plan's list item to a stored step: lowercase, with
+ * emphasis and code markers dropped and whitespace collapsed.
+ *
+ * @param description - Step description
+ * @returns Matching key
+ */
+export function stepKey(description: string): string {
+  return description.toLowerCase().replace(/[*_`]/g, "").trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Finds annotated steps in plan markdown.
+ *
+ * @param markdown - Plan markdown
+ * @returns Steps with acceptance criteria or a verify command, in plan order
+ */
+export function parseStepAnnotations(markdown: string): StepAnnotation[] {
+  const annotations: StepAnnotation[] = [];
+  let current: { indent: number; annotation: StepAnnotation } | null = null;
+
+  for (const line of markdown.split("\n")) {
+    const annotationMatch = line.match(ANNOTATION);
+    if (annotationMatch && current && annotationMatch[1].length > current.indent) {
+      const value = annotationMatch[3];
+      if (annotationMatch[2].toLowerCase() === "verify") {
+        current.annotation.verify_command = value.replace(/^`+([^`]*)`+$/, "$1").trim() || null;
+      } else {
+        const existing = current.annotation.acceptance_criteria;
+        current.annotation.acceptance_criteria = existing ? `${existing}\n${value}` : value;
+      }
+      continue;
+    }
+
+    const itemMatch = line.match(LIST_ITEM);
+    if (itemMatch && (!current || itemMatch[1].length <= current.indent)) {
+      current = {
+        indent: itemMatch[1].length,
+        annotation: { description: itemMatch[2], acceptance_criteria: null, verify_command: null },
+      };
+      annotations.push(current.annotation);
+    } else if (!itemMatch && line.trim() !== "" && !/^\s/.test(line)) {
+      // A heading or paragraph ends the list
+      current = null;
+    }
+  }
+
+  return annotations.filter((a) => a.acceptance_criteria !== null || a.verify_command !== null);
+}
@@ -0,0 +1,47 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { dueRunsBetween, nextRunAfter, parseSchedule, ScheduleError } from "./schedule.ts";
+
+// Local-time dates, so the tests don't depend on the machine's timezone
+const at = (month: number, day: number, hour: number, minute: number) =>
+  new Date(2026, month - 1, day, hour, minute);
+
+Deno.test("nextRunAfter - nightly cron rolls over to the next day", () => {
+  const nightly = parseSchedule("0 3 * * *");
+  assertEquals(nextRunAfter(nightly, at(3, 10, 1, 30)), at(3, 10, 3, 0));
+  assertEquals(nextRunAfter(nightly, at(3, 10, 3, 0)), at(3, 11, 3, 0));
+});
+
+Deno.test("nextRunAfter - steps, ranges, lists and names", () => {
+  assertEquals(nextRunAfter(parseSchedule("*/15 * * * *"), at(3, 10, 9, 7)), at(3, 10, 9, 15));
+  // 2026-03-14 is a Saturday, so the next weekday run is Monday the 16th
+  assertEquals(nextRunAfter(parseSchedule("30 9 * * mon-fri"), at(3, 14, 8, 0)), at(3, 16, 9, 30));
+  assertEquals(nextRunAfter(parseSchedule("0 0 1 jan,jul *"), at(3, 10, 0, 0)), at(7, 1, 0, 0));
+  assertEquals(nextRunAfter(parseSchedule("@weekly"), at(3, 10, 12, 0)), at(3, 15, 0, 0));
+});
+
+Deno.test("nextRunAfter - day of month or day of week when both are set", () => {
+  // The 1st, or any Friday: after Tue 2026-03-10 comes Fri the 13th
+  assertEquals(nextRunAfter(parseSchedule("0 12 1 * 5"), at(3, 10, 0, 0)), at(3, 13, 12, 0));
+});
+
+Deno.test("nextRunAfter - intervals count from the reference time", () => {
+  const every = parseSchedule("every 6h");
+  assertEquals(nextRunAfter(every, at(3, 10, 1, 30)), at(3, 10, 7, 30));
+  assertEquals(parseSchedule("@every 30m"), { kind: "interval", ms: 30 * 60 * 1000 });
+});
+
+Deno.test("dueRunsBetween - lists every run in the window", () => {
+  const hourly = parseSchedule("@hourly");
+  assertEquals(dueRunsBetween(hourly, at(3, 10, 1, 0), at(3, 10, 3, 30)), [
+    at(3, 10, 1, 0),
+    at(3, 10, 2, 0),
+    at(3, 10, 3, 0),
+  ]);
+});
+
+Deno.test("parseSchedule - rejects malformed expressions", () => {
+  assertThrows(() => parseSchedule("0 3 * *"), ScheduleError, "Expected 5 cron fields");
+  assertThrows(() => parseSchedule("61 * * * *"), ScheduleError, "minute 61 is out of range 0-59");
+  assertThrows(() => parseSchedule("@nightly"), ScheduleError, 'Unknown schedule macro "@nightly"');
+  assertThrows(() => nextRunAfter(parseSchedule("0 0 31 2 *"), at(1, 1, 0, 0)), ScheduleError, "never matches");
+});
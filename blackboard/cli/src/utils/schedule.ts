@@ -0,0 +1,236 @@
+/**
+ * Drone schedules: five-field cron expressions, cron macros (@daily, ...)
+ * and fixed intervals ("every 6h" or "@every 6h").
+ * Cron fields are matched against local time, like cron itself.
+ */
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+export type Schedule =
+  | { kind: "cron"; minutes: Set<number>; hours: Set<number>; days: Set<number>; months: Set<number>; weekdays: Set<number>; anyDay: boolean; anyWeekday: boolean }
+  | { kind: "interval"; ms: number };
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Value the names array starts at (1 for months, 0 for weekdays) */
+  nameBase?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  // 7 is accepted as Sunday, as in most crons
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES, nameBase: 0 },
+];
+
+/**
+ * Parses one value of a cron field, accepting names where the field has them.
+ */
+function parseValue(token: string, spec: FieldSpec): number {
+  const lower = token.toLowerCase();
+  if (spec.names) {
+    const index = spec.names.indexOf(lower);
+    if (index !== -1) return index + (spec.nameBase ?? 0);
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new ScheduleError(`Invalid ${spec.name} "${token}"`);
+  }
+  const value = parseInt(token, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new ScheduleError(`${spec.name} ${value} is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+/**
+ * Parses a cron field ("*", "5", "1-5", "*\/15", "mon,wed,fri") into its values.
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new ScheduleError(`Invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new ScheduleError(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a schedule expression.
+ *
+ * @param expression - Cron expression ("0 3 * * *"), macro ("@daily") or
+ *   interval ("every 6h", "@every 30m")
+ * @returns Parsed schedule
+ * @throws ScheduleError if the expression is not valid
+ */
+export function parseSchedule(expression: string): Schedule {
+  const trimmed = expression.trim().toLowerCase();
+
+  const interval = trimmed.match(/^(?:@every|every)\s+(\d+)\s*([mhdw])$/);
+  if (interval) {
+    const ms = parseInt(interval[1], 10) * INTERVAL_UNITS[interval[2]];
+    if (ms === 0) {
+      throw new ScheduleError("Interval must be greater than zero");
+    }
+    return { kind: "interval", ms };
+  }
+
+  const cron = MACROS[trimmed] ?? trimmed;
+  if (cron.startsWith("@")) {
+    throw new ScheduleError(`Unknown schedule macro "${expression.trim()}"`);
+  }
+
+  const fields = cron.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ScheduleError(
+      `Expected 5 cron fields (minute hour day month weekday), got ${fields.length}`
+    );
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    kind: "cron",
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+/**
+ * Whether a cron schedule allows the given day. As in cron, when both day
+ * of month and day of week are restricted, matching either is enough.
+ */
+function dayMatches(schedule: Extract<Schedule, { kind: "cron" }>, date: Date): boolean {
+  const dayOk = schedule.days.has(date.getDate());
+  const weekdayOk = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay) return weekdayOk;
+  if (schedule.anyWeekday) return dayOk;
+  return dayOk || weekdayOk;
+}
+
+/**
+ * Computes the first run time strictly after a given time.
+ *
+ * @param schedule - Parsed schedule
+ * @param after - Reference time
+ * @returns Next run time (whole minutes for cron schedules)
+ * @throws ScheduleError if a cron schedule never matches (e.g. "0 0 31 2 *")
+ */
+export function nextRunAfter(schedule: Schedule, after: Date): Date {
+  if (schedule.kind === "interval") {
+    return new Date(after.getTime() + schedule.ms);
+  }
+
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  // Jump field by field rather than minute by minute; four years covers leap days
+  const limit = after.getTime() + 4 * 366 * INTERVAL_UNITS.d;
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new ScheduleError("Schedule never matches a real date");
+}
+
+/**
+ * Lists the run times that fell due between two points in time.
+ *
+ * @param schedule - Parsed schedule
+ * @param from - First due time (included)
+ * @param until - End of the window (included)
+ * @param limit - Stop after this many (default: 100)
+ * @returns Due run times in order, starting with `from`
+ */
+export function dueRunsBetween(schedule: Schedule, from: Date, until: Date, limit = 100): Date[] {
+  const runs: Date[] = [];
+  let run = from;
+  while (run.getTime() <= until.getTime() && runs.length < limit) {
+    runs.push(run);
+    run = nextRunAfter(schedule, run);
+  }
+  return runs;
+}
@@ -0,0 +1,46 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { computeStepReadiness, findDependencyCycle } from "./step-graph.ts";
+import type { PlanStep, StepStatus } from "../types/schema.ts";
+
+function step(id: string, status: StepStatus = "pending"): PlanStep {
+  return { id, plan_id: "p1", step_order: 1, description: id, status, acceptance_criteria: null, verify_command: null, verified_at: null, created_at: "" };
+}
+
+Deno.test("findDependencyCycle - no cycle for independent edges", () => {
+  const deps = [{ step_id: "b", depends_on: "a" }];
+  assertEquals(findDependencyCycle(deps, "c", "b"), null);
+});
+
+Deno.test("findDependencyCycle - detects self and transitive cycles", () => {
+  assertEquals(findDependencyCycle([], "a", "a"), ["a", "a"]);
+
+  // b -> a, c -> b; adding a -> c closes the loop
+  const deps = [
+    { step_id: "b", depends_on: "a" },
+    { step_id: "c", depends_on: "b" },
+  ];
+  assertEquals(findDependencyCycle(deps, "a", "c"), ["a", "c", "b", "a"]);
+});
+
+Deno.test("computeStepReadiness - ready only when dependencies are satisfied", () => {
+  const steps = [
+    step("a", "completed"),
+    step("b"),
+    step("c"),
+    step("d", "skipped"),
+    step("e"),
+  ];
+  const deps = [
+    { step_id: "b", depends_on: "a" },
+    { step_id: "c", depends_on: "b" },
+    { step_id: "e", depends_on: "d" },
+    { step_id: "e", depends_on: "missing" },
+  ];
+
+  const readiness = computeStepReadiness(steps, deps);
+  assertEquals(readiness.get("b"), { ready: true, blockedBy: [], dependsOn: ["a"] });
+  assertEquals(readiness.get("c"), { ready: false, blockedBy: ["b"], dependsOn: ["b"] });
+  assertEquals(readiness.get("e")?.ready, true);
+  // Completed steps are never "ready" to start
+  assertEquals(readiness.get("a")?.ready, false);
+});
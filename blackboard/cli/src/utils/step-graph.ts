@@ -0,0 +1,94 @@
+/**
+ * Step dependency graph utilities: cycle detection and ready/blocked state.
+ */
+
+import type { PlanStep, StepDependency, StepStatus } from "../types/schema.ts";
+
+/** Statuses that satisfy a dependency - skipped steps don't hold others up */
+const SATISFIED_STATUSES: StepStatus[] = ["completed", "skipped"];
+
+export interface StepReadiness {
+  /** Pending and every dependency is satisfied */
+  ready: boolean;
+  /** IDs of dependencies that aren't satisfied yet */
+  blockedBy: string[];
+  /** IDs of every step this one depends on */
+  dependsOn: string[];
+}
+
+/**
+ * Finds the cycle that adding "stepId depends on dependsOn" would create.
+ *
+ * @param dependencies - Existing dependency edges
+ * @param stepId - Step that would gain the dependency
+ * @param dependsOn - Step it would depend on
+ * @returns Step IDs forming the cycle (starting and ending with stepId), or null if none
+ */
+export function findDependencyCycle(
+  dependencies: Array<Pick<StepDependency, "step_id" | "depends_on">>,
+  stepId: string,
+  dependsOn: string
+): string[] | null {
+  if (stepId === dependsOn) {
+    return [stepId, stepId];
+  }
+
+  const edges = new Map<string, string[]>();
+  for (const dep of dependencies) {
+    const targets = edges.get(dep.step_id) ?? [];
+    targets.push(dep.depends_on);
+    edges.set(dep.step_id, targets);
+  }
+
+  // A cycle exists if stepId is reachable from dependsOn
+  const visited = new Set<string>();
+  const search = (current: string, path: string[]): string[] | null => {
+    if (current === stepId) {
+      return path;
+    }
+    if (visited.has(current)) {
+      return null;
+    }
+    visited.add(current);
+    for (const next of edges.get(current) ?? []) {
+      const found = search(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const path = search(dependsOn, [dependsOn]);
+  return path ? [stepId, ...path] : null;
+}
+
+/**
+ * Computes which steps are ready to start and which are blocked.
+ * Dependencies on steps that no longer exist are ignored.
+ *
+ * @param steps - Steps of a plan
+ * @param dependencies - Dependency edges for those steps
+ * @returns Readiness keyed by step ID
+ */
+export function computeStepReadiness(
+  steps: PlanStep[],
+  dependencies: Array<Pick<StepDependency, "step_id" | "depends_on">>
+): Map<string, StepReadiness> {
+  const statusById = new Map(steps.map((s) => [s.id, s.status]));
+  const readiness = new Map<string, StepReadiness>();
+
+  for (const step of steps) {
+    const dependsOn = dependencies
+      .filter((d) => d.step_id === step.id && statusById.has(d.depends_on))
+      .map((d) => d.depends_on);
+    const blockedBy = dependsOn.filter(
+      (id) => !SATISFIED_STATUSES.includes(statusById.get(id)!)
+    );
+    readiness.set(step.id, {
+      ready: step.status === "pending" && blockedBy.length === 0,
+      blockedBy,
+      dependsOn,
+    });
+  }
+
+  return readiness;
+}
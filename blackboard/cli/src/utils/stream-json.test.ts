@@ -0,0 +1,89 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { StreamJsonParser } from "./stream-json.ts";
+
+const line = (event: unknown) => JSON.stringify(event);
+
+Deno.test("StreamJsonParser - tool calls, results and text become events", () => {
+  const parser = new StreamJsonParser();
+  const calls = parser.parseLine(line({
+    type: "assistant",
+    message: {
+      id: "msg_1",
+      content: [
+        { type: "text", text: "Reading the config" },
+        { type: "tool_use", name: "Read", input: { file_path: "src/config.ts" } },
+      ],
+    },
+  }));
+  assertEquals(calls, [
+    { event_type: "text", tool_output_preview: "Reading the config" },
+    {
+      event_type: "tool_call",
+      tool_name: "Read",
+      tool_input: '{"file_path":"src/config.ts"}',
+      file_path: "src/config.ts",
+    },
+  ]);
+
+  const results = parser.parseLine(line({
+    type: "user",
+    message: { content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "x".repeat(600) }] },
+  }));
+  assertEquals(results.length, 1);
+  assertEquals(results[0].tool_name, "toolu_1");
+  assertEquals(results[0].tool_output_preview, "x".repeat(500) + "...");
+});
+
+Deno.test("StreamJsonParser - non-JSON and unknown lines are ignored", () => {
+  const parser = new StreamJsonParser();
+  assertEquals(parser.parseLine("Warning: something"), []);
+  assertEquals(parser.parseLine(line({ type: "system", subtype: "init" })), []);
+  assertEquals(parser.usage(), null);
+});
+
+Deno.test("StreamJsonParser - each message's usage counts once, the result replaces it", () => {
+  const parser = new StreamJsonParser();
+  const assistant = {
+    type: "assistant",
+    message: { id: "msg_1", model: "claude-x", usage: { input_tokens: 10, output_tokens: 5 }, content: [] },
+  };
+  parser.parseLine(line(assistant));
+  parser.parseLine(line(assistant));
+  assertEquals(parser.usage()?.input_tokens, 10);
+  assertEquals(parser.usage()?.model, "claude-x");
+
+  const events = parser.parseLine(line({
+    type: "result",
+    subtype: "success",
+    duration_ms: 1200,
+    num_turns: 3,
+    total_cost_usd: 0.25,
+    usage: { input_tokens: 40, output_tokens: 20, cache_read_input_tokens: 7 },
+  }));
+  assertEquals(events, [{ event_type: "system", tool_output_preview: "result: success (1200ms)" }]);
+  assertEquals(parser.usage(), {
+    model: "claude-x",
+    input_tokens: 40,
+    output_tokens: 20,
+    cache_creation_tokens: 0,
+    cache_read_tokens: 7,
+    cost_usd: 0.25,
+    num_turns: 3,
+    duration_ms: 1200,
+  });
+});
+
+Deno.test("StreamJsonParser - error results and events report rate limits", () => {
+  const limited = new StreamJsonParser();
+  limited.parseLine(line({ type: "result", subtype: "success", is_error: true, result: "API Error: 429 rate_limit_error" }));
+  assertEquals(limited.rateLimit(), "API Error: 429 rate_limit_error");
+
+  const overloaded = new StreamJsonParser();
+  overloaded.parseLine(line({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }));
+  assertEquals(overloaded.rateLimit(), '{"type":"overloaded_error","message":"Overloaded"}');
+
+  // Text about rate limits in a successful result isn't an error
+  const fine = new StreamJsonParser();
+  fine.parseLine(line({ type: "result", subtype: "success", result: "Added a rate limit to the API" }));
+  assertEquals(fine.rateLimit(), null);
+});
@@ -0,0 +1,193 @@
+/**
+ * Parser for Claude CLI `--output-format stream-json` output.
+ * Turns each line into worker events (tool calls, results, text, errors) and
+ * folds token usage and cost into per-iteration totals for the worker loop.
+ */
+
+import type { WorkerEventType } from "../types/schema.ts";
+
+/** A worker event extracted from one stream-json line */
+export interface StreamEvent {
+  event_type: WorkerEventType;
+  tool_name?: string;
+  tool_input?: string;
+  tool_output_preview?: string;
+  file_path?: string;
+}
+
+/** Token usage and cost for one iteration */
+export interface StreamUsage {
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number | null;
+  num_turns: number | null;
+  duration_ms: number | null;
+}
+
+// Longest tool output or text kept in an event preview
+const PREVIEW_LENGTH = 500;
+
+// API errors that mean "try again later" rather than a failed iteration
+const RATE_LIMIT_PATTERN = /rate_limit_error|overloaded_error|API Error: (429|529)\b|rate limit|overloaded/i;
+
+function truncate(output: string, maxLength = PREVIEW_LENGTH): string {
+  if (output.length <= maxLength) return output;
+  return output.substring(0, maxLength) + "...";
+}
+
+/**
+ * Extracts the file a tool call touches, for the events file_path column.
+ */
+function extractFilePath(toolName: string, input: any): string | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  if (["Read", "Edit", "Write"].includes(toolName)) {
+    return input.file_path;
+  }
+  if (toolName === "Glob") {
+    return input.pattern ? `glob:${input.pattern}` : undefined;
+  }
+  if (toolName === "Grep") {
+    return input.path;
+  }
+  return undefined;
+}
+
+/**
+ * Stateful parser for one iteration's output. Feed it lines with parseLine
+ * and read the totals with usage() once the stream ends.
+ *
+ * Assistant messages contribute per-message usage as they stream in (each
+ * message is counted once, though it is streamed once per content block);
+ * the final result event, when present, carries authoritative totals and cost.
+ */
+export class StreamJsonParser {
+  private totals: StreamUsage = {
+    model: null,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_tokens: 0,
+    cache_read_tokens: 0,
+    cost_usd: null,
+    num_turns: null,
+    duration_ms: null,
+  };
+  private seenUsage = false;
+  private countedMessageIds = new Set<string>();
+  private rateLimitMessage: string | null = null;
+
+  /**
+   * Parses one line of output. Lines that aren't JSON are ignored.
+   *
+   * @param line - One line of stream-json output
+   * @returns Events to record, in order
+   */
+  parseLine(line: string): StreamEvent[] {
+    let event: any;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      return [];
+    }
+    if (!event || typeof event !== "object") {
+      return [];
+    }
+
+    const events: StreamEvent[] = [];
+
+    if (event.type === "assistant" && event.message) {
+      const message = event.message;
+      if (message.model) this.totals.model = message.model;
+      if (message.usage && !(message.id && this.countedMessageIds.has(message.id))) {
+        if (message.id) this.countedMessageIds.add(message.id);
+        this.addUsage(message.usage);
+      }
+      if (Array.isArray(message.content)) {
+        for (const block of message.content) {
+          if (block.type === "tool_use") {
+            events.push({
+              event_type: "tool_call",
+              tool_name: block.name,
+              tool_input: JSON.stringify(block.input || {}),
+              file_path: extractFilePath(block.name, block.input),
+            });
+          } else if (block.type === "text" && block.text) {
+            events.push({ event_type: "text", tool_output_preview: truncate(block.text) });
+          }
+        }
+      }
+    } else if (event.type === "user" && Array.isArray(event.message?.content)) {
+      for (const block of event.message.content) {
+        if (block.type === "tool_result") {
+          events.push({
+            event_type: "tool_result",
+            tool_name: block.tool_use_id || undefined,
+            tool_output_preview: typeof block.content === "string"
+              ? truncate(block.content)
+              : truncate(JSON.stringify(block.content)),
+          });
+        }
+      }
+    } else if (event.type === "result") {
+      if (event.is_error || String(event.subtype ?? "").startsWith("error")) {
+        this.checkRateLimit(event.result ?? event.error ?? event);
+      }
+      this.addUsage(event.usage, true);
+      if (typeof event.total_cost_usd === "number") this.totals.cost_usd = event.total_cost_usd;
+      if (typeof event.num_turns === "number") this.totals.num_turns = event.num_turns;
+      if (typeof event.duration_ms === "number") this.totals.duration_ms = event.duration_ms;
+      events.push({
+        event_type: "system",
+        tool_output_preview: `result: ${event.subtype || "unknown"} (${event.duration_ms || 0}ms)`,
+      });
+    } else if (event.type === "error") {
+      this.checkRateLimit(event.error || event);
+      events.push({ event_type: "error", tool_output_preview: JSON.stringify(event.error || event) });
+    }
+
+    return events;
+  }
+
+  /**
+   * Usage totals so far.
+   *
+   * @returns Totals, or null if the stream reported no usage at all
+   */
+  usage(): StreamUsage | null {
+    return this.seenUsage ? { ...this.totals } : null;
+  }
+
+  /**
+   * The rate limit or overload error that ended the iteration, if the
+   * stream reported one (in an error event or an error result).
+   *
+   * @returns The error text, or null if the iteration wasn't rate limited
+   */
+  rateLimit(): string | null {
+    return this.rateLimitMessage;
+  }
+
+  private checkRateLimit(error: unknown): void {
+    const text = typeof error === "string" ? error : JSON.stringify(error);
+    if (RATE_LIMIT_PATTERN.test(text)) {
+      this.rateLimitMessage = truncate(text, 200);
+    }
+  }
+
+  private addUsage(u: any, replace = false): void {
+    if (!u || typeof u !== "object") return;
+    if (replace) {
+      this.totals.input_tokens = 0;
+      this.totals.output_tokens = 0;
+      this.totals.cache_creation_tokens = 0;
+      this.totals.cache_read_tokens = 0;
+    }
+    this.totals.input_tokens += u.input_tokens || 0;
+    this.totals.output_tokens += u.output_tokens || 0;
+    this.totals.cache_creation_tokens += u.cache_creation_input_tokens || 0;
+    this.totals.cache_read_tokens += u.cache_read_input_tokens || 0;
+    this.seenUsage = true;
+  }
+}
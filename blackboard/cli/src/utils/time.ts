@@ -78,3 +78,43 @@ export function relativeTime(utcTimestamp: string): string {
     day: 'numeric'
   });
 }
+
+/**
+ * Parses a --since value into a UTC timestamp comparable with database timestamps.
+ * Accepts relative durations ("30m", "24h", "7d", "2w") or anything Date can parse
+ * ("2026-01-25", "2026-01-25T10:00").
+ *
+ * @param value - Duration or date string
+ * @returns UTC timestamp in "YYYY-MM-DD HH:MM:SS" format, or null if unparseable
+ */
+export function parseSince(value: string): string | null {
+  const units: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+  };
+
+  let date: Date;
+  const duration = value.trim().match(/^(\d+)\s*([mhdw])$/);
+  if (duration) {
+    date = new Date(Date.now() - parseInt(duration[1], 10) * units[duration[2]]);
+  } else {
+    date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return null;
+    }
+  }
+
+  return toDbTimestamp(date);
+}
+
+/**
+ * Formats a Date as a UTC timestamp in SQLite's datetime('now') format.
+ *
+ * @param date - Date to format
+ * @returns UTC timestamp (e.g., "2026-01-25 06:55:10")
+ */
+export function toDbTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
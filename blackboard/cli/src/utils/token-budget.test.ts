@@ -0,0 +1,45 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  estimateTokens,
+  fitSections,
+  TRUNCATION_MARKER_TOKENS,
+} from "./token-budget.ts";
+
+Deno.test("estimateTokens - roughly four characters per token", () => {
+  assertEquals(estimateTokens(""), 0);
+  assertEquals(estimateTokens("abcd"), 1);
+  assertEquals(estimateTokens("abcde"), 2);
+});
+
+Deno.test("fitSections - keeps everything when unlimited", () => {
+  const fitted = fitSections([
+    { name: "step", overhead: 5, costs: [100] },
+    { name: "plan", overhead: 5, costs: [1000, 1000] },
+  ], Infinity);
+  assertEquals(fitted.map((s) => s.kept), [1, 2]);
+});
+
+Deno.test("fitSections - earlier sections win, later ones are truncated", () => {
+  const fitted = fitSections([
+    { name: "step", overhead: 5, costs: [50] },
+    { name: "plan", overhead: 5, costs: [40, 40, 40, 40] },
+  ], 55 + 5 + TRUNCATION_MARKER_TOKENS + 80);
+
+  assertEquals(fitted[0], { name: "step", kept: 1, total: 1, tokens: 55 });
+  assertEquals(fitted[1].kept, 2);
+  assertEquals(fitted[1].tokens, 5 + 80 + TRUNCATION_MARKER_TOKENS);
+});
+
+Deno.test("fitSections - omits sections that don't fit and lets smaller ones through", () => {
+  const fitted = fitSections([
+    { name: "plan", overhead: 5, costs: [500] },
+    { name: "bugs", overhead: 5, costs: [10] },
+    { name: "empty", overhead: 5, costs: [] },
+  ], 100);
+
+  assertEquals(fitted.map((s) => [s.name, s.kept, s.tokens]), [
+    ["plan", 0, 0],
+    ["bugs", 1, 15],
+    ["empty", 0, 0],
+  ]);
+});
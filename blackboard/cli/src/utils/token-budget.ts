@@ -0,0 +1,87 @@
+/**
+ * Token budgeting for context packets.
+ * Token counts are estimates (~4 characters per token) - good enough to keep
+ * a prompt within budget without pulling in a tokenizer.
+ */
+
+/** Approximate characters per token for English text and code */
+const CHARS_PER_TOKEN = 4;
+
+/** Tokens reserved for the marker added when a section is cut short */
+export const TRUNCATION_MARKER_TOKENS = 24;
+
+/**
+ * A section competing for space in the budget. Units are kept in order, so
+ * put the most important first (e.g. most recent breadcrumb, first plan line).
+ */
+export interface BudgetSection {
+  name: string;
+  /** Tokens for the section heading/wrapper, only spent if any unit is kept */
+  overhead: number;
+  /** Estimated token cost of each unit */
+  costs: number[];
+}
+
+export interface FittedSection {
+  name: string;
+  /** Number of leading units that fit */
+  kept: number;
+  total: number;
+  /** Tokens spent on this section, including overhead and any truncation marker */
+  tokens: number;
+}
+
+/**
+ * Estimates the number of tokens in a piece of text.
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fits sections into a token budget in priority order. Each section is kept
+ * whole if it fits; otherwise as many leading units as fit alongside a
+ * truncation marker; otherwise it is omitted. Lower-priority sections can
+ * still use whatever space is left.
+ *
+ * @param sections - Sections in priority order (most important first)
+ * @param maxTokens - Total budget (Infinity for no limit)
+ * @returns Fit result for each section, in the same order
+ */
+export function fitSections(sections: BudgetSection[], maxTokens: number): FittedSection[] {
+  let remaining = maxTokens;
+
+  return sections.map((section) => {
+    const total = section.costs.length;
+    const fullCost = section.overhead + section.costs.reduce((sum, cost) => sum + cost, 0);
+
+    if (total === 0) {
+      return { name: section.name, kept: 0, total, tokens: 0 };
+    }
+
+    if (fullCost <= remaining) {
+      remaining -= fullCost;
+      return { name: section.name, kept: total, total, tokens: fullCost };
+    }
+
+    // Keep a prefix of units that fits alongside the truncation marker
+    const available = remaining - section.overhead - TRUNCATION_MARKER_TOKENS;
+    let kept = 0;
+    let used = 0;
+    while (kept < total && used + section.costs[kept] <= available) {
+      used += section.costs[kept];
+      kept++;
+    }
+
+    if (kept === 0) {
+      return { name: section.name, kept: 0, total, tokens: 0 };
+    }
+
+    const tokens = section.overhead + used + TRUNCATION_MARKER_TOKENS;
+    remaining -= tokens;
+    return { name: section.name, kept, total, tokens };
+  });
+}
@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  budgetError,
+  formatBudget,
+  formatCost,
+  formatTokens,
+  formatUsage,
+  remainingBudget,
+  totalTokens,
+} from "./usage.ts";
+
+const counts = {
+  input_tokens: 1200,
+  output_tokens: 800,
+  cache_creation_tokens: 5000,
+  cache_read_tokens: 93000,
+};
+
+Deno.test("totalTokens - includes cache reads and writes", () => {
+  assertEquals(totalTokens(counts), 100000);
+});
+
+Deno.test("formatTokens - compact units", () => {
+  assertEquals(formatTokens(950), "950");
+  assertEquals(formatTokens(12345), "12.3k");
+  assertEquals(formatTokens(100000), "100k");
+  assertEquals(formatTokens(4_100_000), "4.1M");
+});
+
+Deno.test("formatCost - cents, with a floor for tiny amounts", () => {
+  assertEquals(formatCost(0), "$0.00");
+  assertEquals(formatCost(0.004), "<$0.01");
+  assertEquals(formatCost(12.3), "$12.30");
+});
+
+Deno.test("formatUsage - tokens and cost together", () => {
+  assertEquals(formatUsage({ ...counts, cost_usd: 0.42 }), "100k tokens, $0.42");
+});
+
+Deno.test("formatBudget - either limit, both, or neither", () => {
+  assertEquals(formatBudget({ maxCostUsd: 5 }), "$5.00");
+  assertEquals(formatBudget({ maxTokens: 2_000_000 }), "2M tokens");
+  assertEquals(formatBudget({ maxCostUsd: 5, maxTokens: 2_000_000 }), "$5.00 or 2M tokens");
+  assertEquals(formatBudget({}), "unlimited");
+});
+
+Deno.test("remainingBudget - subtracts spend from each limit", () => {
+  assertEquals(
+    remainingBudget({ maxCostUsd: 1, maxTokens: 150000 }, { ...counts, cost_usd: 0.25 }),
+    { maxCostUsd: 0.75, maxTokens: 50000 }
+  );
+  assertEquals(remainingBudget({}, { ...counts, cost_usd: 100 }), {});
+});
+
+Deno.test("remainingBudget - null once either limit is reached", () => {
+  assertEquals(remainingBudget({ maxCostUsd: 0.25 }, { ...counts, cost_usd: 0.25 }), null);
+  assertEquals(remainingBudget({ maxCostUsd: 5, maxTokens: 100000 }, { ...counts, cost_usd: 0 }), null);
+});
+
+Deno.test("budgetError - rejects non-positive limits", () => {
+  assertEquals(budgetError({ maxCostUsd: 2.5, maxTokens: 1000 }), null);
+  assertEquals(budgetError({ maxCostUsd: 0 }), "--max-cost must be greater than 0");
+  assertEquals(budgetError({ maxTokens: 1.5 }), "--max-tokens must be a positive whole number");
+});
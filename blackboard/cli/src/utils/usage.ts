@@ -0,0 +1,99 @@
+/**
+ * Formatting helpers for token and cost figures.
+ */
+
+export interface TokenCounts {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+}
+
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Total tokens processed, including cache reads and writes.
+ */
+export function totalTokens(counts: TokenCounts): number {
+  return counts.input_tokens + counts.output_tokens + counts.cache_creation_tokens + counts.cache_read_tokens;
+}
+
+/**
+ * Formats a token count compactly: 950, 12.3k, 4.1M.
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1).replace(/\.0$/, "")}k`;
+  return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, "")}M`;
+}
+
+/**
+ * Formats a USD cost: $0.42, $12.30, or <$0.01 for tiny non-zero amounts.
+ */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * One-line usage summary, e.g. "1.2M tokens, $3.40".
+ */
+export function formatUsage(totals: TokenCounts & { cost_usd: number }): string {
+  return `${formatTokens(totalTokens(totals))} tokens, ${formatCost(totals.cost_usd)}`;
+}
+
+/**
+ * Describes a budget, e.g. "$5.00", "2M tokens" or "$5.00 or 2M tokens".
+ */
+export function formatBudget(limits: BudgetLimits): string {
+  const parts: string[] = [];
+  if (limits.maxCostUsd !== undefined) parts.push(formatCost(limits.maxCostUsd));
+  if (limits.maxTokens !== undefined) parts.push(`${formatTokens(limits.maxTokens)} tokens`);
+  return parts.length > 0 ? parts.join(" or ") : "unlimited";
+}
+
+/**
+ * Reads budget limits from a row's nullable max_cost_usd / max_tokens columns.
+ */
+export function budgetFromRow(row: { max_cost_usd: number | null; max_tokens: number | null }): BudgetLimits {
+  const limits: BudgetLimits = {};
+  if (row.max_cost_usd !== null) limits.maxCostUsd = row.max_cost_usd;
+  if (row.max_tokens !== null) limits.maxTokens = row.max_tokens;
+  return limits;
+}
+
+/**
+ * Checks that budget limits are positive, returning an error message if not.
+ */
+export function budgetError(limits: BudgetLimits): string | null {
+  if (limits.maxCostUsd !== undefined && !(limits.maxCostUsd > 0)) {
+    return "--max-cost must be greater than 0";
+  }
+  if (limits.maxTokens !== undefined && !(Number.isInteger(limits.maxTokens) && limits.maxTokens > 0)) {
+    return "--max-tokens must be a positive whole number";
+  }
+  return null;
+}
+
+/**
+ * What is left of a budget after some usage. Unlimited dimensions stay
+ * unset; returns null once either limit has been reached.
+ */
+export function remainingBudget(
+  limits: BudgetLimits,
+  spent: TokenCounts & { cost_usd: number }
+): BudgetLimits | null {
+  const remaining: BudgetLimits = {};
+  if (limits.maxCostUsd !== undefined) {
+    remaining.maxCostUsd = limits.maxCostUsd - spent.cost_usd;
+    if (remaining.maxCostUsd <= 0) return null;
+  }
+  if (limits.maxTokens !== undefined) {
+    remaining.maxTokens = limits.maxTokens - totalTokens(spent);
+    if (remaining.maxTokens <= 0) return null;
+  }
+  return remaining;
+}